@@ -1,7 +1,9 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import './App.css';
-import { TerrainType, GeneratorParameters, MapData } from './types/generator';
+import { TerrainType, GeneratorParameters, MapData, MapMarker, MetricRanges, GenerationProgress } from './types/generator';
+import { HouseStory, HOUSE_STORY_LABELS } from './types/enums';
+import { GridConfig, HexOrientation } from './types/map';
 import { PlacedObject, PlacementMode, SpriteSheet, ObjectCategory } from './types/objects';
 import { Workspace } from './types/workspace';
 import { Palette, SpriteCategory, DEFAULT_CATEGORIES } from './types/palette';
@@ -13,15 +15,19 @@ import { CampaignWizard } from './components/CampaignWizard';
 import { WorkspaceView } from './components/WorkspaceView';
 import { PalettePanel } from './components/PalettePanel';
 import { SpriteUploadDialog } from './components/SpriteUploadDialog';
-import { HouseGenerator } from './generators/HouseGenerator';
-import { ForestGenerator } from './generators/ForestGenerator';
-import { CaveGenerator } from './generators/CaveGenerator';
-import { DungeonGenerator } from './generators/DungeonGenerator';
+import { PrintDialog } from './components/PrintDialog';
+import { generationService, GenerationTask, GenerationCancelledError } from './services/generation';
 import { getPresetByName, getPresetsByTerrain } from './utils/presets';
+import { Permalink, PermalinkState } from './utils/permalink';
+import { SeededRandom } from './utils/random';
+import { ChunkedMap } from './utils/chunks';
 import { WorkspaceManager } from './utils/workspaceManager';
+import { ExportUtils } from './utils/export';
+import { MapPopulator } from './utils/populate';
 import { ParsedCampaignData } from './utils/campaignParser';
+import { PrintOptions } from './utils/print';
 import { sliceSpritesheet } from './utils/spriteUtils';
-import { Box, ThemeProvider, createTheme, CssBaseline, Drawer, Tabs, Tab, Typography, Button } from '@mui/material';
+import { Box, ThemeProvider, createTheme, CssBaseline, Drawer, Tabs, Tab, Typography, Button, ButtonGroup } from '@mui/material';
 
 // Create dark theme following Material Design guidelines
 const darkTheme = createTheme({
@@ -42,8 +48,11 @@ const darkTheme = createTheme({
 
 function App() {
   const navigate = useNavigate();
-  const [terrain, setTerrain] = useState<TerrainType>(TerrainType.Dungeon);
-  const [parameters, setParameters] = useState<GeneratorParameters>({
+  // A permalink in the URL (?terrain=...&seed=...) sets up and generates its map on load
+  const permalinkRef = useRef<PermalinkState | undefined>(Permalink.decode(window.location.search));
+  const [terrain, setTerrain] = useState<TerrainType>(permalinkRef.current?.terrain ?? TerrainType.Dungeon);
+  const [presetName, setPresetName] = useState<string | undefined>(permalinkRef.current?.preset);
+  const [parameters, setParameters] = useState<GeneratorParameters>(permalinkRef.current?.parameters ?? {
     width: 80,
     height: 80,
     seed: Date.now(),
@@ -55,10 +64,17 @@ function App() {
     connectivityFactor: 0.15
   });
   const [mapData, setMapData] = useState<MapData | null>(null);
+  const [metricRanges, setMetricRanges] = useState<MetricRanges | undefined>(undefined);
+  const [endless, setEndless] = useState(permalinkRef.current?.endless ?? false);
+  const [chunkedMap, setChunkedMap] = useState<ChunkedMap | null>(null);
+  const [viewFloor, setViewFloor] = useState<HouseStory | undefined>(undefined);
   const [showGrid, setShowGrid] = useState(true);
   const [showRooms, setShowRooms] = useState(true);
   const [showCorridors, setShowCorridors] = useState(true);
   const [showTrees, setShowTrees] = useState(true);
+  const [showProgression, setShowProgression] = useState(false);
+  const [gridType, setGridType] = useState<GridConfig['gridType']>('square');
+  const [hexOrientation, setHexOrientation] = useState<HexOrientation>('pointy');
   const [cellSize, setCellSize] = useState(4);
   
   // Object placement state
@@ -73,6 +89,7 @@ function App() {
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [activeTab, setActiveTab] = useState(0); // 0 = Parameters, 1 = Workspace
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   
   // Pan and zoom state
   const [zoom, setZoom] = useState(1);
@@ -87,43 +104,78 @@ function App() {
   const [palette, setPalette] = useState<Palette | null>(null);
   // const [placedSprites, setPlacedSprites] = useState<PlacedSprite[]>([]);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  const [printDialogOpen, setPrintDialogOpen] = useState(false);
   
   const canvasRef = useRef<MapCanvasRef>(null);
+  const generationTaskRef = useRef<GenerationTask | null>(null);
 
   const generateMap = useCallback(() => {
+    // A new request replaces any generation still running
+    generationTaskRef.current?.cancel();
+
+    // Hex grids also quantise forest and cave output to hex cells; workspace prefabs join the built-in ones
+    const genParams = {
+      ...parameters,
+      ...(gridType === 'hexagonal' ? { hexOrientation } : {}),
+      ...(workspace?.prefabs?.length ? { prefabs: workspace.prefabs } : {})
+    };
+    // Endless maps start from chunk (0, 0); MapCanvas generates the rest as the view pans
+    const world = endless && ChunkedMap.supports(terrain) ? new ChunkedMap(terrain, genParams) : null;
+    const task = world
+      ? generationService.generate(terrain, world.chunkParameters({ cx: 0, cy: 0 }), setGenerationProgress)
+      : generationService.generate(terrain, genParams, setGenerationProgress, metricRanges);
+    generationTaskRef.current = task;
     setIsGenerating(true);
-    try {
-      let generator;
-      
-      switch (terrain) {
-        case TerrainType.House:
-          generator = new HouseGenerator(parameters);
-          break;
-        case TerrainType.Forest:
-          generator = new ForestGenerator(parameters);
-          break;
-        case TerrainType.Cave:
-          generator = new CaveGenerator(parameters);
-          break;
-        case TerrainType.Dungeon:
-          generator = new DungeonGenerator(parameters);
-          break;
-        default:
-          generator = new DungeonGenerator(parameters);
-      }
+    setGenerationProgress(null);
 
-      const generated = generator.generate();
-      setMapData(generated);
-    } finally {
-      setIsGenerating(false);
+    task.promise
+      .then((generated) => {
+        setMapData(world ? world.add({ cx: 0, cy: 0 }, generated) : generated);
+        setChunkedMap(world);
+        setViewFloor(undefined);
+        // Keep the URL a permalink to the map on screen; a retried map links to the seed that was accepted
+        const seed = generated.seed !== SeededRandom.toNumber(genParams.seed ?? 0) ? generated.seed : genParams.seed;
+        const search = Permalink.encode({ terrain, preset: presetName, endless: world !== null, parameters: { ...genParams, seed } });
+        navigate({ search }, { replace: true });
+      })
+      .catch((error) => {
+        if (!(error instanceof GenerationCancelledError)) {
+          console.error('[App] Map generation failed:', error);
+          alert('Map generation failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+        }
+      })
+      .finally(() => {
+        // A permalink is generated once, whether or not it worked; otherwise every parameter change would retry it
+        permalinkRef.current = undefined;
+        // Only the latest task owns the progress state
+        if (generationTaskRef.current === task) {
+          generationTaskRef.current = null;
+          setIsGenerating(false);
+          setGenerationProgress(null);
+        }
+      });
+  }, [terrain, presetName, parameters, gridType, hexOrientation, workspace?.prefabs, metricRanges, endless, navigate]);
+
+  // Generate the map a permalink describes on load (cleared once that generation settles)
+  useEffect(() => {
+    if (permalinkRef.current) {
+      generateMap();
     }
-  }, [terrain, parameters]);
+  }, [generateMap]);
+
+  const cancelGeneration = useCallback(() => {
+    generationTaskRef.current?.cancel();
+  }, []);
+
+  // Stop any running worker when the app unmounts
+  useEffect(() => () => generationTaskRef.current?.cancel(), []);
 
   const handleTerrainChange = (newTerrain: TerrainType) => {
     setTerrain(newTerrain);
     
     // Load default preset for this terrain if available
     const presets = getPresetsByTerrain(newTerrain);
+    setPresetName(presets[0]?.name);
     if (presets.length > 0) {
       setParameters({
         ...presets[0].parameters,
@@ -136,6 +188,7 @@ function App() {
     const preset = getPresetByName(presetName);
     if (preset) {
       setTerrain(preset.terrainType);
+      setPresetName(preset.name);
       setParameters({
         ...preset.parameters,
         seed: Date.now()
@@ -160,18 +213,97 @@ function App() {
     }
   };
 
+  const handleExportSVG = () => {
+    if (mapData) {
+      ExportUtils.exportMapToSVG(
+        mapData,
+        cellSize,
+        {
+          showGrid,
+          showRooms,
+          showCorridors,
+          showTrees,
+          floor: viewFloor,
+          hexLayout: gridType === 'hexagonal' ? hexOrientation : undefined,
+          placedObjects: showObjectLayer ? placedObjects : []
+        },
+        [...spritesheets, ...paletteToSpriteSheets],
+        `map-${terrain}-${mapData.seed}.svg`
+      );
+    }
+  };
+
+  const handleExportVTT = () => {
+    const canvas = canvasRef.current?.getCanvas();
+    if (canvas && mapData) {
+      ExportUtils.exportMapToUniversalVTT(mapData, canvas, `map-${terrain}-${mapData.seed}.dd2vtt`, { floor: viewFloor });
+    }
+  };
+
+  const handleExportFoundry = () => {
+    const canvas = canvasRef.current?.getCanvas();
+    if (canvas && mapData) {
+      ExportUtils.exportFoundryScene(
+        mapData,
+        canvas,
+        { name: `${terrain} ${mapData.seed}`, floor: viewFloor, dmObjects: mapData.dmObjects ?? MapPopulator.populate(mapData), placedObjects },
+        spritesheets,
+        `foundry-${terrain}-${mapData.seed}.zip`
+      ).catch(error => console.error('[App] Foundry export failed:', error));
+    }
+  };
+
+  const handleExportTiled = () => {
+    const canvas = canvasRef.current?.getCanvas();
+    if (canvas && mapData) {
+      ExportUtils.exportMapToTiled(mapData, canvas, placedObjects, spritesheets, `map-${terrain}-${mapData.seed}.zip`)
+        .catch(error => console.error('[App] Tiled export failed:', error));
+    }
+  };
+
+  const handleImportTiled = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.tmj,.json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        try {
+          const imported = await ExportUtils.importMapFromTiled(file);
+          setTerrain(imported.mapData.terrainType ?? TerrainType.Dungeon);
+          setMapData(imported.mapData);
+          setPlacedObjects(imported.placedObjects);
+          setChunkedMap(null);
+          setViewFloor(undefined);
+          console.log('[App] Imported Tiled map:', file.name);
+        } catch (error) {
+          console.error('[App] Failed to import Tiled map:', error);
+          alert('Failed to import Tiled map: ' + (error instanceof Error ? error.message : 'Unknown error'));
+        }
+      }
+    };
+    input.click();
+  };
+
+  const handleExportPDF = (options: PrintOptions) => {
+    const canvas = canvasRef.current;
+    if (canvas && mapData) {
+      ExportUtils.exportMapToPDF(mapData, canvas.renderRegion, options, `map-${terrain}-${mapData.seed}.pdf`, `${terrain} map, seed ${mapData.seed}`);
+    }
+  };
+
+  const handleExportKey = () => {
+    if (mapData) {
+      ExportUtils.exportDungeonKey(mapData, `dungeon-key-${terrain}-${mapData.seed}.html`);
+    }
+  };
+
   // const handleExportJSON = () => {
   //   if (mapData) {
   //     ExportUtils.exportMapToJSON(mapData, `map-${terrain}-${mapData.seed}.json`);
   //   }
   // };
 
-  // const handleExportSVG = () => {
-  //   if (mapData) {
-  //     ExportUtils.exportMapToSVG(mapData, cellSize, `map-${terrain}-${mapData.seed}.svg`);
-  //   }
-  // };
-
   // const handleImportJSON = async (event: React.ChangeEvent<HTMLInputElement>) => {
   //   const file = event.target.files?.[0];
   //   if (file) {
@@ -274,8 +406,8 @@ function App() {
   }, [zoom]);
 
   // Campaign Workspace handlers
-  const handleGenerateWorkspace = useCallback((parsedData: ParsedCampaignData) => {
-    const newWorkspace = WorkspaceManager.createWorkspaceFromCampaign(parsedData);
+  const handleGenerateWorkspace = useCallback((parsedData: ParsedCampaignData, generationSeed?: string) => {
+    const newWorkspace = WorkspaceManager.createWorkspaceFromCampaign(parsedData, generationSeed);
     setWorkspace(newWorkspace);
     WorkspaceManager.saveToLocalStorage(newWorkspace);
     setDrawerOpen(true);
@@ -288,16 +420,25 @@ function App() {
     const map = workspace.maps.find(m => m.id === mapId);
     if (map) {
       setMapData(map.mapData as any);
+      setChunkedMap(null);
+      setViewFloor(undefined);
       // Keep drawer open so user can continue browsing
     }
   }, [workspace]);
 
+  // Overworld markers open the map generated for their POI
+  const handleMarkerClick = useCallback((marker: MapMarker) => {
+    if (marker.mapId) {
+      handleSelectMap(marker.mapId);
+    }
+  }, [handleSelectMap]);
+
   const handleRegenerateMap = useCallback((mapId: string) => {
     if (!workspace) return;
     const map = workspace.maps.find(m => m.id === mapId);
     if (map) {
       // Regenerate the map with a new seed
-      const newSeed = Date.now() + Math.random();
+      const newSeed = Date.now();
       const updatedMapData = { ...map.mapData, seed: newSeed } as any;
       const updatedWorkspace = WorkspaceManager.updateMapInWorkspace(
         workspace,
@@ -344,6 +485,34 @@ function App() {
     input.click();
   }, []);
 
+  const handleImportPrefabs = useCallback(() => {
+    if (!workspace) return;
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        try {
+          const prefabs = await WorkspaceManager.importPrefabsFromFile(file);
+          const updatedWorkspace = WorkspaceManager.addPrefabsToWorkspace(workspace, prefabs);
+          setWorkspace(updatedWorkspace);
+          WorkspaceManager.saveToLocalStorage(updatedWorkspace);
+          console.log('[App] Imported prefabs:', prefabs.map(p => p.id));
+        } catch (error) {
+          console.error('[App] Failed to import prefabs:', error);
+          alert('Failed to import prefabs: ' + (error instanceof Error ? error.message : 'Unknown error'));
+        }
+      }
+    };
+    input.click();
+  }, [workspace]);
+
+  const handleExportPrefabs = useCallback(() => {
+    if (!workspace?.prefabs?.length) return;
+    WorkspaceManager.downloadPrefabs(workspace.prefabs, `${workspace.metadata.name.replace(/\s+/g, '_')}_prefabs.json`);
+  }, [workspace]);
+
   const handleRenameWorkspace = useCallback((newName: string) => {
     if (!workspace) return;
     const updatedWorkspace = {
@@ -752,6 +921,13 @@ function App() {
           showPalette={showPalette}
           onTogglePalette={handleTogglePalette}
           onExport={handleExportPNG}
+          onExportSVG={chunkedMap ? undefined : handleExportSVG}
+          onExportVTT={chunkedMap ? undefined : handleExportVTT}
+          onExportFoundry={chunkedMap ? undefined : handleExportFoundry}
+          onExportTiled={chunkedMap ? undefined : handleExportTiled}
+          onImportTiled={handleImportTiled}
+          onPrint={chunkedMap ? undefined : () => setPrintDialogOpen(true)}
+          onExportKey={mapData?.roomKey?.length ? handleExportKey : undefined}
           disabled={!mapData}
           zoom={zoom}
           onZoomIn={handleZoomIn}
@@ -806,10 +982,24 @@ function App() {
                   onToggleCorridors={() => setShowCorridors(!showCorridors)}
                   showTrees={showTrees}
                   onToggleTrees={() => setShowTrees(!showTrees)}
+                  showProgression={showProgression}
+                  onToggleProgression={() => setShowProgression(!showProgression)}
+                  gridType={gridType}
+                  hexOrientation={hexOrientation}
+                  onGridTypeChange={(type, orientation) => {
+                    setGridType(type);
+                    setHexOrientation(orientation);
+                  }}
                   cellSize={cellSize}
                   onCellSizeChange={setCellSize}
                   mapData={mapData}
+                  metricRanges={metricRanges}
+                  onMetricRangesChange={setMetricRanges}
+                  endless={endless}
+                  onToggleEndless={() => setEndless(!endless)}
                   isGenerating={isGenerating}
+                  generationProgress={generationProgress}
+                  onCancelGeneration={cancelGeneration}
                   onClose={() => setDrawerOpen(false)}
                 />
               </Box>
@@ -826,6 +1016,8 @@ function App() {
                   onRenameWorkspace={handleRenameWorkspace}
                   onClearWorkspace={handleClearWorkspace}
                   onAddMap={handleAddMap}
+                  onImportPrefabs={handleImportPrefabs}
+                  onExportPrefabs={handleExportPrefabs}
                   onClose={handleCloseWorkspace}
                 />
               </Box>
@@ -856,6 +1048,16 @@ function App() {
           onClose={() => setUploadDialogOpen(false)}
           onUpload={handleUploadSpritesheet}
         />
+
+        {mapData && (
+          <PrintDialog
+            open={printDialogOpen}
+            mapWidth={mapData.width}
+            mapHeight={mapData.height}
+            onClose={() => setPrintDialogOpen(false)}
+            onPrint={handleExportPDF}
+          />
+        )}
         
         {/* Main Canvas Area */}
         <Box sx={{ 
@@ -869,8 +1071,28 @@ function App() {
             display: 'flex',
             alignItems: 'center',
             justifyContent: 'center',
+            position: 'relative',
             p: 2
           }}>
+            {/* Floor selector for multi-story houses */}
+            {mapData?.floors && (
+              <ButtonGroup
+                size="small"
+                variant="contained"
+                orientation="vertical"
+                sx={{ position: 'absolute', top: 16, right: 16, zIndex: 10 }}
+              >
+                {[...mapData.floors].reverse().map(f => (
+                  <Button
+                    key={f.story}
+                    color={(viewFloor ?? HouseStory.STORY_1) === f.story ? 'primary' : 'inherit'}
+                    onClick={() => setViewFloor(f.story)}
+                  >
+                    {HOUSE_STORY_LABELS[f.story]}
+                  </Button>
+                ))}
+              </ButtonGroup>
+            )}
             <MapCanvas
               ref={canvasRef}
               mapData={mapData}
@@ -879,6 +1101,10 @@ function App() {
               showRooms={showRooms}
               showCorridors={showCorridors}
               showTrees={showTrees}
+              showProgression={showProgression}
+              floor={viewFloor}
+              gridType={gridType}
+              hexOrientation={hexOrientation}
               showObjects={showObjectLayer}
               placedObjects={placedObjects}
               spritesheets={[...spritesheets, ...paletteToSpriteSheets]}
@@ -886,6 +1112,8 @@ function App() {
               selectedSpriteId={selectedSpriteId}
               onObjectPlace={handleObjectPlace}
               onObjectClick={handleObjectDelete}
+              onMarkerClick={handleMarkerClick}
+              chunkedMap={chunkedMap}
               zoom={zoom}
               panX={panX}
               panY={panY}
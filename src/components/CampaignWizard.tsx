@@ -29,7 +29,7 @@ import { CampaignParser, ParsedCampaignData } from '../utils/campaignParser';
 export interface CampaignWizardProps {
   open: boolean;
   onClose: () => void;
-  onGenerate: (parsedData: ParsedCampaignData) => void;
+  onGenerate: (parsedData: ParsedCampaignData, generationSeed?: string) => void;
 }
 
 export const CampaignWizard: React.FC<CampaignWizardProps> = ({ open, onClose, onGenerate }) => {
@@ -37,6 +37,7 @@ export const CampaignWizard: React.FC<CampaignWizardProps> = ({ open, onClose, o
   const [parsedData, setParsedData] = useState<ParsedCampaignData | null>(null);
   const [isParsing, setIsParsing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [generationSeed, setGenerationSeed] = useState('');
 
   const handleParse = () => {
     if (!campaignText.trim()) {
@@ -62,7 +63,7 @@ export const CampaignWizard: React.FC<CampaignWizardProps> = ({ open, onClose, o
 
   const handleGenerate = () => {
     if (parsedData) {
-      onGenerate(parsedData);
+      onGenerate(parsedData, generationSeed.trim() || undefined);
       handleClose();
     }
   };
@@ -71,6 +72,7 @@ export const CampaignWizard: React.FC<CampaignWizardProps> = ({ open, onClose, o
     setCampaignText('');
     setParsedData(null);
     setError(null);
+    setGenerationSeed('');
     onClose();
   };
 
@@ -310,6 +312,15 @@ Key NPCs:
       </DialogContent>
 
       <DialogActions>
+        {/* The same seed and campaign text always produce the same maps */}
+        <TextField
+          size="small"
+          label="Seed (optional)"
+          placeholder="e.g. blackwood-1"
+          value={generationSeed}
+          onChange={(e) => setGenerationSeed(e.target.value)}
+          sx={{ mr: 'auto', ml: 1 }}
+        />
         <Button onClick={handleClose}>Cancel</Button>
         <Button
           variant="contained"
@@ -29,6 +29,7 @@ import {
 } from '@mui/icons-material';
 import { TerrainType, GeneratorParameters } from '../types/generator';
 import { TerrainSelector } from './TerrainSelector';
+import { SeededRandom } from '../utils/random';
 import { PresetSelector } from './PresetSelector';
 import { ParameterForm } from './ParameterForm';
 
@@ -150,12 +151,9 @@ const ControlDrawer: React.FC<ControlDrawerProps> = ({
             <TextField
               fullWidth
               size="small"
-              type="number"
-              value={parameters.seed}
-              onChange={(e) => onParameterChange({ ...parameters, seed: parseInt(e.target.value) || 0 })}
-              InputProps={{
-                inputProps: { min: 0 }
-              }}
+              value={parameters.seed ?? ''}
+              placeholder="Number or text, e.g. goblin-cave-7"
+              onChange={(e) => onParameterChange({ ...parameters, seed: SeededRandom.parse(e.target.value) })}
             />
             <Tooltip title="Generate random seed">
               <IconButton onClick={onRandomSeed} color="primary">
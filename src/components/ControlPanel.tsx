@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -12,6 +12,9 @@ import {
   Stack,
   Tooltip,
   Paper,
+  MenuItem,
+  LinearProgress,
+  Alert,
 } from '@mui/material';
 import {
   Casino as CasinoIcon,
@@ -20,9 +23,15 @@ import {
   Visibility as VisibilityIcon,
   Info as InfoIcon,
   ChevronLeft as ChevronLeftIcon,
+  Link as LinkIcon,
+  Rule as RuleIcon,
 } from '@mui/icons-material';
-import { TerrainType, GeneratorParameters } from '../types/generator';
+import { TerrainType, GeneratorParameters, GenerationProgress, MapData, MetricKey, MetricRanges } from '../types/generator';
+import { GridConfig, HexOrientation } from '../types/map';
 import { TerrainSelector } from './TerrainSelector';
+import { SeededRandom } from '../utils/random';
+import { MapAnalyzer, METRIC_LABELS, DEFAULT_METRIC_RANGES } from '../utils/analyzer';
+import { ChunkedMap } from '../utils/chunks';
 import { PresetSelector } from './PresetSelector';
 import { ParameterForm } from './ParameterForm';
 
@@ -42,10 +51,21 @@ interface ControlPanelProps {
   onToggleCorridors: () => void;
   showTrees: boolean;
   onToggleTrees: () => void;
+  showProgression: boolean;
+  onToggleProgression: () => void;
+  gridType: GridConfig['gridType'];
+  hexOrientation: HexOrientation;
+  onGridTypeChange: (gridType: GridConfig['gridType'], hexOrientation: HexOrientation) => void;
   cellSize: number;
   onCellSizeChange: (size: number) => void;
   mapData: any;
+  metricRanges?: MetricRanges; // Set when "regenerate until metrics in range" is on
+  onMetricRangesChange: (ranges: MetricRanges | undefined) => void;
+  endless: boolean; // Generate chunks around the first one while panning (caves, dungeons, forests)
+  onToggleEndless: () => void;
   isGenerating: boolean;
+  generationProgress?: GenerationProgress | null;
+  onCancelGeneration?: () => void;
   onClose?: () => void;
 }
 
@@ -69,12 +89,36 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   onToggleCorridors,
   showTrees,
   onToggleTrees,
+  showProgression,
+  onToggleProgression,
+  gridType,
+  hexOrientation,
+  onGridTypeChange,
   cellSize,
   onCellSizeChange,
   mapData,
+  metricRanges,
+  onMetricRangesChange,
+  endless,
+  onToggleEndless,
   isGenerating,
+  generationProgress,
+  onCancelGeneration,
   onClose,
 }) => {
+  // Maps opened from a workspace have no report attached; measure them here
+  const metrics = useMemo(
+    () => (mapData ? (mapData as MapData).analysis?.metrics ?? MapAnalyzer.analyze(mapData) : null),
+    [mapData]
+  );
+  const formatMetric = (key: MetricKey, value: number) =>
+    key === 'reachability' || key === 'floorRatio' ? `${Math.round(value * 100)}%` : `${Math.round(value * 10) / 10}`;
+  const setRange = (key: MetricKey, end: 'min' | 'max', text: string) => {
+    const { [key]: range, ...rest } = metricRanges ?? {};
+    const next = { ...range, [end]: text.trim() === '' ? undefined : Number(text) };
+    onMetricRangesChange(next.min === undefined && next.max === undefined ? rest : { ...rest, [key]: next });
+  };
+
   return (
     <>
       <Box sx={{ display: 'flex', alignItems: 'center', p: 2, justifyContent: 'space-between' }}>
@@ -133,19 +177,73 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <TextField
               fullWidth
               size="small"
-              type="number"
-              value={parameters.seed}
-              onChange={(e) => onParameterChange({ ...parameters, seed: parseInt(e.target.value) || 0 })}
-              InputProps={{
-                inputProps: { min: 0 }
-              }}
+              value={parameters.seed ?? ''}
+              placeholder="Number or text, e.g. goblin-cave-7"
+              onChange={(e) => onParameterChange({ ...parameters, seed: SeededRandom.parse(e.target.value) })}
             />
             <Tooltip title="Generate random seed">
               <IconButton onClick={onRandomSeed} color="primary">
                 <CasinoIcon />
               </IconButton>
             </Tooltip>
+            {/* The URL is kept a permalink to the generated map */}
+            <Tooltip title="Copy permalink">
+              <span>
+                <IconButton onClick={() => navigator.clipboard.writeText(window.location.href)} color="primary" disabled={!mapData}>
+                  <LinkIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
           </Stack>
+          {/* Chunks share seams derived from the seed, so the map can grow in any direction */}
+          {ChunkedMap.supports(terrain) && (
+            <FormControlLabel
+              control={<Checkbox checked={endless} onChange={onToggleEndless} />}
+              label="Endless map (new chunks generate as you pan)"
+              sx={{ mt: 1 }}
+            />
+          )}
+        </Paper>
+
+        {/* Quality Checks */}
+        <Paper elevation={0} sx={{ p: 2, mb: 3, bgcolor: 'background.paper' }}>
+          <Typography variant="subtitle2" sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <RuleIcon fontSize="small" /> Quality Checks
+          </Typography>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={metricRanges !== undefined}
+                onChange={(e) => onMetricRangesChange(e.target.checked ? DEFAULT_METRIC_RANGES : undefined)}
+              />
+            }
+            label="Regenerate until metrics are in range"
+          />
+          {metricRanges && (
+            <Stack spacing={1} sx={{ mt: 1 }}>
+              {(Object.keys(METRIC_LABELS) as MetricKey[]).map(key => (
+                <Stack key={key} direction="row" spacing={1} alignItems="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                    {METRIC_LABELS[key]}
+                  </Typography>
+                  {(['min', 'max'] as const).map(end => (
+                    <TextField
+                      key={end}
+                      size="small"
+                      type="number"
+                      placeholder={end}
+                      value={metricRanges[key]?.[end] ?? ''}
+                      onChange={(e) => setRange(key, end, e.target.value)}
+                      sx={{ width: 80 }}
+                    />
+                  ))}
+                </Stack>
+              ))}
+              <Typography variant="caption" color="text.secondary">
+                Reachability and floor ratio run from 0 to 1
+              </Typography>
+            </Stack>
+          )}
         </Paper>
 
         {/* Display Options */}
@@ -170,8 +268,33 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               control={<Checkbox checked={showTrees} onChange={onToggleTrees} />}
               label="Show Trees"
             />
+            <FormControlLabel
+              control={<Checkbox checked={showProgression} onChange={onToggleProgression} />}
+              label="Show Critical Path"
+            />
           </Stack>
 
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label="Grid Type"
+            sx={{ mt: 2 }}
+            value={gridType === 'hexagonal' ? hexOrientation : 'square'}
+            onChange={(e) => {
+              const value = e.target.value;
+              onGridTypeChange(
+                value === 'square' ? 'square' : 'hexagonal',
+                value === 'flat' ? 'flat' : 'pointy'
+              );
+            }}
+            helperText={gridType === 'hexagonal' ? 'Forests and caves are quantised to hexes on generate' : undefined}
+          >
+            <MenuItem value="square">Square</MenuItem>
+            <MenuItem value="pointy">Hex (pointy-top)</MenuItem>
+            <MenuItem value="flat">Hex (flat-top)</MenuItem>
+          </TextField>
+
           <Box sx={{ mt: 3 }}>
             <Typography variant="body2" gutterBottom>
               Cell Size: {cellSize}px
@@ -220,6 +343,35 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 </Typography>
               )}
             </Stack>
+            {metrics && (
+              <Stack spacing={0.5} sx={{ mt: 2 }}>
+                {(Object.keys(METRIC_LABELS) as MetricKey[]).map(key => (
+                  <Typography key={key} variant="body2" color="text.secondary">
+                    {METRIC_LABELS[key]}: <strong>{formatMetric(key, MapAnalyzer.metricValue(metrics, key))}</strong>
+                  </Typography>
+                ))}
+                {metrics.roomSizes.count > 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    Room sizes: <strong>{metrics.roomSizes.min}–{metrics.roomSizes.max}</strong> cells (median {metrics.roomSizes.median})
+                  </Typography>
+                )}
+                {metrics.unreachableRooms.length > 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    Unreachable rooms: <strong>{metrics.unreachableRooms.length}</strong>
+                  </Typography>
+                )}
+              </Stack>
+            )}
+            {mapData.analysis && mapData.analysis.attempts > 1 && (
+              <Typography variant="caption" color="text.secondary">
+                Accepted after {mapData.analysis.attempts} seeds
+              </Typography>
+            )}
+            {mapData.analysis?.outOfRange.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                {mapData.analysis.outOfRange.join('; ')}
+              </Alert>
+            )}
           </Paper>
         )}
 
@@ -234,6 +386,26 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         >
           {isGenerating ? 'Generating...' : 'Generate Map'}
         </Button>
+
+        {/* Generation progress streamed from the worker */}
+        {isGenerating && (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+              <Typography variant="caption" color="text.secondary" sx={{ textTransform: 'capitalize' }}>
+                {generationProgress ? generationProgress.phase : 'Starting'}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {Math.round((generationProgress?.progress ?? 0) * 100)}%
+              </Typography>
+            </Box>
+            <LinearProgress variant="determinate" value={(generationProgress?.progress ?? 0) * 100} />
+            {onCancelGeneration && (
+              <Button fullWidth size="small" color="inherit" onClick={onCancelGeneration} sx={{ mt: 1 }}>
+                Cancel
+              </Button>
+            )}
+          </Box>
+        )}
       </Box>
     </>
   );
@@ -1,11 +1,20 @@
 // MapCanvas Component with layered rendering, organic edge roughening, and export controls
 // Optimized with React.memo and useMemo for performance
 
-import React, { useRef, useEffect, forwardRef, useImperativeHandle, useState, useCallback } from 'react';
-import { MapData, TerrainType } from '../types/generator';
+import React, { useRef, useEffect, forwardRef, useImperativeHandle, useState, useCallback, useMemo } from 'react';
+import { MapData, MapMarker, TerrainType, TerrainCell, ForestCell, TownCell, Staircase, Door, DoorType } from '../types/generator';
+import { HouseStory } from '../types/enums';
+import { GridConfig, HexOrientation } from '../types/map';
+import { GeneratorRegistry } from '../generators/GeneratorRegistry';
+import { HexUtils } from '../utils/hex';
+import { Grid } from '../utils/grid';
 import { PerlinNoise } from '../utils/noise';
+import { SUBTYPE_THEMES, TERRAIN_COLORS } from '../utils/palette';
 import { PlacedObject, PlacementMode, SpriteSheet } from '../types/objects';
 import { getSpriteById, renderSprite } from '../utils/spritesheet';
+import { DMObject } from '../types/dm';
+import { ChunkedMap } from '../utils/chunks';
+import { generationService, GenerationTask, GenerationCancelledError } from '../services/generation';
 
 interface MapCanvasProps {
   mapData: MapData | null;
@@ -14,6 +23,12 @@ interface MapCanvasProps {
   showRooms?: boolean;
   showCorridors?: boolean;
   showTrees?: boolean;
+  floor?: HouseStory; // Floor of a multi-story house to show (default: ground floor)
+  showSecretDoors?: boolean; // Draw secret doors; when false they render as wall (player view)
+  showProgression?: boolean; // Overlay the entrance, goal room, critical path and dead ends (DM view)
+  dmObjects?: DMObject[]; // Monsters, traps and treasure as category markers; hidden ones are dashed (DM view)
+  gridType?: GridConfig['gridType']; // Overlay and object snapping (hex-quantised maps are always hexagonal)
+  hexOrientation?: HexOrientation;
   // Object placement props
   showObjects?: boolean;
   placedObjects?: PlacedObject[];
@@ -22,6 +37,8 @@ interface MapCanvasProps {
   selectedSpriteId?: string | null;
   onObjectPlace?: (obj: PlacedObject) => void;
   onObjectClick?: (objId: string | null) => void;
+  onMarkerClick?: (marker: MapMarker) => void; // Overworld POI markers, clicked outside placement mode
+  chunkedMap?: ChunkedMap | null; // Endless map: the chunks under the view are generated and drawn while panning
   // Pan and zoom props
   zoom?: number;
   panX?: number;
@@ -34,46 +51,22 @@ export interface MapCanvasRef {
   exportToPNG: () => string;
   resetView: () => void;
   getCanvas: () => HTMLCanvasElement | null;
+  renderRegion: (x: number, y: number, width: number, height: number, cellSize: number) => HTMLCanvasElement | null; // Cells redrawn at any scale, layers flattened (printing)
 }
 
-// Terrain color palette - distinct colors for each element type
-const TERRAIN_COLORS = {
-  // Rooms/Buildings - warm brown tones
-  room: '#8b7355',
-  roomStroke: '#6a5a45',
-  
-  // Corridors - neutral gray
-  corridor: '#6a6a6a',
-  corridorStroke: '#5a5a5a',
-  
-  // Trees - dark forest green
-  tree: '#2d5016',
-  treeStroke: '#1f3810',
-  
-  // Cave walls - very dark blue-black
-  wall: '#1a1a2a',
-  wallEdge: '#2a2a3a',
-  
-  // Cave floors - medium light gray
-  floor: '#6a6a7a',
-  floorVariation: 'rgba(110, 110, 130, 0.4)',
-  
-  // Background colors by terrain type
-  background: {
-    forest: '#e8f5e9',
-    cave: '#1a1a1a',
-    dungeon: '#2a2a2a',
-    house: '#f5f5dc'
-  }
-};
-
 export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
-  mapData,
+  mapData: mapDataProp,
   cellSize = 4,
   showGrid = true,
   showRooms = true,
   showCorridors = true,
   showTrees = true,
+  floor,
+  showSecretDoors = true,
+  showProgression = false,
+  dmObjects,
+  gridType = 'square',
+  hexOrientation = 'pointy',
   showObjects = false,
   placedObjects = [],
   spritesheets = [],
@@ -81,6 +74,8 @@ export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
   selectedSpriteId = null,
   onObjectPlace,
   onObjectClick,
+  onMarkerClick,
+  chunkedMap,
   zoom = 1,
   panX = 0,
   panY = 0,
@@ -101,6 +96,82 @@ export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
   // Memoize to avoid recreation on every render
   const noiseRef = useRef<PerlinNoise>(new PerlinNoise(12345));
 
+  // Chunked maps: the chunks under the view, drawn as one composed map while more generate in workers
+  const [chunkView, setChunkView] = useState<MapData | null>(null);
+  const [loadedChunks, setLoadedChunks] = useState(0);
+  const pendingChunksRef = useRef(new Map<string, GenerationTask>());
+  const chunkWidth = chunkedMap?.parameters.width ?? 0;
+  const chunkHeight = chunkedMap?.parameters.height ?? 0;
+
+  // World cells under the viewport, measured from the centre of chunk (0, 0), as a chunk range key
+  const visibleRange = useMemo(() => {
+    if (!chunkedMap) return '';
+    const viewport = containerRef.current?.parentElement;
+    const halfWidth = (viewport?.clientWidth ?? 1200) / 2 / zoom / cellSize;
+    const halfHeight = (viewport?.clientHeight ?? 800) / 2 / zoom / cellSize;
+    const centreX = chunkWidth / 2 - panX / zoom / cellSize;
+    const centreY = chunkHeight / 2 - panY / zoom / cellSize;
+    // At most 5 x 5 chunks around the centre when zoomed far out
+    const clamp = (value: number, centre: number) => Math.max(centre - 2, Math.min(centre + 2, value));
+    const cx = Math.floor(centreX / chunkWidth);
+    const cy = Math.floor(centreY / chunkHeight);
+    return [
+      clamp(Math.floor((centreX - halfWidth) / chunkWidth), cx),
+      clamp(Math.floor((centreY - halfHeight) / chunkHeight), cy),
+      clamp(Math.floor((centreX + halfWidth) / chunkWidth), cx),
+      clamp(Math.floor((centreY + halfHeight) / chunkHeight), cy)
+    ].join(',');
+  }, [chunkedMap, chunkWidth, chunkHeight, panX, panY, zoom, cellSize]);
+
+  // Cancel chunks still generating when the chunked map goes away
+  useEffect(() => {
+    const pending = pendingChunksRef.current;
+    return () => {
+      pending.forEach(task => task.cancel());
+      pending.clear();
+    };
+  }, [chunkedMap]);
+
+  useEffect(() => {
+    if (!chunkedMap || !visibleRange) {
+      setChunkView(null);
+      return;
+    }
+    const [x0, y0, x1, y1] = visibleRange.split(',').map(Number);
+    const coords = chunkedMap.chunksIn(x0 * chunkWidth, y0 * chunkHeight, (x1 - x0 + 1) * chunkWidth, (y1 - y0 + 1) * chunkHeight);
+    setChunkView(chunkedMap.compose(coords));
+
+    // Two chunks at a time; each one finished re-runs this effect for the next
+    const pending = pendingChunksRef.current;
+    for (const coord of coords) {
+      const key = ChunkedMap.key(coord);
+      if (pending.size >= 2) break;
+      if (chunkedMap.get(coord) || pending.has(key)) continue;
+
+      const task = generationService.generate(chunkedMap.terrainType, chunkedMap.chunkParameters(coord));
+      pending.set(key, task);
+      task.promise
+        .then(generated => {
+          chunkedMap.add(coord, generated);
+          setLoadedChunks(count => count + 1);
+        })
+        .catch(error => {
+          if (!(error instanceof GenerationCancelledError)) {
+            console.error(`[MapCanvas] Chunk (${coord.cx}, ${coord.cy}) failed:`, error);
+          }
+        })
+        .finally(() => {
+          if (pending.get(key) === task) pending.delete(key);
+        });
+    }
+  }, [chunkedMap, chunkWidth, chunkHeight, visibleRange, loadedChunks]);
+
+  // Draw the composed chunks in place of the map itself
+  const mapData = (chunkedMap && chunkView) || mapDataProp;
+
+  // Hex layout in use, if any: hex-quantised maps always render as hexes
+  const hexLayout = mapData?.hexGrid?.orientation ?? (gridType === 'hexagonal' ? hexOrientation : undefined);
+
   // Expose export function and reset view
   useImperativeHandle(ref, () => ({
     exportToPNG: () => {
@@ -113,6 +184,23 @@ export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
     },
     getCanvas: () => {
       return terrainCanvasRef.current;
+    },
+    renderRegion: (x, y, width, height, regionCellSize) => {
+      if (!mapData) return null;
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * regionCellSize);
+      canvas.height = Math.round(height * regionCellSize);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+
+      ctx.translate(-x * regionCellSize, -y * regionCellSize);
+      drawMapLayers(
+        { background: ctx, terrain: ctx, overlay: ctx, objects: showObjects ? ctx : undefined },
+        mapData,
+        regionCellSize,
+        { showGrid, showRooms, showCorridors, showTrees, floor, showSecretDoors, showProgression, dmObjects, hexLayout, placedObjects, spritesheets, noise: noiseRef.current }
+      );
+      return canvas;
     }
   }));
 
@@ -160,62 +248,29 @@ export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
     terrainCtx.clearRect(0, 0, width, height);
     overlayCtx.clearRect(0, 0, width, height);
 
-    // Draw background
-    drawBackground(bgCtx, width, height, mapData.terrainType);
-
-    // Draw grid
-    if (showGrid) {
-      drawGrid(overlayCtx, mapData.width, mapData.height, cellSize);
-    }
-
-    // Draw terrain based on type (pass noise instance for edge roughening)
-    if (mapData.terrainType === TerrainType.Forest) {
-      drawForest(terrainCtx, mapData, cellSize, showTrees, noiseRef.current);
-    } else if (mapData.terrainType === TerrainType.Cave) {
-      drawCave(terrainCtx, mapData, cellSize, noiseRef.current);
-    } else if (mapData.terrainType === TerrainType.House || mapData.terrainType === TerrainType.Dungeon) {
-      drawDungeon(terrainCtx, mapData, cellSize, showRooms, showCorridors, noiseRef.current);
-    }
-
-    // Draw object layer
+    // Object layer
     const objectCanvas = objectCanvasRef.current;
+    let objectCtx: CanvasRenderingContext2D | null = null;
     if (objectCanvas && showObjects && placedObjects.length > 0) {
       objectCanvas.width = width;
       objectCanvas.height = height;
-      const objectCtx = objectCanvas.getContext('2d');
-      
-      if (objectCtx) {
-        objectCtx.clearRect(0, 0, width, height);
-        
-        // Sort by zIndex for proper layering
-        const sortedObjects = [...placedObjects].sort((a, b) => a.zIndex - b.zIndex);
-        
-        for (const obj of sortedObjects) {
-          const result = getSpriteById(obj.spriteId, spritesheets);
-          if (!result) continue;
-          
-          const { sprite, sheet } = result;
-          
-          // Convert grid position to pixel position (center of cell)
-          const pixelX = (obj.gridX + 0.5) * cellSize;
-          const pixelY = (obj.gridY + 0.5) * cellSize;
-          
-          // Scale sprite to fit cell size
-          const scaleX = (cellSize / sprite.width) * obj.scaleX;
-          const scaleY = (cellSize / sprite.height) * obj.scaleY;
-          
-          renderSprite(objectCtx, sprite, sheet, pixelX, pixelY, scaleX, scaleY, obj.rotation);
-        }
-        
-      }
+      objectCtx = objectCanvas.getContext('2d');
+      objectCtx?.clearRect(0, 0, width, height);
     }
 
-  }, [mapData, cellSize, showGrid, showRooms, showCorridors, showTrees, showObjects, placedObjects, spritesheets]);
+    drawMapLayers(
+      { background: bgCtx, terrain: terrainCtx, overlay: overlayCtx, objects: objectCtx ?? undefined },
+      mapData,
+      cellSize,
+      { showGrid, showRooms, showCorridors, showTrees, floor, showSecretDoors, showProgression, dmObjects, hexLayout, placedObjects, spritesheets, noise: noiseRef.current }
+    );
+  }, [mapData, cellSize, showGrid, showRooms, showCorridors, showTrees, floor, showSecretDoors, showProgression, dmObjects, hexLayout, showObjects, placedObjects, spritesheets]);
 
   // Handle canvas clicks for object placement/deletion
   const handleContainerClick = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
-    // Only handle clicks when in placement mode and not dragging
-    if (placementMode === PlacementMode.None || isDragging) return;
+    // Only handle clicks when in placement mode (or on overworld markers) and not dragging
+    const markerClick = placementMode === PlacementMode.None && !!onMarkerClick && !!mapData?.markers;
+    if ((placementMode === PlacementMode.None && !markerClick) || isDragging) return;
     
     console.log('[MapCanvas] Container clicked!', { placementMode, selectedSpriteId, isDragging });
     
@@ -228,18 +283,31 @@ export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
     const rect = stackDiv.getBoundingClientRect();
     const x = (event.clientX - rect.left) / zoom;
     const y = (event.clientY - rect.top) / zoom;
-    const gridX = Math.floor(x / cellSize);
-    const gridY = Math.floor(y / cellSize);
+
+    // Snap to the square cell or hex under the cursor
+    let gridX = Math.floor(x / cellSize);
+    let gridY = Math.floor(y / cellSize);
+    let cols = mapData.width;
+    let rows = mapData.height;
+    if (hexLayout) {
+      const size = HexUtils.sizeForCell(cellSize);
+      ({ col: gridX, row: gridY } = HexUtils.pixelToHex({ x, y }, size, hexLayout));
+      ({ cols, rows } = HexUtils.gridDimensions(mapData.width * cellSize, mapData.height * cellSize, size, hexLayout));
+    }
     
     console.log('[MapCanvas] Click coords:', { x, y, gridX, gridY, cellSize, zoom });
     
     // Boundary check
-    if (gridX < 0 || gridX >= mapData.width || gridY < 0 || gridY >= mapData.height) {
+    if (gridX < 0 || gridX >= cols || gridY < 0 || gridY >= rows) {
       console.log('[MapCanvas] Click outside bounds');
       return;
     }
     
-    if (placementMode === PlacementMode.Place && selectedSpriteId && onObjectPlace) {
+    if (markerClick) {
+      // Markers are drawn about a cell either side of their own
+      const marker = mapData.markers!.find(m => Math.abs(m.x - gridX) <= 1 && Math.abs(m.y - gridY) <= 1);
+      if (marker) onMarkerClick!(marker);
+    } else if (placementMode === PlacementMode.Place && selectedSpriteId && onObjectPlace) {
       // Place new object
       const newObject: PlacedObject = {
         id: `obj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -263,7 +331,7 @@ export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
         console.log(`[MapCanvas] Deleted object at (${gridX}, ${gridY})`);
       }
     }
-  }, [mapData, cellSize, placementMode, selectedSpriteId, onObjectPlace, onObjectClick, placedObjects, isDragging, zoom]);
+  }, [mapData, cellSize, hexLayout, placementMode, selectedSpriteId, onObjectPlace, onObjectClick, onMarkerClick, placedObjects, isDragging, zoom]);
 
   // Mouse wheel zoom handler
   const handleWheel = useCallback((e: React.WheelEvent<HTMLDivElement>) => {
@@ -309,8 +377,11 @@ export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
     );
   }
 
+  // A composed chunk window is shifted so chunk (0, 0) stays put as the window grows in any direction
+  const chunkOffsetX = mapData.chunk && chunkedMap ? zoom * cellSize * (mapData.chunk.cx * chunkWidth + (mapData.width - chunkWidth) / 2) : 0;
+  const chunkOffsetY = mapData.chunk && chunkedMap ? zoom * cellSize * (mapData.chunk.cy * chunkHeight + (mapData.height - chunkHeight) / 2) : 0;
   const transformStyle = {
-    transform: `translate(${panX}px, ${panY}px) scale(${zoom})`,
+    transform: `translate(${panX + chunkOffsetX}px, ${panY + chunkOffsetY}px) scale(${zoom})`,
     transformOrigin: 'center center',
     transition: 'transform 0.1s ease-out'
   };
@@ -462,11 +533,19 @@ export const MapCanvas = React.memo(forwardRef<MapCanvasRef, MapCanvasProps>(({
     prevProps.showRooms === nextProps.showRooms &&
     prevProps.showCorridors === nextProps.showCorridors &&
     prevProps.showTrees === nextProps.showTrees &&
+    prevProps.floor === nextProps.floor &&
+    prevProps.showSecretDoors === nextProps.showSecretDoors &&
+    prevProps.showProgression === nextProps.showProgression &&
+    prevProps.dmObjects === nextProps.dmObjects &&
+    prevProps.gridType === nextProps.gridType &&
+    prevProps.hexOrientation === nextProps.hexOrientation &&
     prevProps.showObjects === nextProps.showObjects &&
     prevProps.placedObjects === nextProps.placedObjects &&
     prevProps.spritesheets === nextProps.spritesheets &&
     prevProps.placementMode === nextProps.placementMode &&
     prevProps.selectedSpriteId === nextProps.selectedSpriteId &&
+    prevProps.onMarkerClick === nextProps.onMarkerClick &&
+    prevProps.chunkedMap === nextProps.chunkedMap &&
     prevProps.zoom === nextProps.zoom &&
     prevProps.panX === nextProps.panX &&
     prevProps.panY === nextProps.panY &&
@@ -479,21 +558,156 @@ MapCanvas.displayName = 'MapCanvas';
 
 // Drawing functions
 
+// Swap in the grid, rooms and corridors of the requested floor (ground floor by default)
+function selectFloor(mapData: MapData, floor?: HouseStory): { view: MapData; stairs: Staircase[] } {
+  const selected = mapData.floors?.find(f => f.story === (floor ?? HouseStory.STORY_1));
+  if (!selected) return { view: mapData, stairs: [] };
+
+  return {
+    view: { ...mapData, grid: selected.grid, rooms: selected.rooms, corridors: selected.corridors, doors: selected.doors },
+    stairs: selected.stairs
+  };
+}
+
+export interface MapLayerOptions {
+  showGrid?: boolean;
+  showRooms?: boolean;
+  showCorridors?: boolean;
+  showTrees?: boolean;
+  floor?: HouseStory;
+  showSecretDoors?: boolean;
+  showProgression?: boolean;
+  dmObjects?: DMObject[];
+  hexLayout?: HexOrientation;
+  placedObjects?: PlacedObject[];
+  spritesheets?: SpriteSheet[];
+  noise: PerlinNoise; // Edge roughening
+}
+
+/**
+ * Draw a map the way MapCanvas shows it. Each layer gets its own context on screen;
+ * pass the same context for every layer to flatten the map (printing)
+ */
+export function drawMapLayers(
+  layers: {
+    background: CanvasRenderingContext2D;
+    terrain: CanvasRenderingContext2D;
+    overlay: CanvasRenderingContext2D;
+    objects?: CanvasRenderingContext2D;
+  },
+  mapData: MapData,
+  cellSize: number,
+  {
+    showGrid = true,
+    showRooms = true,
+    showCorridors = true,
+    showTrees = true,
+    floor,
+    showSecretDoors = true,
+    showProgression = false,
+    dmObjects,
+    hexLayout,
+    placedObjects = [],
+    spritesheets = [],
+    noise
+  }: MapLayerOptions
+) {
+  // Multi-story houses render one floor at a time
+  const { view, stairs } = selectFloor(mapData, floor);
+  const groundFloor = (floor ?? HouseStory.STORY_1) === HouseStory.STORY_1;
+  const width = mapData.width * cellSize;
+  const height = mapData.height * cellSize;
+  const { background: bgCtx, terrain: terrainCtx, overlay: overlayCtx, objects: objectCtx } = layers;
+
+  // Draw background
+  drawBackground(bgCtx, width, height, mapData.terrainType, mapData.subtype);
+
+  // Draw terrain based on type (pass noise instance for edge roughening)
+  const renderTerrain = mapData.terrainType && GeneratorRegistry.get(mapData.terrainType)?.render;
+  if (renderTerrain) {
+    renderTerrain(terrainCtx, mapData, cellSize);
+  } else if (mapData.hexGrid && (mapData.terrainType === TerrainType.Forest || mapData.terrainType === TerrainType.Cave)) {
+    drawHexTerrain(terrainCtx, mapData, cellSize);
+  } else if (mapData.terrainType === TerrainType.Forest) {
+    drawForest(terrainCtx, mapData, cellSize, showTrees, noise);
+  } else if (mapData.terrainType === TerrainType.Cave) {
+    drawCave(terrainCtx, mapData, cellSize, noise);
+  } else if (mapData.terrainType === TerrainType.House || mapData.terrainType === TerrainType.Dungeon) {
+    drawDungeon(terrainCtx, view, cellSize, showRooms, showCorridors, showSecretDoors, noise);
+    drawStairs(terrainCtx, stairs, cellSize);
+  } else if (mapData.terrainType === TerrainType.Town) {
+    drawTown(terrainCtx, mapData, cellSize, showRooms);
+  }
+
+  // Room numbers for the key (ground floor rooms)
+  if (showRooms && mapData.roomKey && groundFloor) {
+    drawRoomNumbers(terrainCtx, mapData, cellSize);
+  }
+
+  // POI features, entry/exit points and (DM only) hidden areas
+  if (mapData.features && groundFloor) {
+    drawFeatures(terrainCtx, mapData, cellSize, showSecretDoors);
+  }
+
+  // Draw grid
+  if (showGrid && hexLayout) {
+    drawHexGrid(overlayCtx, width, height, cellSize, hexLayout);
+  } else if (showGrid) {
+    drawGrid(overlayCtx, mapData.width, mapData.height, cellSize);
+  }
+
+  // The route is worked out on the ground floor only
+  if (showProgression && mapData.progression && groundFloor) {
+    drawProgression(overlayCtx, mapData, cellSize);
+  }
+
+  if (dmObjects && dmObjects.length > 0) {
+    drawDMObjects(overlayCtx, dmObjects, cellSize);
+  }
+
+  // Draw object layer
+  if (objectCtx && placedObjects.length > 0) {
+    // Sort by zIndex for proper layering
+    const sortedObjects = [...placedObjects].sort((a, b) => a.zIndex - b.zIndex);
+
+    for (const obj of sortedObjects) {
+      const result = getSpriteById(obj.spriteId, spritesheets);
+      if (!result) continue;
+
+      const { sprite, sheet } = result;
+
+      // Convert grid position to pixel position (center of cell or hex)
+      const { x: pixelX, y: pixelY } = hexLayout
+        ? HexUtils.hexToPixel({ col: obj.gridX, row: obj.gridY }, HexUtils.sizeForCell(cellSize), hexLayout)
+        : { x: (obj.gridX + 0.5) * cellSize, y: (obj.gridY + 0.5) * cellSize };
+
+      // Scale sprite to fit cell size
+      const scaleX = (cellSize / sprite.width) * obj.scaleX;
+      const scaleY = (cellSize / sprite.height) * obj.scaleY;
+
+      renderSprite(objectCtx, sprite, sheet, pixelX, pixelY, scaleX, scaleY, obj.rotation);
+    }
+  }
+}
+
 function drawBackground(
   ctx: CanvasRenderingContext2D,
   width: number,
   height: number,
-  terrainType?: TerrainType
+  terrainType?: TerrainType,
+  subtype?: string
 ) {
-  // Background color based on terrain - use TERRAIN_COLORS
+  // Background color based on terrain - use TERRAIN_COLORS, subtype theme wins
   const colors: Record<string, string> = {
     [TerrainType.House]: TERRAIN_COLORS.background.house,
     [TerrainType.Forest]: TERRAIN_COLORS.background.forest,
     [TerrainType.Cave]: TERRAIN_COLORS.background.cave,
-    [TerrainType.Dungeon]: TERRAIN_COLORS.background.dungeon
+    [TerrainType.Dungeon]: TERRAIN_COLORS.background.dungeon,
+    [TerrainType.Town]: TERRAIN_COLORS.background.town
   };
 
-  ctx.fillStyle = colors[terrainType || TerrainType.Dungeon] || TERRAIN_COLORS.background.dungeon;
+  const themed = subtype ? SUBTYPE_THEMES[subtype]?.background : undefined;
+  ctx.fillStyle = themed || colors[terrainType || TerrainType.Dungeon] || TERRAIN_COLORS.background.dungeon;
   ctx.fillRect(0, 0, width, height);
 }
 
@@ -521,6 +735,89 @@ function drawGrid(
   }
 }
 
+function drawHexGrid(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  cellSize: number,
+  orientation: HexOrientation
+) {
+  const size = HexUtils.sizeForCell(cellSize);
+  const { cols, rows } = HexUtils.gridDimensions(width, height, size, orientation);
+
+  ctx.strokeStyle = 'rgba(100, 100, 100, 0.2)';
+  ctx.lineWidth = 1;
+
+  // One path for the whole grid; shared edges are simply traced twice
+  ctx.beginPath();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const corners = HexUtils.hexCorners(HexUtils.hexToPixel({ col, row }, size, orientation), size, orientation);
+      ctx.moveTo(corners[0].x, corners[0].y);
+      for (let i = 1; i < corners.length; i++) {
+        ctx.lineTo(corners[i].x, corners[i].y);
+      }
+      ctx.closePath();
+    }
+  }
+  ctx.stroke();
+}
+
+// Hex-quantised forests and caves: one flat-coloured hex per cell
+function drawHexTerrain(
+  ctx: CanvasRenderingContext2D,
+  mapData: MapData,
+  cellSize: number
+) {
+  if (!mapData.hexGrid) return;
+
+  const { orientation, cells } = mapData.hexGrid;
+  const size = HexUtils.sizeForCell(cellSize);
+  const theme = (mapData.subtype && SUBTYPE_THEMES[mapData.subtype]) || {};
+
+  const cellColors: Record<number, string | undefined> = mapData.terrainType === TerrainType.Forest
+    ? {
+        [ForestCell.Tree]: TERRAIN_COLORS.tree,
+        [ForestCell.Path]: '#a59076',
+        [ForestCell.Ruin]: TERRAIN_COLORS.ruin,
+        [ForestCell.Shallows]: TERRAIN_COLORS.water,
+        [ForestCell.DeepWater]: TERRAIN_COLORS.deepWater,
+        [ForestCell.Bank]: TERRAIN_COLORS.bank,
+        [ForestCell.Bridge]: TERRAIN_COLORS.dock
+      }
+    : {
+        [TerrainCell.Floor]: theme.floor || TERRAIN_COLORS.floor,
+        [TerrainCell.Wall]: theme.wall || TERRAIN_COLORS.wall,
+        [TerrainCell.Water]: TERRAIN_COLORS.water,
+        [TerrainCell.Lava]: TERRAIN_COLORS.lava,
+        [TerrainCell.DeepWater]: TERRAIN_COLORS.deepWater,
+        [TerrainCell.Chasm]: TERRAIN_COLORS.chasm,
+        [TerrainCell.Rubble]: TERRAIN_COLORS.rubble
+      };
+
+  console.log(`[drawHexTerrain] Rendering ${cells.width}x${cells.height} ${orientation}-top hexes`);
+
+  ctx.lineWidth = 1;
+  for (let row = 0; row < cells.height; row++) {
+    for (let col = 0; col < cells.width; col++) {
+      const color = cellColors[cells.get(col, row)];
+      if (!color) continue; // Clearings show the background
+
+      const corners = HexUtils.hexCorners(HexUtils.hexToPixel({ col, row }, size, orientation), size, orientation);
+      ctx.beginPath();
+      ctx.moveTo(corners[0].x, corners[0].y);
+      for (let i = 1; i < corners.length; i++) {
+        ctx.lineTo(corners[i].x, corners[i].y);
+      }
+      ctx.closePath();
+      ctx.fillStyle = color;
+      ctx.strokeStyle = color; // Stroke in the fill colour to hide anti-aliasing seams
+      ctx.fill();
+      ctx.stroke();
+    }
+  }
+}
+
 function drawForest(
   ctx: CanvasRenderingContext2D,
   mapData: MapData,
@@ -533,6 +830,25 @@ function drawForest(
   console.log(`[drawForest] Has branches: ${!!mapData.branchPaths}, branch count: ${mapData.branchPaths?.length || 0}`);
   console.log(`[drawForest] Entrance: ${JSON.stringify(mapData.entrance)}, Exit: ${JSON.stringify(mapData.exit)}`);
 
+  // Rivers lie under the paths: muddy banks, shallows at the edges, deep water in the middle
+  const riverColors: Partial<Record<number, string>> = {
+    [ForestCell.Bank]: TERRAIN_COLORS.bank,
+    [ForestCell.Shallows]: TERRAIN_COLORS.water,
+    [ForestCell.DeepWater]: TERRAIN_COLORS.deepWater,
+    [ForestCell.Bridge]: TERRAIN_COLORS.water // Water shows between the planks
+  };
+  if (mapData.rivers && mapData.grid) {
+    for (let y = 0; y < mapData.height; y++) {
+      for (let x = 0; x < mapData.width; x++) {
+        const color = riverColors[mapData.grid.get(x, y)];
+        if (color) {
+          ctx.fillStyle = color;
+          ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+        }
+      }
+    }
+  }
+
   // Step 1: Draw walkable paths (main path + branches)
   const drawPath = (pathPoints: typeof mapData.paths, isDark = false) => {
     if (!pathPoints || pathPoints.length === 0) return;
@@ -580,7 +896,67 @@ function drawForest(
     }
   }
 
+  // Paths are drawn as strokes, so repaint the water they run over and lay the bridge decks on top
+  if (mapData.rivers && mapData.grid) {
+    for (let y = 0; y < mapData.height; y++) {
+      for (let x = 0; x < mapData.width; x++) {
+        const cell = mapData.grid.get(x, y);
+        if (cell === ForestCell.Shallows || cell === ForestCell.DeepWater) {
+          ctx.fillStyle = riverColors[cell]!;
+          ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+        }
+      }
+    }
+
+    for (const river of mapData.rivers) {
+      for (const crossing of river.crossings) {
+        if (crossing.type !== 'bridge') continue;
+        const x1 = (crossing.start.x + 0.5) * cellSize;
+        const y1 = (crossing.start.y + 0.5) * cellSize;
+        const x2 = (crossing.end.x + 0.5) * cellSize;
+        const y2 = (crossing.end.y + 0.5) * cellSize;
+
+        ctx.lineCap = 'butt';
+        ctx.strokeStyle = TERRAIN_COLORS.dock;
+        ctx.lineWidth = crossing.width * cellSize;
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+
+        // Plank seams across the deck
+        const length = Math.hypot(x2 - x1, y2 - y1);
+        const nx = -(y2 - y1) / (length || 1);
+        const ny = (x2 - x1) / (length || 1);
+        const halfDeck = (crossing.width * cellSize) / 2;
+        ctx.strokeStyle = TERRAIN_COLORS.treeStroke;
+        ctx.lineWidth = 1;
+        for (let d = cellSize; d < length; d += cellSize) {
+          const px = x1 + ((x2 - x1) / length) * d;
+          const py = y1 + ((y2 - y1) / length) * d;
+          ctx.beginPath();
+          ctx.moveTo(px - nx * halfDeck, py - ny * halfDeck);
+          ctx.lineTo(px + nx * halfDeck, py + ny * halfDeck);
+          ctx.stroke();
+        }
+      }
+    }
+  }
+
+  // Ruined walls sit under the canopy
+  if (mapData.grid) {
+    ctx.fillStyle = TERRAIN_COLORS.ruin;
+    for (let y = 0; y < mapData.height; y++) {
+      for (let x = 0; x < mapData.width; x++) {
+        if (mapData.grid.get(x, y) === ForestCell.Ruin) {
+          ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+        }
+      }
+    }
+  }
+
   // Step 2: Draw trees (if enabled)
+  const baseHue = (mapData.subtype && SUBTYPE_THEMES[mapData.subtype]?.treeHue) ?? 90;
   if (showTrees && mapData.trees) {
     console.log(`[drawForest] Drawing ${mapData.trees.length} trees in clusters`);
 
@@ -611,9 +987,9 @@ function drawForest(
       const clusterHueShift = (clusterId * 15) % 45; // Shift hue slightly per cluster
       
       // Base tree color (dark forest green)
-      const baseColor = `hsl(${90 + clusterHueShift}, 55%, 20%)`;
-      const midColor = `hsl(${90 + clusterHueShift}, 55%, 28%)`;
-      const highlightColor = `hsl(${90 + clusterHueShift}, 60%, 36%)`;
+      const baseColor = `hsl(${baseHue + clusterHueShift}, 55%, 20%)`;
+      const midColor = `hsl(${baseHue + clusterHueShift}, 55%, 28%)`;
+      const highlightColor = `hsl(${baseHue + clusterHueShift}, 60%, 36%)`;
 
       // Draw tree in 3 layers for depth
       ctx.fillStyle = baseColor;
@@ -705,15 +1081,41 @@ function drawCave(
 
   console.log(`[drawCave] Rendering ${mapData.width}x${mapData.height} cave with cellSize=${cellSize}`);
 
+  const theme = (mapData.subtype && SUBTYPE_THEMES[mapData.subtype]) || {};
+
   for (let y = 0; y < mapData.height; y++) {
     for (let x = 0; x < mapData.width; x++) {
-      const cell = mapData.grid[y][x];
+      const cell = mapData.grid.get(x, y);
       const px = x * cellSize;
       const py = y * cellSize;
 
-      if (cell === 0) {
+      if (cell === TerrainCell.Water || cell === TerrainCell.DeepWater || cell === TerrainCell.Lava) {
+        // Liquids - pools, lakes and lava channels
+        ctx.fillStyle = cell === TerrainCell.Water ? TERRAIN_COLORS.water
+          : cell === TerrainCell.DeepWater ? TERRAIN_COLORS.deepWater
+          : TERRAIN_COLORS.lava;
+        ctx.fillRect(px, py, cellSize, cellSize);
+      } else if (cell === TerrainCell.Chasm) {
+        // Chasm - black drop with a lit lip where it meets the floor
+        ctx.fillStyle = TERRAIN_COLORS.chasm;
+        ctx.fillRect(px, py, cellSize, cellSize);
+        if (hasFloorNeighbor(mapData.grid, x, y)) {
+          ctx.strokeStyle = TERRAIN_COLORS.chasmEdge;
+          ctx.lineWidth = Math.max(1, cellSize / 8);
+          ctx.strokeRect(px, py, cellSize, cellSize);
+        }
+      } else if (cell === TerrainCell.Rubble) {
+        // Rubble - floor strewn with a couple of stones placed by noise
+        ctx.fillStyle = TERRAIN_COLORS.rubble;
+        ctx.fillRect(px, py, cellSize, cellSize);
+        ctx.fillStyle = TERRAIN_COLORS.rubbleStone;
+        const jitter = (noise.noise(x * 1.7, y * 1.7) + 1) / 2;
+        const stone = Math.max(1, cellSize / 4);
+        ctx.fillRect(px + jitter * (cellSize - stone), py + (1 - jitter) * (cellSize - stone), stone, stone);
+        ctx.fillRect(px + (1 - jitter) * (cellSize - stone) / 2, py + cellSize / 2, stone * 0.75, stone * 0.75);
+      } else if (cell === 0) {
         // Open space - cave floor from palette
-        ctx.fillStyle = TERRAIN_COLORS.floor;
+        ctx.fillStyle = theme.floor || TERRAIN_COLORS.floor;
         ctx.fillRect(px, py, cellSize, cellSize);
         
         // Add texture variation to floor
@@ -723,12 +1125,12 @@ function drawCave(
         }
       } else {
         // Wall - dark rock wall from palette
-        ctx.fillStyle = TERRAIN_COLORS.wall;
+        ctx.fillStyle = theme.wall || TERRAIN_COLORS.wall;
         ctx.fillRect(px, py, cellSize, cellSize);
         
         // Add organic edge roughening for walls adjacent to open space
         if (hasFloorNeighbor(mapData.grid, x, y)) {
-          ctx.fillStyle = TERRAIN_COLORS.wallEdge;
+          ctx.fillStyle = theme.wallEdge || TERRAIN_COLORS.wallEdge;
           // Use noise for organic edge variation
           const roughness = noise.octaveNoise(x * 0.3, y * 0.3, 2, 0.5);
           const offset = Math.abs(roughness) * cellSize * 0.4;
@@ -745,6 +1147,7 @@ function drawDungeon(
   cellSize: number,
   showRooms: boolean,
   showCorridors: boolean,
+  showSecretDoors: boolean,
   noise: PerlinNoise
 ) {
   if (!mapData.grid) return;
@@ -752,11 +1155,12 @@ function drawDungeon(
   console.log(`[drawDungeon] Rendering ${mapData.width}x${mapData.height} dungeon with ${mapData.rooms?.length || 0} rooms`);
 
   const isHouse = mapData.terrainType === TerrainType.House;
+  const theme = (mapData.subtype && SUBTYPE_THEMES[mapData.subtype]) || {};
 
   // Draw grid-based terrain (rooms and corridors) with organic edge roughening
   for (let y = 0; y < mapData.height; y++) {
     for (let x = 0; x < mapData.width; x++) {
-      const cell = mapData.grid[y][x];
+      const cell = mapData.grid.get(x, y);
       const px = x * cellSize;
       const py = y * cellSize;
 
@@ -777,10 +1181,10 @@ function drawDungeon(
         if (showRooms || showCorridors) {
           if (isInRoom) {
             // Room floor - use room color from palette
-            ctx.fillStyle = isHouse ? TERRAIN_COLORS.room : '#7a7a7a';
+            ctx.fillStyle = theme.floor || (isHouse ? TERRAIN_COLORS.room : '#7a7a7a');
           } else {
             // Corridor floor - use corridor color from palette
-            ctx.fillStyle = isHouse ? '#c4b498' : TERRAIN_COLORS.corridor;
+            ctx.fillStyle = theme.corridor || (isHouse ? '#c4b498' : TERRAIN_COLORS.corridor);
           }
           ctx.fillRect(px, py, cellSize, cellSize);
           
@@ -792,14 +1196,18 @@ function drawDungeon(
             ctx.fillRect(px, py, cellSize, cellSize);
           }
         }
+      } else if (!isHouse && (cell === TerrainCell.Water || cell === TerrainCell.Lava)) {
+        // Sewer channels and other liquids
+        ctx.fillStyle = cell === TerrainCell.Water ? TERRAIN_COLORS.water : TERRAIN_COLORS.lava;
+        ctx.fillRect(px, py, cellSize, cellSize);
       } else {
         // Wall - darker for strong contrast with organic roughening
-        ctx.fillStyle = isHouse ? TERRAIN_COLORS.roomStroke : TERRAIN_COLORS.wall;
+        ctx.fillStyle = theme.wall || (isHouse ? TERRAIN_COLORS.roomStroke : TERRAIN_COLORS.wall);
         ctx.fillRect(px, py, cellSize, cellSize);
         
         // Add depth and organic variation to walls adjacent to floors
         if (hasFloorNeighbor(mapData.grid, x, y)) {
-          ctx.fillStyle = isHouse ? '#6d5a45' : TERRAIN_COLORS.wallEdge;
+          ctx.fillStyle = theme.wallEdge || (isHouse ? '#6d5a45' : TERRAIN_COLORS.wallEdge);
           // Apply noise-based organic edge roughening
           const roughness = noise.octaveNoise(x * 0.2, y * 0.2, 2, 0.5);
           const offset = Math.abs(roughness) * cellSize * 0.25;
@@ -849,16 +1257,314 @@ function drawDungeon(
       ctx.stroke();
     }
   }
+
+  // Doors go last so hidden secret doors cover the corridor lines
+  if (mapData.doors) {
+    drawDoors(ctx, mapData.doors, cellSize, showSecretDoors, theme.wall || (isHouse ? TERRAIN_COLORS.roomStroke : TERRAIN_COLORS.wall));
+  }
 }
 
-function hasFloorNeighbor(grid: number[][], x: number, y: number): boolean {
+function drawDoors(
+  ctx: CanvasRenderingContext2D,
+  doors: Door[],
+  cellSize: number,
+  showSecretDoors: boolean,
+  wallColor: string
+) {
+  for (const door of doors) {
+    const horizontal = door.orientation === 'horizontal';
+    const px = door.x * cellSize;
+    const py = door.y * cellSize;
+    const w = horizontal ? door.width * cellSize : cellSize;
+    const h = horizontal ? cellSize : door.width * cellSize;
+
+    if (door.type === DoorType.Secret && !showSecretDoors) {
+      // Players just see more wall
+      ctx.fillStyle = wallColor;
+      ctx.fillRect(px, py, w, h);
+      continue;
+    }
+
+    // Door leaf runs along the wall, centred in the opening
+    const thickness = cellSize * 0.35;
+    const leaf = horizontal
+      ? { x: px, y: py + (cellSize - thickness) / 2, w, h: thickness }
+      : { x: px + (cellSize - thickness) / 2, y: py, w: thickness, h };
+
+    ctx.lineWidth = Math.max(1, cellSize / 10);
+    if (door.type === DoorType.Open) {
+      // Doorway: jambs only
+      ctx.fillStyle = TERRAIN_COLORS.doorStroke;
+      const jamb = Math.max(1, cellSize / 6);
+      if (horizontal) {
+        ctx.fillRect(px, leaf.y, jamb, thickness);
+        ctx.fillRect(px + w - jamb, leaf.y, jamb, thickness);
+      } else {
+        ctx.fillRect(leaf.x, py, thickness, jamb);
+        ctx.fillRect(leaf.x, py + h - jamb, thickness, jamb);
+      }
+    } else if (door.type === DoorType.Secret) {
+      // DM view: dashed outline marked with an S
+      ctx.strokeStyle = TERRAIN_COLORS.secretDoor;
+      ctx.setLineDash([Math.max(1, cellSize / 5), Math.max(1, cellSize / 5)]);
+      ctx.strokeRect(leaf.x, leaf.y, leaf.w, leaf.h);
+      ctx.setLineDash([]);
+      ctx.fillStyle = TERRAIN_COLORS.secretDoor;
+      ctx.font = `bold ${Math.max(6, cellSize * 0.7)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('S', px + w / 2, py + h / 2);
+    } else {
+      ctx.fillStyle = TERRAIN_COLORS.door;
+      ctx.strokeStyle = TERRAIN_COLORS.doorStroke;
+      ctx.fillRect(leaf.x, leaf.y, leaf.w, leaf.h);
+      ctx.strokeRect(leaf.x, leaf.y, leaf.w, leaf.h);
+
+      if (door.type === DoorType.Locked) {
+        const lock = Math.max(2, cellSize * 0.3);
+        ctx.fillStyle = TERRAIN_COLORS.doorLock;
+        ctx.fillRect(px + w / 2 - lock / 2, py + h / 2 - lock / 2, lock, lock);
+      }
+    }
+  }
+}
+
+function drawTown(
+  ctx: CanvasRenderingContext2D,
+  mapData: MapData,
+  cellSize: number,
+  showBuildings: boolean
+) {
+  if (!mapData.grid) return;
+
+  console.log(`[drawTown] Rendering ${mapData.width}x${mapData.height} town with ${mapData.buildings?.length || 0} buildings`);
+
+  const cellColors: Record<number, string | undefined> = {
+    [TownCell.Street]: TERRAIN_COLORS.street,
+    [TownCell.Plaza]: TERRAIN_COLORS.plaza,
+    [TownCell.Wall]: TERRAIN_COLORS.townWall,
+    [TownCell.Water]: TERRAIN_COLORS.water,
+    [TownCell.Dock]: TERRAIN_COLORS.dock
+  };
+
+  // Ground is left to the background; everything else is painted per cell
+  for (let y = 0; y < mapData.height; y++) {
+    for (let x = 0; x < mapData.width; x++) {
+      const color = cellColors[mapData.grid.get(x, y)];
+      if (!color) continue;
+      ctx.fillStyle = color;
+      ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+    }
+  }
+
+  if (!showBuildings || !mapData.buildings) return;
+
+  // Roofs drawn as whole rectangles so each building reads as one shape
+  ctx.strokeStyle = TERRAIN_COLORS.roofStroke;
+  ctx.lineWidth = Math.max(1, cellSize / 4);
+  for (const building of mapData.buildings) {
+    const px = building.x * cellSize;
+    const py = building.y * cellSize;
+    const w = building.width * cellSize;
+    const h = building.height * cellSize;
+
+    ctx.fillStyle = TERRAIN_COLORS.roof[building.kind || 'house'] || TERRAIN_COLORS.roof.house;
+    ctx.fillRect(px, py, w, h);
+    ctx.strokeRect(px, py, w, h);
+
+    // Ridge line along the long axis
+    ctx.beginPath();
+    if (w >= h) {
+      ctx.moveTo(px, py + h / 2);
+      ctx.lineTo(px + w, py + h / 2);
+    } else {
+      ctx.moveTo(px + w / 2, py);
+      ctx.lineTo(px + w / 2, py + h);
+    }
+    ctx.stroke();
+  }
+}
+
+function drawStairs(ctx: CanvasRenderingContext2D, stairs: Staircase[], cellSize: number) {
+  for (const stair of stairs) {
+    const px = stair.x * cellSize;
+    const py = stair.y * cellSize;
+
+    ctx.fillStyle = TERRAIN_COLORS.stairs;
+    ctx.fillRect(px, py, cellSize, cellSize);
+
+    // Treads, then an arrow pointing the way the stairs lead
+    ctx.strokeStyle = TERRAIN_COLORS.stairsStroke;
+    ctx.lineWidth = Math.max(1, cellSize / 12);
+    ctx.beginPath();
+    for (let i = 1; i < 4; i++) {
+      ctx.moveTo(px, py + (cellSize * i) / 4);
+      ctx.lineTo(px + cellSize, py + (cellSize * i) / 4);
+    }
+    ctx.stroke();
+
+    const tip = stair.direction === 'up' ? py + cellSize * 0.15 : py + cellSize * 0.85;
+    const base = stair.direction === 'up' ? py + cellSize * 0.55 : py + cellSize * 0.45;
+    ctx.fillStyle = TERRAIN_COLORS.stairsStroke;
+    ctx.beginPath();
+    ctx.moveTo(px + cellSize / 2, tip);
+    ctx.lineTo(px + cellSize * 0.2, base);
+    ctx.lineTo(px + cellSize * 0.8, base);
+    ctx.closePath();
+    ctx.fill();
+  }
+}
+
+// Diamond marker with the feature's initial; entries and exits use the progression colours
+function drawFeatures(ctx: CanvasRenderingContext2D, mapData: MapData, cellSize: number, showHidden: boolean) {
+  const size = Math.max(5, cellSize * 0.9);
+  const colors = {
+    feature: TERRAIN_COLORS.feature,
+    entry: TERRAIN_COLORS.entrance,
+    exit: TERRAIN_COLORS.goal,
+    hidden: TERRAIN_COLORS.hiddenArea
+  };
+  ctx.font = `bold ${Math.round(size)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  for (const feature of mapData.features ?? []) {
+    if (feature.kind === 'hidden' && !showHidden) continue;
+    const cx = (feature.x + 0.5) * cellSize;
+    const cy = (feature.y + 0.5) * cellSize;
+
+    ctx.fillStyle = colors[feature.kind];
+    ctx.beginPath();
+    ctx.moveTo(cx, cy - size);
+    ctx.lineTo(cx + size, cy);
+    ctx.lineTo(cx, cy + size);
+    ctx.lineTo(cx - size, cy);
+    ctx.closePath();
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(feature.kind === 'hidden' ? '?' : feature.type.charAt(0).toUpperCase(), cx, cy + 1);
+  }
+}
+
+// Numbered badge in the middle of each keyed room
+function drawRoomNumbers(ctx: CanvasRenderingContext2D, mapData: MapData, cellSize: number) {
+  const rooms = mapData.rooms ?? [];
+  const radius = Math.max(7, cellSize * 1.2);
+  ctx.font = `bold ${Math.round(radius * 1.1)}px Georgia, serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 1.5;
+
+  for (const entry of mapData.roomKey ?? []) {
+    const room = rooms[entry.room];
+    if (!room) continue;
+    const cx = (room.x + room.width / 2) * cellSize;
+    const cy = (room.y + room.height / 2) * cellSize;
+
+    ctx.fillStyle = TERRAIN_COLORS.roomNumber;
+    ctx.strokeStyle = TERRAIN_COLORS.roomStroke;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = TERRAIN_COLORS.roomStroke;
+    ctx.fillText(String(entry.number), cx, cy + 1);
+  }
+}
+
+// DM objects: circles for monsters and NPCs, triangles for traps, squares for the rest
+function drawDMObjects(ctx: CanvasRenderingContext2D, objects: DMObject[], cellSize: number) {
+  const size = Math.max(4, cellSize * 0.4);
+  ctx.lineWidth = Math.max(1, cellSize / 10);
+
+  for (const obj of objects) {
+    const cx = (obj.x + 0.5) * cellSize;
+    const cy = (obj.y + 0.5) * cellSize;
+    ctx.fillStyle = TERRAIN_COLORS.dmObject[obj.category];
+    ctx.strokeStyle = '#ffffff';
+    ctx.globalAlpha = obj.visibleToPlayers ? 1 : 0.7;
+    ctx.setLineDash(obj.visibleToPlayers ? [] : [size / 2, size / 3]);
+
+    ctx.beginPath();
+    if (obj.category === 'monster' || obj.category === 'npc') {
+      ctx.arc(cx, cy, size, 0, Math.PI * 2);
+    } else if (obj.category === 'trap') {
+      ctx.moveTo(cx, cy - size);
+      ctx.lineTo(cx + size, cy + size);
+      ctx.lineTo(cx - size, cy + size);
+      ctx.closePath();
+    } else {
+      ctx.rect(cx - size, cy - size, size * 2, size * 2);
+    }
+    ctx.fill();
+    ctx.stroke();
+  }
+  ctx.globalAlpha = 1;
+  ctx.setLineDash([]);
+}
+
+// DM overlay: critical path and its rooms, dead ends, entrance and goal markers
+function drawProgression(ctx: CanvasRenderingContext2D, mapData: MapData, cellSize: number) {
+  const progression = mapData.progression!;
+  const rooms = mapData.rooms ?? [];
+  const outlineRoom = (index: number, color: string, dashed: boolean) => {
+    const room = rooms[index];
+    if (!room) return;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = Math.max(2, cellSize / 3);
+    ctx.setLineDash(dashed ? [cellSize, cellSize / 2] : []);
+    ctx.strokeRect(room.x * cellSize, room.y * cellSize, room.width * cellSize, room.height * cellSize);
+  };
+
+  // Optional branches are everything off the critical path; dead ends are called out
+  for (const index of progression.criticalPath) {
+    outlineRoom(index, TERRAIN_COLORS.criticalPath, false);
+  }
+  for (const index of progression.deadEnds) {
+    outlineRoom(index, TERRAIN_COLORS.deadEnd, true);
+  }
+  if (progression.goalRoom !== undefined) {
+    outlineRoom(progression.goalRoom, TERRAIN_COLORS.goal, false);
+  }
+  ctx.setLineDash([]);
+
+  if (mapData.paths && mapData.paths.length > 1) {
+    ctx.strokeStyle = TERRAIN_COLORS.criticalPath;
+    ctx.globalAlpha = 0.8;
+    ctx.lineWidth = Math.max(2, cellSize / 2);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo((mapData.paths[0].x + 0.5) * cellSize, (mapData.paths[0].y + 0.5) * cellSize);
+    for (const point of mapData.paths.slice(1)) {
+      ctx.lineTo((point.x + 0.5) * cellSize, (point.y + 0.5) * cellSize);
+    }
+    ctx.stroke();
+    ctx.globalAlpha = 1;
+  }
+
+  const marker = (point: { x: number; y: number }, color: string, label: string) => {
+    const radius = Math.max(6, cellSize * 1.5);
+    const cx = (point.x + 0.5) * cellSize;
+    const cy = (point.y + 0.5) * cellSize;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${Math.max(6, radius * 0.8)}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, cx, cy);
+  };
+  marker(progression.entrance, TERRAIN_COLORS.entrance, 'IN');
+  marker(progression.goal, TERRAIN_COLORS.goal, '★');
+}
+
+function hasFloorNeighbor(grid: Grid, x: number, y: number): boolean {
   const dirs = [[-1, 0], [1, 0], [0, -1], [0, 1]];
   for (const [dx, dy] of dirs) {
-    const nx = x + dx;
-    const ny = y + dy;
-    if (nx >= 0 && nx < grid[0].length && ny >= 0 && ny < grid.length) {
-      if (grid[ny][nx] === 0) return true;
-    }
+    if (grid.getOr(x + dx, y + dy, -1) === 0) return true;
   }
   return false;
 }
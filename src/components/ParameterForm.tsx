@@ -1,7 +1,14 @@
 // Parameter Form Component with Enhanced UX
 
 import React from 'react';
-import { TerrainType, GeneratorParameters } from '../types/generator';
+import { TerrainType, GeneratorParameters, TerrainSubtype } from '../types/generator';
+import { GeneratorRegistry, MAP_SIZE_PARAMETERS, ParameterSchema } from '../generators';
+import { SeededRandom } from '../utils/random';
+
+// Decimal places shown for a slider value, derived from its step
+const decimalsForStep = (step = 1): number => (step >= 1 ? 0 : step >= 0.1 ? 1 : 2);
+
+const [WIDTH_PARAMETER, HEIGHT_PARAMETER] = MAP_SIZE_PARAMETERS;
 
 interface ParameterFormProps {
   terrain: TerrainType;
@@ -14,13 +21,64 @@ export const ParameterForm: React.FC<ParameterFormProps> = ({
   parameters,
   onParameterChange
 }) => {
-  const handleChange = (key: keyof GeneratorParameters, value: number) => {
+  const definition = GeneratorRegistry.get(terrain);
+  const subtypes = definition?.subtypes ?? [];
+  const schema = definition?.parameters ?? [];
+
+  const handleChange = (key: keyof GeneratorParameters, value: number | boolean) => {
     onParameterChange({
       ...parameters,
       [key]: value
     });
   };
 
+  const handleSubtypeChange = (value: string) => {
+    onParameterChange({
+      ...parameters,
+      subtype: value ? value as TerrainSubtype : undefined,
+      // Clear auto overrides so the new layout's defaults apply
+      ...Object.fromEntries(schema.filter(param => param.auto).map(param => [param.key, undefined]))
+    });
+  };
+
+  const renderParameter = (param: ParameterSchema) => {
+    const current = parameters[param.key];
+
+    if (param.type === 'boolean') {
+      return (
+        <div className="parameter-group" key={param.key}>
+          <label title={param.description}>
+            <input
+              type="checkbox"
+              checked={Boolean(current ?? param.default)}
+              onChange={(e) => handleChange(param.key, e.target.checked)}
+            />
+            {' '}<strong>{param.label}</strong>
+          </label>
+        </div>
+      );
+    }
+
+    const value = (current ?? param.default) as number;
+    const display = current === undefined && param.auto ? 'auto' : value.toFixed(decimalsForStep(param.step));
+    return (
+      <div className="parameter-group" key={param.key}>
+        <label title={param.description}>
+          <strong>{param.label}:</strong> <span className="param-value">{display}</span>
+          <input
+            type="range"
+            min={param.min}
+            max={param.max}
+            step={param.step ?? 1}
+            value={value}
+            onChange={(e) => handleChange(param.key, parseFloat(e.target.value))}
+            className="slider"
+          />
+        </label>
+      </div>
+    );
+  };
+
   const generateRandomSeed = () => {
     const randomSeed = Math.floor(Math.random() * 1000000);
     handleChange('seed', randomSeed);
@@ -36,8 +94,8 @@ export const ParameterForm: React.FC<ParameterFormProps> = ({
           <strong>Width:</strong> <span className="param-value">{parameters.width}</span>
           <input
             type="range"
-            min="30"
-            max="200"
+            min={WIDTH_PARAMETER.min}
+            max={WIDTH_PARAMETER.max}
             value={parameters.width}
             onChange={(e) => handleChange('width', parseInt(e.target.value))}
             className="slider"
@@ -50,8 +108,8 @@ export const ParameterForm: React.FC<ParameterFormProps> = ({
           <strong>Height:</strong> <span className="param-value">{parameters.height}</span>
           <input
             type="range"
-            min="30"
-            max="200"
+            min={HEIGHT_PARAMETER.min}
+            max={HEIGHT_PARAMETER.max}
             value={parameters.height}
             onChange={(e) => handleChange('height', parseInt(e.target.value))}
             className="slider"
@@ -64,9 +122,10 @@ export const ParameterForm: React.FC<ParameterFormProps> = ({
           <strong>Seed:</strong>
           <div style={{ display: 'flex', gap: '8px', marginTop: '4px' }}>
             <input
-              type="number"
-              value={parameters.seed || 0}
-              onChange={(e) => handleChange('seed', parseInt(e.target.value) || 0)}
+              type="text"
+              value={parameters.seed ?? ''}
+              placeholder="Number or text, e.g. goblin-cave-7"
+              onChange={(e) => onParameterChange({ ...parameters, seed: SeededRandom.parse(e.target.value) })}
               style={{
                 flex: 1,
                 padding: '6px',
@@ -95,277 +154,27 @@ export const ParameterForm: React.FC<ParameterFormProps> = ({
         </label>
       </div>
 
-      {/* House/Dungeon parameters */}
-      {(terrain === TerrainType.House || terrain === TerrainType.Dungeon) && (
-        <>
-          <div className="parameter-group">
-            <label title="Minimum room size (width/height in cells)">
-              <strong>Min Room Size:</strong> <span className="param-value">{parameters.minRoomSize}</span>
-              <input
-                type="range"
-                min="3"
-                max="10"
-                value={parameters.minRoomSize || 5}
-                onChange={(e) => handleChange('minRoomSize', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Maximum room size (width/height in cells)">
-              <strong>Max Room Size:</strong> <span className="param-value">{parameters.maxRoomSize}</span>
-              <input
-                type="range"
-                min="6"
-                max="20"
-                value={parameters.maxRoomSize || 10}
-                onChange={(e) => handleChange('maxRoomSize', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Target number of rooms to generate">
-              <strong>Room Count:</strong> <span className="param-value">{parameters.roomCount}</span>
-              <input
-                type="range"
-                min="3"
-                max="20"
-                value={parameters.roomCount || 8}
-                onChange={(e) => handleChange('roomCount', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Width of corridors connecting rooms">
-              <strong>Corridor Width:</strong> <span className="param-value">{parameters.corridorWidth}</span>
-              <input
-                type="range"
-                min="1"
-                max="3"
-                value={parameters.corridorWidth || 1}
-                onChange={(e) => handleChange('corridorWidth', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Grid alignment spacing for rooms">
-              <strong>Grid Size:</strong> <span className="param-value">{parameters.gridSize}</span>
-              <input
-                type="range"
-                min="1"
-                max="8"
-                value={parameters.gridSize || 4}
-                onChange={(e) => handleChange('gridSize', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-        </>
-      )}
-
-      {/* Dungeon-specific */}
-      {terrain === TerrainType.Dungeon && (
-        <>
-          <div className="parameter-group">
-            <label title="Organic variation in room shapes (0 = rectangular, higher = more irregular)">
-              <strong>Organic Factor:</strong> <span className="param-value">{(parameters.organicFactor || 0.3).toFixed(2)}</span>
-              <input
-                type="range"
-                min="0"
-                max="100"
-                value={(parameters.organicFactor || 0.3) * 100}
-                onChange={(e) => handleChange('organicFactor', parseInt(e.target.value) / 100)}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Additional corridor connections beyond minimum spanning tree">
-              <strong>Connectivity:</strong> <span className="param-value">{(parameters.connectivityFactor || 0.15).toFixed(2)}</span>
-              <input
-                type="range"
-                min="0"
-                max="50"
-                value={(parameters.connectivityFactor || 0.15) * 100}
-                onChange={(e) => handleChange('connectivityFactor', parseInt(e.target.value) / 100)}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Corridor straightness (1 = very winding, 10 = straight)">
-              <strong>Corridor Straightness:</strong> <span className="param-value">{parameters.walkSteps || 7}</span>
-              <input
-                type="range"
-                min="1"
-                max="10"
-                value={parameters.walkSteps || 7}
-                onChange={(e) => handleChange('walkSteps', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-        </>
-      )}
-
-      {/* Forest parameters */}
-      {terrain === TerrainType.Forest && (
-        <>
-          <div className="parameter-group">
-            <label title="Number of tree cluster groups across the map">
-              <strong>Number of Clusters:</strong> <span className="param-value">{parameters.numClusters || 'Auto'}</span>
-              <input
-                type="range"
-                min="3"
-                max="30"
-                value={parameters.numClusters || 12}
-                onChange={(e) => handleChange('numClusters', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Average number of trees in each cluster">
-              <strong>Cluster Size:</strong> <span className="param-value">{parameters.clusterSize || 8}</span>
-              <input
-                type="range"
-                min="3"
-                max="20"
-                value={parameters.clusterSize || 8}
-                onChange={(e) => handleChange('clusterSize', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Radius of each tree cluster in grid units">
-              <strong>Cluster Radius:</strong> <span className="param-value">{parameters.clusterRadius || 8}</span>
-              <input
-                type="range"
-                min="4"
-                max="15"
-                value={parameters.clusterRadius || 8}
-                onChange={(e) => handleChange('clusterRadius', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Minimum width of walkable clearings between clusters">
-              <strong>Clearing Size:</strong> <span className="param-value">{parameters.clearingSize || 6}</span>
-              <input
-                type="range"
-                min="3"
-                max="12"
-                value={parameters.clearingSize || 6}
-                onChange={(e) => handleChange('clearingSize', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Minimum distance between tree centers (prevents overlapping)">
-              <strong>Min Tree Distance:</strong> <span className="param-value">{parameters.minTreeDistance || 2}</span>
-              <input
-                type="range"
-                min="1"
-                max="5"
-                value={parameters.minTreeDistance || 2}
-                onChange={(e) => handleChange('minTreeDistance', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Radius of individual tree circles">
-              <strong>Tree Radius:</strong> <span className="param-value">{(parameters.treeRadius || 2.5).toFixed(1)}</span>
-              <input
-                type="range"
-                min="10"
-                max="50"
-                value={(parameters.treeRadius || 2.5) * 10}
-                onChange={(e) => handleChange('treeRadius', parseInt(e.target.value) / 10)}
-                className="slider"
-              />
-            </label>
-          </div>
-        </>
+      {subtypes.length > 0 && (
+        <div className="parameter-group">
+          <label title="Terrain subtype - changes layout features and theme">
+            <strong>Subtype:</strong>
+            <select
+              value={subtypes.includes(parameters.subtype as TerrainSubtype) ? parameters.subtype : ''}
+              onChange={(e) => handleSubtypeChange(e.target.value)}
+            >
+              {!definition?.subtypeRequired && <option value="">default</option>}
+              {subtypes.map((subtype) => (
+                <option key={subtype} value={subtype}>
+                  {subtype.replace(/_/g, ' ')}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
       )}
 
-      {/* Cave parameters */}
-      {terrain === TerrainType.Cave && (
-        <>
-          <div className="parameter-group">
-            <label title="Initial probability of cell being a wall (higher = more walls)">
-              <strong>Fill Probability:</strong> <span className="param-value">{(parameters.fillProbability || 0.45).toFixed(2)}</span>
-              <input
-                type="range"
-                min="30"
-                max="60"
-                value={(parameters.fillProbability || 0.45) * 100}
-                onChange={(e) => handleChange('fillProbability', parseInt(e.target.value) / 100)}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Number of cellular automata smoothing passes">
-              <strong>Smooth Iterations:</strong> <span className="param-value">{parameters.smoothIterations}</span>
-              <input
-                type="range"
-                min="1"
-                max="8"
-                value={parameters.smoothIterations || 4}
-                onChange={(e) => handleChange('smoothIterations', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Minimum neighbor walls to become/stay a wall (4-8 recommended)">
-              <strong>Wall Threshold:</strong> <span className="param-value">{parameters.wallThreshold}</span>
-              <input
-                type="range"
-                min="3"
-                max="7"
-                value={parameters.wallThreshold || 5}
-                onChange={(e) => handleChange('wallThreshold', parseInt(e.target.value))}
-                className="slider"
-              />
-            </label>
-          </div>
-
-          <div className="parameter-group">
-            <label title="Multiplier for cave roughness (0.5 = smooth, 2.0 = very rough)">
-              <strong>Cave Roughness:</strong> <span className="param-value">{(parameters.caveRoughness || 1.0).toFixed(1)}</span>
-              <input
-                type="range"
-                min="5"
-                max="20"
-                value={(parameters.caveRoughness || 1.0) * 10}
-                onChange={(e) => handleChange('caveRoughness', parseInt(e.target.value) / 10)}
-                className="slider"
-              />
-            </label>
-          </div>
-        </>
-      )}
+      {/* Generator parameters from the registry schema */}
+      {schema.map(renderParameter)}
     </div>
   );
 };
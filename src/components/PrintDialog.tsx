@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { Print as PrintIcon } from '@mui/icons-material';
+import { DEFAULT_PRINT_OPTIONS, PaperSize, PrintLayout, PrintOptions, SquareSize } from '../utils/print';
+
+interface PrintDialogProps {
+  open: boolean;
+  mapWidth: number; // Cells
+  mapHeight: number;
+  onClose: () => void;
+  onPrint: (options: PrintOptions) => void;
+}
+
+export const PrintDialog: React.FC<PrintDialogProps> = ({
+  open,
+  mapWidth,
+  mapHeight,
+  onClose,
+  onPrint,
+}) => {
+  const [options, setOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const layout = useMemo(() => PrintLayout.layout(mapWidth, mapHeight, options), [mapWidth, mapHeight, options]);
+
+  const handlePrint = () => {
+    onPrint(options);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <PrintIcon />
+          Print Battle Map (PDF)
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3} sx={{ mt: 1 }}>
+          <Stack direction="row" spacing={2}>
+            <FormControl fullWidth>
+              <InputLabel>Paper</InputLabel>
+              <Select
+                label="Paper"
+                value={options.paper}
+                onChange={(e) => setOptions({ ...options, paper: e.target.value as PaperSize })}
+              >
+                <MenuItem value="letter">Letter</MenuItem>
+                <MenuItem value="a4">A4</MenuItem>
+              </Select>
+            </FormControl>
+            <FormControl fullWidth>
+              <InputLabel>Square</InputLabel>
+              <Select
+                label="Square"
+                value={options.square}
+                onChange={(e) => setOptions({ ...options, square: e.target.value as SquareSize })}
+              >
+                <MenuItem value="inch">1 inch</MenuItem>
+                <MenuItem value="25mm">25 mm</MenuItem>
+              </Select>
+            </FormControl>
+          </Stack>
+
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Resolution (DPI)"
+              type="number"
+              value={options.dpi}
+              onChange={(e) => setOptions({ ...options, dpi: Math.min(300, Math.max(72, parseInt(e.target.value) || 72)) })}
+              InputProps={{ inputProps: { min: 72, max: 300, step: 25 } }}
+              fullWidth
+            />
+            <TextField
+              label="Overlap (squares)"
+              type="number"
+              value={options.overlap}
+              onChange={(e) => setOptions({ ...options, overlap: Math.min(3, Math.max(0, parseInt(e.target.value) || 0)) })}
+              InputProps={{ inputProps: { min: 0, max: 3 } }}
+              fullWidth
+            />
+          </Stack>
+
+          <Typography variant="body2" color="text.secondary">
+            {mapWidth} x {mapHeight} squares on {layout.pages.length} page{layout.pages.length === 1 ? '' : 's'} ({layout.columns} across, {layout.rows} down, {layout.landscape ? 'landscape' : 'portrait'}).
+            Print at 100% scale (no "fit to page").
+          </Typography>
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handlePrint} variant="contained" startIcon={<PrintIcon />}>
+          Export PDF
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { TerrainType } from '../types/generator';
+import { GeneratorRegistry } from '../generators';
 
 interface TerrainSelectorProps {
   selectedTerrain: TerrainType;
@@ -20,9 +21,9 @@ export const TerrainSelector: React.FC<TerrainSelectorProps> = ({
         value={selectedTerrain}
         onChange={(e) => onTerrainChange(e.target.value as TerrainType)}
       >
-        {Object.values(TerrainType).map((terrain) => (
-          <option key={terrain} value={terrain}>
-            {terrain}
+        {GeneratorRegistry.getAll().map((definition) => (
+          <option key={definition.terrainType} value={definition.terrainType}>
+            {definition.name}
           </option>
         ))}
       </select>
@@ -31,6 +31,13 @@ import {
   CenterFocusStrong as ResetViewIcon,
   AutoAwesome as CampaignWizardIcon,
   Save as SaveWorkspaceIcon,
+  MenuBook as DungeonKeyIcon,
+  Casino as VttIcon,
+  Inventory2 as ScenePackageIcon,
+  ViewModule as TiledIcon,
+  DriveFolderUpload as ImportTiledIcon,
+  Print as PrintIcon,
+  Polyline as SvgIcon,
 } from '@mui/icons-material';
 import { PlacementMode } from '../types/objects';
 
@@ -45,6 +52,13 @@ interface TopMenuBarProps {
   showPalette: boolean;
   onTogglePalette: () => void;
   onExport: () => void;
+  onExportKey?: () => void;
+  onExportSVG?: () => void;
+  onExportVTT?: () => void;
+  onExportFoundry?: () => void;
+  onExportTiled?: () => void;
+  onImportTiled?: () => void;
+  onPrint?: () => void;
   disabled?: boolean;
   // Zoom and pan controls
   zoom?: number;
@@ -71,6 +85,13 @@ export const TopMenuBar: React.FC<TopMenuBarProps> = ({
   showPalette,
   onTogglePalette,
   onExport,
+  onExportKey,
+  onExportSVG,
+  onExportVTT,
+  onExportFoundry,
+  onExportTiled,
+  onImportTiled,
+  onPrint,
   disabled = false,
   zoom = 1,
   onZoomIn,
@@ -287,6 +308,96 @@ export const TopMenuBar: React.FC<TopMenuBarProps> = ({
           </Button>
         </Tooltip>
 
+        {onExportSVG && (
+          <Tooltip title="Export Vector Map (SVG, layered)">
+            <IconButton
+              color="inherit"
+              onClick={onExportSVG}
+              disabled={disabled}
+              size="small"
+            >
+              <SvgIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+
+        {onExportVTT && (
+          <Tooltip title="Export for Virtual Tabletop (walls, doors and lights)">
+            <IconButton
+              color="inherit"
+              onClick={onExportVTT}
+              disabled={disabled}
+              size="small"
+            >
+              <VttIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+
+        {onExportFoundry && (
+          <Tooltip title="Export Foundry VTT Scene (zip)">
+            <IconButton
+              color="inherit"
+              onClick={onExportFoundry}
+              disabled={disabled}
+              size="small"
+            >
+              <ScenePackageIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+
+        {onExportTiled && (
+          <Tooltip title="Export Tiled Map (zip)">
+            <IconButton
+              color="inherit"
+              onClick={onExportTiled}
+              disabled={disabled}
+              size="small"
+            >
+              <TiledIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+
+        {onImportTiled && (
+          <Tooltip title="Import Tiled Map (.tmj)">
+            <IconButton
+              color="inherit"
+              onClick={onImportTiled}
+              size="small"
+            >
+              <ImportTiledIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+
+        {onPrint && (
+          <Tooltip title="Print Battle Map (PDF)">
+            <IconButton
+              color="inherit"
+              onClick={onPrint}
+              disabled={disabled}
+              size="small"
+            >
+              <PrintIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+
+        {onExportKey && (
+          <Tooltip title="Print Dungeon Key">
+            <IconButton
+              color="inherit"
+              onClick={onExportKey}
+              disabled={disabled}
+              size="small"
+            >
+              <DungeonKeyIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+
         {/* Start Campaign */}
         {onStartCampaign && (
           <Tooltip title="Start DM Campaign with this workspace">
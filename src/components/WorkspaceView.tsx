@@ -35,6 +35,8 @@ import ClearIcon from '@mui/icons-material/Clear';
 import AddIcon from '@mui/icons-material/Add';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import SelectAllIcon from '@mui/icons-material/SelectAll';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import DownloadIcon from '@mui/icons-material/Download';
 import { Workspace, WorkspaceMap } from '../types/workspace';
 
 export interface WorkspaceViewProps {
@@ -45,6 +47,8 @@ export interface WorkspaceViewProps {
   onRenameWorkspace?: (newName: string) => void;
   onClearWorkspace?: () => void;
   onAddMap?: () => void;
+  onImportPrefabs?: () => void;
+  onExportPrefabs?: () => void;
   onClose?: () => void;
 }
 
@@ -56,6 +60,8 @@ export const WorkspaceView: React.FC<WorkspaceViewProps> = ({
   onRenameWorkspace,
   onClearWorkspace,
   onAddMap,
+  onImportPrefabs,
+  onExportPrefabs,
   onClose
 }) => {
   const [selectedMaps, setSelectedMaps] = useState<string[]>([]);
@@ -173,6 +179,11 @@ export const WorkspaceView: React.FC<WorkspaceViewProps> = ({
         {/* Stats */}
         <Box display="flex" gap={1} flexWrap="wrap" mb={2}>
           <Chip label={`${workspace.maps.length} maps`} size="small" color="primary" variant="outlined" />
+          {workspace.prefabs && workspace.prefabs.length > 0 && (
+            <Tooltip title={workspace.prefabs.map(p => p.name).join(', ')}>
+              <Chip label={`${workspace.prefabs.length} prefabs`} size="small" variant="outlined" />
+            </Tooltip>
+          )}
           <Chip 
             label={`Created ${new Date(workspace.metadata.createdAt).toLocaleDateString()}`} 
             size="small" 
@@ -306,6 +317,11 @@ export const WorkspaceView: React.FC<WorkspaceViewProps> = ({
                         {map.tags.filter(t => t).map((tag, idx) => (
                           <Chip key={idx} label={tag} size="small" variant="outlined" />
                         ))}
+                        {map.unsatisfiedRequirements && map.unsatisfiedRequirements.length > 0 && (
+                          <Tooltip title={map.unsatisfiedRequirements.map(r => `${r.type} ${r.placed}/${r.requested} (${r.importance})`).join(', ')}>
+                            <Chip label={`${map.unsatisfiedRequirements.length} unmet`} size="small" color="warning" variant="outlined" />
+                          </Tooltip>
+                        )}
                       </Box>
                     }
                     secondary={
@@ -346,6 +362,21 @@ export const WorkspaceView: React.FC<WorkspaceViewProps> = ({
             Add Map
           </MenuItem>
         )}
+        {onImportPrefabs && (
+          <MenuItem onClick={() => { onImportPrefabs(); setMenuAnchor(null); }}>
+            <UploadFileIcon sx={{ mr: 1 }} fontSize="small" />
+            Import Prefabs
+          </MenuItem>
+        )}
+        {onExportPrefabs && (
+          <MenuItem
+            onClick={() => { onExportPrefabs(); setMenuAnchor(null); }}
+            disabled={!workspace.prefabs || workspace.prefabs.length === 0}
+          >
+            <DownloadIcon sx={{ mr: 1 }} fontSize="small" />
+            Export Prefabs
+          </MenuItem>
+        )}
         <Divider />
         {onClearWorkspace && (
           <MenuItem onClick={() => { onClearWorkspace(); setMenuAnchor(null); }} sx={{ color: 'error.main' }}>
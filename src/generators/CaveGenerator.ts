@@ -7,29 +7,86 @@
  * 2. Apply cellular automata rules iteratively:
  *    - Cell becomes wall if 4+ neighbors are walls (configurable via wallThreshold)
  *    - Otherwise, cell becomes open space
- * 3. Ensure connectivity by removing isolated regions using flood fill
- * 4. Keep largest connected cave system
+ * 3. Carve subtype features (lake basin, lava tubes, mine shafts) into the rock
+ * 4. Ensure connectivity by removing isolated regions using flood fill
+ * 5. Keep largest connected cave system, then fill lakes/lava and grow crystals
+ * 6. Feature pass: noise scores biased towards low ground and walls pick cells for
+ *    water pools, lava, chasms and rubble, smoothed with cellular automata. Pool
+ *    centres become deep water; impassable features that would cut the cave in two
+ *    are dropped
+ * 7. Pick an entrance on the map edge and trace the critical path to the farthest point
  * 
  * Features:
  * - Organic, natural-looking cave formations
  * - Adjustable roughness via caveRoughness parameter (affects fillProbability)
  * - Guaranteed connectivity (no isolated chambers)
  * - Cellular automata creates realistic cave patterns
+ * - Subtypes: underground_lake adds a central lake, lava_tubes adds long tubes with
+ *   lava channels, mine adds straight shafts, crystal_cave adds crystal formations
  * 
  * Parameters:
  * - fillProbability: Initial chance of wall (0.0-1.0). Higher = more walls, rougher caves
  * - caveRoughness: Multiplier for fillProbability (0.5-2.0). Higher = rougher caves
  * - smoothIterations: Number of CA iterations (1-10). More = smoother caves
  * - wallThreshold: Neighbors needed to become wall (3-6). Default 4 creates balanced caves
+ * - waterCoverage / lavaCoverage / chasmCoverage / rubbleCoverage: Share of floor (0.0-0.3)
+ *   given to each feature. Default depends on subtype
+ * - lowPointBias: How strongly features gather in low ground (0.0-1.0). Default 0.6
+ * - wallBias: How strongly features gather along walls (0.0-1.0). Default 0.3
+ * - subtype: CaveSubtype. Default natural cavern
+ * - hexOrientation: 'pointy' | 'flat'. Also return the cave quantised to hex cells
  */
 
 import { MapGenerator } from './MapGenerator';
-import { MapData, TerrainType } from '../types/generator';
+import { GeneratorRegistry } from './GeneratorRegistry';
+import { MapData, PathPoint, TerrainCell, TerrainType, GeneratorParameters, IMPASSABLE_CELLS } from '../types/generator';
+import { CaveSubtype } from '../types/enums';
+import { Grid } from '../utils/grid';
+import { PerlinNoise } from '../utils/noise';
+
+interface Lake {
+  x: number;
+  y: number;
+  radius: number;
+  phases: [number, number];
+}
+
+interface CaveFeatures {
+  water: number;
+  lava: number;
+  chasm: number;
+  rubble: number;
+}
+
+// Per-subtype feature coverage; explicit parameters always win
+const SUBTYPE_FEATURES: Record<CaveSubtype, CaveFeatures> = {
+  [CaveSubtype.NATURAL_CAVERN]: { water: 0.04, lava: 0, chasm: 0.01, rubble: 0.03 },
+  [CaveSubtype.CRYSTAL_CAVE]: { water: 0.02, lava: 0, chasm: 0.03, rubble: 0.02 },
+  [CaveSubtype.LAVA_TUBES]: { water: 0, lava: 0.03, chasm: 0.01, rubble: 0.04 },
+  [CaveSubtype.UNDERGROUND_LAKE]: { water: 0.05, lava: 0, chasm: 0, rubble: 0.02 },
+  [CaveSubtype.MINE]: { water: 0.01, lava: 0, chasm: 0.02, rubble: 0.06 }
+};
+
+// What a feature turns into when placing it would cut the cave in two
+const PASSABLE_FALLBACK: Record<number, TerrainCell> = {
+  [TerrainCell.DeepWater]: TerrainCell.Water,
+  [TerrainCell.Lava]: TerrainCell.Floor,
+  [TerrainCell.Chasm]: TerrainCell.Rubble
+};
 
 export class CaveGenerator extends MapGenerator<MapData, number> {
+  private noise: PerlinNoise;
+
+  constructor(parameters: GeneratorParameters) {
+    super(parameters);
+    this.noise = new PerlinNoise(this.seed);
+  }
+
   generate(): MapData {
     console.log('[CaveGenerator] Starting cave generation');
     
+    const subtype = this.getSubtype(CaveSubtype);
+
     // Get parameters with defaults
     const baseFillProbability = this.getParam('fillProbability', 0.45);
     const caveRoughness = this.getParam('caveRoughness', 1.0);
@@ -49,16 +106,51 @@ export class CaveGenerator extends MapGenerator<MapData, number> {
 
     // Step 2: Apply cellular automata rules for specified iterations
     for (let iteration = 0; iteration < smoothIterations; iteration++) {
+      this.reportProgress('smoothing', 0.1 + 0.5 * (iteration / smoothIterations));
       grid = this.applyCellularAutomata(grid, wallThreshold);
       console.log(`[CaveGenerator] Completed iteration ${iteration + 1}/${smoothIterations}`);
     }
 
-    // Step 3: Ensure connectivity by removing isolated regions
+    // Step 3: Carve subtype features while the rock is still being shaped
+    let lake: Lake | undefined;
+    let lavaChannels: PathPoint[][] = [];
+    if (subtype === CaveSubtype.UNDERGROUND_LAKE) {
+      lake = this.carveLakeBasin(grid);
+    } else if (subtype === CaveSubtype.LAVA_TUBES) {
+      lavaChannels = this.carveLavaTubes(grid);
+    } else if (subtype === CaveSubtype.MINE) {
+      this.carveMineShafts(grid);
+    }
+
+    // Step 4: Ensure connectivity by removing isolated regions
+    this.reportProgress('connectivity', 0.7);
     grid = this.ensureConnectivity(grid);
     console.log('[CaveGenerator] Ensured connectivity - removed isolated regions');
 
+    // Step 5: Liquids and formations go in last so connectivity only sees floor and wall
+    this.reportProgress('placement', 0.9);
+    if (lake) {
+      this.fillLake(grid, lake);
+    }
+    for (const channel of lavaChannels) {
+      this.fillLavaChannel(grid, channel);
+    }
+
+    // Step 6: Pools, deep water, lava, chasms and rubble
+    const defaults = SUBTYPE_FEATURES[subtype ?? CaveSubtype.NATURAL_CAVERN];
+    this.placeFeatures(grid, {
+      water: this.getParam('waterCoverage', defaults.water),
+      lava: this.getParam('lavaCoverage', defaults.lava),
+      chasm: this.getParam('chasmCoverage', defaults.chasm),
+      rubble: this.getParam('rubbleCoverage', defaults.rubble)
+    });
+
+    if (subtype === CaveSubtype.CRYSTAL_CAVE) {
+      this.growCrystals(grid);
+    }
+
     // Count final open spaces
-    const openSpaces = grid.flat().filter(cell => cell === 0).length;
+    const openSpaces = grid.cells.length - grid.count(TerrainCell.Wall);
     const totalCells = this.width * this.height;
     console.log(`[CaveGenerator] Final cave: ${openSpaces}/${totalCells} open spaces (${((openSpaces/totalCells)*100).toFixed(1)}%)`);
 
@@ -66,26 +158,344 @@ export class CaveGenerator extends MapGenerator<MapData, number> {
       width: this.width,
       height: this.height,
       grid,
+      ...this.analyzeProgression(grid, [], cell => !IMPASSABLE_CELLS.has(cell)),
       seed: this.seed,
-      terrainType: TerrainType.Cave
+      terrainType: TerrainType.Cave,
+      subtype,
+      hexGrid: this.quantizeToHex(grid)
+    };
+  }
+
+  /**
+   * Open a roughly circular basin in the middle of the cave for the lake
+   * The basin is two cells wider than the water so a shore remains walkable
+   */
+  private carveLakeBasin(grid: Grid): Lake {
+    const lake: Lake = {
+      x: Math.floor(this.width / 2) + this.random.nextInt(-3, 3),
+      y: Math.floor(this.height / 2) + this.random.nextInt(-3, 3),
+      radius: Math.max(3, Math.floor(Math.min(this.width, this.height) / 6)),
+      phases: [this.random.nextFloat(0, Math.PI * 2), this.random.nextFloat(0, Math.PI * 2)]
     };
+
+    const reach = lake.radius + 4;
+    for (let y = lake.y - reach; y <= lake.y + reach; y++) {
+      for (let x = lake.x - reach; x <= lake.x + reach; x++) {
+        if (!this.isInterior(x, y)) continue;
+        if (this.lakeDistance(lake, x, y) <= lake.radius + 2) {
+          grid.set(x, y, TerrainCell.Floor);
+        }
+      }
+    }
+
+    console.log(`[CaveGenerator] Carved lake basin at (${lake.x}, ${lake.y}) radius ${lake.radius}`);
+    return lake;
+  }
+
+  /**
+   * Flood the inner part of the basin with water
+   */
+  private fillLake(grid: Grid, lake: Lake): void {
+    const reach = lake.radius + 2;
+    for (let y = lake.y - reach; y <= lake.y + reach; y++) {
+      for (let x = lake.x - reach; x <= lake.x + reach; x++) {
+        if (!this.isInterior(x, y) || grid.get(x, y) !== TerrainCell.Floor) continue;
+        if (this.lakeDistance(lake, x, y) <= lake.radius) {
+          grid.set(x, y, TerrainCell.Water);
+        }
+      }
+    }
+  }
+
+  /**
+   * Distance from the lake centre, scaled so the shoreline wobbles with angle
+   */
+  private lakeDistance(lake: Lake, x: number, y: number): number {
+    const dx = x - lake.x;
+    const dy = y - lake.y;
+    const angle = Math.atan2(dy, dx);
+    const wobble = 1.5 * Math.sin(angle * 3 + lake.phases[0]) + Math.sin(angle * 5 + lake.phases[1]);
+    return Math.sqrt(dx * dx + dy * dy) - wobble;
+  }
+
+  /**
+   * Carve long meandering tubes across the map
+   * Returns the centre line of each tube for the lava channel
+   */
+  private carveLavaTubes(grid: Grid): PathPoint[][] {
+    const tubeCount = this.height >= 80 ? 2 : 1;
+    const tubeRadius = 2;
+    const channels: PathPoint[][] = [];
+
+    for (let i = 0; i < tubeCount; i++) {
+      const baseY = Math.floor(this.height * (i + 1) / (tubeCount + 1)) + this.random.nextInt(-4, 4);
+      const amplitude = this.random.nextFloat(2, 6);
+      const frequency = this.random.nextFloat(0.04, 0.09);
+      const phase = this.random.nextFloat(0, Math.PI * 2);
+      const channel: PathPoint[] = [];
+
+      for (let x = 1; x < this.width - 1; x++) {
+        const centreY = Math.round(baseY + Math.sin(x * frequency + phase) * amplitude);
+        for (let y = centreY - tubeRadius; y <= centreY + tubeRadius; y++) {
+          if (this.isInterior(x, y)) {
+            grid.set(x, y, TerrainCell.Floor);
+          }
+        }
+        channel.push({ x, y: centreY });
+      }
+
+      channels.push(channel);
+    }
+
+    console.log(`[CaveGenerator] Carved ${tubeCount} lava tubes`);
+    return channels;
+  }
+
+  /**
+   * Run lava down the middle of a tube
+   * The ends stay dry so the tube banks remain reachable from each other
+   */
+  private fillLavaChannel(grid: Grid, channel: PathPoint[]): void {
+    const start = Math.floor(channel.length * 0.15);
+    const end = Math.ceil(channel.length * 0.85);
+
+    for (let i = start; i < end; i++) {
+      const { x, y } = channel[i];
+      if (this.isInterior(x, y) && grid.get(x, y) === TerrainCell.Floor) {
+        grid.set(x, y, TerrainCell.Lava);
+      }
+    }
+  }
+
+  /**
+   * Second pass over the finished cave: each feature claims the best-scoring floor
+   * cells up to its coverage, then cellular automata round the claims into pools
+   */
+  private placeFeatures(grid: Grid, coverage: CaveFeatures): void {
+    const lowPointBias = this.getParam('lowPointBias', 0.6);
+    const wallBias = this.getParam('wallBias', 0.3);
+    const floorCells = grid.count(TerrainCell.Floor);
+    const walkable = (cell: number) => !IMPASSABLE_CELLS.has(cell);
+    const regionsBefore = grid.regions(walkable).length;
+
+    // Shared placement bias: low ground from a broad height field, wall proximity from a 5x5 window
+    const height = this.normalize(this.sampleNoise(0.05, 0));
+    const bias = new Float32Array(grid.cells.length);
+    for (let y = 1; y < this.height - 1; y++) {
+      for (let x = 1; x < this.width - 1; x++) {
+        const index = grid.index(x, y);
+        if (grid.cells[index] !== TerrainCell.Floor) continue;
+        bias[index] = lowPointBias * (1 - height[index]) + wallBias * this.wallProximity(grid, x, y);
+      }
+    }
+
+    // Impassable cells are kept on a separate layer until the connectivity check
+    const blocking = this.createEmptyGrid();
+    const features: [TerrainCell, number][] = [
+      [TerrainCell.Chasm, coverage.chasm],
+      [TerrainCell.Lava, coverage.lava],
+      [TerrainCell.Water, coverage.water],
+      [TerrainCell.Rubble, coverage.rubble]
+    ];
+
+    features.forEach(([cell, share], layer) => {
+      const target = Math.round(floorCells * share);
+      if (target <= 0) return;
+
+      const mask = this.claimCells(grid, blocking, bias, target, 100 * (layer + 1));
+      for (let index = 0; index < mask.length; index++) {
+        if (!mask[index]) continue;
+        if (IMPASSABLE_CELLS.has(cell)) {
+          blocking.cells[index] = cell;
+        } else {
+          grid.cells[index] = cell;
+        }
+      }
+      console.log(`[CaveGenerator] Placed ${TerrainCell[cell]} on ${mask.reduce((sum, flag) => sum + flag, 0)} cells`);
+    });
+
+    // Pool (and lake) centres, with all 8 neighbours water, become deep water
+    for (let y = 1; y < this.height - 1; y++) {
+      for (let x = 1; x < this.width - 1; x++) {
+        if (grid.get(x, y) === TerrainCell.Water && this.countNeighbors(grid, x, y, TerrainCell.Water) === 8) {
+          blocking.set(x, y, TerrainCell.DeepWater);
+        }
+      }
+    }
+
+    // Add impassable features one blob at a time, keeping only those that leave the cave connected
+    let dropped = 0;
+    for (const blob of blocking.regions(cell => cell !== 0)) {
+      const previous = blob.map(index => grid.cells[index]);
+      for (const index of blob) {
+        grid.cells[index] = blocking.cells[index];
+      }
+      if (grid.regions(walkable).length > regionsBefore) {
+        blob.forEach((index, i) => {
+          grid.cells[index] = PASSABLE_FALLBACK[blocking.cells[index]] ?? previous[i];
+        });
+        dropped++;
+      }
+    }
+    if (dropped > 0) {
+      console.log(`[CaveGenerator] Made ${dropped} features passable to keep the cave connected`);
+    }
+  }
+
+  /**
+   * Pick the target number of free floor cells with the highest noise + bias score,
+   * then smooth the picks with two cellular automata passes
+   */
+  private claimCells(grid: Grid, blocking: Grid, bias: Float32Array, target: number, offset: number): Uint8Array {
+    const scores = this.normalize(this.sampleNoise(0.12, offset));
+    const isFree = (index: number) => grid.cells[index] === TerrainCell.Floor && blocking.cells[index] === 0;
+
+    const candidates: number[] = [];
+    for (let index = 0; index < grid.cells.length; index++) {
+      if (isFree(index)) candidates.push(index);
+    }
+    candidates.sort((a, b) => (scores[b] + bias[b]) - (scores[a] + bias[a]));
+
+    let mask = new Uint8Array(grid.cells.length);
+    for (const index of candidates.slice(0, target)) {
+      mask[index] = 1;
+    }
+
+    for (let pass = 0; pass < 2; pass++) {
+      const next = new Uint8Array(mask.length);
+      for (let y = 1; y < this.height - 1; y++) {
+        for (let x = 1; x < this.width - 1; x++) {
+          const index = grid.index(x, y);
+          if (!isFree(index)) continue;
+          let claimed = 0;
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              if ((dx || dy) && mask[index + dy * this.width + dx]) claimed++;
+            }
+          }
+          next[index] = claimed >= 5 || (mask[index] && claimed >= 2) ? 1 : 0;
+        }
+      }
+      mask = next;
+    }
+
+    return mask;
+  }
+
+  /**
+   * Share of walls within two cells, 0 (open hall) to 1 (dead end)
+   */
+  private wallProximity(grid: Grid, x: number, y: number): number {
+    let walls = 0;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        if ((dx || dy) && grid.getOr(x + dx, y + dy, TerrainCell.Wall) === TerrainCell.Wall) walls++;
+      }
+    }
+    return walls / 24;
+  }
+
+  private sampleNoise(scale: number, offset: number): Float32Array {
+    const values = new Float32Array(this.width * this.height);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        values[y * this.width + x] = this.noise.octaveNoise((x + offset) * scale, (y + offset) * scale, 3, 0.5);
+      }
+    }
+    return values;
+  }
+
+  // Rescale values to 0-1
+  private normalize(values: Float32Array): Float32Array {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+      min = Math.min(min, values[i]);
+      max = Math.max(max, values[i]);
+    }
+    const range = max - min || 1;
+    return values.map(value => (value - min) / range);
+  }
+
+  /**
+   * Cut a straight main adit with vertical shafts and small chambers where they cross
+   */
+  private carveMineShafts(grid: Grid): void {
+    const aditY = Math.floor(this.height / 2) + this.random.nextInt(-5, 5);
+    const shaftCount = 2 + this.random.nextInt(0, 2);
+    const spacing = Math.floor(this.width / (shaftCount + 1));
+
+    // Main adit runs the full width, two cells wide
+    this.carveRect(grid, 1, aditY, this.width - 2, 2);
+
+    for (let i = 1; i <= shaftCount; i++) {
+      const shaftX = spacing * i + this.random.nextInt(-3, 3);
+      const top = this.random.nextInt(2, Math.floor(this.height * 0.25));
+      const bottom = this.height - this.random.nextInt(2, Math.floor(this.height * 0.25));
+
+      this.carveRect(grid, shaftX, top, 2, bottom - top);
+
+      // Working chamber at the junction
+      this.carveRect(grid, shaftX - 2, aditY - 2, 6, 6);
+    }
+
+    console.log(`[CaveGenerator] Carved mine adit at y=${aditY} with ${shaftCount} shafts`);
+  }
+
+  /**
+   * Scatter single-cell crystal formations across open floor
+   * Only cells fully surrounded by floor are used, so no passage is ever blocked
+   */
+  private growCrystals(grid: Grid): void {
+    const openCells = grid.count(TerrainCell.Floor);
+    const target = Math.floor(openCells * 0.01);
+    let placed = 0;
+
+    for (let attempt = 0; attempt < target * 10 && placed < target; attempt++) {
+      const x = this.random.nextInt(2, this.width - 3);
+      const y = this.random.nextInt(2, this.height - 3);
+      if (grid.get(x, y) !== TerrainCell.Floor) continue;
+      if (this.countNeighbors(grid, x, y, TerrainCell.Floor) < 8) continue;
+
+      grid.set(x, y, TerrainCell.Wall);
+      placed++;
+    }
+
+    console.log(`[CaveGenerator] Grew ${placed} crystal formations`);
+  }
+
+  /**
+   * Carve a rectangle of floor, clipped to the interior (edges stay walls)
+   */
+  private carveRect(grid: Grid, x: number, y: number, width: number, height: number): void {
+    // Clip to the interior so the outer ring stays wall
+    const x0 = Math.max(1, x);
+    const y0 = Math.max(1, y);
+    grid.fillRect(x0, y0, Math.min(x + width, this.width - 1) - x0, Math.min(y + height, this.height - 1) - y0, TerrainCell.Floor);
+  }
+
+  /**
+   * Check that a cell is inside the map and not on the outer wall ring
+   */
+  private isInterior(x: number, y: number): boolean {
+    return x > 0 && x < this.width - 1 && y > 0 && y < this.height - 1;
   }
 
   /**
    * Initialize grid with random walls based on fillProbability
    * Edges are always walls to create contained cave systems
    */
-  private initializeGrid(fillProbability: number): number[][] {
+  private initializeGrid(fillProbability: number): Grid {
     const grid = this.createEmptyGrid(0);
     
     for (let y = 0; y < this.height; y++) {
       for (let x = 0; x < this.width; x++) {
         // Edges are always walls
         if (x === 0 || x === this.width - 1 || y === 0 || y === this.height - 1) {
-          grid[y][x] = 1;
+          grid.set(x, y, 1);
         } else {
           // Random fill based on probability
-          grid[y][x] = this.random.next() < fillProbability ? 1 : 0;
+          grid.set(x, y, this.random.next() < fillProbability ? 1 : 0);
         }
       }
     }
@@ -97,14 +507,14 @@ export class CaveGenerator extends MapGenerator<MapData, number> {
    * Apply cellular automata rules: cell becomes wall if wallThreshold or more neighbors are walls
    * Standard rule is 4+ neighbors = wall, which creates organic, cave-like patterns
    */
-  private applyCellularAutomata(oldGrid: number[][], wallThreshold: number): number[][] {
+  private applyCellularAutomata(oldGrid: Grid, wallThreshold: number): Grid {
     const newGrid = this.createEmptyGrid(0 as number);
 
     for (let y = 0; y < this.height; y++) {
       for (let x = 0; x < this.width; x++) {
         // Keep edges as walls
         if (x === 0 || x === this.width - 1 || y === 0 || y === this.height - 1) {
-          newGrid[y][x] = 1;
+          newGrid.set(x, y, 1);
           continue;
         }
 
@@ -114,9 +524,9 @@ export class CaveGenerator extends MapGenerator<MapData, number> {
         // Apply cellular automata rule
         // If 4+ neighbors are walls, become wall; else become open space
         if (wallCount >= wallThreshold) {
-          newGrid[y][x] = 1;
+          newGrid.set(x, y, 1);
         } else {
-          newGrid[y][x] = 0;
+          newGrid.set(x, y, 0);
         }
       }
     }
@@ -129,27 +539,9 @@ export class CaveGenerator extends MapGenerator<MapData, number> {
    * Uses flood fill to identify all connected regions, keeps only the largest one
    * Enhanced to return information about the main chamber
    */
-  private ensureConnectivity(grid: number[][]): number[][] {
-    // Find all open space regions using flood fill
-    const regions: Set<string>[] = [];
-    const visited = new Set<string>();
-
-    for (let y = 1; y < this.height - 1; y++) {
-      for (let x = 1; x < this.width - 1; x++) {
-        const key = `${x},${y}`;
-        
-        // If this is an open space we haven't visited yet
-        if (grid[y][x] === 0 && !visited.has(key)) {
-          // Flood fill to find all connected open spaces
-          const region = this.floodFill(grid, x, y);
-          
-          // Mark all cells in this region as visited
-          region.forEach(cellKey => visited.add(cellKey));
-          
-          regions.push(region);
-        }
-      }
-    }
+  private ensureConnectivity(grid: Grid): Grid {
+    // Find all open space regions using flood fill (largest first)
+    const regions = grid.regions(cell => cell !== TerrainCell.Wall);
 
     console.log(`[CaveGenerator] Found ${regions.length} separate regions`);
 
@@ -159,41 +551,24 @@ export class CaveGenerator extends MapGenerator<MapData, number> {
       return grid;
     }
 
-    // Find largest region (main chamber)
-    const largestRegion = regions.reduce((largest, current) => 
-      current.size > largest.size ? current : largest
-    );
+    // Largest region is the main chamber
+    const largestRegion = regions[0];
     
-    const mainChamberSize = largestRegion.size;
-    const totalOpenSpaces = regions.reduce((sum, region) => sum + region.size, 0);
+    const mainChamberSize = largestRegion.length;
+    const totalOpenSpaces = regions.reduce((sum, region) => sum + region.length, 0);
     const mainChamberPercentage = ((mainChamberSize / totalOpenSpaces) * 100).toFixed(1);
     
     console.log(`[CaveGenerator] Main chamber: ${mainChamberSize} cells (${mainChamberPercentage}% of all open space)`);
     
     // Calculate center of main chamber for reference
-    const mainChamberCenter = this.calculateRegionCenter(largestRegion);
+    const mainChamberCenter = this.calculateRegionCenter(grid, largestRegion);
     console.log(`[CaveGenerator] Main chamber center: (${mainChamberCenter.x}, ${mainChamberCenter.y})`);
 
-    // Create new grid with only the largest region (main chamber)
-    const connectedGrid = this.createEmptyGrid(1 as number); // Start with all walls
-
-    // Copy edges (keep as walls)
-    for (let x = 0; x < this.width; x++) {
-      connectedGrid[0][x] = 1;
-      connectedGrid[this.height - 1][x] = 1;
+    // Create new grid with only the largest region (main chamber); edges stay walls
+    const connectedGrid = this.createEmptyGrid(TerrainCell.Wall);
+    for (const index of largestRegion) {
+      connectedGrid.cells[index] = TerrainCell.Floor;
     }
-    for (let y = 0; y < this.height; y++) {
-      connectedGrid[y][0] = 1;
-      connectedGrid[y][this.width - 1] = 1;
-    }
-
-    // Mark cells in largest region as open space (main chamber)
-    largestRegion.forEach(key => {
-      const [x, y] = key.split(',').map(Number);
-      if (this.inBounds(x, y)) {
-        connectedGrid[y][x] = 0;
-      }
-    });
 
     return connectedGrid;
   }
@@ -202,55 +577,60 @@ export class CaveGenerator extends MapGenerator<MapData, number> {
    * Calculate the center point of a region
    * Returns the average x,y coordinates of all cells in the region
    */
-  private calculateRegionCenter(region: Set<string>): { x: number; y: number } {
+  private calculateRegionCenter(grid: Grid, region: number[]): { x: number; y: number } {
     let sumX = 0;
     let sumY = 0;
-    let count = 0;
 
-    region.forEach(key => {
-      const [x, y] = key.split(',').map(Number);
+    for (const index of region) {
+      const { x, y } = grid.point(index);
       sumX += x;
       sumY += y;
-      count++;
-    });
+    }
 
     return {
-      x: Math.round(sumX / count),
-      y: Math.round(sumY / count)
+      x: Math.round(sumX / region.length),
+      y: Math.round(sumY / region.length)
     };
   }
+}
 
-  /**
-   * Flood fill to find all cells in a connected region
-   * Returns a set of coordinate keys for all connected open spaces
-   */
-  private floodFill(grid: number[][], startX: number, startY: number): Set<string> {
-    const visited = new Set<string>();
-    const queue: [number, number][] = [[startX, startY]];
-
-    while (queue.length > 0) {
-      const [x, y] = queue.shift()!;
-      const key = `${x},${y}`;
-
-      // Skip if already visited
-      if (visited.has(key)) continue;
-      
-      // Skip if out of bounds
-      if (!this.inBounds(x, y)) continue;
-      
-      // Skip if wall
-      if (grid[y][x] === 1) continue;
-
-      // Mark as visited
-      visited.add(key);
-
-      // Add 4-directional neighbors to queue
-      queue.push([x + 1, y]);
-      queue.push([x - 1, y]);
-      queue.push([x, y + 1]);
-      queue.push([x, y - 1]);
+GeneratorRegistry.register({
+  terrainType: TerrainType.Cave,
+  name: 'Cave',
+  create: (parameters) => new CaveGenerator(parameters),
+  subtypes: Object.values(CaveSubtype),
+  parameters: [
+    { key: 'fillProbability', label: 'Fill Probability', description: 'Initial probability of cell being a wall (higher = more walls)', type: 'number', min: 0.3, max: 0.6, step: 0.01, default: 0.45 },
+    { key: 'smoothIterations', label: 'Smooth Iterations', description: 'Number of cellular automata smoothing passes', type: 'number', min: 1, max: 8, step: 1, default: 4 },
+    { key: 'wallThreshold', label: 'Wall Threshold', description: 'Minimum neighbor walls to become/stay a wall (4-8 recommended)', type: 'number', min: 3, max: 7, step: 1, default: 5 },
+    { key: 'caveRoughness', label: 'Cave Roughness', description: 'Multiplier for cave roughness (0.5 = smooth, 2.0 = very rough)', type: 'number', min: 0.5, max: 2, step: 0.1, default: 1 },
+    { key: 'waterCoverage', label: 'Water Pools', description: 'Share of floor covered by pools; pool centres become deep water', type: 'number', min: 0, max: 0.3, step: 0.01, default: 0.04, auto: true },
+    { key: 'lavaCoverage', label: 'Lava', description: 'Share of floor covered by lava pools (impassable)', type: 'number', min: 0, max: 0.3, step: 0.01, default: 0, auto: true },
+    { key: 'chasmCoverage', label: 'Chasms', description: 'Share of floor opened into chasms (impassable)', type: 'number', min: 0, max: 0.3, step: 0.01, default: 0.01, auto: true },
+    { key: 'rubbleCoverage', label: 'Rubble', description: 'Share of floor strewn with rubble (difficult terrain)', type: 'number', min: 0, max: 0.3, step: 0.01, default: 0.03, auto: true },
+    { key: 'lowPointBias', label: 'Low Point Bias', description: 'How strongly features gather in low ground', type: 'number', min: 0, max: 1, step: 0.05, default: 0.6 },
+    { key: 'wallBias', label: 'Wall Bias', description: 'How strongly features gather along the cave walls', type: 'number', min: 0, max: 1, step: 0.05, default: 0.3 }
+  ],
+  presets: [
+    {
+      name: 'Small Cave',
+      parameters: { width: 70, height: 70, fillProbability: 0.45, smoothIterations: 4, wallThreshold: 4, caveRoughness: 1.0 }
+    },
+    {
+      name: 'Sprawling Cave',
+      parameters: { width: 120, height: 120, fillProbability: 0.42, smoothIterations: 5, wallThreshold: 4, caveRoughness: 0.9 }
+    },
+    {
+      name: 'Rough Cavern',
+      parameters: { width: 80, height: 80, fillProbability: 0.48, smoothIterations: 3, wallThreshold: 4, caveRoughness: 1.4 }
+    },
+    {
+      name: 'Underground Lake',
+      parameters: { width: 100, height: 100, fillProbability: 0.45, smoothIterations: 4, wallThreshold: 4, subtype: CaveSubtype.UNDERGROUND_LAKE }
+    },
+    {
+      name: 'Lava Tubes',
+      parameters: { width: 100, height: 100, fillProbability: 0.5, smoothIterations: 4, wallThreshold: 4, subtype: CaveSubtype.LAVA_TUBES }
     }
-
-    return visited;
-  }
-}
+  ]
+});
@@ -9,6 +9,12 @@
  * 4. Random Walk to carve organic corridors between room centers
  * 5. Add extra connections for loops based on connectivityFactor
  * 6. Verify connectivity using flood fill
+ * 7. Place doors where corridors meet rooms
+ * 8. Pick an entrance on the map edge, the goal room farthest from it and the critical path
+ * 9. Tag each room with a purpose (guard post, shrine, boss lair...) and number it for the key
+ *
+ * Prefab set-pieces (see PrefabStamper) replace rooms whose BSP leaf can hold them;
+ * corridors reach them through their anchor doors and are routed around them.
  * 
  * Features:
  * - Guaranteed connected dungeon (all rooms reachable)
@@ -18,6 +24,8 @@
  * - Deterministic generation with seed support
  * - MST ensures minimum corridors (n-1 for n rooms)
  * - Extra connections create dungeon loops for variety
+ * - Subtypes: crypts add burial niches, prison adds cell blocks, temple mirrors the
+ *   layout around a central nave, sewer runs water channels, ancient_ruins collapses walls
  * 
  * Parameters:
  * - minRoomSize: Minimum room dimension (3-10). Default 5
@@ -27,11 +35,22 @@
  * - organicFactor: Edge variation (0.0-0.5). Higher = rougher edges. Default 0.3
  * - connectivityFactor: Extra corridors ratio (0.0-0.5). Higher = more loops. Default 0.15
  * - corridorWidth: Corridor width in cells (1-3). Default 1
+ * - subtype: DungeonSubtype. Default none (classic dungeon)
+ * - doorwayRatio / lockedDoorRatio / secretDoorRatio: Door type mix. Defaults 0.3 / 0.1 / 0.1
+ * - prefabChance: Chance a room becomes a prefab when one fits (0-1). Default 0 (temples never)
+ * - prefabs: Workspace prefabs used alongside the built-in ones
  */
 
 import { MapGenerator } from './MapGenerator';
-import { MapData, Room, TerrainType } from '../types/generator';
+import { GeneratorRegistry, ROOM_PARAMETERS, DOOR_PARAMETERS, PREFAB_PARAMETERS } from './GeneratorRegistry';
+import { PrefabRegistry } from './PrefabRegistry';
+import { Corridor, MapData, Room, TerrainCell, TerrainType, IMPASSABLE_CELLS } from '../types/generator';
+import { DungeonSubtype } from '../types/enums';
 import { ConnectivityUtils } from '../utils/connectivity';
+import { DoorPlacer } from '../utils/doors';
+import { RoomTagger } from '../utils/roomKey';
+import { PREFAB_CELL_CODES, PrefabStamper } from '../utils/prefabs';
+import { Grid } from '../utils/grid';
 
 interface BSPNode {
   x: number;
@@ -43,44 +62,81 @@ interface BSPNode {
   room?: Room;
 }
 
+// Per-subtype corridor style; explicit parameters always win
+const SUBTYPE_STYLES: Record<DungeonSubtype, { walkSteps: number; organicFactor: number }> = {
+  [DungeonSubtype.CRYPTS]: { walkSteps: 5, organicFactor: 0.15 },
+  [DungeonSubtype.PRISON]: { walkSteps: 8, organicFactor: 0 },
+  [DungeonSubtype.TEMPLE]: { walkSteps: 8, organicFactor: 0 },
+  [DungeonSubtype.SEWER]: { walkSteps: 8, organicFactor: 0 },
+  [DungeonSubtype.ANCIENT_RUINS]: { walkSteps: 5, organicFactor: 0.45 }
+};
+
 export class DungeonGenerator extends MapGenerator<MapData, number> {
   generate(): MapData {
     console.log('[DungeonGenerator] Starting dungeon generation');
     
+    const subtype = this.getSubtype(DungeonSubtype);
+    const style = subtype ? SUBTYPE_STYLES[subtype] : undefined;
+
     // Get parameters with defaults
     const minRoomSize = this.getParam('minRoomSize', 5);
     const maxRoomSize = this.getParam('maxRoomSize', 12);
     const roomCount = this.getParam('roomCount', 10);
-    const walkSteps = this.getParam('walkSteps', 7); // Higher = straighter corridors
-    const organicFactor = this.getParam('organicFactor', 0.3);
+    const walkSteps = this.getParam('walkSteps', style?.walkSteps ?? 7); // Higher = straighter corridors
+    const organicFactor = this.getParam('organicFactor', style?.organicFactor ?? 0.3);
     const connectivityFactor = this.getParam('connectivityFactor', 0.15);
+    const prefabChance = this.getParam('prefabChance', 0);
+    const isTemple = subtype === DungeonSubtype.TEMPLE;
 
-    console.log(`[DungeonGenerator] Parameters: minRoom=${minRoomSize}, maxRoom=${maxRoomSize}, count=${roomCount}, walkSteps=${walkSteps}`);
+    console.log(`[DungeonGenerator] Parameters: minRoom=${minRoomSize}, maxRoom=${maxRoomSize}, count=${roomCount}, walkSteps=${walkSteps}, subtype=${subtype ?? 'none'}`);
+
+    // Temples build the west half around a central nave and mirror it afterwards
+    const nave = isTemple ? this.createNave(minRoomSize) : undefined;
 
     // Step 1: Create root node for BSP
     const root: BSPNode = {
       x: 2,
       y: 2,
-      width: this.width - 4,
+      width: nave ? nave.x - 3 : this.width - 4,
       height: this.height - 4
     };
 
     // Step 2: Split recursively using BSP
+    this.reportProgress('split', 0.05);
     console.log('[DungeonGenerator] Splitting space with BSP...');
     this.splitNode(root, minRoomSize);
 
     // Step 3: Create rooms in leaf nodes
+    this.reportProgress('rooms', 0.2);
     const rooms: Room[] = [];
     this.createRooms(root, rooms, minRoomSize, maxRoomSize);
     console.log(`[DungeonGenerator] Created ${rooms.length} rooms from BSP`);
 
-    // Step 4: Limit to requested room count
-    if (rooms.length > roomCount) {
-      rooms.length = roomCount;
-      console.log(`[DungeonGenerator] Trimmed to ${roomCount} rooms`);
+    // Step 4: Limit to requested room count (temples count each side chapel twice)
+    const sideRoomCount = nave ? Math.max(1, Math.ceil((roomCount - 1) / 2)) : roomCount;
+    if (rooms.length > sideRoomCount) {
+      rooms.length = sideRoomCount;
+      console.log(`[DungeonGenerator] Trimmed to ${sideRoomCount} rooms`);
+    }
+
+    // Prefab set-pieces take over rooms whose leaf can hold them (temples keep their mirrored chapels)
+    const vaults = nave ? [] : PrefabStamper.place(
+      rooms,
+      room => this.findLeaf(root, room),
+      PrefabRegistry.forTerrain(TerrainType.Dungeon, this.parameters.prefabs),
+      prefabChance,
+      this.random,
+      { width: this.width, height: this.height }
+    );
+    const prefabCodes = PREFAB_CELL_CODES[TerrainType.Dungeon]!;
+    const isWalkable = (cell: number) => !IMPASSABLE_CELLS.has(cell);
+
+    if (nave) {
+      rooms.unshift(nave);
     }
 
     // Step 5: Connect rooms with MST for guaranteed connectivity
+    this.reportProgress('corridors', 0.35);
     console.log('[DungeonGenerator] Building MST for room connections...');
     const baseCorridors = ConnectivityUtils.connectRooms(rooms);
     console.log(`[DungeonGenerator] MST created ${baseCorridors.length} base corridors`);
@@ -89,7 +145,8 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
     const corridors = ConnectivityUtils.addExtraConnections(
       rooms,
       baseCorridors,
-      connectivityFactor
+      connectivityFactor,
+      this.random
     );
     const extraCount = corridors.length - baseCorridors.length;
     if (extraCount > 0) {
@@ -102,35 +159,272 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
     // Step 8: Draw rooms with organic edges
     console.log('[DungeonGenerator] Drawing rooms...');
     for (const room of rooms) {
-      this.drawOrganicRoom(grid, room, organicFactor);
+      const vault = vaults.find(v => v.room === room);
+      if (vault) {
+        PrefabStamper.stamp(grid, vault, prefabCodes);
+      } else {
+        this.drawOrganicRoom(grid, room, organicFactor);
+      }
+    }
+
+    // Cell dividers go in before corridors so a corridor can always break through
+    if (subtype === DungeonSubtype.PRISON) {
+      this.buildCellBlocks(grid, rooms);
     }
 
     // Step 9: Draw corridors using Random Walk for organic feel
+    this.reportProgress('corridors', 0.6);
     console.log('[DungeonGenerator] Carving corridors with Random Walk...');
+    const corridorWidth = this.getParam('corridorWidth', 1);
     for (const corridor of corridors) {
+      // Corridors to or across a prefab go round it to an anchor door
+      const route = PrefabStamper.routeCorridor(grid, corridor, vaults, corridorWidth);
+      if (route) {
+        route.forEach(point => this.carveFloor(grid, point.x, point.y, corridorWidth));
+        continue;
+      }
+
       // Ensure corridor endpoints connect to actual room floors
       const start = this.findNearestFloor(grid, corridor.start[0], corridor.start[1], rooms);
       const end = this.findNearestFloor(grid, corridor.end[0], corridor.end[1], rooms);
       this.drawRandomWalkCorridor(grid, start, end, walkSteps, organicFactor);
     }
+    for (const route of PrefabStamper.linkAnchors(grid, vaults, isWalkable)) {
+      route.forEach(point => this.carveFloor(grid, point.x, point.y, corridorWidth));
+    }
+
+    // Step 10: Subtype dressing on the finished layout
+    if (subtype === DungeonSubtype.CRYPTS) {
+      this.carveBurialNiches(grid, rooms);
+    } else if (subtype === DungeonSubtype.SEWER) {
+      this.carveSewerChannels(grid, rooms);
+    } else if (subtype === DungeonSubtype.ANCIENT_RUINS) {
+      this.collapseRuins(grid);
+    }
+
+    // Stamp prefabs again over anything dressing or wide corridors knocked into them
+    for (const vault of vaults) {
+      PrefabStamper.stamp(grid, vault, prefabCodes, isWalkable);
+    }
+
+    let finalRooms = rooms;
+    let finalCorridors = corridors;
+    if (nave) {
+      ({ rooms: finalRooms, corridors: finalCorridors } = this.mirrorLayout(grid, rooms, corridors, nave));
+    }
 
-    // Step 10: Verify connectivity
-    const isConnected = this.ensureConnectivity(grid, rooms);
+    // Step 11: Verify connectivity
+    this.reportProgress('connectivity', 0.85);
+    const isConnected = this.ensureConnectivity(grid, finalRooms);
     console.log(`[DungeonGenerator] Connectivity check: ${isConnected ? 'PASSED' : 'FAILED'}`);
 
-    console.log(`[DungeonGenerator] Dungeon complete: ${rooms.length} rooms, ${corridors.length} corridors`);
+    // Step 12: Doors wherever a corridor meets a room
+    const doors = DoorPlacer.placeDoors(grid, finalRooms, cell => cell === TerrainCell.Floor, this.random, this.getDoorRatios());
 
-    return {
+    // Step 13: Entrance, goal room and critical path
+    const progression = this.analyzeProgression(grid, finalRooms, isWalkable);
+
+    console.log(`[DungeonGenerator] Dungeon complete: ${finalRooms.length} rooms, ${finalCorridors.length} corridors`);
+
+    const mapData: MapData = {
       width: this.width,
       height: this.height,
-      rooms,
-      corridors,
+      rooms: finalRooms,
+      corridors: finalCorridors,
+      doors,
       grid,
+      ...progression,
+      ...(vaults.length > 0 ? { prefabs: PrefabStamper.describe(grid, vaults, finalRooms, isWalkable) } : {}),
       seed: this.seed,
-      terrainType: TerrainType.Dungeon
+      terrainType: TerrainType.Dungeon,
+      subtype
+    };
+
+    // Step 14: Room purposes and the numbered key
+    mapData.roomKey = RoomTagger.tag(mapData, this.random);
+    return mapData;
+  }
+
+  /**
+   * BSP leaf a room was created in
+   */
+  private findLeaf(node: BSPNode, room: Room): BSPNode | undefined {
+    if (node.room === room) return node;
+    return (node.left && this.findLeaf(node.left, room)) || (node.right && this.findLeaf(node.right, room)) || undefined;
+  }
+
+  /**
+   * Create the temple nave: a long hall centred on the vertical axis
+   * Its width shares the map width's parity so the nave mirrors onto itself
+   */
+  private createNave(minRoomSize: number): Room {
+    let naveWidth = Math.max(minRoomSize, Math.floor(this.width / 6));
+    if ((this.width - naveWidth) % 2 !== 0) naveWidth++;
+    const margin = Math.max(3, Math.floor(this.height / 8));
+
+    return {
+      x: (this.width - naveWidth) / 2,
+      y: margin,
+      width: naveWidth,
+      height: this.height - margin * 2
+    };
+  }
+
+  /**
+   * Copy the west half of the temple onto the east half
+   * Rooms and corridors west of the nave get mirrored twins
+   */
+  private mirrorLayout(
+    grid: Grid,
+    rooms: Room[],
+    corridors: Corridor[],
+    nave: Room
+  ): { rooms: Room[]; corridors: Corridor[] } {
+    const half = Math.floor(this.width / 2);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < half; x++) {
+        grid.set(this.width - 1 - x, y, grid.get(x, y));
+      }
+    }
+
+    const mirrorX = (x: number) => this.width - 1 - x;
+    const sideRooms = rooms.filter(room => room !== nave);
+    const mirroredRooms = sideRooms.map(room => ({
+      ...room,
+      x: this.width - room.x - room.width
+    }));
+    const mirroredCorridors = corridors.map(corridor => ({
+      start: [mirrorX(corridor.start[0]), corridor.start[1]] as [number, number],
+      end: [mirrorX(corridor.end[0]), corridor.end[1]] as [number, number]
+    }));
+
+    console.log(`[DungeonGenerator] Mirrored temple: ${sideRooms.length} chapels per side`);
+    return {
+      rooms: [nave, ...sideRooms, ...mirroredRooms],
+      corridors: [...corridors, ...mirroredCorridors]
     };
   }
 
+  /**
+   * Turn large rooms into cell blocks: a central aisle with rows of cells on both sides
+   * Cells are two cells wide, separated by single wall dividers
+   */
+  private buildCellBlocks(grid: Grid, rooms: Room[]): void {
+    let blocks = 0;
+    for (const room of rooms) {
+      if (room.width < 7 || room.height < 7) continue;
+
+      const horizontal = room.width >= room.height;
+      const length = horizontal ? room.width : room.height;
+      const depth = horizontal ? room.height : room.width;
+      const aisle = depth % 2 === 0 ? 2 : 3;
+      const bandDepth = Math.floor((depth - aisle) / 2);
+
+      for (let along = 2; along < length - 1; along += 3) {
+        for (let across = 0; across < depth; across++) {
+          if (across >= bandDepth && across < depth - bandDepth) continue; // Aisle stays open
+          const x = horizontal ? room.x + along : room.x + across;
+          const y = horizontal ? room.y + across : room.y + along;
+          if (this.inBounds(x, y)) {
+            grid.set(x, y, TerrainCell.Wall);
+          }
+        }
+      }
+      blocks++;
+    }
+    console.log(`[DungeonGenerator] Built ${blocks} cell blocks`);
+  }
+
+  /**
+   * Carve single-cell burial niches into the walls around each crypt room
+   */
+  private carveBurialNiches(grid: Grid, rooms: Room[]): void {
+    let niches = 0;
+    for (const room of rooms) {
+      const candidates: Array<[number, number, number, number]> = [];
+      for (let x = room.x + 1; x < room.x + room.width - 1; x += 2) {
+        candidates.push([x, room.y, 0, -1]);
+        candidates.push([x, room.y + room.height - 1, 0, 1]);
+      }
+      for (let y = room.y + 1; y < room.y + room.height - 1; y += 2) {
+        candidates.push([room.x, y, -1, 0]);
+        candidates.push([room.x + room.width - 1, y, 1, 0]);
+      }
+
+      for (const [x, y, dx, dy] of candidates) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (!this.inBounds(nx + dx, ny + dy) || grid.get(x, y) !== TerrainCell.Floor) continue;
+
+        // Only dig into solid rock so niches never open onto corridors
+        const solid = [[nx, ny], [nx + dx, ny + dy], [nx + dy, ny + dx], [nx - dy, ny - dx]]
+          .every(([cx, cy]) => grid.get(cx, cy) === TerrainCell.Wall);
+        if (solid) {
+          grid.set(nx, ny, TerrainCell.Floor);
+          niches++;
+        }
+      }
+    }
+    console.log(`[DungeonGenerator] Carved ${niches} burial niches`);
+  }
+
+  /**
+   * Run a horizontal and a vertical sewer channel through the dungeon
+   * Each channel is water with a walkway on both banks
+   */
+  private carveSewerChannels(grid: Grid, rooms: Room[]): void {
+    if (rooms.length === 0) return;
+
+    const centers = rooms.map(room => ConnectivityUtils.getRoomCenter(room));
+    const xs = centers.map(c => Math.round(c.x)).sort((a, b) => a - b);
+    const ys = centers.map(c => Math.round(c.y)).sort((a, b) => a - b);
+    const channelY = ys[Math.floor(ys.length / 2)];
+    const channelX = xs[Math.floor(xs.length / 2)];
+
+    // Walkways first, then water, so crossings stay wet
+    for (let x = xs[0]; x <= xs[xs.length - 1]; x++) {
+      for (let dy = -1; dy <= 1; dy++) this.setCell(grid, x, channelY + dy, TerrainCell.Floor);
+    }
+    for (let y = ys[0]; y <= ys[ys.length - 1]; y++) {
+      for (let dx = -1; dx <= 1; dx++) this.setCell(grid, channelX + dx, y, TerrainCell.Floor);
+    }
+    for (let x = xs[0]; x <= xs[xs.length - 1]; x++) this.setCell(grid, x, channelY, TerrainCell.Water);
+    for (let y = ys[0]; y <= ys[ys.length - 1]; y++) this.setCell(grid, channelX, y, TerrainCell.Water);
+
+    console.log(`[DungeonGenerator] Sewer channels at y=${channelY} and x=${channelX}`);
+  }
+
+  /**
+   * Age the dungeon: knock holes in thin walls and leave rubble pillars in open floor
+   * Pillars only go where all 8 neighbours are floor, so no passage is blocked
+   */
+  private collapseRuins(grid: Grid): void {
+    let breaches = 0;
+    let rubble = 0;
+    for (let y = 1; y < this.height - 1; y++) {
+      for (let x = 1; x < this.width - 1; x++) {
+        const floorNeighbors = this.countNeighbors(grid, x, y, TerrainCell.Floor);
+        if (grid.get(x, y) === TerrainCell.Wall && floorNeighbors >= 5 && this.random.next() < 0.3) {
+          grid.set(x, y, TerrainCell.Floor);
+          breaches++;
+        } else if (grid.get(x, y) === TerrainCell.Floor && floorNeighbors === 8 && this.random.next() < 0.02) {
+          grid.set(x, y, TerrainCell.Wall);
+          rubble++;
+        }
+      }
+    }
+    console.log(`[DungeonGenerator] Ruins: ${breaches} collapsed walls, ${rubble} rubble piles`);
+  }
+
+  /**
+   * Set a cell if it lies inside the outer wall ring
+   */
+  private setCell(grid: Grid, x: number, y: number, value: TerrainCell): void {
+    if (x > 0 && x < this.width - 1 && y > 0 && y < this.height - 1) {
+      grid.set(x, y, value);
+    }
+  }
+
   /**
    * Split node recursively using BSP (Binary Space Partitioning)
    * Creates balanced tree of spaces for room placement
@@ -237,7 +531,7 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
    * Draw room with optional organic edge variation
    * Creates rectangular rooms with rough edges based on organicFactor
    */
-  private drawOrganicRoom(grid: number[][], room: Room, organicFactor: number): void {
+  private drawOrganicRoom(grid: Grid, room: Room, organicFactor: number): void {
     for (let y = room.y; y < room.y + room.height; y++) {
       for (let x = room.x; x < room.x + room.width; x++) {
         // Check if this is an edge cell
@@ -253,7 +547,7 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
         }
 
         if (this.inBounds(x, y)) {
-          grid[y][x] = 0; // Floor
+          grid.set(x, y, 0); // Floor
         }
       }
     }
@@ -268,7 +562,7 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
    * @param walkSteps - Bias towards target (1-10). Higher = straighter path. >8 enables diagonals
    */
   private drawRandomWalkCorridor(
-    grid: number[][],
+    grid: Grid,
     start: [number, number],
     end: [number, number],
     walkSteps: number,
@@ -357,21 +651,15 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
    * Carve floor at position with given width
    * Helper method to ensure consistent floor carving
    */
-  private carveFloor(grid: number[][], x: number, y: number, width: number): void {
-    for (let dy = 0; dy < width; dy++) {
-      for (let dx = 0; dx < width; dx++) {
-        if (this.inBounds(x + dx, y + dy)) {
-          grid[y + dy][x + dx] = 0;
-        }
-      }
-    }
+  private carveFloor(grid: Grid, x: number, y: number, width: number): void {
+    grid.fillRect(x, y, width, width, TerrainCell.Floor);
   }
 
   /**
    * Ensure all rooms are connected using flood fill verification
    * Returns true if all room floors are reachable from the first room
    */
-  private ensureConnectivity(grid: number[][], rooms: Room[]): boolean {
+  private ensureConnectivity(grid: Grid, rooms: Room[]): boolean {
     if (rooms.length === 0) return true;
 
     // Find a floor cell in the first room
@@ -380,12 +668,12 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
     let startY = Math.floor(firstRoom.y + firstRoom.height / 2);
 
     // Ensure start position is actually floor
-    if (grid[startY][startX] !== 0) {
+    if (grid.get(startX, startY) !== 0) {
       // Search for a floor cell
       let found = false;
       for (let y = firstRoom.y; y < firstRoom.y + firstRoom.height && !found; y++) {
         for (let x = firstRoom.x; x < firstRoom.x + firstRoom.width && !found; x++) {
-          if (this.inBounds(x, y) && grid[y][x] === 0) {
+          if (this.inBounds(x, y) && grid.get(x, y) === 0) {
             startX = x;
             startY = y;
             found = true;
@@ -405,9 +693,8 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
       
       for (let y = room.y; y < room.y + room.height && !hasReachableFloor; y++) {
         for (let x = room.x; x < room.x + room.width && !hasReachableFloor; x++) {
-          if (this.inBounds(x, y) && grid[y][x] === 0) {
-            const key = `${x},${y}`;
-            if (reachable.has(key)) {
+          if (this.inBounds(x, y) && grid.get(x, y) === 0) {
+            if (reachable[grid.index(x, y)]) {
               hasReachableFloor = true;
               connectedRooms++;
             }
@@ -426,9 +713,9 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
    * Find nearest floor cell to given coordinates
    * Searches in expanding square pattern from start point
    */
-  private findNearestFloor(grid: number[][], x: number, y: number, rooms: Room[]): [number, number] {
+  private findNearestFloor(grid: Grid, x: number, y: number, rooms: Room[]): [number, number] {
     // First check if the position itself is a floor
-    if (this.inBounds(x, y) && grid[y][x] === 0) {
+    if (this.inBounds(x, y) && grid.get(x, y) === 0) {
       return [x, y];
     }
 
@@ -442,7 +729,7 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
           const nx = x + dx;
           const ny = y + dy;
           
-          if (this.inBounds(nx, ny) && grid[ny][nx] === 0) {
+          if (this.inBounds(nx, ny) && grid.get(nx, ny) === 0) {
             return [nx, ny];
           }
         }
@@ -456,28 +743,53 @@ export class DungeonGenerator extends MapGenerator<MapData, number> {
 
   /**
    * Flood fill to find all floor cells reachable from start position
+   * Returns a mask with 1 for every reachable cell index
    */
-  private floodFillFloors(grid: number[][], startX: number, startY: number): Set<string> {
-    const visited = new Set<string>();
-    const queue: [number, number][] = [[startX, startY]];
-
-    while (queue.length > 0) {
-      const [x, y] = queue.shift()!;
-      const key = `${x},${y}`;
-
-      if (visited.has(key)) continue;
-      if (!this.inBounds(x, y)) continue;
-      if (grid[y][x] !== 0) continue; // Not a floor
-
-      visited.add(key);
-
-      // Add 4-directional neighbors
-      queue.push([x + 1, y]);
-      queue.push([x - 1, y]);
-      queue.push([x, y + 1]);
-      queue.push([x, y - 1]);
-    }
-
-    return visited;
+  private floodFillFloors(grid: Grid, startX: number, startY: number): Uint8Array {
+    const reachable = new Uint8Array(grid.cells.length);
+    // Walls block, sewer water can be waded
+    grid.floodFill(startX, startY, cell => cell !== TerrainCell.Wall, false, reachable);
+    return reachable;
   }
 }
+
+GeneratorRegistry.register({
+  terrainType: TerrainType.Dungeon,
+  name: 'Dungeon',
+  create: (parameters) => new DungeonGenerator(parameters),
+  subtypes: Object.values(DungeonSubtype),
+  parameters: [
+    ...ROOM_PARAMETERS,
+    ...DOOR_PARAMETERS,
+    ...PREFAB_PARAMETERS,
+    { key: 'organicFactor', label: 'Organic Factor', description: 'Organic variation in room shapes (0 = rectangular, higher = more irregular)', type: 'number', min: 0, max: 1, step: 0.01, default: 0.3 },
+    { key: 'connectivityFactor', label: 'Connectivity', description: 'Additional corridor connections beyond minimum spanning tree', type: 'number', min: 0, max: 0.5, step: 0.01, default: 0.15 },
+    { key: 'walkSteps', label: 'Corridor Straightness', description: 'Corridor straightness (1 = very winding, 10 = straight)', type: 'number', min: 1, max: 10, step: 1, default: 7 }
+  ],
+  presets: [
+    {
+      name: 'Small Dungeon',
+      parameters: { width: 80, height: 80, minRoomSize: 5, maxRoomSize: 10, roomCount: 8, corridorWidth: 1, gridSize: 4, organicFactor: 0.2, connectivityFactor: 0.1, walkSteps: 7 }
+    },
+    {
+      name: 'Large Dungeon',
+      parameters: { width: 120, height: 120, minRoomSize: 6, maxRoomSize: 14, roomCount: 15, corridorWidth: 2, gridSize: 4, organicFactor: 0.4, connectivityFactor: 0.2, walkSteps: 6 }
+    },
+    {
+      name: 'Winding Dungeon',
+      parameters: { width: 100, height: 100, minRoomSize: 5, maxRoomSize: 12, roomCount: 12, corridorWidth: 1, gridSize: 4, organicFactor: 0.5, connectivityFactor: 0.25, walkSteps: 4 }
+    },
+    {
+      name: 'Prison Block',
+      parameters: { width: 100, height: 100, minRoomSize: 7, maxRoomSize: 14, roomCount: 10, corridorWidth: 1, gridSize: 4, connectivityFactor: 0.1, subtype: DungeonSubtype.PRISON }
+    },
+    {
+      name: 'Temple Complex',
+      parameters: { width: 100, height: 100, minRoomSize: 5, maxRoomSize: 10, roomCount: 9, corridorWidth: 1, gridSize: 4, connectivityFactor: 0.1, subtype: DungeonSubtype.TEMPLE }
+    },
+    {
+      name: 'Sewers',
+      parameters: { width: 100, height: 100, minRoomSize: 5, maxRoomSize: 9, roomCount: 10, corridorWidth: 2, gridSize: 4, connectivityFactor: 0.3, subtype: DungeonSubtype.SEWER }
+    }
+  ]
+});
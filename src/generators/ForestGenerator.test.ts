@@ -273,15 +273,15 @@ describe('ForestGenerator', () => {
       const map = generator.generate();
 
       expect(map.grid).toBeDefined();
-      expect(map.grid!.length).toBe(50);
-      expect(map.grid![0].length).toBe(50);
+      expect(map.grid!.height).toBe(50);
+      expect(map.grid!.width).toBe(50);
       
       // Count grid cell types
       let clearingCount = 0;
       let treeCount = 0;
       let pathCount = 0;
       
-      for (const row of map.grid!) {
+      for (const row of map.grid!.toArray()) {
         for (const cell of row) {
           if (cell === 0) clearingCount++;
           else if (cell === 1) treeCount++;
@@ -1,10 +1,41 @@
 // Forest Generator with Dense Tree Coverage and Guaranteed Walkable Paths
 // Creates densely packed forests with clear walkable areas and entrance/exit paths
+// Subtypes add glades (enchanted grove), a ring of old trees (sacred grove) or ruined walls (overgrown ruins)
+// With hexOrientation set the grid is also quantised to hex cells for hex-crawl play
+// With riverCount set, rivers meander across the map; paths cross them on bridges or fords
 
 import { MapGenerator } from './MapGenerator';
-import { MapData, Tree, PathPoint, TerrainType } from '../types/generator';
+import { GeneratorRegistry } from './GeneratorRegistry';
+import { MapData, Tree, PathPoint, Room, TerrainType, ForestCell, River, RiverCrossing, FOREST_IMPASSABLE_CELLS } from '../types/generator';
+import { ForestSubtype } from '../types/enums';
 import { PerlinNoise } from '../utils/noise';
 import { SeededRandom } from '../utils/random';
+import { Grid } from '../utils/grid';
+
+interface Glade {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Rivers at least this wide get bridges on the main path; narrower ones are forded
+const BRIDGE_MIN_WIDTH = 4;
+
+// Where rivers overlap, the wetter cell wins
+const WETNESS: Partial<Record<ForestCell, number>> = {
+  [ForestCell.Bank]: 1,
+  [ForestCell.Shallows]: 2,
+  [ForestCell.DeepWater]: 3
+};
+
+// Per-subtype defaults; explicit parameters always win
+const SUBTYPE_DEFAULTS: Record<ForestSubtype, { treeDensity: number; clearingSize: number; branchPathDensity: number }> = {
+  [ForestSubtype.DENSE_FOREST]: { treeDensity: 0.98, clearingSize: 4, branchPathDensity: 0.3 },
+  [ForestSubtype.ENCHANTED_GROVE]: { treeDensity: 0.9, clearingSize: 6, branchPathDensity: 0.6 },
+  [ForestSubtype.WOODLAND_TRAIL]: { treeDensity: 0.85, clearingSize: 8, branchPathDensity: 0.1 },
+  [ForestSubtype.SACRED_GROVE]: { treeDensity: 0.9, clearingSize: 6, branchPathDensity: 0.3 },
+  [ForestSubtype.OVERGROWN_RUINS]: { treeDensity: 0.8, clearingSize: 6, branchPathDensity: 0.5 }
+};
 
 export class ForestGenerator extends MapGenerator<MapData, number> {
   private noise: PerlinNoise;
@@ -17,11 +48,14 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
   }
 
   generate(): MapData {
+    const subtype = this.getSubtype(ForestSubtype);
+    const defaults = subtype ? SUBTYPE_DEFAULTS[subtype] : undefined;
+
     // Get parameters with defaults
-    const clearingSize = this.getParam('clearingSize', 6); // Min clearing width
+    const clearingSize = this.getParam('clearingSize', defaults?.clearingSize ?? 6); // Min clearing width
     const treeRadius = this.getParam('treeRadius', 2.5); // Individual tree size (increased from 1.5)
     const minTreeDistance = this.getParam('minTreeDistance', 2); // Min spacing
-    const treeDensity = this.getParam('treeDensity', 0.95); // 0-1, how densely to pack trees (default: very dense)
+    const treeDensity = this.getParam('treeDensity', defaults?.treeDensity ?? 0.95); // 0-1, how densely to pack trees (default: very dense)
     
     console.log(`[ForestGenerator] Starting DENSE forest generation`);
     console.log(`[ForestGenerator] Map: ${this.width}x${this.height}`);
@@ -35,11 +69,12 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
     console.log(`[ForestGenerator] Exit: (${exit.x}, ${exit.y})`);
 
     // Step 2: Generate walkable path from entrance to exit (without cluster dependency)
+    this.reportProgress('corridors', 0.05);
     const mainPath = this.generatePathDirect(entrance, exit, clearingSize);
     console.log(`[ForestGenerator] Generated main path with ${mainPath.length} points`);
 
     // Step 3: Generate branching paths from the main path
-    const branchPathDensity = this.getParam('branchPathDensity', 0.5); // 0 = none, 1 = dense
+    const branchPathDensity = this.getParam('branchPathDensity', defaults?.branchPathDensity ?? 0.5); // 0 = none, 1 = dense
     const branches = this.generateBranchingPathsDirect(mainPath, clearingSize, branchPathDensity);
 
     // Combine all paths for tree placement (main + branches)
@@ -48,18 +83,45 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
       allPaths.push(...branch);
     }
 
+    // Rivers cut across the map; the paths cross them on bridges or fords
+    const riverCount = this.getParam('riverCount', 0);
+    const riverWidth = this.getParam('riverWidth', 5);
+    const { rivers, water } = this.planRivers(riverCount, riverWidth);
+    const pathWidth = Math.floor(clearingSize / 2);
+    this.addCrossings(mainPath, rivers, water, pathWidth, true);
+    for (const branch of branches) {
+      this.addCrossings(branch, rivers, water, pathWidth, false);
+    }
+
+    // Subtype open areas: glades and ruin footprints are kept free of trees, as are rivers and their banks
+    const glades = this.planGlades(subtype);
+    const ruins = subtype === ForestSubtype.OVERGROWN_RUINS ? this.planRuins(allPaths, clearingSize) : [];
+    const isOpenArea = (x: number, y: number) =>
+      glades.some(g => Math.hypot(x - g.x, y - g.y) <= g.radius) ||
+      ruins.some(r => x >= r.x - 1 && x <= r.x + r.width && y >= r.y - 1 && y <= r.y + r.height) ||
+      rivers.some(r => Math.abs(x - r.points[Math.floor(y)].x) <= r.width / 2 + 1 + treeRadius / 2);
+
     // Step 4: Fill entire map with trees using grid-based dense placement
+    this.reportProgress('placement', 0.3);
     const trees = this.fillMapWithTrees(
       allPaths,
       treeRadius,
       minTreeDistance,
       clearingSize,
-      treeDensity
+      treeDensity,
+      isOpenArea
     );
+    if (subtype === ForestSubtype.SACRED_GROVE && glades.length > 0) {
+      trees.push(...this.ringOfTrees(glades[0], treeRadius));
+    }
     console.log(`[ForestGenerator] Densely placed ${trees.length} trees across entire map`);
 
     // Step 5: Create grid representation
-    const grid = this.createGridRepresentation(trees, allPaths, treeRadius, clearingSize);
+    this.reportProgress('smoothing', 0.85);
+    const grid = this.createGridRepresentation(trees, allPaths, treeRadius, clearingSize, ruins, water, rivers);
+    if (rivers.length > 0) {
+      this.ensureWalkable(grid, mainPath, entrance, exit);
+    }
 
     console.log(`[ForestGenerator] Dense forest generation complete`);
 
@@ -71,12 +133,201 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
       branchPaths: branches, // Separate branch paths for rendering
       entrance,
       exit,
+      rooms: ruins.length > 0 ? ruins : undefined, // Ruin footprints
+      rivers: rivers.length > 0 ? rivers : undefined,
       grid,
       seed: this.seed,
-      terrainType: TerrainType.Forest
+      terrainType: TerrainType.Forest,
+      subtype,
+      hexGrid: this.quantizeToHex(grid)
     };
   }
 
+  /**
+   * Plan rivers meandering from the top edge to the bottom edge
+   * Each centre line drifts around an evenly spaced column with Perlin noise.
+   * Cells near the centre are deep water, the edges shallows, with a bank beyond.
+   */
+  private planRivers(count: number, riverWidth: number): { rivers: River[]; water: Grid } {
+    const water = this.createEmptyGrid(ForestCell.Clearing);
+    const rivers: River[] = [];
+    const half = riverWidth / 2;
+    const margin = Math.ceil(half) + 2; // Keeps the entrance and exit on dry land
+    const amplitude = this.width / 4;
+
+    for (let i = 0; i < count; i++) {
+      const baseX = (this.width * (i + 1)) / (count + 1);
+      const phase = this.rng.nextFloat(0, 1000); // Gives each river its own slice of noise
+      const points: PathPoint[] = [];
+
+      for (let y = 0; y < this.height; y++) {
+        const drift = this.noise.octaveNoise(phase, y * 0.03, 3, 0.5) * amplitude;
+        const centerX = Math.max(margin, Math.min(this.width - 1 - margin, baseX + drift));
+        points.push({ x: Math.round(centerX), y });
+
+        for (let x = Math.floor(centerX - half - 1); x <= Math.ceil(centerX + half + 1); x++) {
+          if (!this.inBounds(x, y)) continue;
+          const distance = Math.abs(x - centerX);
+          const cell = distance < half - 1 ? ForestCell.DeepWater
+            : distance <= half ? ForestCell.Shallows
+            : distance <= half + 1 ? ForestCell.Bank
+            : ForestCell.Clearing;
+          if ((WETNESS[cell] ?? 0) > (WETNESS[water.get(x, y) as ForestCell] ?? 0)) {
+            water.set(x, y, cell);
+          }
+        }
+      }
+
+      rivers.push({ points, width: riverWidth, crossings: [] });
+    }
+
+    if (count > 0) {
+      console.log(`[ForestGenerator] Planned ${count} rivers, ${riverWidth} cells wide`);
+    }
+    return { rivers, water };
+  }
+
+  /**
+   * Record a crossing for every stretch of a path that runs through river water
+   * The main path bridges wide rivers and fords narrow ones; branch trails always ford
+   */
+  private addCrossings(path: PathPoint[], rivers: River[], water: Grid, pathWidth: number, isMainPath: boolean): void {
+    if (rivers.length === 0) return;
+
+    const isWet = (p: PathPoint) => {
+      const cell = water.getOr(p.x, p.y, ForestCell.Clearing);
+      return cell === ForestCell.Shallows || cell === ForestCell.DeepWater;
+    };
+
+    for (let i = 0; i < path.length; i++) {
+      if (!isWet(path[i])) continue;
+      let j = i;
+      while (j + 1 < path.length && isWet(path[j + 1])) j++;
+
+      // The river whose centre line is closest where the path enters the water
+      const entry = path[i];
+      const river = rivers.reduce((best, r) =>
+        Math.abs(r.points[entry.y].x - entry.x) < Math.abs(best.points[entry.y].x - entry.x) ? r : best
+      );
+      const crossing: RiverCrossing = {
+        type: isMainPath && river.width >= BRIDGE_MIN_WIDTH ? 'bridge' : 'ford',
+        start: { ...path[Math.max(0, i - 1)] },
+        end: { ...path[Math.min(path.length - 1, j + 1)] },
+        width: pathWidth * 2 + 1
+      };
+      river.crossings.push(crossing);
+      i = j;
+    }
+  }
+
+  /**
+   * Ford any main path cell that still blocks the way from entrance to exit
+   * Deep water counts as blocking, so a river the crossings missed can't cut the map in two
+   */
+  private ensureWalkable(grid: Grid, mainPath: PathPoint[], entrance: PathPoint, exit: PathPoint): void {
+    const walkable = (cell: number) => !FOREST_IMPASSABLE_CELLS.has(cell);
+    const reached = grid.floodFill(entrance.x, entrance.y, walkable);
+    if (reached.includes(grid.index(exit.x, exit.y))) return;
+
+    let forded = 0;
+    for (const point of mainPath) {
+      if (grid.get(point.x, point.y) === ForestCell.DeepWater) {
+        grid.set(point.x, point.y, ForestCell.Shallows);
+        forded++;
+      }
+    }
+    console.log(`[ForestGenerator] Forded ${forded} blocked main path cells`);
+  }
+
+  /**
+   * Plan tree-free glades for the grove subtypes
+   * Both groves get a central glade; enchanted groves add a few small ones around it
+   */
+  private planGlades(subtype?: ForestSubtype): Glade[] {
+    if (subtype !== ForestSubtype.ENCHANTED_GROVE && subtype !== ForestSubtype.SACRED_GROVE) {
+      return [];
+    }
+
+    const minDim = Math.min(this.width, this.height);
+    const glades: Glade[] = [{
+      x: Math.floor(this.width / 2),
+      y: Math.floor(this.height / 2),
+      radius: Math.max(4, Math.floor(minDim / 7))
+    }];
+
+    if (subtype === ForestSubtype.ENCHANTED_GROVE) {
+      const extra = 2 + this.rng.nextInt(0, 2);
+      for (let i = 0; i < extra; i++) {
+        const radius = Math.max(3, Math.floor(minDim / 14));
+        glades.push({
+          x: this.rng.nextInt(radius + 2, this.width - radius - 3),
+          y: this.rng.nextInt(radius + 2, this.height - radius - 3),
+          radius
+        });
+      }
+    }
+
+    console.log(`[ForestGenerator] Planned ${glades.length} glades`);
+    return glades;
+  }
+
+  /**
+   * Ring the central glade with large, evenly spaced trees
+   */
+  private ringOfTrees(glade: Glade, treeRadius: number): Tree[] {
+    const count = 8;
+    const ringRadius = glade.radius + 1;
+    const trees: Tree[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const angle = (i / count) * Math.PI * 2;
+      trees.push({
+        x: glade.x + Math.cos(angle) * ringRadius,
+        y: glade.y + Math.sin(angle) * ringRadius,
+        size: Math.round(treeRadius * 1.4 * 10) / 10,
+        clusterId: 1 // Kept apart from the dense fill for rendering
+      });
+    }
+
+    return trees;
+  }
+
+  /**
+   * Place a few rectangular ruin footprints away from the paths
+   */
+  private planRuins(paths: PathPoint[], clearingSize: number): Room[] {
+    const ruins: Room[] = [];
+    const target = 2 + this.rng.nextInt(0, 2);
+    const buffer = Math.ceil(clearingSize / 2) + 1;
+
+    for (let attempt = 0; attempt < 40 && ruins.length < target; attempt++) {
+      const width = this.rng.nextInt(6, 12);
+      const height = this.rng.nextInt(6, 12);
+      const ruin: Room = {
+        x: this.rng.nextInt(2, Math.max(2, this.width - width - 3)),
+        y: this.rng.nextInt(2, Math.max(2, this.height - height - 3)),
+        width,
+        height
+      };
+
+      const nearPath = paths.some(p =>
+        p.x >= ruin.x - buffer && p.x < ruin.x + ruin.width + buffer &&
+        p.y >= ruin.y - buffer && p.y < ruin.y + ruin.height + buffer
+      );
+      const overlaps = ruins.some(r =>
+        ruin.x < r.x + r.width + 2 && r.x < ruin.x + ruin.width + 2 &&
+        ruin.y < r.y + r.height + 2 && r.y < ruin.y + ruin.height + 2
+      );
+
+      if (!nearPath && !overlaps) {
+        ruins.push(ruin);
+      }
+    }
+
+    console.log(`[ForestGenerator] Placed ${ruins.length} ruins`);
+    return ruins;
+  }
+
   /**
    * Fill entire map with trees using dense grid-based placement
    * Avoids paths and uses Perlin noise for natural size variation
@@ -86,7 +337,8 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
     treeRadius: number,
     minTreeDistance: number,
     pathBuffer: number,
-    treeDensity: number
+    treeDensity: number,
+    isOpenArea: (x: number, y: number) => boolean = () => false
   ): Tree[] {
     const trees: Tree[] = [];
     const pathBufferRadius = pathBuffer / 2;
@@ -124,6 +376,7 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
         // Check if position is on path
         const key = `${Math.floor(treeX)},${Math.floor(treeY)}`;
         if (pathSet.has(key)) continue;
+        if (isOpenArea(treeX, treeY)) continue;
         
         // Use noise-based probability for slight variation (but keep very high)
         const noiseValue = this.noise.octaveNoise(treeX * 0.05, treeY * 0.05, 2, 0.5);
@@ -360,14 +613,17 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
   }
 
   /**
-   * Create grid representation: 0 = clearing, 1 = tree, 2 = path
+   * Create grid representation: 0 = clearing, 1 = tree, 2 = path, 3 = ruin wall, 4-7 = river (see ForestCell)
    */
   private createGridRepresentation(
     trees: Tree[],
     path: PathPoint[],
     treeRadius: number,
-    clearingSize: number
-  ): number[][] {
+    clearingSize: number,
+    ruins: Room[] = [],
+    water?: Grid,
+    rivers: River[] = []
+  ): Grid {
     const grid = this.createEmptyGrid(0);
     
     // Mark trees (round coordinates to integers for grid placement)
@@ -382,14 +638,37 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
             const x = treeX + dx;
             const y = treeY + dy;
             if (this.inBounds(x, y)) {
-              grid[y][x] = 1; // Tree
+              grid.set(x, y, 1); // Tree
             }
           }
         }
       }
     }
     
-    // Mark path with buffer
+    // Mark crumbling ruin walls: outlines with gaps, at least one doorway each
+    for (const ruin of ruins) {
+      const doorX = ruin.x + Math.floor(ruin.width / 2);
+      for (let y = ruin.y; y < ruin.y + ruin.height; y++) {
+        for (let x = ruin.x; x < ruin.x + ruin.width; x++) {
+          const onEdge = x === ruin.x || x === ruin.x + ruin.width - 1 || y === ruin.y || y === ruin.y + ruin.height - 1;
+          if (!onEdge || !this.inBounds(x, y)) continue;
+          if (y === ruin.y + ruin.height - 1 && x === doorX) continue;
+          if (this.rng.next() < 0.3) continue;
+          grid.set(x, y, ForestCell.Ruin);
+        }
+      }
+    }
+
+    // Mark rivers over trees and ruins
+    if (water) {
+      for (let i = 0; i < grid.cells.length; i++) {
+        if (water.cells[i] !== ForestCell.Clearing) {
+          grid.cells[i] = water.cells[i];
+        }
+      }
+    }
+
+    // Mark path with buffer; paths stop at the water and cross it on bridges or fords
     const pathWidth = Math.floor(clearingSize / 2);
     for (const point of path) {
       for (let dy = -pathWidth; dy <= pathWidth; dy++) {
@@ -397,7 +676,31 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
           const x = Math.floor(point.x) + dx;
           const y = Math.floor(point.y) + dy;
           if (this.inBounds(x, y)) {
-            grid[y][x] = 2; // Path (overrides trees)
+            const cell = grid.get(x, y);
+            if (cell === ForestCell.Shallows || cell === ForestCell.DeepWater) continue;
+            grid.set(x, y, 2); // Path (overrides trees)
+          }
+        }
+      }
+    }
+
+    // Mark crossings: bridge decks span the water, fords turn deep water into shallows
+    for (const river of rivers) {
+      for (const crossing of river.crossings) {
+        const radius = Math.floor(crossing.width / 2);
+        for (const point of this.interpolatePath(crossing.start, crossing.end)) {
+          for (let dy = -radius; dy <= radius; dy++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+              const x = point.x + dx;
+              const y = point.y + dy;
+              if (!this.inBounds(x, y)) continue;
+              const cell = grid.get(x, y);
+              if (crossing.type === 'bridge' && (cell === ForestCell.Shallows || cell === ForestCell.DeepWater)) {
+                grid.set(x, y, ForestCell.Bridge);
+              } else if (crossing.type === 'ford' && cell === ForestCell.DeepWater) {
+                grid.set(x, y, ForestCell.Shallows);
+              }
+            }
           }
         }
       }
@@ -406,3 +709,34 @@ export class ForestGenerator extends MapGenerator<MapData, number> {
     return grid;
   }
 }
+
+GeneratorRegistry.register({
+  terrainType: TerrainType.Forest,
+  name: 'Forest',
+  create: (parameters) => new ForestGenerator(parameters),
+  subtypes: Object.values(ForestSubtype),
+  parameters: [
+    { key: 'numClusters', label: 'Number of Clusters', description: 'Number of tree cluster groups across the map', type: 'number', min: 3, max: 30, step: 1, default: 12, auto: true },
+    { key: 'clusterSize', label: 'Cluster Size', description: 'Average number of trees in each cluster', type: 'number', min: 3, max: 20, step: 1, default: 8 },
+    { key: 'clusterRadius', label: 'Cluster Radius', description: 'Radius of each tree cluster in grid units', type: 'number', min: 4, max: 15, step: 1, default: 8 },
+    { key: 'clearingSize', label: 'Clearing Size', description: 'Minimum width of walkable clearings between clusters', type: 'number', min: 3, max: 12, step: 1, default: 6 },
+    { key: 'minTreeDistance', label: 'Min Tree Distance', description: 'Minimum distance between tree centers (prevents overlapping)', type: 'number', min: 1, max: 5, step: 1, default: 2 },
+    { key: 'treeRadius', label: 'Tree Radius', description: 'Radius of individual tree circles', type: 'number', min: 1, max: 5, step: 0.1, default: 2.5 },
+    { key: 'riverCount', label: 'Rivers', description: 'Rivers meandering across the map; paths cross them on bridges or fords', type: 'number', min: 0, max: 3, step: 1, default: 0 },
+    { key: 'riverWidth', label: 'River Width', description: 'Width of each river in cells; wider rivers get bridges on the main path', type: 'number', min: 2, max: 12, step: 1, default: 5 }
+  ],
+  presets: [
+    {
+      name: 'Sparse Forest',
+      parameters: { width: 100, height: 100, treeDensity: 0.2, minTreeDistance: 5, noiseScale: 0.04, treeRadius: 1.8 }
+    },
+    {
+      name: 'Dense Forest',
+      parameters: { width: 100, height: 100, treeDensity: 0.6, minTreeDistance: 2, noiseScale: 0.08, treeRadius: 1.2 }
+    },
+    {
+      name: 'Sacred Grove',
+      parameters: { width: 100, height: 100, subtype: ForestSubtype.SACRED_GROVE }
+    }
+  ]
+});
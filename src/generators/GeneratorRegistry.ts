@@ -0,0 +1,118 @@
+// Registry of terrain generators, their parameter schemas, presets and renderers
+
+import { MapData, GeneratorParameters, Preset, TerrainType, TerrainSubtype } from '../types/generator';
+import { MapGenerator } from './MapGenerator';
+
+/**
+ * Describes one tunable generator parameter so the UI can build its control
+ */
+export interface ParameterSchema {
+  key: keyof GeneratorParameters;
+  label: string;
+  description: string;
+  type: 'number' | 'boolean';
+  min?: number;
+  max?: number;
+  step?: number;
+  default: number | boolean;
+  // Leaving the value unset lets the subtype profile choose; shown as "auto" and reset on subtype change
+  auto?: boolean;
+}
+
+// Hook for drawing a generator's terrain layer in place of the built-in renderers
+export type TerrainRenderer = (ctx: CanvasRenderingContext2D, mapData: MapData, cellSize: number) => void;
+
+/**
+ * Everything the app needs to know about a generator
+ */
+export interface GeneratorDefinition {
+  terrainType: TerrainType;
+  name: string;
+  create: (parameters: GeneratorParameters) => MapGenerator;
+  subtypes?: TerrainSubtype[];
+  // Town layouts have no generic fallback, so the form hides the "default" subtype
+  subtypeRequired?: boolean;
+  parameters: ParameterSchema[];
+  presets?: Omit<Preset, 'terrainType'>[];
+  render?: TerrainRenderer;
+}
+
+// Map size shared by every generator; the form's sliders and permalinks keep to these bounds
+export const MAP_SIZE_PARAMETERS: ParameterSchema[] = [
+  { key: 'width', label: 'Width', description: 'Width of the map in grid cells', type: 'number', min: 30, max: 200, step: 1, default: 80 },
+  { key: 'height', label: 'Height', description: 'Height of the map in grid cells', type: 'number', min: 30, max: 200, step: 1, default: 80 }
+];
+
+// Room layout parameters shared by the BSP-based generators
+export const ROOM_PARAMETERS: ParameterSchema[] = [
+  { key: 'minRoomSize', label: 'Min Room Size', description: 'Minimum room size (width/height in cells)', type: 'number', min: 3, max: 10, step: 1, default: 5 },
+  { key: 'maxRoomSize', label: 'Max Room Size', description: 'Maximum room size (width/height in cells)', type: 'number', min: 6, max: 20, step: 1, default: 10 },
+  { key: 'roomCount', label: 'Room Count', description: 'Target number of rooms to generate', type: 'number', min: 3, max: 20, step: 1, default: 8 },
+  { key: 'corridorWidth', label: 'Corridor Width', description: 'Width of corridors connecting rooms', type: 'number', min: 1, max: 3, step: 1, default: 1 },
+  { key: 'gridSize', label: 'Grid Size', description: 'Grid alignment spacing for rooms', type: 'number', min: 1, max: 8, step: 1, default: 4 }
+];
+
+// Door type ratios used by the door pass
+export const DOOR_PARAMETERS: ParameterSchema[] = [
+  { key: 'doorwayRatio', label: 'Open Doorways', description: 'Share of doorways left open (no door)', type: 'number', min: 0, max: 1, step: 0.01, default: 0.3 },
+  { key: 'lockedDoorRatio', label: 'Locked Doors', description: 'Share of doors that are locked', type: 'number', min: 0, max: 1, step: 0.01, default: 0.1 },
+  { key: 'secretDoorRatio', label: 'Secret Doors', description: 'Share of doors that are secret (hidden from players)', type: 'number', min: 0, max: 1, step: 0.01, default: 0.1 }
+];
+
+// Prefab set-pieces stamped into BSP rooms (houses and dungeons)
+export const PREFAB_PARAMETERS: ParameterSchema[] = [
+  { key: 'prefabChance', label: 'Prefab Rooms', description: 'Chance that a room large enough for a prefab set-piece (ritual chamber, throne room...) becomes one', type: 'number', min: 0, max: 1, step: 0.05, default: 0 }
+];
+
+/**
+ * Central lookup for generators. Each generator module registers itself on import,
+ * so adding a terrain only needs a new generator file and an import in index.ts.
+ */
+export class GeneratorRegistry {
+  private static definitions = new Map<TerrainType, GeneratorDefinition>();
+
+  /**
+   * Register a generator, replacing any existing one for the same terrain
+   */
+  static register(definition: GeneratorDefinition): void {
+    this.definitions.set(definition.terrainType, definition);
+  }
+
+  /**
+   * Remove a generator from the registry
+   */
+  static unregister(terrainType: TerrainType): void {
+    this.definitions.delete(terrainType);
+  }
+
+  static get(terrainType: TerrainType): GeneratorDefinition | undefined {
+    return this.definitions.get(terrainType);
+  }
+
+  /**
+   * All registered generators in registration order
+   */
+  static getAll(): GeneratorDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Create a generator for a terrain
+   */
+  static create(terrainType: TerrainType, parameters: GeneratorParameters): MapGenerator {
+    const definition = this.definitions.get(terrainType);
+    if (!definition) {
+      throw new Error(`No generator registered for terrain "${terrainType}"`);
+    }
+    return definition.create(parameters);
+  }
+
+  /**
+   * Presets of every registered generator, tagged with their terrain
+   */
+  static getPresets(): Preset[] {
+    return this.getAll().flatMap(definition =>
+      (definition.presets ?? []).map(preset => ({ ...preset, terrainType: definition.terrainType }))
+    );
+  }
+}
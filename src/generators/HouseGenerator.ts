@@ -1,9 +1,22 @@
 // House Generator using Binary Space Partitioning
 // Refined implementation with guaranteed connectivity and non-overlapping rooms
+// Subtypes shape the footprint: compact cottages, manors and inns built around a hall,
+// castles with corner towers and round wizard towers
+// Multi-story houses stack floors on one footprint, joined by stairs at matching cells
+// The ground floor gets an entrance, a goal room and a critical path (see ProgressionAnalyzer),
+// and its rooms are tagged and numbered for the key (see RoomTagger)
+// Prefab set-pieces can replace BSP rooms on any floor except in round towers (see PrefabStamper)
 
 import { MapGenerator } from './MapGenerator';
-import { MapData, Room, TerrainType } from '../types/generator';
+import { GeneratorRegistry, ROOM_PARAMETERS, DOOR_PARAMETERS, PREFAB_PARAMETERS } from './GeneratorRegistry';
+import { PrefabRegistry } from './PrefabRegistry';
+import { Corridor, GenerationPhase, HouseFloor, MapData, Room, Staircase, TerrainType } from '../types/generator';
+import { HouseStory, HouseSubtype } from '../types/enums';
 import { ConnectivityUtils } from '../utils/connectivity';
+import { DoorPlacer } from '../utils/doors';
+import { RoomTagger } from '../utils/roomKey';
+import { PREFAB_CELL_CODES, PrefabStamper } from '../utils/prefabs';
+import { Grid } from '../utils/grid';
 
 interface BSPNode {
   x: number;
@@ -15,6 +28,32 @@ interface BSPNode {
   room?: Room;
 }
 
+type HouseLayout = 'rooms' | 'centralHall' | 'frontHall' | 'towers' | 'round';
+
+// Per-subtype footprint (fraction of the map used) and layout style
+const SUBTYPE_PROFILES: Record<HouseSubtype, { footprint: number; layout: HouseLayout }> = {
+  [HouseSubtype.COTTAGE]: { footprint: 0.55, layout: 'rooms' },
+  [HouseSubtype.MANOR]: { footprint: 1, layout: 'centralHall' },
+  [HouseSubtype.INN]: { footprint: 0.85, layout: 'frontHall' },
+  [HouseSubtype.CASTLE]: { footprint: 1, layout: 'towers' },
+  [HouseSubtype.WIZARD_TOWER]: { footprint: 0.8, layout: 'round' }
+};
+
+// Room settings shared by every floor of a house
+interface FloorOptions {
+  layout: HouseLayout;
+  minRoomSize: number;
+  maxRoomSize: number;
+  roomCount: number;
+  corridorWidth: number;
+  gridSize: number;
+  prefabChance: number;
+  floorCount: number; // Floors being generated, for progress reporting
+}
+
+// Floors from the bottom up
+const STORY_ORDER: HouseStory[] = [HouseStory.STORY_1, HouseStory.STORY_2, HouseStory.STORY_3];
+
 export class HouseGenerator extends MapGenerator<MapData, number> {
   generate(): MapData {
     const minRoomSize = this.getParam('minRoomSize', 4);
@@ -22,6 +61,11 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
     const roomCount = this.getParam('roomCount', 8);
     const corridorWidth = this.getParam('corridorWidth', 1);
     const gridSize = this.getParam('gridSize', 4); // Grid alignment spacing
+    const prefabChance = this.getParam('prefabChance', 0);
+    const stories = Math.max(1, Math.min(3, Math.round(this.getParam('stories', 1))));
+    const basement = this.getParam('basement', false);
+    const subtype = this.getSubtype(HouseSubtype);
+    const profile = subtype ? SUBTYPE_PROFILES[subtype] : { footprint: 1, layout: 'rooms' as HouseLayout };
 
     // Validate parameters
     if (minRoomSize > maxRoomSize) {
@@ -41,62 +85,378 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
     const alignedWidth = this.snapToGrid(this.width - (padding * 2), gridSize);
     const alignedHeight = this.snapToGrid(this.height - (padding * 2), gridSize);
     
-    const root: BSPNode = {
+    const root = this.shrinkToFootprint({
       x: alignedX,
       y: alignedY,
       width: alignedWidth,
       height: alignedHeight
+    }, profile.footprint, profile.layout === 'round', gridSize);
+
+    const floorCount = stories + (basement ? 1 : 0);
+    const options: FloorOptions = { layout: profile.layout, minRoomSize, maxRoomSize, roomCount, corridorWidth, gridSize, prefabChance, floorCount };
+
+    // Ground floor is always generated first so single-story houses are unchanged
+    const ground = this.generateFloor(HouseStory.STORY_1, root, options, []);
+
+    let floors: HouseFloor[] | undefined;
+    if (stories > 1 || basement) {
+      floors = [ground];
+
+      // Upper floors share the ground floor's outer walls; stairs climb from a room on the floor below
+      for (let level = 1; level < stories; level++) {
+        const below = floors[floors.length - 1];
+        const story = STORY_ORDER[level];
+        const stairs = this.placeStairs(below, story);
+        floors.push(this.generateFloor(story, root, options, [stairs], level));
+      }
+
+      // The basement spreads past the house walls and has no fixed rooms
+      if (basement) {
+        const stairs = this.placeStairs(ground, HouseStory.BASEMENT);
+        const cellar = this.growFootprint(root, gridSize);
+        floors.unshift(this.generateFloor(HouseStory.BASEMENT, cellar, { ...options, layout: 'rooms' }, [stairs], stories));
+      }
+
+      console.log(`[HouseGenerator] Generated ${floors.length} floors: ${floors.map(f => f.story).join(', ')}`);
+    }
+
+    const mapData: MapData = {
+      width: this.width,
+      height: this.height,
+      rooms: ground.rooms,
+      corridors: ground.corridors,
+      doors: ground.doors,
+      grid: ground.grid,
+      ...this.analyzeProgression(ground.grid, ground.rooms, cell => cell === 1), // Ground floor
+      ...(ground.prefabs ? { prefabs: ground.prefabs } : {}),
+      floors,
+      seed: this.seed,
+      terrainType: TerrainType.House,
+      subtype
     };
+    mapData.roomKey = RoomTagger.tag(mapData, this.random); // Ground floor rooms
+    return mapData;
+  }
+
+  /**
+   * Generate one floor inside the given footprint
+   * Stairs arriving from an adjacent floor get a landing so their cell is always floor
+   */
+  private generateFloor(
+    story: HouseStory,
+    footprint: BSPNode,
+    options: FloorOptions,
+    stairs: Staircase[],
+    floorIndex = 0
+  ): HouseFloor {
+    const { layout, minRoomSize, maxRoomSize, roomCount, corridorWidth, gridSize, prefabChance, floorCount } = options;
+    const report = (phase: GenerationPhase, fraction: number) => this.reportProgress(phase, (floorIndex + fraction) / floorCount);
+
+    // Small footprints (cottages, towers, the space left beside a hall) may not hold two rooms
+    // of the requested size; rooms shrink a step at a time, then drop the grid alignment,
+    // until they fit instead of failing
+    report('split', 0);
+    let fixedRooms: Room[] = [];
+    let partitions: BSPNode[] = [];
+    let rooms: Room[] = [];
+    let minSize = minRoomSize;
+    let splitGrid = gridSize;
+    for (;;) {
+      // Reserve fixed rooms (halls, towers) and leave the rest of the footprint to BSP
+      ({ fixedRooms, partitions } = this.reserveFixedRooms({ ...footprint }, layout, minSize, splitGrid));
+
+      // Binary Space Partitioning - iteratively split space using queue-based algorithm
+      rooms = [];
+      for (const partition of partitions) {
+        this.splitNodeIterative(partition, minSize, splitGrid);
+
+        // Create rooms in leaf nodes (BSP guarantees non-overlapping)
+        this.createRooms(partition, rooms, minSize, maxRoomSize, splitGrid);
+      }
+
+      // Round towers keep only the rooms that fit inside the outer wall
+      if (layout === 'round') {
+        const inside = rooms.filter(room => this.fitsInCircle(room, footprint));
+        if (inside.length >= 2) {
+          rooms = inside;
+        }
+      }
 
-    // Binary Space Partitioning - iteratively split space using queue-based algorithm
-    this.splitNodeIterative(root, minRoomSize, gridSize);
+      if (rooms.length + fixedRooms.length >= 2 || (minSize <= 3 && splitGrid === 1)) break;
+      console.log(`[HouseGenerator] ${layout} footprint ${footprint.width}x${footprint.height} holds no two ${minSize}-cell rooms on a ${splitGrid}-cell grid, shrinking`);
+      if (minSize > 3) {
+        minSize--;
+      } else {
+        splitGrid = 1;
+      }
+    }
+    report('rooms', 0.2);
+
+    // Limit to requested room count (keep first N rooms, fixed rooms always stay)
+    const freeRoomCount = Math.max(2 - fixedRooms.length, roomCount - fixedRooms.length);
+    if (rooms.length > freeRoomCount) {
+      rooms.length = freeRoomCount;
+    }
 
-    // Create rooms in leaf nodes (BSP guarantees non-overlapping)
-    const rooms: Room[] = [];
-    this.createRooms(root, rooms, minRoomSize, maxRoomSize, gridSize);
+    // Prefab set-pieces take over BSP rooms whose partition can hold them
+    let vaults = layout === 'round' ? [] : PrefabStamper.place(
+      rooms,
+      room => partitions.map(partition => this.findLeaf(partition, room)).find(leaf => leaf !== undefined),
+      PrefabRegistry.forTerrain(TerrainType.House, this.parameters.prefabs),
+      prefabChance,
+      this.random,
+      { width: this.width, height: this.height }
+    );
+    rooms.unshift(...fixedRooms);
 
     // Verify no overlaps (paranoid check - BSP should guarantee this)
     this.validateNoOverlaps(rooms);
 
-    // Limit to requested room count (keep first N rooms)
-    if (rooms.length > roomCount) {
-      rooms.length = roomCount;
+    // Ensure we have at least 2 rooms for connectivity (floors reached by stairs always have their landing)
+    if (rooms.length < 2 && stairs.length === 0) {
+      throw new Error('Not enough space to generate requested rooms');
     }
 
-    // Ensure we have at least 2 rooms for connectivity
-    if (rooms.length < 2) {
-      throw new Error('Not enough space to generate requested rooms');
+    // Stairs that land outside every room get a small landing; BSP rooms in its way are dropped
+    for (const stair of stairs) {
+      if (rooms.some(room => ConnectivityUtils.pointInRoom(stair, room))) continue;
+      const landing = this.createLanding(stair, footprint);
+      rooms = rooms.filter(room => fixedRooms.includes(room) || !ConnectivityUtils.roomsOverlap(room, landing, 1));
+      rooms.push(landing);
     }
+    vaults = vaults.filter(vault => rooms.includes(vault.room));
 
     // Connect rooms using Minimum Spanning Tree - guarantees all rooms reachable
+    report('corridors', 0.4);
     const corridors = ConnectivityUtils.connectRooms(rooms);
 
-    // Verify connectivity
-    this.validateConnectivity(rooms, corridors);
-
     // Create grid (0 = wall, 1 = floor)
     const grid = this.createEmptyGrid(0);
     
-    // Draw rooms as filled rectangles
+    // Draw rooms as filled rectangles, prefabs as their cells
+    const prefabCodes = PREFAB_CELL_CODES[TerrainType.House]!;
+    const isFloor = (cell: number) => cell === 1;
     for (const room of rooms) {
-      this.drawRoom(grid, room);
+      const vault = vaults.find(v => v.room === room);
+      if (vault) {
+        PrefabStamper.stamp(grid, vault, prefabCodes);
+      } else {
+        this.drawRoom(grid, room);
+      }
     }
 
-    // Draw corridors as thin lines with configurable width (grid-aligned)
+    // Draw corridors as thin lines with configurable width (grid-aligned);
+    // corridors to or across a prefab go round it to an anchor door
+    const carve = (point: { x: number; y: number }) => this.drawHorizontalLine(grid, point.x, point.x, point.y, corridorWidth);
     for (const corridor of corridors) {
-      this.drawCorridor(grid, corridor.start, corridor.end, corridorWidth, gridSize);
+      const route = PrefabStamper.routeCorridor(grid, corridor, vaults, corridorWidth + gridSize);
+      if (route) {
+        route.forEach(carve);
+      } else {
+        this.drawCorridor(grid, corridor.start, corridor.end, corridorWidth, gridSize);
+      }
+    }
+    for (const route of PrefabStamper.linkAnchors(grid, vaults, isFloor)) {
+      route.forEach(carve);
+    }
+    for (const vault of vaults) {
+      PrefabStamper.stamp(grid, vault, prefabCodes, isFloor);
+    }
+
+    // Round towers get a ring gallery along the outer wall, joined to the nearest room
+    if (layout === 'round') {
+      corridors.push(this.drawRingGallery(grid, footprint, rooms));
     }
 
+    // Verify every room is reachable on the finished grid
+    report('connectivity', 0.6);
+    this.checkConnectivity(grid, rooms, isFloor);
+
+    // Doors wherever a corridor meets a room
+    const doors = DoorPlacer.placeDoors(grid, rooms, isFloor, this.random, this.getDoorRatios());
+
     return {
-      width: this.width,
-      height: this.height,
+      story,
+      footprint: { x: footprint.x, y: footprint.y, width: footprint.width, height: footprint.height },
       rooms,
       corridors,
-      grid,
-      seed: this.seed,
-      terrainType: TerrainType.House
+      stairs: [...stairs],
+      doors,
+      ...(vaults.length > 0 ? { prefabs: PrefabStamper.describe(grid, vaults, rooms, isFloor) } : {}),
+      grid
+    };
+  }
+
+  /**
+   * Pick a stair cell inside a room of the given floor and record the staircase on it
+   * Returns the matching staircase for the floor being reached
+   */
+  private placeStairs(floor: HouseFloor, to: HouseStory): Staircase {
+    // Prefer a room that doesn't already hold stairs and isn't a prefab
+    const prefabRooms = (floor.prefabs ?? []).map(prefab => floor.rooms[prefab.room]);
+    const free = floor.rooms.filter(room =>
+      !prefabRooms.includes(room) && !floor.stairs.some(stair => ConnectivityUtils.pointInRoom(stair, room))
+    );
+    const room = this.random.choice(free.length > 0 ? free : floor.rooms);
+
+    // Keep stairs one cell clear of the walls where the room allows it
+    const x = room.width > 2 ? this.random.nextInt(room.x + 1, room.x + room.width - 2) : room.x;
+    const y = room.height > 2 ? this.random.nextInt(room.y + 1, room.y + room.height - 2) : room.y;
+
+    const goingUp = STORY_ORDER.indexOf(to) > STORY_ORDER.indexOf(floor.story);
+    floor.stairs.push({ x, y, direction: goingUp ? 'up' : 'down', to });
+    return { x, y, direction: goingUp ? 'down' : 'up', to: floor.story };
+  }
+
+  /**
+   * Build a 3x3 landing around a stair cell, clipped to the footprint
+   */
+  private createLanding(stair: Staircase, footprint: BSPNode): Room {
+    const x = Math.max(footprint.x, stair.x - 1);
+    const y = Math.max(footprint.y, stair.y - 1);
+    return {
+      x,
+      y,
+      width: Math.min(footprint.x + footprint.width, stair.x + 2) - x,
+      height: Math.min(footprint.y + footprint.height, stair.y + 2) - y
+    };
+  }
+
+  /**
+   * Grow a footprint by one grid step on every side, staying inside the map border
+   */
+  private growFootprint(root: BSPNode, gridSize: number): BSPNode {
+    const x = Math.max(1, root.x - gridSize);
+    const y = Math.max(1, root.y - gridSize);
+    return {
+      x,
+      y,
+      width: Math.min(this.width - 1, root.x + root.width + gridSize) - x,
+      height: Math.min(this.height - 1, root.y + root.height + gridSize) - y
     };
   }
+  /**
+   * Shrink the building area to a centred footprint (square for round towers)
+   */
+  private shrinkToFootprint(root: BSPNode, footprint: number, square: boolean, gridSize: number): BSPNode {
+    if (footprint >= 1 && !square) return root;
+
+    let width = Math.max(gridSize, this.snapToGrid(root.width * footprint, gridSize));
+    let height = Math.max(gridSize, this.snapToGrid(root.height * footprint, gridSize));
+    if (square) {
+      width = height = Math.min(width, height);
+    }
+
+    return {
+      x: root.x + this.snapToGrid((root.width - width) / 2, gridSize),
+      y: root.y + this.snapToGrid((root.height - height) / 2, gridSize),
+      width,
+      height
+    };
+  }
+
+  /**
+   * Carve out the rooms a subtype always has and return the partitions left for BSP
+   * - centralHall: a gallery across the middle with wings above and below (manor)
+   * - frontHall: a common room along the front with guest rooms behind (inn)
+   * - towers: a square tower in each corner around an inner ward (castle)
+   */
+  private reserveFixedRooms(
+    root: BSPNode,
+    layout: HouseLayout,
+    minSize: number,
+    gridSize: number
+  ): { fixedRooms: Room[]; partitions: BSPNode[] } {
+    if (layout === 'centralHall' || layout === 'frontHall') {
+      const central = layout === 'centralHall';
+      const hallHeight = Math.max(minSize, this.snapToGrid(root.height / (central ? 5 : 3), gridSize));
+      const hallY = central
+        ? root.y + this.snapToGrid((root.height - hallHeight) / 2, gridSize)
+        : root.y + root.height - hallHeight - 1;
+      const hall: Room = { x: root.x + 1, y: hallY, width: root.width - 2, height: hallHeight };
+
+      const partitions: BSPNode[] = [{ x: root.x, y: root.y, width: root.width, height: hallY - root.y - 1 }];
+      if (central) {
+        const below = hallY + hallHeight + 1;
+        partitions.push({ x: root.x, y: below, width: root.width, height: root.y + root.height - below });
+      }
+      return { fixedRooms: [hall], partitions };
+    }
+
+    if (layout === 'towers') {
+      // Capped so the corner towers never meet on a short footprint
+      const towerSize = Math.min(
+        Math.max(minSize, this.snapToGrid(Math.min(root.width, root.height) / 6, gridSize)),
+        Math.floor((Math.min(root.width, root.height) - 1) / 2)
+      );
+      const right = root.x + root.width - towerSize;
+      const bottom = root.y + root.height - towerSize;
+      const towers: Room[] = [
+        { x: root.x, y: root.y, width: towerSize, height: towerSize },
+        { x: right, y: root.y, width: towerSize, height: towerSize },
+        { x: root.x, y: bottom, width: towerSize, height: towerSize },
+        { x: right, y: bottom, width: towerSize, height: towerSize }
+      ];
+      const inset = towerSize + 1;
+      return {
+        fixedRooms: towers,
+        partitions: [{ x: root.x + inset, y: root.y + inset, width: root.width - inset * 2, height: root.height - inset * 2 }]
+      };
+    }
+
+    return { fixedRooms: [], partitions: [root] };
+  }
+
+  /**
+   * Check that every corner of a room lies inside the circle inscribed in the footprint
+   */
+  private fitsInCircle(room: Room, footprint: BSPNode): boolean {
+    const cx = footprint.x + footprint.width / 2;
+    const cy = footprint.y + footprint.height / 2;
+    const radius = footprint.width / 2 - 2; // Leave space for the ring gallery
+    const corners = [
+      [room.x, room.y],
+      [room.x + room.width, room.y],
+      [room.x, room.y + room.height],
+      [room.x + room.width, room.y + room.height]
+    ];
+    return corners.every(([x, y]) => Math.hypot(x - cx, y - cy) <= radius);
+  }
+
+  /**
+   * Draw a circular gallery just inside the tower wall and a spoke to the nearest room
+   */
+  private drawRingGallery(grid: Grid, footprint: BSPNode, rooms: Room[]): Corridor {
+    const cx = footprint.x + footprint.width / 2;
+    const cy = footprint.y + footprint.height / 2;
+    const radius = footprint.width / 2 - 1;
+
+    for (let y = footprint.y; y < footprint.y + footprint.height; y++) {
+      for (let x = footprint.x; x < footprint.x + footprint.width; x++) {
+        // 0.75 band keeps the ring 4-connected
+        if (this.inBounds(x, y) && Math.abs(Math.hypot(x + 0.5 - cx, y + 0.5 - cy) - radius) <= 0.75) {
+          grid.set(x, y, 1); // Floor
+        }
+      }
+    }
+
+    // Spoke runs east from the room closest to the ring
+    const room = rooms.reduce((best, r) => (r.x + r.width > best.x + best.width ? r : best));
+    const center = ConnectivityUtils.getRoomCenter(room);
+    const start: [number, number] = [Math.round(center.x), Math.round(center.y)];
+    const ringX = Math.floor(cx + Math.sqrt(Math.max(0, radius * radius - (start[1] + 0.5 - cy) ** 2)));
+    this.drawHorizontalLine(grid, start[0], ringX, start[1], 1);
+
+    return { start, end: [ringX, start[1]] };
+  }
+
+  /**
+   * BSP leaf a room was created in
+   */
+  private findLeaf(node: BSPNode, room: Room): BSPNode | undefined {
+    if (node.room === room) return node;
+    return (node.left && this.findLeaf(node.left, room)) || (node.right && this.findLeaf(node.right, room)) || undefined;
+  }
 
   /**
    * Snap a value to the nearest grid point
@@ -109,14 +469,8 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
    * Draw a room as a filled rectangle on the grid
    * Rooms are axis-aligned and grid-snapped
    */
-  private drawRoom(grid: number[][], room: Room): void {
-    for (let y = room.y; y < room.y + room.height; y++) {
-      for (let x = room.x; x < room.x + room.width; x++) {
-        if (this.inBounds(x, y)) {
-          grid[y][x] = 1; // Floor
-        }
-      }
-    }
+  private drawRoom(grid: Grid, room: Room): void {
+    grid.fillRect(room.x, room.y, room.width, room.height, 1); // Floor
   }
 
   /**
@@ -133,51 +487,15 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
   }
 
   /**
-   * Validate that all rooms are connected (reachability check)
+   * Warn about rooms whose floor is cut off from the main floor region (MapAnalyzer reports the full picture)
    */
-  private validateConnectivity(rooms: Room[], corridors: any[]): void {
-    // MST should have exactly n-1 edges for n rooms
-    if (corridors.length !== rooms.length - 1) {
-      console.warn(`Expected ${rooms.length - 1} corridors, got ${corridors.length}`);
-    }
-
-    // Additional check: verify MST structure
-    const connected = new Set<number>([0]);
-    const edges = corridors.map((c, idx) => ({ corridor: c, used: false }));
-    
-    let changed = true;
-    while (changed && connected.size < rooms.length) {
-      changed = false;
-      for (let i = 0; i < edges.length; i++) {
-        if (edges[i].used) continue;
-        
-        // Check if this corridor connects a known room to a new room
-        for (let roomIdx = 0; roomIdx < rooms.length; roomIdx++) {
-          if (connected.has(roomIdx)) continue;
-          
-          const room = rooms[roomIdx];
-          const center = ConnectivityUtils.getRoomCenter(room);
-          const corridor = edges[i].corridor;
-          
-          // Check if corridor endpoint matches this room center
-          const matches = (
-            (Math.abs(corridor.start[0] - Math.round(center.x)) < 2 &&
-             Math.abs(corridor.start[1] - Math.round(center.y)) < 2) ||
-            (Math.abs(corridor.end[0] - Math.round(center.x)) < 2 &&
-             Math.abs(corridor.end[1] - Math.round(center.y)) < 2)
-          );
-          
-          if (matches) {
-            connected.add(roomIdx);
-            edges[i].used = true;
-            changed = true;
-          }
-        }
-      }
-    }
-
-    if (connected.size < rooms.length) {
-      console.warn(`Only ${connected.size}/${rooms.length} rooms are connected`);
+  private checkConnectivity(grid: Grid, rooms: Room[], isFloor: (cell: number) => boolean): void {
+    const [main = []] = grid.regions(isFloor);
+    const roomAt = ConnectivityUtils.roomIndexGrid(grid, rooms);
+    const reached = new Set(main.map(index => roomAt[index]));
+    const unreached = rooms.map((_, index) => index).filter(index => !reached.has(index));
+    if (unreached.length > 0) {
+      console.warn(`[HouseGenerator] Rooms ${unreached.join(', ')} are not reachable from the main floor`);
     }
   }
 
@@ -491,7 +809,7 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
    * Corridors are grid-aligned and run horizontally/vertically only
    */
   private drawCorridor(
-    grid: number[][], 
+    grid: Grid, 
     start: [number, number], 
     end: [number, number],
     corridorWidth: number,
@@ -520,7 +838,7 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
    * Draw horizontal corridor line with specified width
    */
   private drawHorizontalLine(
-    grid: number[][], 
+    grid: Grid, 
     x1: number, 
     x2: number, 
     y: number, 
@@ -535,7 +853,7 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
     for (let x = minX; x <= maxX; x++) {
       for (let dy = -offset; dy < width - offset; dy++) {
         if (this.inBounds(x, y + dy)) {
-          grid[y + dy][x] = 1; // Floor
+          grid.set(x, y + dy, 1); // Floor
         }
       }
     }
@@ -545,7 +863,7 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
    * Draw vertical corridor line with specified width
    */
   private drawVerticalLine(
-    grid: number[][], 
+    grid: Grid, 
     y1: number, 
     y2: number, 
     x: number, 
@@ -560,9 +878,45 @@ export class HouseGenerator extends MapGenerator<MapData, number> {
     for (let y = minY; y <= maxY; y++) {
       for (let dx = -offset; dx < width - offset; dx++) {
         if (this.inBounds(x + dx, y)) {
-          grid[y][x + dx] = 1; // Floor
+          grid.set(x + dx, y, 1); // Floor
         }
       }
     }
   }
 }
+
+GeneratorRegistry.register({
+  terrainType: TerrainType.House,
+  name: 'House',
+  create: (parameters) => new HouseGenerator(parameters),
+  subtypes: Object.values(HouseSubtype),
+  parameters: [
+    ...ROOM_PARAMETERS,
+    ...DOOR_PARAMETERS,
+    ...PREFAB_PARAMETERS,
+    { key: 'stories', label: 'Stories', description: 'Floors above ground, joined by stairs', type: 'number', min: 1, max: 3, step: 1, default: 1 },
+    { key: 'basement', label: 'Basement', description: 'Add a basement that can spread past the house walls', type: 'boolean', default: false }
+  ],
+  presets: [
+    {
+      name: 'Small House',
+      parameters: { width: 60, height: 60, minRoomSize: 4, maxRoomSize: 8, roomCount: 5, corridorWidth: 1, gridSize: 4 }
+    },
+    {
+      name: 'Large Manor',
+      parameters: { width: 100, height: 100, minRoomSize: 6, maxRoomSize: 15, roomCount: 12, corridorWidth: 2, gridSize: 4 }
+    },
+    {
+      name: 'Townhouse',
+      parameters: { width: 60, height: 60, minRoomSize: 4, maxRoomSize: 8, roomCount: 5, corridorWidth: 1, gridSize: 2, stories: 3, basement: true }
+    },
+    {
+      name: 'Castle',
+      parameters: { width: 100, height: 100, minRoomSize: 5, maxRoomSize: 12, roomCount: 12, corridorWidth: 2, gridSize: 4, subtype: HouseSubtype.CASTLE }
+    },
+    {
+      name: 'Wizard Tower',
+      parameters: { width: 70, height: 70, minRoomSize: 4, maxRoomSize: 8, roomCount: 6, corridorWidth: 1, gridSize: 2, subtype: HouseSubtype.WIZARD_TOWER }
+    }
+  ]
+});
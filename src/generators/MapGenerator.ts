@@ -1,39 +1,53 @@
 // Abstract base class for map generators with generic grid cell types
 
-import { MapData, GeneratorParameters } from '../types/generator';
+import { MapData, GeneratorParameters, TerrainSubtype, HexGridData, GenerationPhase, GenerationProgress, Room } from '../types/generator';
 import { SeededRandom } from '../utils/random';
+import { DoorRatios } from '../utils/doors';
+import { HexUtils } from '../utils/hex';
+import { Grid } from '../utils/grid';
+import { ProgressionAnalyzer } from '../utils/progression';
 
 /**
  * Abstract base class for all terrain generators with TypeScript generics
  * @template TData - The specific MapData type returned by the generator
- * @template TCellType - The type of cell values in the grid (defaults to number)
+ * @template TCellType - The cell codes stored in the grid (defaults to number)
  */
 export abstract class MapGenerator<
   TData extends MapData = MapData,
-  TCellType = number
+  TCellType extends number = number
 > {
   protected width: number;
   protected height: number;
   protected seed: number;
   protected random: SeededRandom;
   protected parameters: GeneratorParameters;
+  private progressListener?: (progress: GenerationProgress) => void;
 
   constructor(parameters: GeneratorParameters) {
     this.parameters = parameters;
     this.width = parameters.width;
     this.height = parameters.height;
-    this.seed = parameters.seed ?? Date.now();
+    this.seed = SeededRandom.toNumber(parameters.seed ?? Date.now());
     this.random = new SeededRandom(this.seed);
   }
 
   // Abstract method to be implemented by subclasses
   abstract generate(): TData;
 
+  // Register a callback for phase progress (used by the generation worker)
+  onProgress(listener: (progress: GenerationProgress) => void): this {
+    this.progressListener = listener;
+    return this;
+  }
+
+  // Helper to report entering a generation phase; progress is overall completion from 0 to 1
+  protected reportProgress(phase: GenerationPhase, progress: number): void {
+    this.progressListener?.({ phase, progress: Math.max(0, Math.min(1, progress)) });
+  }
+
   // Helper method to create empty grid with generic cell type
-  protected createEmptyGrid(fillValue: TCellType = 0 as TCellType): TCellType[][] {
-    return Array(this.height)
-      .fill(null)
-      .map(() => Array(this.width).fill(fillValue));
+  protected createEmptyGrid(fillValue: TCellType = 0 as TCellType): Grid<TCellType> {
+    return new Grid<TCellType>(this.width, this.height, fillValue);
   }
 
   // Helper method to check if coordinates are within bounds
@@ -41,27 +55,14 @@ export abstract class MapGenerator<
     return x >= 0 && x < this.width && y >= 0 && y < this.height;
   }
 
-  // Helper method to count neighbors (for cellular automata) with generic cell type
+  // Helper method to count neighbors (for cellular automata); out of bounds counts as walls
   protected countNeighbors(
-    grid: TCellType[][],
+    grid: Grid<TCellType>,
     x: number,
     y: number,
     value: TCellType
   ): number {
-    let count = 0;
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        const nx = x + dx;
-        const ny = y + dy;
-        if (this.inBounds(nx, ny) && grid[ny][nx] === value) {
-          count++;
-        } else if (!this.inBounds(nx, ny)) {
-          count++; // Count out of bounds as walls
-        }
-      }
-    }
-    return count;
+    return grid.countNeighbors(x, y, value);
   }
 
   // Helper to get parameter with default value
@@ -71,4 +72,39 @@ export abstract class MapGenerator<
   ): NonNullable<GeneratorParameters[K]> {
     return (this.parameters[key] ?? defaultValue) as NonNullable<GeneratorParameters[K]>;
   }
+
+  // Helper to read the subtype parameter, ignoring values that belong to another terrain
+  protected getSubtype<T extends TerrainSubtype>(subtypes: Record<string, T>): T | undefined {
+    const subtype = this.parameters.subtype;
+    return (Object.values(subtypes) as TerrainSubtype[]).includes(subtype as TerrainSubtype)
+      ? subtype as T
+      : undefined;
+  }
+
+  // Helper to resample the finished grid onto hex cells when hexOrientation is set
+  protected quantizeToHex(grid: Grid): HexGridData | undefined {
+    const orientation = this.parameters.hexOrientation;
+    return orientation ? { orientation, cells: HexUtils.quantizeGrid(grid, orientation) } : undefined;
+  }
+
+  // Helper to read the door type ratios used by the door pass
+  protected getDoorRatios(): DoorRatios {
+    return {
+      doorway: this.getParam('doorwayRatio', 0.3),
+      locked: this.getParam('lockedDoorRatio', 0.1),
+      secret: this.getParam('secretDoorRatio', 0.1)
+    };
+  }
+
+  // Helper to pick the entrance and goal room and trace the critical path between them
+  protected analyzeProgression(
+    grid: Grid,
+    rooms: Room[],
+    isWalkable: (cell: number) => boolean
+  ): Pick<MapData, 'entrance' | 'exit' | 'paths' | 'progression'> {
+    const result = ProgressionAnalyzer.analyze(grid, rooms, isWalkable, this.random);
+    if (!result) return {};
+    const { progression, path } = result;
+    return { entrance: progression.entrance, exit: progression.goal, paths: path, progression };
+  }
 }
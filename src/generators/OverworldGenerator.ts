@@ -0,0 +1,688 @@
+// Overworld Generator for campaign-level region maps
+/**
+ * Generates a region map: coasts, biomes, rivers, the campaign's POIs and the
+ * roads between them. Markers carry the POI's generated map id, so the overworld
+ * links to the per-location maps.
+ *
+ * Algorithm Overview:
+ * 1. Elevation from multi-octave Perlin noise, shaped by the subtype (island,
+ *    coast along the south edge, or open land); the lowest seaLevel share of
+ *    cells becomes sea
+ * 2. Moisture from a second noise field, shifted by moistureBias
+ * 3. Rivers start on high, wet ground and step to the lowest neighbour until
+ *    they reach the sea, a lake or another river; a river caught in a hollow
+ *    ends in a lake
+ * 4. Biomes from elevation bands (beach, lowland, hills, mountains, snow) and,
+ *    in the lowlands, moisture bands (desert, grassland, forest, swamp); land
+ *    near water counts as wetter
+ * 5. POI markers on land of the biome their type calls for (mountains for a
+ *    mountain, swamp for a swamp...), spread apart; where the map has none of
+ *    that biome, a patch of it is painted around the marker
+ * 6. Roads follow each travel or quest connection along the cheapest route over
+ *    land, reusing earlier roads; where a road crosses a river it gets a bridge
+ *
+ * Subtypes:
+ * - continent: one large landmass surrounded by sea
+ * - archipelago: scattered islands
+ * - highlands: rugged inland hills and mountain ranges
+ * - wetlands: low, wet land with many rivers and swamps
+ * - badlands: arid inland desert with few rivers
+ * - coastline: land to the north, open sea along the south edge
+ *
+ * Parameters:
+ * - seaLevel: Share of the map under the sea (0.0-0.8). Default depends on subtype
+ * - moistureBias: Moisture shift (-0.5 arid to 0.5 lush). Default depends on subtype
+ * - riverCount: Rivers to trace (0-12). Default depends on subtype
+ * - pois: Campaign POIs to mark and connect
+ *
+ * Grid cell codes are defined by OverworldCell.
+ */
+
+import { MapGenerator } from './MapGenerator';
+import { GeneratorRegistry } from './GeneratorRegistry';
+import {
+  GeneratorParameters,
+  MapData,
+  MapMarker,
+  OverworldCell,
+  OVERWORLD_IMPASSABLE_CELLS,
+  PathPoint,
+  River,
+  Road,
+  TerrainType
+} from '../types/generator';
+import { OverworldSubtype } from '../types/enums';
+import { PointOfInterest, POIConnection, POIType } from '../types/campaign';
+import { PerlinNoise } from '../utils/noise';
+import { Grid } from '../utils/grid';
+
+interface OverworldProfile {
+  seaLevel: number;
+  moistureBias: number;
+  riverCount: number;
+  relief: number; // Multiplies land height; higher means more hills and mountains
+  shape: 'island' | 'coast' | 'open';
+}
+
+// Per-subtype defaults; explicit parameters always win
+const SUBTYPE_PROFILES: Record<OverworldSubtype, OverworldProfile> = {
+  [OverworldSubtype.CONTINENT]: { seaLevel: 0.35, moistureBias: 0, riverCount: 6, relief: 1, shape: 'island' },
+  [OverworldSubtype.ARCHIPELAGO]: { seaLevel: 0.6, moistureBias: 0.1, riverCount: 2, relief: 0.9, shape: 'island' },
+  [OverworldSubtype.HIGHLANDS]: { seaLevel: 0.05, moistureBias: 0, riverCount: 5, relief: 1.3, shape: 'open' },
+  [OverworldSubtype.WETLANDS]: { seaLevel: 0.15, moistureBias: 0.35, riverCount: 9, relief: 0.6, shape: 'open' },
+  [OverworldSubtype.BADLANDS]: { seaLevel: 0.05, moistureBias: -0.4, riverCount: 1, relief: 1.1, shape: 'open' },
+  [OverworldSubtype.COASTLINE]: { seaLevel: 0.35, moistureBias: 0.05, riverCount: 5, relief: 1, shape: 'coast' }
+};
+
+const ELEVATION_SCALE = 0.035;
+const MOISTURE_SCALE = 0.05;
+const SHALLOWS_DEPTH = 0.05; // Sea this close below sea level is coastal shallows
+const BEACH_HEIGHT = 0.06;
+const HILLS_HEIGHT = 0.45;
+const MOUNTAIN_HEIGHT = 0.65;
+const SNOW_HEIGHT = 0.85;
+const SWAMP_HEIGHT = 0.25; // Swamps only form on low ground
+const WET_RADIUS = 4; // Cells from rivers, lakes and sea that count as wetter
+const MIN_RIVER_LENGTH = 8;
+const CARVE_RISE = 0.02; // Rivers cut through ridges up to this much higher than their bed
+
+// Lowland biomes by moisture, driest first, with the upper bound of each band
+const MOISTURE_BANDS: [number, OverworldCell][] = [
+  [0.3, OverworldCell.Desert],
+  [0.55, OverworldCell.Grassland],
+  [0.8, OverworldCell.Forest],
+  [Infinity, OverworldCell.Swamp]
+];
+
+// Biomes each POI type is placed in, best first; types not listed go on any land
+const POI_BIOMES: Partial<Record<POIType, OverworldCell[]>> = {
+  town: [OverworldCell.Grassland, OverworldCell.Beach],
+  city: [OverworldCell.Grassland, OverworldCell.Beach],
+  village: [OverworldCell.Grassland, OverworldCell.Forest],
+  wilderness: [OverworldCell.Forest, OverworldCell.Grassland, OverworldCell.Hills],
+  forest: [OverworldCell.Forest],
+  mountain: [OverworldCell.Mountain, OverworldCell.Hills],
+  swamp: [OverworldCell.Swamp],
+  desert: [OverworldCell.Desert],
+  coast: [OverworldCell.Beach],
+  ship: [OverworldCell.Beach],
+  cave: [OverworldCell.Hills, OverworldCell.Mountain],
+  fortress: [OverworldCell.Hills, OverworldCell.Grassland]
+};
+
+// Connections that are walked, and so get roads
+const ROAD_CONNECTIONS: POIConnection['connectionType'][] = ['travel', 'quest'];
+
+// Cost of stepping onto a cell when routing roads; cells not listed can't be crossed
+const TRAVEL_COST: Partial<Record<OverworldCell, number>> = {
+  [OverworldCell.Road]: 0.3,
+  [OverworldCell.Bridge]: 0.3,
+  [OverworldCell.Grassland]: 1,
+  [OverworldCell.Beach]: 1.5,
+  [OverworldCell.Forest]: 2,
+  [OverworldCell.Desert]: 2.5,
+  [OverworldCell.Hills]: 3,
+  [OverworldCell.Swamp]: 4,
+  [OverworldCell.Mountain]: 7,
+  [OverworldCell.River]: 8
+};
+
+const OVERWORLD_COLORS: Record<OverworldCell, string> = {
+  [OverworldCell.Ocean]: '#2f5d8a',
+  [OverworldCell.Shallows]: '#4f86b8',
+  [OverworldCell.Lake]: '#4a80b0',
+  [OverworldCell.Beach]: '#e6d7a3',
+  [OverworldCell.Grassland]: '#9cc46b',
+  [OverworldCell.Forest]: '#4d7f3a',
+  [OverworldCell.Swamp]: '#6b7d4a',
+  [OverworldCell.Desert]: '#dcc285',
+  [OverworldCell.Hills]: '#a89a6a',
+  [OverworldCell.Mountain]: '#8a7f74',
+  [OverworldCell.Snow]: '#f2f4f5',
+  [OverworldCell.River]: '#5b93c7',
+  [OverworldCell.Road]: '#8b6a43',
+  [OverworldCell.Bridge]: '#5a4430'
+};
+
+const NEIGHBORS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+export class OverworldGenerator extends MapGenerator<MapData, OverworldCell> {
+  private elevationNoise: PerlinNoise;
+  private moistureNoise: PerlinNoise;
+
+  constructor(parameters: GeneratorParameters) {
+    super(parameters);
+    this.elevationNoise = new PerlinNoise(this.seed);
+    this.moistureNoise = new PerlinNoise(this.seed + 7919);
+  }
+
+  generate(): MapData {
+    const subtype = this.getSubtype(OverworldSubtype);
+    const profile = SUBTYPE_PROFILES[subtype ?? OverworldSubtype.CONTINENT];
+    const seaLevel = Math.min(0.8, Math.max(0, this.getParam('seaLevel', profile.seaLevel)));
+    const moistureBias = this.getParam('moistureBias', profile.moistureBias);
+    const riverCount = this.getParam('riverCount', profile.riverCount);
+
+    console.log(`[OverworldGenerator] ${this.width}x${this.height}, ${subtype ?? 'default'}: sea level ${seaLevel}, moisture ${moistureBias}, ${riverCount} rivers`);
+
+    // Step 1: Elevation and the sea
+    this.reportProgress('split', 0);
+    const elevation = this.elevation(profile.shape);
+    const sorted = Array.from(elevation).sort((a, b) => a - b);
+    const seaHeight = seaLevel > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * seaLevel))] : -Infinity;
+    const peak = sorted[sorted.length - 1];
+    const isSea = (index: number) => elevation[index] < seaHeight;
+
+    // Step 2: Moisture
+    const moisture = this.moisture(moistureBias);
+
+    // Step 3: Rivers downhill to the sea
+    this.reportProgress('corridors', 0.2);
+    const grid = this.createEmptyGrid(OverworldCell.Grassland);
+    const { rivers, riverAt } = this.traceRivers(grid, elevation, moisture, isSea, seaHeight, peak, riverCount);
+
+    // Step 4: Biomes
+    this.reportProgress('smoothing', 0.4);
+    this.classify(grid, elevation, moisture, isSea, seaHeight, peak, profile.relief);
+
+    // Step 5: POI markers
+    this.reportProgress('placement', 0.6);
+    const pois = this.parameters.pois ?? [];
+    const markers = this.placeMarkers(grid, pois);
+
+    // Step 6: Roads along connections
+    this.reportProgress('connectivity', 0.8);
+    const roads = this.buildRoads(grid, pois, markers, rivers, riverAt);
+
+    console.log(`[OverworldGenerator] ${rivers.length} rivers, ${markers.length}/${pois.length} POIs marked, ${roads.length} roads`);
+    this.reportProgress('complete', 1);
+
+    return {
+      width: this.width,
+      height: this.height,
+      grid,
+      rivers: rivers.length > 0 ? rivers : undefined,
+      roads: roads.length > 0 ? roads : undefined,
+      markers: markers.length > 0 ? markers : undefined,
+      seed: this.seed,
+      terrainType: TerrainType.Overworld,
+      subtype
+    };
+  }
+
+  /**
+   * Multi-octave noise normalised to 0-1, lowered towards the edges the shape keeps as sea
+   */
+  private elevation(shape: OverworldProfile['shape']): Float64Array {
+    const values = this.sampleNoise(this.elevationNoise, ELEVATION_SCALE, 5);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        const index = y * this.width + x;
+        if (shape === 'island') {
+          // Squared distance from the centre, 1 at the middle of each edge
+          const dx = (x + 0.5) / this.width * 2 - 1;
+          const dy = (y + 0.5) / this.height * 2 - 1;
+          values[index] -= Math.min(1, dx * dx + dy * dy) * 0.7;
+        } else if (shape === 'coast') {
+          const depth = (y + 0.5) / this.height;
+          values[index] -= depth * depth * 0.9;
+        }
+      }
+    }
+    return values;
+  }
+
+  private moisture(bias: number): Float64Array {
+    const values = this.sampleNoise(this.moistureNoise, MOISTURE_SCALE, 4);
+    for (let i = 0; i < values.length; i++) {
+      values[i] += bias;
+    }
+    return values;
+  }
+
+  private sampleNoise(noise: PerlinNoise, scale: number, octaves: number): Float64Array {
+    const values = new Float64Array(this.width * this.height);
+    let min = Infinity;
+    let max = -Infinity;
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        const value = noise.octaveNoise(x * scale, y * scale, octaves, 0.5);
+        values[y * this.width + x] = value;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+    const range = max - min || 1;
+    for (let i = 0; i < values.length; i++) {
+      values[i] = (values[i] - min) / range;
+    }
+    return values;
+  }
+
+  /**
+   * Trace rivers from high, wet ground down to water, writing River and Lake cells
+   */
+  private traceRivers(
+    grid: Grid<OverworldCell>,
+    elevation: Float64Array,
+    moisture: Float64Array,
+    isSea: (index: number) => boolean,
+    seaHeight: number,
+    peak: number,
+    count: number
+  ): { rivers: River[]; riverAt: Int16Array } {
+    const rivers: River[] = [];
+    const riverAt = new Int16Array(grid.cells.length).fill(-1);
+    if (count <= 0) return { rivers, riverAt };
+
+    // Sources: the wetter half of the upper slopes, spread apart
+    const land = Math.max(seaHeight, 0);
+    const height = (index: number) => (elevation[index] - land) / (peak - land || 1);
+    const candidates = this.random.shuffle(
+      Array.from({ length: grid.cells.length }, (_, index) => index)
+        .filter(index => !isSea(index) && height(index) > 0.4 && moisture[index] > 0.45)
+    );
+    const spacing = Math.max(6, Math.floor(Math.min(this.width, this.height) / 8));
+    const sources: PathPoint[] = [];
+    for (const source of candidates.slice(0, count * 20)) {
+      if (rivers.length === count) break;
+      const start = grid.point(source);
+      const spaced = sources.every(other => Math.max(Math.abs(other.x - start.x), Math.abs(other.y - start.y)) >= spacing);
+      if (!spaced || riverAt[source] !== -1 || grid.cells[source] === OverworldCell.Lake) continue;
+
+      const path: number[] = [source];
+      const visited = new Set(path);
+      let current = source;
+      let mouth: 'water' | 'lake' = 'lake';
+
+      for (;;) {
+        const { x, y } = grid.point(current);
+        // Rivers reaching the edge flow on off the map
+        if (x === 0 || y === 0 || x === this.width - 1 || y === this.height - 1) {
+          mouth = 'water';
+          break;
+        }
+        let next = -1;
+        for (const [dx, dy] of NEIGHBORS) {
+          const index = grid.index(x + dx, y + dy);
+          if (!visited.has(index) && (next === -1 || elevation[index] < elevation[next])) {
+            next = index;
+          }
+        }
+        // Caught in a hollow too deep to cut through: the river ends in a lake
+        if (next === -1 || elevation[next] > elevation[current] + CARVE_RISE) break;
+
+        if (isSea(next) || riverAt[next] !== -1 || grid.cells[next] === OverworldCell.Lake) {
+          mouth = 'water';
+          break;
+        }
+        path.push(next);
+        visited.add(next);
+        current = next;
+      }
+
+      if (path.length < MIN_RIVER_LENGTH) continue;
+      const river = rivers.length;
+      for (const index of path) {
+        grid.cells[index] = OverworldCell.River;
+        riverAt[index] = river;
+      }
+      if (mouth === 'lake') {
+        this.fillLake(grid, path[path.length - 1], elevation, isSea, riverAt);
+      }
+      rivers.push({ points: path.map(index => grid.point(index)), width: 1, crossings: [] });
+      sources.push(start);
+    }
+
+    return { rivers, riverAt };
+  }
+
+  /**
+   * Flood the hollow a river ended in: the end cell and its lowest surroundings
+   */
+  private fillLake(grid: Grid<OverworldCell>, end: number, elevation: Float64Array, isSea: (index: number) => boolean, riverAt: Int16Array): void {
+    const { x, y } = grid.point(end);
+    const size = 2 + this.random.nextInt(0, 2);
+    const rim = elevation[end] + 0.03;
+    for (let dy = -size; dy <= size; dy++) {
+      for (let dx = -size; dx <= size; dx++) {
+        if (dx * dx + dy * dy > size * size || !grid.inBounds(x + dx, y + dy)) continue;
+        const index = grid.index(x + dx, y + dy);
+        if (!isSea(index) && riverAt[index] === -1 && elevation[index] <= rim) {
+          grid.cells[index] = OverworldCell.Lake;
+        }
+      }
+    }
+    grid.cells[end] = OverworldCell.Lake;
+    riverAt[end] = -1;
+  }
+
+  /**
+   * Biome for every cell rivers and lakes left alone
+   */
+  private classify(
+    grid: Grid<OverworldCell>,
+    elevation: Float64Array,
+    moisture: Float64Array,
+    isSea: (index: number) => boolean,
+    seaHeight: number,
+    peak: number,
+    relief: number
+  ): void {
+    const wetness = this.wetness(grid, isSea);
+    const land = Math.max(seaHeight, 0);
+
+    for (let index = 0; index < grid.cells.length; index++) {
+      if (grid.cells[index] === OverworldCell.River || grid.cells[index] === OverworldCell.Lake) continue;
+      if (isSea(index)) {
+        grid.cells[index] = elevation[index] >= seaHeight - SHALLOWS_DEPTH ? OverworldCell.Shallows : OverworldCell.Ocean;
+        continue;
+      }
+
+      const height = Math.min(1, ((elevation[index] - land) / (peak - land || 1)) * relief);
+      const wet = moisture[index] + wetness[index];
+      const { x, y } = grid.point(index);
+      const onShore = NEIGHBORS.some(([dx, dy]) => grid.inBounds(x + dx, y + dy) && isSea(grid.index(x + dx, y + dy)));
+
+      if (height >= SNOW_HEIGHT) {
+        grid.cells[index] = OverworldCell.Snow;
+      } else if (height >= MOUNTAIN_HEIGHT) {
+        grid.cells[index] = OverworldCell.Mountain;
+      } else if (height >= HILLS_HEIGHT) {
+        grid.cells[index] = OverworldCell.Hills;
+      } else if (onShore && height < BEACH_HEIGHT) {
+        grid.cells[index] = OverworldCell.Beach;
+      } else {
+        const biome = MOISTURE_BANDS.find(([limit]) => wet < limit)![1];
+        grid.cells[index] = biome === OverworldCell.Swamp && height > SWAMP_HEIGHT ? OverworldCell.Forest : biome;
+      }
+    }
+  }
+
+  /**
+   * Extra moisture near rivers, lakes and the sea, fading over WET_RADIUS cells
+   */
+  private wetness(grid: Grid<OverworldCell>, isSea: (index: number) => boolean): Float64Array {
+    const distance = new Int32Array(grid.cells.length).fill(-1);
+    let frontier: number[] = [];
+    for (let index = 0; index < grid.cells.length; index++) {
+      if (isSea(index) || grid.cells[index] === OverworldCell.River || grid.cells[index] === OverworldCell.Lake) {
+        distance[index] = 0;
+        frontier.push(index);
+      }
+    }
+    for (let step = 1; step <= WET_RADIUS && frontier.length > 0; step++) {
+      const next: number[] = [];
+      for (const index of frontier) {
+        const { x, y } = grid.point(index);
+        for (const [dx, dy] of NEIGHBORS) {
+          if (!grid.inBounds(x + dx, y + dy)) continue;
+          const neighbor = grid.index(x + dx, y + dy);
+          if (distance[neighbor] === -1) {
+            distance[neighbor] = step;
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    const wetness = new Float64Array(grid.cells.length);
+    for (let index = 0; index < wetness.length; index++) {
+      if (distance[index] > 0) {
+        wetness[index] = 0.2 * (1 - distance[index] / (WET_RADIUS + 1));
+      }
+    }
+    return wetness;
+  }
+
+  /**
+   * Place a marker for each POI on land of a biome that suits it, spread apart
+   */
+  private placeMarkers(grid: Grid<OverworldCell>, pois: Partial<PointOfInterest>[]): MapMarker[] {
+    const markers: MapMarker[] = [];
+    if (pois.length === 0) return markers;
+
+    const margin = 2;
+    const land: number[] = [];
+    for (let y = margin; y < this.height - margin; y++) {
+      for (let x = margin; x < this.width - margin; x++) {
+        const cell = grid.get(x, y);
+        if (!OVERWORLD_IMPASSABLE_CELLS.has(cell) && cell !== OverworldCell.River) {
+          land.push(grid.index(x, y));
+        }
+      }
+    }
+
+    const ordered = pois.map((poi, index) => ({ poi, index })).sort((a, b) => (a.poi.order ?? a.index) - (b.poi.order ?? b.index));
+    const initialSpacing = Math.max(3, Math.floor(Math.min(this.width, this.height) / (2 * Math.sqrt(pois.length) + 2)));
+
+    ordered.forEach(({ poi, index: poiIndex }) => {
+      const type = poi.type ?? 'wilderness';
+      const biomes = POI_BIOMES[type];
+      let site: number | undefined;
+
+      // Narrow the spacing until a suitable cell is free, then settle for any land
+      for (let spacing = initialSpacing; site === undefined && spacing >= 1; spacing = Math.floor(spacing / 2)) {
+        const spaced = land.filter(index => {
+          const { x, y } = grid.point(index);
+          return markers.every(m => Math.max(Math.abs(m.x - x), Math.abs(m.y - y)) >= spacing);
+        });
+        const suited = biomes ? spaced.filter(index => biomes.includes(grid.cells[index])) : spaced;
+        if (suited.length > 0) {
+          site = this.random.choice(suited);
+        } else if (spacing === 1 && spaced.length > 0) {
+          site = this.random.choice(spaced);
+          if (biomes) this.paintBiome(grid, site, biomes[0]);
+        }
+      }
+
+      if (site === undefined) {
+        console.warn(`[OverworldGenerator] No land left for POI "${poi.name ?? poi.id}"`);
+        return;
+      }
+      const { x, y } = grid.point(site);
+      markers.push({
+        poiId: poi.id ?? `poi_${poiIndex}`,
+        name: poi.name ?? `Location ${poiIndex + 1}`,
+        type,
+        x,
+        y,
+        ...(poi.generatedMapId ? { mapId: poi.generatedMapId } : {})
+      });
+    });
+
+    return markers;
+  }
+
+  /**
+   * Paint a small patch of a biome on the land around a cell
+   */
+  private paintBiome(grid: Grid<OverworldCell>, site: number, biome: OverworldCell): void {
+    const { x, y } = grid.point(site);
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        if (dx * dx + dy * dy > 5 || !grid.inBounds(x + dx, y + dy)) continue;
+        const cell = grid.get(x + dx, y + dy);
+        if (!OVERWORLD_IMPASSABLE_CELLS.has(cell) && cell !== OverworldCell.River) {
+          grid.set(x + dx, y + dy, biome);
+        }
+      }
+    }
+  }
+
+  /**
+   * Route a road for each travel or quest connection between two marked POIs
+   */
+  private buildRoads(
+    grid: Grid<OverworldCell>,
+    pois: Partial<PointOfInterest>[],
+    markers: MapMarker[],
+    rivers: River[],
+    riverAt: Int16Array
+  ): Road[] {
+    const roads: Road[] = [];
+    const byId = new Map(markers.map(marker => [marker.poiId, marker]));
+    const marked = new Set(markers.map(marker => grid.index(marker.x, marker.y)));
+    const linked = new Set<string>();
+
+    pois.forEach((poi, poiIndex) => {
+      const from = byId.get(poi.id ?? `poi_${poiIndex}`);
+      if (!from) return;
+      for (const connection of poi.connections ?? []) {
+        const to = byId.get(connection.targetPOIId);
+        const pair = [from.poiId, connection.targetPOIId].sort().join('|');
+        if (!to || to === from || linked.has(pair) || !ROAD_CONNECTIONS.includes(connection.connectionType)) continue;
+        linked.add(pair);
+
+        const points = this.route(grid, from, to);
+        if (!points) {
+          console.warn(`[OverworldGenerator] No overland route from ${from.name} to ${to.name}`);
+          continue;
+        }
+
+        // Pave everything between the two markers, bridging rivers on the way; markers keep their biome
+        for (let i = 1; i < points.length - 1; i++) {
+          const index = grid.index(points[i].x, points[i].y);
+          if (marked.has(index)) continue;
+          if (grid.cells[index] === OverworldCell.River) {
+            grid.cells[index] = OverworldCell.Bridge;
+            rivers[riverAt[index]].crossings.push({ type: 'bridge', start: points[i - 1], end: points[i + 1], width: 1 });
+          } else if (grid.cells[index] !== OverworldCell.Bridge) {
+            grid.cells[index] = OverworldCell.Road;
+          }
+        }
+        roads.push({ from: from.poiId, to: to.poiId, points });
+      }
+    });
+
+    return roads;
+  }
+
+  /**
+   * Cheapest route between two cells by TRAVEL_COST (Dijkstra over a binary heap)
+   */
+  private route(grid: Grid<OverworldCell>, from: PathPoint, to: PathPoint): PathPoint[] | undefined {
+    const start = grid.index(from.x, from.y);
+    const goal = grid.index(to.x, to.y);
+    const cost = new Float64Array(grid.cells.length).fill(Infinity);
+    const previous = new Int32Array(grid.cells.length).fill(-1);
+    const heap: [number, number][] = [[0, start]];
+    cost[start] = 0;
+
+    const push = (entry: [number, number]) => {
+      heap.push(entry);
+      for (let i = heap.length - 1; i > 0;) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent][0] <= heap[i][0]) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+      }
+    };
+    const pop = (): [number, number] => {
+      const top = heap[0];
+      const last = heap.pop()!;
+      if (heap.length > 0) {
+        heap[0] = last;
+        for (let i = 0; ;) {
+          const left = i * 2 + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+          if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+          if (smallest === i) break;
+          [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+          i = smallest;
+        }
+      }
+      return top;
+    };
+
+    while (heap.length > 0) {
+      const [spent, index] = pop();
+      if (index === goal) break;
+      if (spent > cost[index]) continue;
+      const { x, y } = grid.point(index);
+      for (const [dx, dy] of NEIGHBORS) {
+        if (!grid.inBounds(x + dx, y + dy)) continue;
+        const neighbor = grid.index(x + dx, y + dy);
+        const step = neighbor === goal ? 1 : TRAVEL_COST[grid.cells[neighbor] as OverworldCell];
+        if (step === undefined || spent + step >= cost[neighbor]) continue;
+        cost[neighbor] = spent + step;
+        previous[neighbor] = index;
+        push([cost[neighbor], neighbor]);
+      }
+    }
+
+    if (cost[goal] === Infinity) return undefined;
+    const path: PathPoint[] = [];
+    for (let index = goal; index !== -1; index = previous[index]) {
+      path.push(grid.point(index));
+    }
+    return path.reverse();
+  }
+}
+
+/**
+ * Draw biomes cell by cell, then the POI markers with their names
+ */
+function drawOverworld(ctx: CanvasRenderingContext2D, mapData: MapData, cellSize: number): void {
+  if (!mapData.grid) return;
+
+  for (let y = 0; y < mapData.height; y++) {
+    for (let x = 0; x < mapData.width; x++) {
+      ctx.fillStyle = OVERWORLD_COLORS[mapData.grid.get(x, y) as OverworldCell] ?? OVERWORLD_COLORS[OverworldCell.Grassland];
+      ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+    }
+  }
+
+  const radius = Math.max(5, cellSize * 0.9);
+  ctx.textAlign = 'center';
+  for (const marker of mapData.markers ?? []) {
+    const cx = (marker.x + 0.5) * cellSize;
+    const cy = (marker.y + 0.5) * cellSize;
+
+    // Linked markers are filled; markers without a map are hollow
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.fillStyle = marker.mapId ? '#8b1a1a' : '#f5f0e1';
+    ctx.strokeStyle = marker.mapId ? '#f5f0e1' : '#8b1a1a';
+    ctx.lineWidth = 2;
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.font = `bold ${Math.round(radius * 1.1)}px Georgia, serif`;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = marker.mapId ? '#f5f0e1' : '#8b1a1a';
+    ctx.fillText(marker.type.charAt(0).toUpperCase(), cx, cy + 1);
+
+    ctx.font = `${Math.round(Math.max(10, radius * 1.2))}px Georgia, serif`;
+    ctx.textBaseline = 'top';
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.strokeText(marker.name, cx, cy + radius + 2);
+    ctx.fillStyle = '#2b2118';
+    ctx.fillText(marker.name, cx, cy + radius + 2);
+  }
+}
+
+GeneratorRegistry.register({
+  terrainType: TerrainType.Overworld,
+  name: 'Overworld',
+  create: (parameters) => new OverworldGenerator(parameters),
+  subtypes: Object.values(OverworldSubtype),
+  parameters: [
+    { key: 'seaLevel', label: 'Sea Level', description: 'Share of the map under the sea', type: 'number', min: 0, max: 0.8, step: 0.05, default: 0.35, auto: true },
+    { key: 'moistureBias', label: 'Moisture', description: 'Shifts the climate drier (-0.5, deserts) or wetter (0.5, forests and swamps)', type: 'number', min: -0.5, max: 0.5, step: 0.05, default: 0, auto: true },
+    { key: 'riverCount', label: 'Rivers', description: 'Rivers running downhill from the high ground to the sea or a lake', type: 'number', min: 0, max: 12, step: 1, default: 6, auto: true }
+  ],
+  presets: [
+    { name: 'Continent', parameters: { width: 120, height: 90, subtype: OverworldSubtype.CONTINENT } },
+    { name: 'Archipelago', parameters: { width: 120, height: 90, subtype: OverworldSubtype.ARCHIPELAGO } },
+    { name: 'Highlands', parameters: { width: 100, height: 100, subtype: OverworldSubtype.HIGHLANDS } },
+    { name: 'Wetlands', parameters: { width: 100, height: 100, subtype: OverworldSubtype.WETLANDS } },
+    { name: 'Badlands', parameters: { width: 100, height: 100, subtype: OverworldSubtype.BADLANDS } },
+    { name: 'Coastline', parameters: { width: 120, height: 80, subtype: OverworldSubtype.COASTLINE } }
+  ],
+  render: drawOverworld
+});
@@ -0,0 +1,56 @@
+// Registry of prefab set-pieces the dungeon and house generators can stamp into rooms
+// Built-in prefabs are plain JSON (see prefabs/*.json and PrefabDefinition); workspaces
+// share their own through the prefabs generator parameter
+
+import { PrefabDefinition, TerrainType } from '../types/generator';
+import { PrefabLoader } from '../utils/prefabs';
+import ritualChamber from './prefabs/ritual-chamber.json';
+import pitTrapHallway from './prefabs/pit-trap-hallway.json';
+import throneRoom from './prefabs/throne-room.json';
+
+/**
+ * Prefabs available to every map, keyed by id
+ */
+export class PrefabRegistry {
+  private static prefabs = new Map<string, PrefabDefinition>();
+
+  /**
+   * Register a prefab, replacing any existing one with the same id
+   */
+  static register(prefab: PrefabDefinition): void {
+    this.prefabs.set(prefab.id, prefab);
+  }
+
+  /**
+   * Validate and register a prefab from JSON (a string or parsed object)
+   */
+  static load(source: string | unknown): PrefabDefinition {
+    const prefab = PrefabLoader.parse(source);
+    this.register(prefab);
+    return prefab;
+  }
+
+  static get(id: string): PrefabDefinition | undefined {
+    return this.prefabs.get(id);
+  }
+
+  static getAll(): PrefabDefinition[] {
+    return Array.from(this.prefabs.values());
+  }
+
+  /**
+   * Registered prefabs plus extra ones (an extra with a registered id replaces it),
+   * limited to those allowed on the terrain
+   */
+  static forTerrain(terrainType: TerrainType, extra: PrefabDefinition[] = []): PrefabDefinition[] {
+    const merged = new Map(this.prefabs);
+    for (const prefab of extra) {
+      merged.set(prefab.id, prefab);
+    }
+    return Array.from(merged.values()).filter(prefab => !prefab.terrainTypes || prefab.terrainTypes.includes(terrainType));
+  }
+}
+
+PrefabRegistry.load(ritualChamber);
+PrefabRegistry.load(pitTrapHallway);
+PrefabRegistry.load(throneRoom);
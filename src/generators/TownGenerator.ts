@@ -0,0 +1,514 @@
+// Town Generator using street networks and block subdivision
+/**
+ * Generates settlements with streets, building footprints and plazas.
+ *
+ * Algorithm Overview:
+ * 1. Carve subtype-specific features first (harbor water, city wall inset)
+ * 2. Lay out main streets crossing near the town centre and running to the map edge
+ * 3. Split the remaining space into city blocks using BSP, leaving side streets between them
+ * 4. Reserve the most central blocks as plazas
+ * 5. Subdivide every other block into lots and place a building on each lot
+ * 6. Add walls with gates (walled city) or piers into the water (harbor town)
+ *
+ * Subtypes:
+ * - village: one main road, large lots and sparse cottages
+ * - market_district: dense shops around several market squares
+ * - harbor_town: water along the south edge, waterfront street and docks
+ * - walled_city: perimeter wall with gates where the main streets leave, central keep
+ * - crossroads: two straight roads crossing at a central square
+ *
+ * Parameters:
+ * - subtype: Town layout style (TownSubtype). Default village
+ * - streetWidth: Main street width in cells (1-5). Default depends on subtype
+ * - blockSize: Minimum block dimension (8-30). Default depends on subtype
+ * - buildingDensity: Chance a lot receives a building (0.0-1.0). Default depends on subtype
+ * - plazaCount: Number of plazas (0-4). Default depends on subtype
+ *
+ * Grid cell codes are defined by TownCell (0 = ground, 1 = building, 2 = street,
+ * 3 = plaza, 4 = wall, 5 = water, 6 = dock).
+ */
+
+import { MapGenerator } from './MapGenerator';
+import { GeneratorRegistry } from './GeneratorRegistry';
+import { MapData, Room, Corridor, Building, TerrainType, TownCell, GeneratorParameters } from '../types/generator';
+import { TownSubtype } from '../types/enums';
+import { ConnectivityUtils } from '../utils/connectivity';
+import { PerlinNoise } from '../utils/noise';
+import { Grid } from '../utils/grid';
+
+interface TownLayout {
+  streetWidth: number;
+  sideStreetWidth: number;
+  blockSize: number;
+  lotSize: number;
+  buildingDensity: number;
+  plazaCount: number;
+}
+
+// Per-subtype defaults; explicit parameters always win
+const SUBTYPE_LAYOUTS: Record<TownSubtype, TownLayout> = {
+  [TownSubtype.VILLAGE]: { streetWidth: 2, sideStreetWidth: 1, blockSize: 20, lotSize: 9, buildingDensity: 0.55, plazaCount: 1 },
+  [TownSubtype.MARKET_DISTRICT]: { streetWidth: 3, sideStreetWidth: 2, blockSize: 12, lotSize: 5, buildingDensity: 0.9, plazaCount: 2 },
+  [TownSubtype.HARBOR_TOWN]: { streetWidth: 3, sideStreetWidth: 2, blockSize: 14, lotSize: 6, buildingDensity: 0.8, plazaCount: 1 },
+  [TownSubtype.WALLED_CITY]: { streetWidth: 3, sideStreetWidth: 2, blockSize: 12, lotSize: 5, buildingDensity: 0.9, plazaCount: 1 },
+  [TownSubtype.CROSSROADS]: { streetWidth: 3, sideStreetWidth: 1, blockSize: 16, lotSize: 7, buildingDensity: 0.65, plazaCount: 1 }
+};
+
+export class TownGenerator extends MapGenerator<MapData, number> {
+  private noise: PerlinNoise;
+
+  constructor(parameters: GeneratorParameters) {
+    super(parameters);
+    this.noise = new PerlinNoise(this.seed);
+  }
+
+  generate(): MapData {
+    const subtype = this.getSubtype(TownSubtype) ?? TownSubtype.VILLAGE;
+    const defaults = SUBTYPE_LAYOUTS[subtype];
+    const layout: TownLayout = {
+      ...defaults,
+      streetWidth: this.getParam('streetWidth', defaults.streetWidth),
+      blockSize: this.getParam('blockSize', defaults.blockSize),
+      buildingDensity: this.getParam('buildingDensity', defaults.buildingDensity),
+      plazaCount: this.getParam('plazaCount', defaults.plazaCount)
+    };
+
+    console.log(`[TownGenerator] Starting ${subtype} generation (${this.width}x${this.height})`);
+    console.log(`[TownGenerator] Layout: street=${layout.streetWidth}, block=${layout.blockSize}, density=${layout.buildingDensity}, plazas=${layout.plazaCount}`);
+
+    const grid = this.createEmptyGrid(TownCell.Ground);
+    const streets: Corridor[] = [];
+    const streetRects: Room[] = [];
+
+    // Step 1: Harbor water along the south edge
+    const isHarbor = subtype === TownSubtype.HARBOR_TOWN;
+    const shoreline = isHarbor ? this.carveHarbor(grid) : null;
+    const shoreTop = shoreline ? Math.min(...shoreline) : this.height;
+
+    // Step 2: Town area (inset further for walled cities so the wall has room)
+    const isWalled = subtype === TownSubtype.WALLED_CITY;
+    const inset = isWalled ? 3 : 1;
+    const waterfrontY = isHarbor ? shoreTop - 2 - layout.streetWidth : this.height;
+    const townArea: Room = {
+      x: inset,
+      y: inset,
+      width: this.width - inset * 2,
+      height: (isHarbor ? waterfrontY : this.height - inset) - inset
+    };
+
+    if (isHarbor) {
+      streetRects.push({ x: 0, y: waterfrontY, width: this.width, height: layout.streetWidth });
+      streets.push(this.centreLine(0, waterfrontY, this.width, layout.streetWidth, true));
+    }
+
+    // Step 3: Main streets crossing near the centre
+    this.reportProgress('corridors', 0.1);
+    const isCrossroads = subtype === TownSubtype.CROSSROADS;
+    const jitter = isCrossroads ? 0 : Math.floor(Math.min(townArea.width, townArea.height) / 8);
+    const centreX = Math.floor(townArea.x + townArea.width / 2) + this.random.nextInt(-jitter, jitter);
+    const centreY = Math.floor(townArea.y + townArea.height / 2) + this.random.nextInt(-jitter, jitter);
+    const half = Math.floor(layout.streetWidth / 2);
+    const roadBottom = isHarbor ? waterfrontY : this.height;
+
+    // Horizontal main street
+    streetRects.push({ x: 0, y: centreY - half, width: this.width, height: layout.streetWidth });
+    streets.push(this.centreLine(0, centreY - half, this.width, layout.streetWidth, true));
+
+    // Villages only get a short lane crossing the main road
+    const verticalTop = subtype === TownSubtype.VILLAGE ? Math.max(0, centreY - Math.floor(townArea.height / 3)) : 0;
+    const verticalBottom = subtype === TownSubtype.VILLAGE ? Math.min(roadBottom, centreY + Math.floor(townArea.height / 3)) : roadBottom;
+    streetRects.push({ x: centreX - half, y: verticalTop, width: layout.streetWidth, height: verticalBottom - verticalTop });
+    streets.push(this.centreLine(centreX - half, verticalTop, verticalBottom - verticalTop, layout.streetWidth, false));
+
+    // Step 4: Quadrant blocks, then BSP into smaller blocks with side streets
+    this.reportProgress('split', 0.3);
+    const quadrants = this.splitByMainStreets(townArea, centreX - half, centreY - half, layout.streetWidth, subtype === TownSubtype.VILLAGE);
+    const blocks: Room[] = [];
+    for (const quadrant of quadrants) {
+      blocks.push(...this.splitBlocks(quadrant, layout, streets, streetRects));
+    }
+    console.log(`[TownGenerator] Split town into ${blocks.length} blocks`);
+
+    // Step 5: Plazas closest to the town centre
+    const plazas = this.choosePlazas(blocks, centreX, centreY, layout, isCrossroads);
+    console.log(`[TownGenerator] Reserved ${plazas.length} plazas`);
+
+    // Step 6: Buildings on lots
+    this.reportProgress('placement', 0.6);
+    const buildings = this.placeBuildings(blocks, plazas, streetRects, layout, subtype, centreX, centreY, waterfrontY);
+    console.log(`[TownGenerator] Placed ${buildings.length} buildings`);
+
+    // Paint streets, plazas and buildings
+    for (const rect of streetRects) this.fillRect(grid, rect, TownCell.Street);
+    for (const plaza of plazas) this.fillRect(grid, plaza, TownCell.Plaza);
+    for (const building of buildings) this.fillRect(grid, building, TownCell.Building);
+
+    // Step 7: Walls with gates where the streets leave the city
+    if (isWalled) {
+      this.buildWalls(grid, 1);
+    }
+
+    // Step 8: Docks from the waterfront into the harbor
+    const docks = shoreline ? this.buildDocks(grid, shoreline, waterfrontY + layout.streetWidth) : [];
+
+    console.log(`[TownGenerator] Town complete: ${buildings.length} buildings, ${streets.length} streets, ${plazas.length} plazas, ${docks.length} docks`);
+
+    return {
+      width: this.width,
+      height: this.height,
+      buildings,
+      plazas,
+      streets,
+      docks: docks.length > 0 ? docks : undefined,
+      grid,
+      seed: this.seed,
+      terrainType: TerrainType.Town,
+      subtype
+    };
+  }
+
+  /**
+   * Fill the south of the map with water, using noise for an irregular shoreline
+   * Returns the first water row for every column
+   */
+  private carveHarbor(grid: Grid): number[] {
+    const baseShore = Math.floor(this.height * 0.75);
+    const shoreline: number[] = [];
+
+    for (let x = 0; x < this.width; x++) {
+      const offset = Math.round(this.noise.octaveNoise(x * 0.08, 0.5, 2, 0.5) * 4);
+      const shore = Math.max(1, Math.min(this.height - 1, baseShore + offset));
+      shoreline.push(shore);
+      for (let y = shore; y < this.height; y++) {
+        grid.set(x, y, TownCell.Water);
+      }
+    }
+
+    return shoreline;
+  }
+
+  /**
+   * Build the centre-line segment for a street rectangle
+   */
+  private centreLine(x: number, y: number, length: number, width: number, horizontal: boolean): Corridor {
+    const mid = Math.floor(width / 2);
+    return horizontal
+      ? { start: [x, y + mid], end: [x + length - 1, y + mid] }
+      : { start: [x + mid, y], end: [x + mid, y + length - 1] };
+  }
+
+  /**
+   * Cut the town area into the blocks left between the main streets
+   */
+  private splitByMainStreets(
+    area: Room,
+    streetX: number,
+    streetY: number,
+    streetWidth: number,
+    horizontalOnly: boolean
+  ): Room[] {
+    const top = area.y;
+    const bottom = area.y + area.height;
+    const left = area.x;
+    const right = area.x + area.width;
+
+    const rows = [
+      { y: top, height: streetY - top },
+      { y: streetY + streetWidth, height: bottom - (streetY + streetWidth) }
+    ];
+    const columns = horizontalOnly
+      ? [{ x: left, width: right - left }]
+      : [
+          { x: left, width: streetX - left },
+          { x: streetX + streetWidth, width: right - (streetX + streetWidth) }
+        ];
+
+    const quadrants: Room[] = [];
+    for (const row of rows) {
+      for (const column of columns) {
+        if (row.height > 2 && column.width > 2) {
+          quadrants.push({ x: column.x, y: row.y, width: column.width, height: row.height });
+        }
+      }
+    }
+    return quadrants;
+  }
+
+  /**
+   * Binary Space Partitioning of a quadrant into city blocks
+   * Each split leaves a side street between the two halves
+   */
+  private splitBlocks(area: Room, layout: TownLayout, streets: Corridor[], streetRects: Room[]): Room[] {
+    const blocks: Room[] = [];
+    const queue: Room[] = [area];
+    const gap = layout.sideStreetWidth;
+
+    while (queue.length > 0) {
+      const block = queue.shift()!;
+      const canSplitVertical = block.width >= layout.blockSize * 2 + gap;
+      const canSplitHorizontal = block.height >= layout.blockSize * 2 + gap;
+
+      if (!canSplitVertical && !canSplitHorizontal) {
+        blocks.push(block);
+        continue;
+      }
+
+      // Prefer splitting the longer side
+      const splitVertical = canSplitVertical && (!canSplitHorizontal || block.width >= block.height);
+
+      if (splitVertical) {
+        const pos = this.random.nextInt(block.x + layout.blockSize, block.x + block.width - layout.blockSize - gap);
+        queue.push({ x: block.x, y: block.y, width: pos - block.x, height: block.height });
+        queue.push({ x: pos + gap, y: block.y, width: block.x + block.width - pos - gap, height: block.height });
+        streetRects.push({ x: pos, y: block.y, width: gap, height: block.height });
+        streets.push(this.centreLine(pos, block.y, block.height, gap, false));
+      } else {
+        const pos = this.random.nextInt(block.y + layout.blockSize, block.y + block.height - layout.blockSize - gap);
+        queue.push({ x: block.x, y: block.y, width: block.width, height: pos - block.y });
+        queue.push({ x: block.x, y: pos + gap, width: block.width, height: block.y + block.height - pos - gap });
+        streetRects.push({ x: block.x, y: pos, width: block.width, height: gap });
+        streets.push(this.centreLine(block.x, pos, block.width, gap, true));
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Reserve plazas: the blocks nearest the centre, or a square on the intersection for crossroads
+   */
+  private choosePlazas(
+    blocks: Room[],
+    centreX: number,
+    centreY: number,
+    layout: TownLayout,
+    atIntersection: boolean
+  ): Room[] {
+    if (layout.plazaCount <= 0) return [];
+
+    if (atIntersection) {
+      const size = layout.streetWidth * 3 + 2;
+      return [{
+        x: Math.max(0, centreX - Math.floor(size / 2)),
+        y: Math.max(0, centreY - Math.floor(size / 2)),
+        width: size,
+        height: size
+      }];
+    }
+
+    const byDistance = blocks
+      .filter(block => block.width >= 5 && block.height >= 5)
+      .map(block => ({
+        block,
+        distance: ConnectivityUtils.distance(ConnectivityUtils.getRoomCenter(block), { x: centreX, y: centreY })
+      }))
+      .sort((a, b) => a.distance - b.distance);
+
+    return byDistance.slice(0, layout.plazaCount).map(entry => entry.block);
+  }
+
+  /**
+   * Subdivide every non-plaza block into lots and place one building per lot
+   */
+  private placeBuildings(
+    blocks: Room[],
+    plazas: Room[],
+    streetRects: Room[],
+    layout: TownLayout,
+    subtype: TownSubtype,
+    centreX: number,
+    centreY: number,
+    waterfrontY: number
+  ): Building[] {
+    const buildings: Building[] = [];
+    const isVillage = subtype === TownSubtype.VILLAGE;
+
+    // Walled cities put a keep on the most central free block
+    let keepBlock: Room | null = null;
+    if (subtype === TownSubtype.WALLED_CITY) {
+      const candidates = blocks
+        .filter(block => !plazas.includes(block) && block.width >= 8 && block.height >= 8)
+        .sort((a, b) =>
+          ConnectivityUtils.distance(ConnectivityUtils.getRoomCenter(a), { x: centreX, y: centreY }) -
+          ConnectivityUtils.distance(ConnectivityUtils.getRoomCenter(b), { x: centreX, y: centreY })
+        );
+      keepBlock = candidates[0] ?? null;
+    }
+
+    for (const block of blocks) {
+      if (plazas.includes(block)) continue;
+
+      if (block === keepBlock) {
+        buildings.push({ x: block.x + 1, y: block.y + 1, width: block.width - 2, height: block.height - 2, kind: 'keep' });
+        continue;
+      }
+
+      for (const lot of this.subdivideLots(block, layout.lotSize)) {
+        // Lots cut by a plaza or a village lane stay open
+        if (plazas.some(plaza => this.intersects(lot, plaza))) continue;
+        if (streetRects.some(street => this.intersects(lot, street))) continue;
+        if (this.random.next() > layout.buildingDensity) continue;
+
+        // Leave a one-cell gap around every building
+        const maxWidth = lot.width - 2;
+        const maxHeight = lot.height - 2;
+        if (maxWidth < 3 || maxHeight < 3) continue;
+
+        // Villages scatter small cottages inside large lots
+        const width = isVillage ? this.random.nextInt(3, Math.min(maxWidth, 6)) : maxWidth;
+        const height = isVillage ? this.random.nextInt(3, Math.min(maxHeight, 6)) : maxHeight;
+        const x = lot.x + 1 + (isVillage ? this.random.nextInt(0, maxWidth - width) : 0);
+        const y = lot.y + 1 + (isVillage ? this.random.nextInt(0, maxHeight - height) : 0);
+
+        buildings.push({ x, y, width, height, kind: this.chooseKind(subtype, y + height, waterfrontY) });
+      }
+    }
+
+    this.assignLandmarks(buildings, plazas);
+    return buildings;
+  }
+
+  /**
+   * Split a block into lots along its longer axis until lots reach lotSize
+   */
+  private subdivideLots(block: Room, lotSize: number): Room[] {
+    const lots: Room[] = [];
+    const queue: Room[] = [block];
+
+    while (queue.length > 0) {
+      const lot = queue.shift()!;
+      const splitVertical = lot.width >= lotSize * 2 && lot.width >= lot.height;
+      const splitHorizontal = lot.height >= lotSize * 2;
+
+      if (splitVertical) {
+        const pos = this.random.nextInt(lot.x + lotSize, lot.x + lot.width - lotSize);
+        queue.push({ x: lot.x, y: lot.y, width: pos - lot.x, height: lot.height });
+        queue.push({ x: pos, y: lot.y, width: lot.x + lot.width - pos, height: lot.height });
+      } else if (splitHorizontal) {
+        const pos = this.random.nextInt(lot.y + lotSize, lot.y + lot.height - lotSize);
+        queue.push({ x: lot.x, y: lot.y, width: lot.width, height: pos - lot.y });
+        queue.push({ x: lot.x, y: pos, width: lot.width, height: lot.y + lot.height - pos });
+      } else {
+        lots.push(lot);
+      }
+    }
+
+    return lots;
+  }
+
+  /**
+   * Pick a building role from the subtype and its position
+   */
+  private chooseKind(subtype: TownSubtype, bottom: number, waterfrontY: number): Building['kind'] {
+    if (subtype === TownSubtype.HARBOR_TOWN && waterfrontY - bottom <= 3) {
+      return 'warehouse';
+    }
+    if (subtype === TownSubtype.MARKET_DISTRICT && this.random.next() < 0.6) {
+      return 'shop';
+    }
+    return 'house';
+  }
+
+  /**
+   * Every town gets a temple (largest building) and a tavern (closest to the main plaza)
+   */
+  private assignLandmarks(buildings: Building[], plazas: Room[]): void {
+    const ordinary = buildings.filter(b => b.kind !== 'keep');
+    if (ordinary.length < 3) return;
+
+    const largest = ordinary.reduce((best, b) => (b.width * b.height > best.width * best.height ? b : best));
+    largest.kind = 'temple';
+
+    if (plazas.length > 0) {
+      const plazaCenter = ConnectivityUtils.getRoomCenter(plazas[0]);
+      const nearest = ordinary
+        .filter(b => b !== largest)
+        .reduce((best, b) =>
+          ConnectivityUtils.distance(ConnectivityUtils.getRoomCenter(b), plazaCenter) <
+          ConnectivityUtils.distance(ConnectivityUtils.getRoomCenter(best), plazaCenter) ? b : best
+        );
+      nearest.kind = 'tavern';
+    }
+  }
+
+  /**
+   * Draw a perimeter wall; street cells crossing it are kept open as gates
+   */
+  private buildWalls(grid: Grid, inset: number): void {
+    const left = inset;
+    const right = this.width - 1 - inset;
+    const top = inset;
+    const bottom = this.height - 1 - inset;
+
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left; x <= right; x++) {
+        const onRing = x === left || x === right || y === top || y === bottom;
+        if (onRing && grid.get(x, y) !== TownCell.Street) {
+          grid.set(x, y, TownCell.Wall);
+        }
+      }
+    }
+  }
+
+  /**
+   * Build piers from the waterfront street out into the water
+   */
+  private buildDocks(grid: Grid, shoreline: number[], startY: number): Room[] {
+    const docks: Room[] = [];
+    const count = Math.max(2, Math.floor(this.width / 25));
+    const spacing = Math.floor(this.width / (count + 1));
+
+    for (let i = 1; i <= count; i++) {
+      const x = Math.max(0, Math.min(this.width - 2, spacing * i + this.random.nextInt(-2, 2)));
+      const shore = Math.max(shoreline[x], shoreline[x + 1]);
+      const length = this.random.nextInt(4, 8);
+      const dock: Room = {
+        x,
+        y: startY,
+        width: 2,
+        height: Math.min(this.height - 1, shore + length) - startY
+      };
+      if (dock.height <= 0) continue;
+
+      this.fillRect(grid, dock, TownCell.Dock);
+      docks.push(dock);
+    }
+
+    return docks;
+  }
+
+  /**
+   * Strict rectangle intersection (touching edges do not count)
+   */
+  private intersects(a: Room, b: Room): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+
+  /**
+   * Fill a rectangle with a cell value, clipped to the map
+   */
+  private fillRect(grid: Grid, rect: Room, value: TownCell): void {
+    grid.fillRect(rect.x, rect.y, rect.width, rect.height, value);
+  }
+}
+
+GeneratorRegistry.register({
+  terrainType: TerrainType.Town,
+  name: 'Town',
+  create: (parameters) => new TownGenerator(parameters),
+  subtypes: Object.values(TownSubtype),
+  subtypeRequired: true,
+  parameters: [
+    { key: 'streetWidth', label: 'Street Width', description: 'Width of the main streets in cells', type: 'number', min: 1, max: 5, step: 1, default: 3, auto: true },
+    { key: 'blockSize', label: 'Block Size', description: 'Target size of a city block between side streets', type: 'number', min: 8, max: 30, step: 1, default: 14, auto: true },
+    { key: 'buildingDensity', label: 'Building Density', description: 'Chance that a lot gets a building (0.0 = empty, 1.0 = packed)', type: 'number', min: 0.2, max: 1, step: 0.01, default: 0.7, auto: true },
+    { key: 'plazaCount', label: 'Plazas', description: 'Number of open squares or market places', type: 'number', min: 0, max: 4, step: 1, default: 1, auto: true }
+  ],
+  presets: [
+    { name: 'Village', parameters: { width: 80, height: 80, subtype: TownSubtype.VILLAGE } },
+    { name: 'Market District', parameters: { width: 100, height: 100, subtype: TownSubtype.MARKET_DISTRICT } },
+    { name: 'Harbor Town', parameters: { width: 100, height: 100, subtype: TownSubtype.HARBOR_TOWN } },
+    { name: 'Walled City', parameters: { width: 120, height: 120, subtype: TownSubtype.WALLED_CITY } },
+    { name: 'Crossroads', parameters: { width: 80, height: 80, subtype: TownSubtype.CROSSROADS } }
+  ]
+});
@@ -0,0 +1,181 @@
+// Tileset Generator using Wave Function Collapse
+/**
+ * Generates maps by collapsing a grid of tiles from a tileset of adjacency rules.
+ *
+ * Algorithm Overview:
+ * 1. Look up the tileset (tileset parameter, else the subtype) and compile its rules:
+ *    rotations are expanded and tiles may touch where their edge sockets match
+ * 2. Ban tiles whose edges don't match the tileset border along the map edge
+ * 3. Pin fixed tiles (tileset entrances plus the fixedTiles parameter)
+ * 4. Collapse the lowest-entropy tile to a weighted choice and propagate,
+ *    backtracking on contradictions (WfcSolver)
+ * 5. Stamp each tile's pattern into the cell grid, cropped to the map size
+ *
+ * Tilesets are plain JSON (see tilesets/*.json and WfcTilesetDefinition) so artists
+ * can add tilesets matching their sprite sheets and register them with
+ * WfcTilesetRegistry.load().
+ *
+ * Parameters:
+ * - subtype: Built-in tileset (WfcSubtype). Default ruins
+ * - tileset: Id of any registered tileset; overrides the subtype
+ * - fixedTiles: Extra tiles pinned before the collapse, in tile coordinates
+ * - maxBacktracks: Backtracks allowed before the collapse restarts (default: 500)
+ *
+ * Grid cell codes come from the tileset legend.
+ */
+
+import { MapGenerator } from './MapGenerator';
+import { GeneratorRegistry } from './GeneratorRegistry';
+import { MapData, TerrainType, TileMap, WfcTilesetDefinition } from '../types/generator';
+import { WfcSubtype } from '../types/enums';
+import { WfcRuleset, WfcSolver, WfcTilesetLoader } from '../utils/wfc';
+import ruins from './tilesets/ruins.json';
+import townBlocks from './tilesets/town-blocks.json';
+import sewerPipes from './tilesets/sewer-pipes.json';
+
+/**
+ * Tilesets available to the generator, keyed by id
+ */
+export class WfcTilesetRegistry {
+  private static tilesets = new Map<string, WfcTilesetDefinition>();
+
+  /**
+   * Register a tileset, replacing any existing one with the same id
+   */
+  static register(tileset: WfcTilesetDefinition): void {
+    this.tilesets.set(tileset.id, tileset);
+  }
+
+  /**
+   * Validate and register a tileset from JSON (a string or parsed object)
+   */
+  static load(source: string | unknown): WfcTilesetDefinition {
+    const tileset = WfcTilesetLoader.parse(source);
+    this.register(tileset);
+    return tileset;
+  }
+
+  static get(id: string): WfcTilesetDefinition | undefined {
+    return this.tilesets.get(id);
+  }
+
+  static getAll(): WfcTilesetDefinition[] {
+    return Array.from(this.tilesets.values());
+  }
+}
+
+WfcTilesetRegistry.load(ruins);
+WfcTilesetRegistry.load(townBlocks);
+WfcTilesetRegistry.load(sewerPipes);
+
+export class WfcGenerator extends MapGenerator<MapData, number> {
+  generate(): MapData {
+    const subtype = this.getSubtype(WfcSubtype) ?? WfcSubtype.RUINS;
+    const tilesetId = this.parameters.tileset ?? subtype;
+    const tileset = WfcTilesetRegistry.get(tilesetId);
+    if (!tileset) {
+      throw new Error(`No tileset registered with id "${tilesetId}"`);
+    }
+
+    const ruleset = WfcRuleset.compile(tileset);
+    const cols = Math.ceil(this.width / tileset.tileSize);
+    const rows = Math.ceil(this.height / tileset.tileSize);
+    console.log(`[WfcGenerator] Collapsing ${cols}x${rows} tiles of "${tileset.name}" (${ruleset.tiles.length} tiles after rotation)`);
+
+    // Steps 1-4: Border, fixed tiles, then collapse with backtracking
+    this.reportProgress('collapse', 0);
+    const fixed = [...(tileset.fixed ?? []), ...(this.parameters.fixedTiles ?? [])];
+    let collapsed = 0; // Backtracking can undo cells; the progress bar only moves forward
+    const tiles = new WfcSolver(ruleset, cols, rows, this.random).solve(fixed, {
+      maxBacktracks: this.getParam('maxBacktracks', 500),
+      onProgress: fraction => {
+        collapsed = Math.max(collapsed, fraction);
+        this.reportProgress('collapse', 0.9 * collapsed);
+      }
+    });
+
+    // Step 5: Stamp tile patterns into the cell grid
+    this.reportProgress('placement', 0.9);
+    const grid = this.createEmptyGrid();
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const pattern = ruleset.tiles[tiles.get(col, row)].pattern;
+        for (let dy = 0; dy < tileset.tileSize; dy++) {
+          for (let dx = 0; dx < tileset.tileSize; dx++) {
+            const x = col * tileset.tileSize + dx;
+            const y = row * tileset.tileSize + dy;
+            if (grid.inBounds(x, y)) {
+              grid.set(x, y, pattern[dy][dx]);
+            }
+          }
+        }
+      }
+    }
+
+    // Tiles cropped at the right and bottom edges would otherwise leave the map open
+    if (tileset.border !== undefined) {
+      const border = tileset.legend[tileset.border].cell;
+      for (let x = 0; x < this.width; x++) {
+        grid.set(x, 0, border);
+        grid.set(x, this.height - 1, border);
+      }
+      for (let y = 0; y < this.height; y++) {
+        grid.set(0, y, border);
+        grid.set(this.width - 1, y, border);
+      }
+    }
+
+    const tileMap: TileMap = {
+      tileset: tileset.id,
+      tileSize: tileset.tileSize,
+      cells: tiles,
+      tiles: ruleset.tiles.map(tile => ({ id: tile.id, sprite: tile.sprite, rotation: tile.rotation })),
+      colors: Object.fromEntries(Object.values(tileset.legend).map(entry => [entry.cell, entry.color]))
+    };
+
+    console.log(`[WfcGenerator] Collapse complete`);
+
+    return {
+      width: this.width,
+      height: this.height,
+      grid,
+      tileMap,
+      seed: this.seed,
+      terrainType: TerrainType.Tileset,
+      subtype
+    };
+  }
+}
+
+/**
+ * Paint every cell with its tileset legend colour
+ */
+function drawTileMap(ctx: CanvasRenderingContext2D, mapData: MapData, cellSize: number): void {
+  if (!mapData.grid || !mapData.tileMap) return;
+
+  const colors = mapData.tileMap.colors;
+  for (let y = 0; y < mapData.height; y++) {
+    for (let x = 0; x < mapData.width; x++) {
+      const color = colors[mapData.grid.get(x, y)];
+      if (!color) continue;
+      ctx.fillStyle = color;
+      ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+    }
+  }
+}
+
+GeneratorRegistry.register({
+  terrainType: TerrainType.Tileset,
+  name: 'Tileset (WFC)',
+  create: (parameters) => new WfcGenerator(parameters),
+  subtypes: Object.values(WfcSubtype),
+  parameters: [
+    { key: 'maxBacktracks', label: 'Max Backtracks', description: 'Contradictions undone before the collapse restarts from scratch', type: 'number', min: 50, max: 2000, step: 50, default: 500 }
+  ],
+  presets: [
+    { name: 'Ruins', parameters: { width: 60, height: 60, subtype: WfcSubtype.RUINS } },
+    { name: 'Town Blocks', parameters: { width: 60, height: 60, subtype: WfcSubtype.TOWN_BLOCKS } },
+    { name: 'Sewer Pipes', parameters: { width: 80, height: 80, subtype: WfcSubtype.SEWER_PIPES } }
+  ],
+  render: drawTileMap
+});
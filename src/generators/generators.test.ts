@@ -4,7 +4,20 @@ import { HouseGenerator } from '../generators/HouseGenerator';
 import { ForestGenerator } from '../generators/ForestGenerator';
 import { CaveGenerator } from '../generators/CaveGenerator';
 import { DungeonGenerator } from '../generators/DungeonGenerator';
-import { TerrainType, Room } from '../types/generator';
+import { TownGenerator } from '../generators/TownGenerator';
+import { WfcGenerator, WfcTilesetRegistry } from '../generators/WfcGenerator';
+import { OverworldGenerator } from '../generators/OverworldGenerator';
+import { GeneratorRegistry } from '../generators/GeneratorRegistry';
+import { getPresetByName, getPresetsByTerrain } from '../utils/presets';
+import { TerrainType, Room, TownCell, TerrainCell, ForestCell, OverworldCell, DoorType, RoomPurpose, IMPASSABLE_CELLS, FOREST_IMPASSABLE_CELLS, OVERWORLD_IMPASSABLE_CELLS } from '../types/generator';
+import { HouseSubtype, HouseStory, ForestSubtype, CaveSubtype, TownSubtype, DungeonSubtype, WfcSubtype, OverworldSubtype } from '../types/enums';
+import { WfcRuleset, WfcSolver, WfcTilesetLoader } from '../utils/wfc';
+import { SeededRandom } from '../utils/random';
+import { ConnectivityUtils } from '../utils/connectivity';
+import { MapPopulator } from '../utils/populate';
+import { PointOfInterest } from '../types/campaign';
+import { PREFAB_CELL_CODES, DEFAULT_PREFAB_LEGEND, PrefabStamper } from '../utils/prefabs';
+import { PrefabRegistry } from '../generators/PrefabRegistry';
 
 // Helper function: Check if two rooms overlap
 function roomsOverlap(r1: Room, r2: Room): boolean {
@@ -403,7 +416,7 @@ describe('CaveGenerator', () => {
     });
 
     const map = generator.generate();
-    const grid = map.grid!;
+    const grid = map.grid!.toArray();
 
     // Check top and bottom edges
     for (let x = 0; x < map.width; x++) {
@@ -429,7 +442,7 @@ describe('CaveGenerator', () => {
     });
 
     const map = generator.generate();
-    const grid = map.grid!;
+    const grid = map.grid!.toArray();
 
     // Find first floor cell
     let startX = -1, startY = -1;
@@ -472,7 +485,7 @@ describe('CaveGenerator', () => {
     });
 
     const map = generator.generate();
-    const grid = map.grid!;
+    const grid = map.grid!.toArray();
 
     let floorCount = 0;
 
@@ -569,7 +582,7 @@ describe('DungeonGenerator', () => {
     });
 
     const map = generator.generate();
-    const grid = map.grid!;
+    const grid = map.grid!.toArray();
     const rooms = map.rooms!;
 
     // Find center of first room as starting point
@@ -627,6 +640,284 @@ describe('DungeonGenerator', () => {
   });
 });
 
+describe('TownGenerator', () => {
+  it('should generate a valid town map with buildings and streets', () => {
+    const generator = new TownGenerator({
+      width: 80,
+      height: 80,
+      seed: 12345,
+      subtype: TownSubtype.MARKET_DISTRICT
+    });
+
+    const map = generator.generate();
+
+    expect(map.terrainType).toBe(TerrainType.Town);
+    expect(map.grid).toBeDefined();
+    expect(map.buildings!.length).toBeGreaterThan(0);
+    expect(map.streets!.length).toBeGreaterThan(0);
+    expect(map.plazas!.length).toBeGreaterThan(0);
+  });
+
+  it('should place non-overlapping buildings within map bounds', () => {
+    for (const subtype of Object.values(TownSubtype)) {
+      const map = new TownGenerator({ width: 90, height: 90, seed: 4242, subtype }).generate();
+      const buildings = map.buildings!;
+
+      for (let i = 0; i < buildings.length; i++) {
+        const b = buildings[i];
+        expect(b.x).toBeGreaterThanOrEqual(0);
+        expect(b.y).toBeGreaterThanOrEqual(0);
+        expect(b.x + b.width).toBeLessThanOrEqual(map.width);
+        expect(b.y + b.height).toBeLessThanOrEqual(map.height);
+
+        for (let j = i + 1; j < buildings.length; j++) {
+          expect(roomsOverlap(b, buildings[j])).toBe(false);
+        }
+      }
+    }
+  });
+
+  it('should ring a walled city with walls and street gates', () => {
+    const map = new TownGenerator({
+      width: 100,
+      height: 100,
+      seed: 777,
+      subtype: TownSubtype.WALLED_CITY
+    }).generate();
+    const grid = map.grid!.toArray();
+
+    const ring = [...grid[1].slice(1, map.width - 1), ...grid[map.height - 2].slice(1, map.width - 1)];
+    expect(ring.filter(c => c === TownCell.Wall).length).toBeGreaterThan(ring.length / 2);
+    expect(ring).toContain(TownCell.Street);
+    expect(map.buildings!.some(b => b.kind === 'keep')).toBe(true);
+  });
+
+  it('should add water and docks to a harbor town', () => {
+    const map = new TownGenerator({
+      width: 100,
+      height: 100,
+      seed: 2024,
+      subtype: TownSubtype.HARBOR_TOWN
+    }).generate();
+    const cells = map.grid!.toArray().flat();
+
+    expect(cells).toContain(TownCell.Water);
+    expect(map.docks!.length).toBeGreaterThan(0);
+  });
+
+  it('should generate identical towns with the same seed', () => {
+    const params = { width: 80, height: 80, seed: 31337, subtype: TownSubtype.VILLAGE };
+
+    const map1 = new TownGenerator(params).generate();
+    const map2 = new TownGenerator(params).generate();
+
+    expect(map1.grid).toEqual(map2.grid);
+    expect(map1.buildings).toEqual(map2.buildings);
+  });
+});
+
+describe('Hex quantisation', () => {
+  it('should add hex cells to forests and caves only when asked', () => {
+    const cave = new CaveGenerator({ width: 60, height: 60, seed: 4, hexOrientation: 'flat' }).generate();
+    const forest = new ForestGenerator({ width: 60, height: 60, seed: 4, hexOrientation: 'pointy' }).generate();
+    const plain = new CaveGenerator({ width: 60, height: 60, seed: 4 }).generate();
+
+    expect(cave.hexGrid!.orientation).toBe('flat');
+    expect(cave.grid).toEqual(plain.grid);
+    expect(new Set(cave.hexGrid!.cells.toArray().flat())).toEqual(new Set(plain.grid!.toArray().flat()));
+    expect(forest.hexGrid!.cells.toArray().flat()).toContain(ForestCell.Tree);
+    expect(plain.hexGrid).toBeUndefined();
+  });
+});
+
+describe('Doors', () => {
+  it('should place doors on corridor cells next to dungeon and house rooms', () => {
+    const dungeon = new DungeonGenerator({ width: 80, height: 80, seed: 3 }).generate();
+    const house = new HouseGenerator({ width: 80, height: 80, seed: 3 }).generate();
+
+    for (const [map, floor] of [[dungeon, TerrainCell.Floor], [house, 1]] as const) {
+      expect(map.doors!.length).toBeGreaterThan(0);
+      for (const door of map.doors!) {
+        expect(map.grid!.get(door.x, door.y)).toBe(floor);
+        expect(map.rooms!.some(room =>
+          door.x >= room.x && door.x < room.x + room.width && door.y >= room.y && door.y < room.y + room.height
+        )).toBe(false);
+      }
+    }
+  });
+
+  it('should follow the configured door ratios', () => {
+    const map = new DungeonGenerator({
+      width: 80,
+      height: 80,
+      seed: 3,
+      doorwayRatio: 0,
+      lockedDoorRatio: 0,
+      secretDoorRatio: 1
+    }).generate();
+
+    expect(map.doors!.every(door => door.type === DoorType.Secret)).toBe(true);
+  });
+});
+
+describe('Multi-story houses', () => {
+  const params = { width: 80, height: 80, seed: 11, minRoomSize: 4, maxRoomSize: 10, roomCount: 8 };
+
+  it('should leave single-story houses unchanged', () => {
+    const plain = new HouseGenerator(params).generate();
+    const stacked = new HouseGenerator({ ...params, stories: 3, basement: true }).generate();
+
+    expect(plain.floors).toBeUndefined();
+    expect(stacked.grid).toEqual(plain.grid);
+    expect(stacked.rooms).toEqual(plain.rooms);
+  });
+
+  it('should stack floors on the same footprint with their own grids', () => {
+    const map = new HouseGenerator({ ...params, stories: 3, basement: true }).generate();
+    const floors = map.floors!;
+
+    expect(floors.map(f => f.story)).toEqual([
+      HouseStory.BASEMENT,
+      HouseStory.STORY_1,
+      HouseStory.STORY_2,
+      HouseStory.STORY_3
+    ]);
+    expect(floors[2].footprint).toEqual(floors[1].footprint);
+    expect(floors[3].footprint).toEqual(floors[1].footprint);
+    expect(new Set(floors.map(f => f.grid)).size).toBe(4);
+    expect(map.grid).toBe(floors[1].grid);
+  });
+
+  it('should let the basement extend beyond the house footprint', () => {
+    const map = new HouseGenerator({ ...params, subtype: HouseSubtype.COTTAGE, basement: true }).generate();
+    const [basement, ground] = map.floors!;
+
+    expect(basement.footprint.x).toBeLessThan(ground.footprint.x);
+    expect(basement.footprint.width).toBeGreaterThan(ground.footprint.width);
+  });
+
+  it('should place stairs on matching floor cells of adjacent floors', () => {
+    for (const subtype of [undefined, ...Object.values(HouseSubtype)]) {
+      const map = new HouseGenerator({ ...params, stories: 3, basement: true, subtype }).generate();
+      const floors = map.floors!;
+
+      for (let i = 0; i < floors.length - 1; i++) {
+        const up = floors[i].stairs.find(s => s.direction === 'up')!;
+        const down = floors[i + 1].stairs.find(s => s.direction === 'down')!;
+
+        expect(up.to).toBe(floors[i + 1].story);
+        expect(down.to).toBe(floors[i].story);
+        expect([down.x, down.y]).toEqual([up.x, up.y]);
+        expect(floors[i].grid.get(up.x, up.y)).toBe(1);
+        expect(floors[i + 1].grid.get(down.x, down.y)).toBe(1);
+      }
+    }
+  });
+});
+
+describe('Terrain subtypes', () => {
+  it('should record the subtype on the generated map', () => {
+    const map = new CaveGenerator({ width: 70, height: 70, seed: 1, subtype: CaveSubtype.MINE }).generate();
+    expect(map.subtype).toBe(CaveSubtype.MINE);
+  });
+
+  it('should ignore a subtype that belongs to another terrain', () => {
+    const params = { width: 70, height: 70, seed: 2024 };
+    const plain = new CaveGenerator(params).generate();
+    const mismatched = new CaveGenerator({ ...params, subtype: DungeonSubtype.PRISON }).generate();
+
+    expect(mismatched.subtype).toBeUndefined();
+    expect(mismatched.grid).toEqual(plain.grid);
+  });
+
+  it('should flood an underground lake and run lava through lava tubes', () => {
+    const lake = new CaveGenerator({ width: 80, height: 80, seed: 5, subtype: CaveSubtype.UNDERGROUND_LAKE }).generate();
+    const tubes = new CaveGenerator({ width: 80, height: 80, seed: 5, subtype: CaveSubtype.LAVA_TUBES }).generate();
+
+    expect(lake.grid!.toArray().flat()).toContain(TerrainCell.Water);
+    expect(tubes.grid!.toArray().flat()).toContain(TerrainCell.Lava);
+  });
+
+  it('should mirror a temple dungeon around its central nave', () => {
+    const map = new DungeonGenerator({
+      width: 80,
+      height: 80,
+      seed: 321,
+      roomCount: 9,
+      subtype: DungeonSubtype.TEMPLE
+    }).generate();
+    const grid = map.grid!.toArray();
+
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        expect(grid[y][x]).toBe(grid[y][map.width - 1 - x]);
+      }
+    }
+    expect(map.rooms!.length).toBeGreaterThan(2);
+  });
+
+  it('should keep prison cell blocks and sewer channels reachable', () => {
+    for (const subtype of [DungeonSubtype.PRISON, DungeonSubtype.SEWER]) {
+      const map = new DungeonGenerator({ width: 90, height: 90, seed: 77, minRoomSize: 7, maxRoomSize: 12, subtype }).generate();
+      const grid = map.grid!.toArray().map(row => row.map(cell => (cell === TerrainCell.Water ? 0 : cell)));
+      const floorCount = grid.flat().filter(cell => cell === 0).length;
+      const start = ((): [number, number] => {
+        for (let y = 0; y < map.height; y++) {
+          for (let x = 0; x < map.width; x++) {
+            if (grid[y][x] === 0) return [x, y];
+          }
+        }
+        return [0, 0];
+      })();
+
+      expect(floodFillCount(grid, start[0], start[1])).toBe(floorCount);
+    }
+
+    const sewer = new DungeonGenerator({ width: 90, height: 90, seed: 77, subtype: DungeonSubtype.SEWER }).generate();
+    expect(sewer.grid!.toArray().flat()).toContain(TerrainCell.Water);
+  });
+
+  it('should give a castle four corner towers', () => {
+    const map = new HouseGenerator({
+      width: 100,
+      height: 100,
+      seed: 42,
+      minRoomSize: 5,
+      maxRoomSize: 12,
+      roomCount: 12,
+      subtype: HouseSubtype.CASTLE
+    }).generate();
+    const towers = map.rooms!.slice(0, 4);
+
+    expect(map.subtype).toBe(HouseSubtype.CASTLE);
+    expect(new Set(towers.map(t => t.width)).size).toBe(1);
+    expect(towers.every(t => t.width === t.height)).toBe(true);
+  });
+
+  it('should generate every house subtype at a modest size', () => {
+    const sizes = [
+      { width: 40, height: 25 },
+      { width: 40, height: 25, minRoomSize: 8, maxRoomSize: 10, gridSize: 1 },
+      { width: 30, height: 20, minRoomSize: 8, maxRoomSize: 12 }
+    ];
+
+    for (const size of sizes) {
+      for (const subtype of Object.values(HouseSubtype)) {
+        const map = new HouseGenerator({ ...size, seed: 11, subtype }).generate();
+        expect(map.rooms!.length).toBeGreaterThanOrEqual(2);
+      }
+    }
+  });
+
+  it('should leave ruins in an overgrown forest and a clear centre in a sacred grove', () => {
+    const ruins = new ForestGenerator({ width: 100, height: 100, seed: 9, subtype: ForestSubtype.OVERGROWN_RUINS }).generate();
+    expect(ruins.grid!.toArray().flat()).toContain(ForestCell.Ruin);
+
+    const grove = new ForestGenerator({ width: 100, height: 100, seed: 9, subtype: ForestSubtype.SACRED_GROVE }).generate();
+    expect(grove.grid!.get(50, 50)).not.toBe(ForestCell.Tree);
+  });
+});
+
 describe('Seeded Random Consistency', () => {
   it('should generate identical maps with same seed', () => {
     const params = {
@@ -672,8 +963,8 @@ describe('Seeded Random Consistency', () => {
     const map1 = gen1.generate();
     const map2 = gen2.generate();
 
-    const grid1 = map1.grid!;
-    const grid2 = map2.grid!;
+    const grid1 = map1.grid!.toArray();
+    const grid2 = map2.grid!.toArray();
 
     // Grids should be different
     let differences = 0;
@@ -686,3 +977,610 @@ describe('Seeded Random Consistency', () => {
     expect(differences).toBeGreaterThan(100); // Significant differences
   });
 });
+
+describe('GeneratorRegistry', () => {
+  it('should register every built-in terrain with a schema and presets', () => {
+    for (const terrain of Object.values(TerrainType)) {
+      const definition = GeneratorRegistry.get(terrain);
+      expect(definition).toBeDefined();
+      expect(definition!.parameters.length).toBeGreaterThan(0);
+      expect(getPresetsByTerrain(terrain).length).toBeGreaterThan(0);
+    }
+    expect(getPresetByName('Lava Tubes')?.terrainType).toBe(TerrainType.Cave);
+  });
+
+  it('should create the registered generator for a terrain', () => {
+    const generator = GeneratorRegistry.create(TerrainType.Cave, { width: 50, height: 50, seed: 42 });
+    expect(generator).toBeInstanceOf(CaveGenerator);
+    expect(generator.generate().terrainType).toBe(TerrainType.Cave);
+  });
+
+  it('should let a custom generator replace a built-in one', () => {
+    const original = GeneratorRegistry.get(TerrainType.Forest)!;
+    try {
+      GeneratorRegistry.register({
+        ...original,
+        name: 'Custom Forest',
+        create: (parameters) => new CaveGenerator(parameters)
+      });
+      expect(GeneratorRegistry.get(TerrainType.Forest)!.name).toBe('Custom Forest');
+      expect(GeneratorRegistry.create(TerrainType.Forest, { width: 40, height: 40, seed: 1 })).toBeInstanceOf(CaveGenerator);
+    } finally {
+      GeneratorRegistry.register(original);
+    }
+  });
+
+  it('should throw for a terrain with no generator', () => {
+    const original = GeneratorRegistry.get(TerrainType.Town)!;
+    GeneratorRegistry.unregister(TerrainType.Town);
+    try {
+      expect(() => GeneratorRegistry.create(TerrainType.Town, { width: 40, height: 40 })).toThrow('No generator registered');
+    } finally {
+      GeneratorRegistry.register(original);
+    }
+  });
+});
+
+describe('Generation progress', () => {
+  it('should report phases with increasing progress', () => {
+    const generators = [
+      new DungeonGenerator({ width: 80, height: 80, seed: 12345 }),
+      new CaveGenerator({ width: 60, height: 60, seed: 12345 }),
+      new HouseGenerator({ width: 60, height: 60, seed: 12345, stories: 2 })
+    ];
+
+    for (const generator of generators) {
+      const reports: { phase: string; progress: number }[] = [];
+      generator.onProgress(progress => reports.push(progress));
+      generator.generate();
+
+      expect(reports.length).toBeGreaterThan(1);
+      for (let i = 1; i < reports.length; i++) {
+        expect(reports[i].progress).toBeGreaterThanOrEqual(reports[i - 1].progress);
+      }
+      expect(reports.every(r => r.progress >= 0 && r.progress <= 1)).toBe(true);
+    }
+  });
+});
+
+describe('WfcGenerator', () => {
+  // Every pair of neighbouring tiles must share the socket on their touching edges
+  function expectValidLayout(map: ReturnType<WfcGenerator['generate']>) {
+    const tileMap = map.tileMap!;
+    const ruleset = WfcRuleset.compile(WfcTilesetRegistry.get(tileMap.tileset)!);
+    const index = (id: string) => ruleset.tiles.findIndex(tile => tile.id === id);
+    const { cells, tiles } = tileMap;
+
+    const violations: string[] = [];
+    for (let y = 0; y < cells.height; y++) {
+      for (let x = 0; x < cells.width; x++) {
+        const tile = index(tiles[cells.get(x, y)].id);
+        if (x + 1 < cells.width && !ruleset.allows(tile, 'east', index(tiles[cells.get(x + 1, y)].id))) {
+          violations.push(`${x},${y} east`);
+        }
+        if (y + 1 < cells.height && !ruleset.allows(tile, 'south', index(tiles[cells.get(x, y + 1)].id))) {
+          violations.push(`${x},${y} south`);
+        }
+      }
+    }
+    expect(violations).toEqual([]);
+  }
+
+  it('should collapse every built-in tileset into a valid layout', () => {
+    for (const subtype of Object.values(WfcSubtype)) {
+      const map = new WfcGenerator({ width: 45, height: 45, seed: 7, subtype }).generate();
+      expect(map.terrainType).toBe(TerrainType.Tileset);
+      expect(map.grid!.width).toBe(45);
+      expect(map.tileMap!.tileset).toBe(subtype);
+      expectValidLayout(map);
+    }
+  });
+
+  it('should produce the same layout for the same seed', () => {
+    const params = { width: 60, height: 60, seed: 4242, subtype: WfcSubtype.SEWER_PIPES };
+    const first = new WfcGenerator(params).generate();
+    const second = new WfcGenerator(params).generate();
+    expect(second.grid!.cells).toEqual(first.grid!.cells);
+
+    const other = new WfcGenerator({ ...params, seed: 99 }).generate();
+    expect(other.grid!.cells).not.toEqual(first.grid!.cells);
+  });
+
+  it('should pin fixed tiles such as the entrance and keep the border closed', () => {
+    const map = new WfcGenerator({
+      width: 30,
+      height: 30,
+      seed: 3,
+      subtype: WfcSubtype.RUINS,
+      fixedTiles: [{ x: 2, y: 2, tile: 'corridor_cross' }]
+    }).generate();
+    const { cells, tiles } = map.tileMap!;
+
+    expect(tiles[cells.get(5, 9)].id).toBe('entrance');
+    expect(tiles[cells.get(2, 2)].id).toBe('corridor_cross');
+    for (let i = 0; i < 30; i++) {
+      expect(map.grid!.get(i, 0)).toBe(TerrainCell.Wall);
+      expect(map.grid!.get(0, i)).toBe(TerrainCell.Wall);
+    }
+    expectValidLayout(map);
+  });
+
+  it('should load custom tilesets from JSON', () => {
+    const json = JSON.stringify({
+      id: 'test_stripes',
+      name: 'Stripes',
+      tileSize: 2,
+      legend: { '#': { cell: 1, color: '#000' }, '.': { cell: 0, color: '#fff' } },
+      tiles: [
+        { id: 'wall', pattern: ['##', '##'] },
+        { id: 'lane', pattern: ['..', '..'] },
+        { id: 'edge', pattern: ['..', '##'], rotate: true, sprite: 'stripe_edge' }
+      ]
+    });
+    WfcTilesetRegistry.load(json);
+
+    const map = new WfcGenerator({ width: 20, height: 20, seed: 11, tileset: 'test_stripes' }).generate();
+    expect(map.tileMap!.tileset).toBe('test_stripes');
+    expect(map.tileMap!.tiles.some(tile => tile.id === 'edge@90' && tile.rotation === 90)).toBe(true);
+    expectValidLayout(map);
+  });
+
+  it('should reject invalid tilesets and impossible fixed tiles', () => {
+    expect(() => WfcTilesetLoader.parse({ id: 'bad', name: 'Bad', tileSize: 2, legend: { '#': { cell: 1, color: '#000' } }, tiles: [{ id: 'x', pattern: ['#?', '##'] }] }))
+      .toThrow('Invalid tileset "bad"');
+    expect(() => new WfcGenerator({ width: 20, height: 20, seed: 1, tileset: 'missing' }).generate())
+      .toThrow('No tileset registered');
+    // Open floor can't touch the closed border
+    expect(() => new WfcGenerator({
+      width: 30,
+      height: 30,
+      seed: 1,
+      subtype: WfcSubtype.RUINS,
+      fixedTiles: [{ x: 0, y: 0, tile: 'floor' }]
+    }).generate()).toThrow('conflicts with the tileset rules');
+  });
+
+  it('should backtrack out of contradictions', () => {
+    // Socket rules where propagation alone runs into dead ends on a 6x6 grid
+    const tileset = WfcTilesetLoader.parse({
+      id: 'test_backtrack',
+      name: 'Backtrack',
+      tileSize: 1,
+      legend: { x: { cell: 0, color: '#000' } },
+      tiles: [
+        { id: 'a', pattern: ['x'], sockets: { north: 'c', east: 'a', south: 'b', west: 'b' } },
+        { id: 'b', pattern: ['x'], sockets: { north: 'c', east: 'b', south: 'b', west: 'c' } },
+        { id: 'c', pattern: ['x'], sockets: { north: 'b', east: 'a', south: 'c', west: 'a' } },
+        { id: 'd', pattern: ['x'], sockets: { north: 'c', east: 'a', south: 'c', west: 'a' } }
+      ]
+    });
+    const ruleset = WfcRuleset.compile(tileset);
+    const solver = new WfcSolver(ruleset, 6, 6, new SeededRandom(1));
+    const tiles = solver.solve([], { maxAttempts: 1 });
+
+    expect(solver.backtracks).toBeGreaterThan(0);
+    const violations: string[] = [];
+    for (let y = 0; y < 6; y++) {
+      for (let x = 0; x < 6; x++) {
+        if (x < 5 && !ruleset.allows(tiles.get(x, y), 'east', tiles.get(x + 1, y))) violations.push(`${x},${y} east`);
+        if (y < 5 && !ruleset.allows(tiles.get(x, y), 'south', tiles.get(x, y + 1))) violations.push(`${x},${y} south`);
+      }
+    }
+    expect(violations).toEqual([]);
+  });
+});
+
+describe('Cave features', () => {
+  const countCells = (map: ReturnType<CaveGenerator['generate']>, cell: TerrainCell) => map.grid!.count(cell);
+
+  it('should add pools, deep water, lava, chasms and rubble as distinct cells', () => {
+    const map = new CaveGenerator({
+      width: 90,
+      height: 90,
+      seed: 31,
+      fillProbability: 0.42,
+      waterCoverage: 0.08,
+      lavaCoverage: 0.04,
+      chasmCoverage: 0.04,
+      rubbleCoverage: 0.05
+    }).generate();
+
+    for (const cell of [TerrainCell.Water, TerrainCell.DeepWater, TerrainCell.Lava, TerrainCell.Chasm, TerrainCell.Rubble]) {
+      expect(countCells(map, cell)).toBeGreaterThan(0);
+    }
+  });
+
+  it('should keep every walkable cell connected with deep water and lava impassable', () => {
+    for (const seed of [1, 2, 3]) {
+      const map = new CaveGenerator({
+        width: 80,
+        height: 80,
+        seed,
+        fillProbability: 0.42,
+        waterCoverage: 0.2,
+        lavaCoverage: 0.1,
+        chasmCoverage: 0.1
+      }).generate();
+
+      expect(map.grid!.regions(cell => !IMPASSABLE_CELLS.has(cell))).toHaveLength(1);
+    }
+    expect(IMPASSABLE_CELLS.has(TerrainCell.DeepWater)).toBe(true);
+    expect(IMPASSABLE_CELLS.has(TerrainCell.Lava)).toBe(true);
+    expect(IMPASSABLE_CELLS.has(TerrainCell.Rubble)).toBe(false);
+  });
+
+  it('should leave plain floor when every coverage is zero', () => {
+    const map = new CaveGenerator({
+      width: 60,
+      height: 60,
+      seed: 8,
+      waterCoverage: 0,
+      lavaCoverage: 0,
+      chasmCoverage: 0,
+      rubbleCoverage: 0
+    }).generate();
+
+    expect(new Set(Array.from(map.grid!.cells))).toEqual(new Set([TerrainCell.Floor, TerrainCell.Wall]));
+  });
+
+  it('should deepen the middle of an underground lake', () => {
+    const lake = new CaveGenerator({ width: 80, height: 80, seed: 5, subtype: CaveSubtype.UNDERGROUND_LAKE }).generate();
+    expect(countCells(lake, TerrainCell.DeepWater)).toBeGreaterThan(0);
+    expect(countCells(lake, TerrainCell.Water)).toBeGreaterThan(0);
+  });
+
+  it('should pull rubble towards the walls with wall bias', () => {
+    const wallNeighbours = (wallBias: number) => {
+      const map = new CaveGenerator({
+        width: 90,
+        height: 90,
+        seed: 12,
+        fillProbability: 0.42,
+        waterCoverage: 0,
+        chasmCoverage: 0,
+        rubbleCoverage: 0.1,
+        lowPointBias: 0,
+        wallBias
+      }).generate();
+      const grid = map.grid!;
+      let walls = 0;
+      let rubble = 0;
+      for (let y = 1; y < grid.height - 1; y++) {
+        for (let x = 1; x < grid.width - 1; x++) {
+          if (grid.get(x, y) !== TerrainCell.Rubble) continue;
+          rubble++;
+          walls += grid.countNeighbors(x, y, TerrainCell.Wall);
+        }
+      }
+      return walls / rubble;
+    };
+
+    expect(wallNeighbours(1)).toBeGreaterThan(wallNeighbours(0));
+  });
+});
+
+describe('Forest rivers', () => {
+  it('should cut rivers with banks, shallows and deep water and keep trees off them', () => {
+    const map = new ForestGenerator({ width: 100, height: 100, seed: 21, riverCount: 2, riverWidth: 6 }).generate();
+
+    expect(map.rivers).toHaveLength(2);
+    for (const cell of [ForestCell.Bank, ForestCell.Shallows, ForestCell.DeepWater]) {
+      expect(map.grid!.count(cell)).toBeGreaterThan(0);
+    }
+    const treesInWater = map.trees!.filter(tree => {
+      const cell = map.grid!.get(Math.floor(tree.x), Math.floor(tree.y));
+      return cell === ForestCell.Shallows || cell === ForestCell.DeepWater;
+    });
+    expect(treesInWater).toEqual([]);
+  });
+
+  it('should bridge wide rivers on the main path and ford narrow ones', () => {
+    const wide = new ForestGenerator({ width: 100, height: 100, seed: 4, riverCount: 1, riverWidth: 8, branchPathDensity: 0 }).generate();
+    expect(wide.rivers![0].crossings.map(c => c.type)).toContain('bridge');
+    expect(wide.grid!.count(ForestCell.Bridge)).toBeGreaterThan(0);
+
+    const narrow = new ForestGenerator({ width: 100, height: 100, seed: 4, riverCount: 1, riverWidth: 3, branchPathDensity: 0 }).generate();
+    expect(narrow.rivers![0].crossings.length).toBeGreaterThan(0);
+    expect(narrow.rivers![0].crossings.every(c => c.type === 'ford')).toBe(true);
+    expect(narrow.grid!.count(ForestCell.Bridge)).toBe(0);
+  });
+
+  it('should keep the exit reachable with deep water counted as blocking', () => {
+    for (const seed of [1, 2, 3]) {
+      const map = new ForestGenerator({ width: 100, height: 100, seed, riverCount: 3, riverWidth: 10 }).generate();
+      const grid = map.grid!;
+      const reached = grid.floodFill(map.entrance!.x, map.entrance!.y, cell => !FOREST_IMPASSABLE_CELLS.has(cell));
+
+      expect(reached).toContain(grid.index(map.exit!.x, map.exit!.y));
+    }
+    expect(FOREST_IMPASSABLE_CELLS.has(ForestCell.DeepWater)).toBe(true);
+    expect(FOREST_IMPASSABLE_CELLS.has(ForestCell.Shallows)).toBe(false);
+  });
+
+  it('should leave the forest unchanged without rivers', () => {
+    const plain = new ForestGenerator({ width: 80, height: 80, seed: 13 }).generate();
+    const dry = new ForestGenerator({ width: 80, height: 80, seed: 13, riverCount: 0 }).generate();
+
+    expect(dry.rivers).toBeUndefined();
+    expect(Array.from(dry.grid!.cells)).toEqual(Array.from(plain.grid!.cells));
+  });
+});
+
+describe('Entrance and critical path', () => {
+  const generators = {
+    dungeon: () => new DungeonGenerator({ width: 80, height: 80, seed: 17, roomCount: 10 }).generate(),
+    cave: () => new CaveGenerator({ width: 80, height: 80, seed: 17 }).generate(),
+    house: () => new HouseGenerator({ width: 60, height: 60, seed: 17, roomCount: 8 }).generate()
+  };
+  const houseFloor = (cell: number) => cell === 1;
+  const notBlocked = (cell: number) => !IMPASSABLE_CELLS.has(cell);
+
+  it.each(Object.keys(generators) as (keyof typeof generators)[])('should walk a %s from an edge entrance to its goal', name => {
+    const map = generators[name]();
+    const walkable = name === 'house' ? houseFloor : notBlocked;
+    const path = map.paths!;
+
+    expect(map.progression).toBeDefined();
+    expect(map.entrance).toEqual(map.progression!.entrance);
+    expect(map.exit).toEqual(map.progression!.goal);
+    expect(path[0]).toEqual(map.entrance);
+    expect(path[path.length - 1]).toEqual(map.exit);
+    expect(path.every(p => walkable(map.grid!.get(p.x, p.y)))).toBe(true);
+  });
+
+  it('should make the goal the room farthest from the entrance and start the critical path at the entrance room', () => {
+    const map = generators.dungeon();
+    const { goalRoom, entranceRoom, criticalPath, roomDistances, deadEnds } = map.progression!;
+
+    expect(roomDistances[goalRoom!]).toBe(Math.max(...roomDistances));
+    expect(criticalPath[0]).toBe(entranceRoom);
+    expect(criticalPath[criticalPath.length - 1]).toBe(goalRoom);
+    expect(deadEnds).not.toContain(goalRoom);
+    expect(deadEnds.filter(room => criticalPath.includes(room))).toEqual([]);
+  });
+
+  it('should find loops in a dungeon with extra connections', () => {
+    const looped = new DungeonGenerator({ width: 90, height: 90, seed: 5, roomCount: 12, connectivityFactor: 0.5 }).generate();
+    expect(looped.progression!.loops.length).toBeGreaterThan(0);
+    expect(looped.progression!.loops.every(loop => loop.length >= 3)).toBe(true);
+  });
+});
+
+describe('Room key', () => {
+  it('should key every dungeon room in order from the entrance', () => {
+    const map = new DungeonGenerator({ width: 80, height: 80, seed: 17, roomCount: 10 }).generate();
+    const key = map.roomKey!;
+    const { entranceRoom, goalRoom, roomDistances } = map.progression!;
+
+    expect(key.map(entry => entry.number)).toEqual(map.rooms!.map((_, i) => i + 1));
+    expect(key.map(entry => entry.room).sort((a, b) => a - b)).toEqual(map.rooms!.map((_, i) => i));
+    expect(key[0].room).toBe(entranceRoom);
+    expect(key.find(entry => entry.room === goalRoom)!.purpose).toBe(RoomPurpose.BossLair);
+    const distances = key.map(entry => roomDistances[entry.room]).filter(d => d !== -1);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it('should draw house purposes from the subtype', () => {
+    const map = new HouseGenerator({ width: 60, height: 60, seed: 17, roomCount: 8, subtype: HouseSubtype.WIZARD_TOWER }).generate();
+    const special = [RoomPurpose.EntranceHall, RoomPurpose.BossLair, RoomPurpose.GuardPost, RoomPurpose.Treasury, RoomPurpose.GreatHall];
+    const pool = [RoomPurpose.Library, RoomPurpose.Shrine, RoomPurpose.Storeroom, RoomPurpose.Bedchamber];
+
+    expect(map.roomKey!.length).toBe(map.rooms!.length);
+    expect(map.roomKey!.filter(entry => !special.includes(entry.purpose) && !pool.includes(entry.purpose))).toEqual([]);
+  });
+});
+
+describe('Auto-populate', () => {
+  const dungeon = () => new DungeonGenerator({ width: 80, height: 80, seed: 17, roomCount: 10 }).generate();
+  const notBlocked = (cell: number) => !IMPASSABLE_CELLS.has(cell);
+
+  it('should place hidden monsters, traps and treasure on walkable cells, the same every time', () => {
+    const map = dungeon();
+    const objects = MapPopulator.populate(map);
+
+    expect(MapPopulator.populate(dungeon())).toEqual(objects);
+    expect(new Set(objects.map(o => o.category))).toEqual(new Set(['monster', 'trap', 'treasure']));
+    expect(objects.every(o => !o.visibleToPlayers)).toBe(true);
+    expect(objects.every(o => notBlocked(map.grid!.get(o.x, o.y)))).toBe(true);
+    expect(new Set(objects.map(o => `${o.x},${o.y}`)).size).toBe(objects.length);
+  });
+
+  it('should put traps on chokepoints and the first treasure in a dead end', () => {
+    const map = dungeon();
+    const objects = MapPopulator.populate(map);
+    const open = (x: number, y: number) => notBlocked(map.grid!.getOr(x, y, TerrainCell.Wall));
+    const traps = objects.filter(o => o.category === 'trap');
+    const treasure = objects.find(o => o.category === 'treasure')!;
+    const inRoom = (room: Room) => treasure.x >= room.x && treasure.x < room.x + room.width && treasure.y >= room.y && treasure.y < room.y + room.height;
+
+    expect(traps.length).toBeGreaterThan(0);
+    expect(traps.filter(t => (open(t.x - 1, t.y) && open(t.x + 1, t.y)) === (open(t.x, t.y - 1) || open(t.x, t.y + 1)))).toEqual([]);
+    expect(map.progression!.deadEnds.some(index => inRoom(map.rooms![index]))).toBe(true);
+  });
+
+  it('should scale with difficulty and send the hardest POI encounter deepest', () => {
+    const map = dungeon();
+    const monsters = (rating: number) => MapPopulator.populate(map, { difficultyRating: rating }).filter(o => o.category === 'monster');
+    expect(monsters(10).length).toBeGreaterThan(monsters(1).length);
+
+    const objects = MapPopulator.populate(map, {
+      difficultyRating: 3,
+      encounters: [
+        { id: 'boss', type: 'combat', difficulty: 'deadly', description: 'The Bone King' },
+        { id: 'rats', type: 'combat', difficulty: 'trivial', description: 'Rats' }
+      ]
+    });
+    const { distances } = ConnectivityUtils.walkingDistances(map.grid!, map.progression!.entrance, notBlocked);
+    const depth = (o: { x: number; y: number }) => distances[map.grid!.index(o.x, o.y)];
+    const boss = objects.filter(o => o.name === 'The Bone King');
+    const others = objects.filter(o => o.category === 'monster' && o.name !== 'The Bone King');
+
+    expect(boss.length).toBeGreaterThan(1);
+    expect(Math.min(...boss.map(depth))).toBeGreaterThanOrEqual(Math.max(...others.map(depth)) - 4);
+  });
+
+  it('should populate caves without rooms', () => {
+    const cave = new CaveGenerator({ width: 80, height: 80, seed: 17 }).generate();
+    const objects = MapPopulator.populate(cave);
+    expect(objects.filter(o => o.category === 'monster').length).toBeGreaterThan(0);
+    expect(objects.filter(o => o.category === 'treasure').length).toBeGreaterThan(0);
+  });
+});
+
+describe('Prefabs', () => {
+  // Every stamped cell matches the prefab variant and every anchor opens onto a walkable doorstep
+  const expectStamped = (map: ReturnType<DungeonGenerator['generate']>, terrainType: TerrainType.Dungeon | TerrainType.House) => {
+    const codes = PREFAB_CELL_CODES[terrainType]!;
+    const grid = map.grid!;
+    for (const placed of map.prefabs!) {
+      const prefab = PrefabRegistry.get(placed.id)!;
+      const variant = PrefabStamper.transform(prefab, placed.rotation, placed.mirrored);
+      const anchors = new Set(placed.anchors.map(a => `${a.x - placed.x},${a.y - placed.y}`));
+      expect(map.rooms![placed.room]).toEqual({ x: placed.x + 1, y: placed.y + 1, width: placed.width - 2, height: placed.height - 2 });
+      expect(placed.anchors.length).toBe(prefab.anchors.length);
+
+      variant.rows.forEach((row, dy) => {
+        for (let dx = 0; dx < row.length; dx++) {
+          const cell = DEFAULT_PREFAB_LEGEND[row.charAt(dx)];
+          const expected = anchors.has(`${dx},${dy}`) || cell === 'keep' ? codes.floor : codes[cell];
+          if (cell !== 'keep') expect(grid.get(placed.x + dx, placed.y + dy)).toBe(expected);
+        }
+      });
+    }
+  };
+
+  it('should stamp rotated and mirrored prefabs into dungeon rooms with every anchor joined up', () => {
+    const map = new DungeonGenerator({ width: 80, height: 80, seed: 1, prefabChance: 1 }).generate();
+
+    expect(map.prefabs!.length).toBeGreaterThan(2);
+    expect(new Set(map.prefabs!.map(p => p.id))).toEqual(new Set(['ritual-chamber', 'pit-trap-hallway', 'throne-room']));
+    expect(map.prefabs!.some(p => p.rotation !== 0 || p.mirrored)).toBe(true);
+    expectStamped(map, TerrainType.Dungeon);
+    expect(map.progression!.roomDistances.every(distance => distance !== -1)).toBe(true);
+  });
+
+  it('should stamp prefabs into house rooms with house cell codes and keep stairs out of them', () => {
+    const map = new HouseGenerator({ width: 80, height: 80, seed: 1, roomCount: 8, prefabChance: 1, stories: 2 }).generate();
+
+    expect(map.prefabs!.length).toBeGreaterThan(0);
+    expectStamped(map, TerrainType.House);
+    expect(map.progression!.roomDistances.every(distance => distance !== -1)).toBe(true);
+
+    const ground = map.floors![0];
+    const prefabRooms = ground.prefabs!.map(p => ground.rooms[p.room]);
+    expect(ground.stairs.some(stair => prefabRooms.some(room => ConnectivityUtils.pointInRoom(stair, room)))).toBe(false);
+  });
+
+  it('should keep house prefabs on the map for every subtype', () => {
+    for (const subtype of [undefined, ...Object.values(HouseSubtype)]) {
+      for (let seed = 0; seed < 40; seed++) {
+        expect(() => new HouseGenerator({ width: 40, height: 30, seed, subtype, prefabChance: 1 }).generate()).not.toThrow();
+      }
+    }
+  });
+
+  it('should leave maps untouched by default and use workspace prefabs when given', () => {
+    const plain = new DungeonGenerator({ width: 80, height: 80, seed: 1 }).generate();
+    expect(plain.prefabs).toBeUndefined();
+
+    const vault = {
+      id: 'vault',
+      name: 'Sealed Vault',
+      cells: ['#####', '#...#', '#####'],
+      anchors: [{ x: 0, y: 1 }],
+      objects: [{ x: 2, y: 1, category: 'treasure' as const, name: 'Gold' }],
+      terrainTypes: [TerrainType.Dungeon],
+      weight: 1000
+    };
+    const map = new DungeonGenerator({ width: 80, height: 80, seed: 1, prefabChance: 1, prefabs: [vault] }).generate();
+    const placed = map.prefabs!.find(p => p.id === 'vault')!;
+
+    expect(placed).toBeDefined();
+    expect(placed.objects).toEqual([expect.objectContaining({ category: 'treasure', name: 'Gold', visibleToPlayers: false })]);
+    expect(MapPopulator.populate(map)).toEqual(expect.arrayContaining(placed.objects));
+    expect(PrefabRegistry.forTerrain(TerrainType.House, [vault]).map(p => p.id)).not.toContain('vault');
+  });
+});
+
+describe('OverworldGenerator', () => {
+  const travel = (targetPOIId: string, connectionType: 'travel' | 'quest' | 'teleport' = 'travel') => ({ targetPOIId, connectionType, description: '' });
+  const pois: Partial<PointOfInterest>[] = [
+    { id: 'town', name: 'Millbrook', type: 'town', order: 0, generatedMapId: 'map-town', connections: [travel('peak'), travel('bog', 'quest')] },
+    { id: 'peak', name: 'Frostpeak', type: 'mountain', order: 1, connections: [travel('town')] },
+    { id: 'bog', name: 'Blackmire', type: 'swamp', order: 2, connections: [travel('dunes', 'teleport')] },
+    { id: 'dunes', name: 'Red Dunes', type: 'desert', order: 3 },
+    { id: 'shore', name: 'Gull Point', type: 'coast', order: 4, connections: [travel('town')] }
+  ];
+  const neighbours = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) === 1;
+
+  it('should classify biomes and trace rivers downhill to the sea, a lake or the map edge', () => {
+    const map = new OverworldGenerator({ width: 120, height: 90, seed: 7, subtype: OverworldSubtype.CONTINENT }).generate();
+    const grid = map.grid!;
+    const present = new Set(Array.from(grid.cells));
+
+    expect(map.terrainType).toBe(TerrainType.Overworld);
+    for (const biome of [OverworldCell.Ocean, OverworldCell.Beach, OverworldCell.Grassland, OverworldCell.Forest, OverworldCell.Hills, OverworldCell.Mountain]) {
+      expect(present.has(biome)).toBe(true);
+    }
+    // Island maps keep their edges under the sea
+    expect(grid.get(0, 0)).toBe(OverworldCell.Ocean);
+
+    expect(map.rivers!.length).toBe(6);
+    for (const river of map.rivers!) {
+      river.points.slice(1).forEach((point, i) => expect(neighbours(point, river.points[i])).toBe(true));
+      const mouth = river.points[river.points.length - 1];
+      const ends = [[0, 0], [1, 0], [-1, 0], [0, 1], [0, -1]].some(([dx, dy]) =>
+        [OverworldCell.Ocean, OverworldCell.Shallows, OverworldCell.Lake, OverworldCell.River].includes(grid.getOr(mouth.x + dx, mouth.y + dy, OverworldCell.Ocean)) &&
+        (dx !== 0 || dy !== 0 || grid.get(mouth.x, mouth.y) === OverworldCell.Lake)
+      );
+      expect(ends).toBe(true);
+    }
+
+    const again = new OverworldGenerator({ width: 120, height: 90, seed: 7, subtype: OverworldSubtype.CONTINENT }).generate();
+    expect(again.grid).toEqual(grid);
+  });
+
+  it('should mark POIs in the biome their type calls for and route roads along walked connections', () => {
+    const map = new OverworldGenerator({ width: 120, height: 90, seed: 7, pois }).generate();
+    const grid = map.grid!;
+    const marker = (id: string) => map.markers!.find(m => m.poiId === id)!;
+
+    expect(map.markers!.map(m => m.poiId)).toEqual(['town', 'peak', 'bog', 'dunes', 'shore']);
+    expect(marker('town').mapId).toBe('map-town');
+    expect(marker('peak').mapId).toBeUndefined();
+    expect([OverworldCell.Mountain, OverworldCell.Hills]).toContain(grid.get(marker('peak').x, marker('peak').y));
+    expect(grid.get(marker('bog').x, marker('bog').y)).toBe(OverworldCell.Swamp);
+    expect(grid.get(marker('dunes').x, marker('dunes').y)).toBe(OverworldCell.Desert);
+    expect(grid.get(marker('shore').x, marker('shore').y)).toBe(OverworldCell.Beach);
+
+    // Teleports get no road, and each pair is joined once
+    expect(map.roads!.map(road => `${road.from}-${road.to}`)).toEqual(['town-peak', 'town-bog', 'shore-town']);
+    for (const road of map.roads!) {
+      expect(road.points[0]).toEqual({ x: marker(road.from).x, y: marker(road.from).y });
+      expect(road.points[road.points.length - 1]).toEqual({ x: marker(road.to).x, y: marker(road.to).y });
+      road.points.slice(1).forEach((point, i) => expect(neighbours(point, road.points[i])).toBe(true));
+      for (const point of road.points.slice(1, -1)) {
+        expect(OVERWORLD_IMPASSABLE_CELLS.has(grid.get(point.x, point.y))).toBe(false);
+        expect(grid.get(point.x, point.y)).not.toBe(OverworldCell.River);
+      }
+    }
+    for (const crossing of map.rivers!.flatMap(river => river.crossings)) {
+      expect(crossing.type).toBe('bridge');
+    }
+  });
+
+  it('should shift the climate with the subtype and moisture', () => {
+    const share = (subtype: OverworldSubtype, cell: OverworldCell) => {
+      const map = new OverworldGenerator({ width: 80, height: 80, seed: 3, subtype }).generate();
+      return map.grid!.count(cell) / (80 * 80);
+    };
+
+    expect(share(OverworldSubtype.BADLANDS, OverworldCell.Desert)).toBeGreaterThan(share(OverworldSubtype.WETLANDS, OverworldCell.Desert) + 0.2);
+    expect(share(OverworldSubtype.WETLANDS, OverworldCell.Swamp)).toBeGreaterThan(share(OverworldSubtype.BADLANDS, OverworldCell.Swamp) + 0.2);
+    expect(share(OverworldSubtype.ARCHIPELAGO, OverworldCell.Ocean)).toBeGreaterThan(share(OverworldSubtype.HIGHLANDS, OverworldCell.Ocean));
+
+    const coast = new OverworldGenerator({ width: 80, height: 80, seed: 3, subtype: OverworldSubtype.COASTLINE }).generate().grid!;
+    expect(coast.get(40, 79)).toBe(OverworldCell.Ocean);
+    expect(OVERWORLD_IMPASSABLE_CELLS.has(coast.get(40, 10))).toBe(false);
+  });
+});
@@ -0,0 +1,14 @@
+// Importing the generators registers them with the GeneratorRegistry
+
+import './HouseGenerator';
+import './ForestGenerator';
+import './CaveGenerator';
+import './DungeonGenerator';
+import './TownGenerator';
+import './WfcGenerator';
+import './OverworldGenerator';
+
+export { GeneratorRegistry, MAP_SIZE_PARAMETERS, ROOM_PARAMETERS, DOOR_PARAMETERS, PREFAB_PARAMETERS } from './GeneratorRegistry';
+export { WfcTilesetRegistry } from './WfcGenerator';
+export { PrefabRegistry } from './PrefabRegistry';
+export type { GeneratorDefinition, ParameterSchema, TerrainRenderer } from './GeneratorRegistry';
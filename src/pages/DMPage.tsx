@@ -28,8 +28,11 @@ import {
   Visibility as VisibilityIcon,
   VisibilityOff as VisibilityOffIcon,
   Save as SaveIcon,
+  FileDownload as ExportIcon,
   Refresh as SyncIcon,
   Delete as DeleteIcon,
+  ArrowUpward as UpstairsIcon,
+  ArrowDownward as DownstairsIcon,
 } from '@mui/icons-material';
 import { MapCanvas, MapCanvasRef } from '../components/MapCanvas';
 import { wsService } from '../services/websocket';
@@ -40,7 +43,12 @@ import {
   DMSessionState,
   WSEventType,
 } from '../types/dm';
-import { MapData } from '../types/generator';
+import { DoorType, MapData } from '../types/generator';
+import { GridAdapter } from '../utils/grid';
+import { DoorPlacer } from '../utils/doors';
+import { ExportUtils } from '../utils/export';
+import { MapPopulator } from '../utils/populate';
+import { HouseStory, HOUSE_STORY_LABELS } from '../types/enums';
 import { PlacedObject } from '../types/objects';
 
 interface TabPanelProps {
@@ -81,12 +89,21 @@ export const DMPage: React.FC = () => {
   const [tabValue, setTabValue] = useState(0);
   const [sessionId] = useState(passedState?.sessionId || `session_${Date.now()}`);
   const [connected, setConnected] = useState(false);
-  const [mapData] = useState<MapData | null>(passedState?.mapData || null);
+  // Router state is structured-cloned, so grids arrive without their class
+  const [mapData] = useState<MapData | null>(() => passedState?.mapData ? GridAdapter.reviveMapData(passedState.mapData) : null);
   const [placedObjects] = useState<PlacedObject[]>(
     passedState?.placedObjects || []
   );
   const canvasRef = useRef<MapCanvasRef>(null);
 
+  // Floor the party is on (multi-story houses only)
+  const [floor, setFloor] = useState<HouseStory>(HouseStory.STORY_1);
+  const floors = mapData?.floors ?? [];
+  const floorIndex = floors.findIndex((f) => f.story === floor);
+
+  // Secret doors stay hidden from players until the DM reveals them
+  const [secretDoorsVisible, setSecretDoorsVisible] = useState(false);
+
   // Lighting state
   const [lighting, setLighting] = useState<LightingState>({
     brightness: 1,
@@ -96,8 +113,9 @@ export const DMPage: React.FC = () => {
   });
 
   // Objects state - convert PlacedObjects to DMObjects
-  const [dmObjects, setDmObjects] = useState<DMObject[]>(
-    placedObjects.map((obj, index) => ({
+  // Auto-populated monsters, traps and treasure join them, hidden from players
+  const [dmObjects, setDmObjects] = useState<DMObject[]>(() => [
+    ...placedObjects.map((obj, index): DMObject => ({
       id: obj.id || `object-${index}`,
       spriteId: obj.spriteId,
       x: obj.gridX,
@@ -109,8 +127,9 @@ export const DMPage: React.FC = () => {
       scaleY: obj.scaleY,
       rotation: obj.rotation,
       zIndex: obj.zIndex,
-    }))
-  );
+    })),
+    ...(mapData ? mapData.dmObjects ?? MapPopulator.populate(mapData) : []),
+  ]);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
 
   // Light placement state
@@ -129,12 +148,12 @@ export const DMPage: React.FC = () => {
         setConnected(true);
         console.log('[DMPage] Connected to session:', sessionId);
         
-        // Send initial sync with map data to any connected players
+        // Send initial sync with map data to any connected players (secret doors start hidden)
         const initialState: DMSessionState = {
           sessionId,
           workspaceId: 'workspace_1',
           mapId: 'map_1',
-          mapData: mapData,
+          mapData: mapData && DoorPlacer.hideSecretDoors(mapData),
           lighting,
           objects: dmObjects,
           revealedAreas: [],
@@ -265,6 +284,36 @@ export const DMPage: React.FC = () => {
     });
   }, []);
 
+  // Move the party up or down one floor and take the players with them
+  const handleFloorChange = useCallback((step: 1 | -1) => {
+    const next = mapData?.floors?.[floorIndex + step];
+    if (!next) return;
+
+    setFloor(next.story);
+    wsService.send({
+      type: WSEventType.FLOOR_CHANGE,
+      payload: { floor: next.story },
+    });
+    console.log('[DMPage] Party moved to', next.story);
+  }, [mapData, floorIndex]);
+
+  // Players only receive secret doors once they are revealed
+  const playerMapData = useCallback(
+    (visible: boolean) => (mapData && !visible ? DoorPlacer.hideSecretDoors(mapData) : mapData),
+    [mapData]
+  );
+
+  const handleSecretDoorsToggle = useCallback(() => {
+    setSecretDoorsVisible((prev) => {
+      const visible = !prev;
+      wsService.send({
+        type: WSEventType.SECRET_DOORS_UPDATE,
+        payload: { visible, mapData: playerMapData(visible) },
+      });
+      return visible;
+    });
+  }, [playerMapData]);
+
   // Handle object visibility toggle
   const handleToggleObjectVisibility = useCallback((objectId: string) => {
     setDmObjects((prev) => {
@@ -288,7 +337,9 @@ export const DMPage: React.FC = () => {
       sessionId,
       workspaceId: 'workspace_1',
       mapId: 'map_1',
-      mapData: mapData,
+      mapData: playerMapData(secretDoorsVisible),
+      floor,
+      secretDoorsVisible,
       lighting,
       objects: dmObjects,
       revealedAreas: [],
@@ -302,7 +353,23 @@ export const DMPage: React.FC = () => {
     });
 
     console.log('[DMPage] Synced session state');
-  }, [sessionId, mapData, lighting, dmObjects]);
+  }, [sessionId, playerMapData, floor, secretDoorsVisible, lighting, dmObjects]);
+
+  // Universal VTT file with the walls, doors and the lights placed this session
+  const handleExportVTT = useCallback(() => {
+    const canvasElement = canvasRef.current?.getCanvas();
+    if (!mapData || !canvasElement) return;
+    ExportUtils.exportMapToUniversalVTT(mapData, canvasElement, `${sessionName || 'session'}.dd2vtt`, { lighting, floor });
+  }, [mapData, sessionName, lighting, floor]);
+
+  // Foundry scene with this session's lights and objects; hidden objects stay hidden tokens
+  const handleExportFoundry = useCallback(() => {
+    const canvasElement = canvasRef.current?.getCanvas();
+    if (!mapData || !canvasElement) return;
+    const name = sessionName || 'session';
+    ExportUtils.exportFoundryScene(mapData, canvasElement, { name, lighting, floor, dmObjects }, passedState?.spritesheets ?? [], `${name}-foundry.zip`)
+      .catch((error) => console.error('[DMPage] Foundry export failed:', error));
+  }, [mapData, sessionName, lighting, floor, dmObjects, passedState]);
 
   // Handle session save
   const handleSaveSession = useCallback(() => {
@@ -311,6 +378,8 @@ export const DMPage: React.FC = () => {
       workspaceId: 'workspace_1',
       mapId: 'map_1',
       mapData: mapData,
+      floor,
+      secretDoorsVisible,
       lighting,
       objects: dmObjects,
       revealedAreas: [],
@@ -328,7 +397,7 @@ export const DMPage: React.FC = () => {
 
     setLastSaved(new Date());
     console.log('[DMPage] Session saved');
-  }, [sessionId, mapData, lighting, dmObjects]);
+  }, [sessionId, mapData, floor, secretDoorsVisible, lighting, dmObjects]);
 
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh', bgcolor: 'background.default' }}>
@@ -383,6 +452,9 @@ export const DMPage: React.FC = () => {
               showRooms={true}
               showCorridors={true}
               showTrees={true}
+              showProgression={true}
+              dmObjects={dmObjects}
+              floor={floor}
               showObjects={true}
               placedObjects={[]}
               spritesheets={[]}
@@ -425,6 +497,39 @@ export const DMPage: React.FC = () => {
             />
           </Box>
           
+          {/* Floor switching for multi-story houses */}
+          {floors.length > 1 && (
+            <Box
+              sx={{
+                position: 'absolute',
+                top: 16,
+                right: 16,
+                zIndex: 1000,
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+              }}
+            >
+              <IconButton
+                size="small"
+                onClick={() => handleFloorChange(-1)}
+                disabled={floorIndex <= 0}
+                title="Go downstairs"
+              >
+                <DownstairsIcon />
+              </IconButton>
+              <Chip label={HOUSE_STORY_LABELS[floor]} size="small" />
+              <IconButton
+                size="small"
+                onClick={() => handleFloorChange(1)}
+                disabled={floorIndex >= floors.length - 1}
+                title="Go upstairs"
+              >
+                <UpstairsIcon />
+              </IconButton>
+            </Box>
+          )}
+
           {/* Light placement indicator */}
           {lightPlacementMode && (
             <Box
@@ -519,6 +624,18 @@ export const DMPage: React.FC = () => {
             />
           </Box>
 
+          {/* Secret doors */}
+          {(mapData?.floors?.flatMap((f) => f.doors) ?? mapData?.doors ?? []).some((door) => door.type === DoorType.Secret) && (
+            <Box sx={{ mb: 3 }}>
+              <FormControlLabel
+                control={
+                  <Switch checked={secretDoorsVisible} onChange={handleSecretDoorsToggle} />
+                }
+                label="Show Secret Doors to Players"
+              />
+            </Box>
+          )}
+
           <Divider sx={{ my: 2 }} />
 
           {/* Light Sources */}
@@ -710,6 +827,28 @@ export const DMPage: React.FC = () => {
             Save Session
           </Button>
 
+          <Button
+            fullWidth
+            variant="outlined"
+            startIcon={<ExportIcon />}
+            onClick={handleExportVTT}
+            disabled={!mapData}
+            sx={{ mb: 2 }}
+          >
+            Export for VTT
+          </Button>
+
+          <Button
+            fullWidth
+            variant="outlined"
+            startIcon={<ExportIcon />}
+            onClick={handleExportFoundry}
+            disabled={!mapData}
+            sx={{ mb: 2 }}
+          >
+            Export Foundry Scene
+          </Button>
+
           <Divider sx={{ my: 3 }} />
 
           {/* Stats */}
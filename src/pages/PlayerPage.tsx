@@ -12,6 +12,8 @@ import {
   WSEvent,
 } from '../types/dm';
 import { MapData } from '../types/generator';
+import { GridAdapter } from '../utils/grid';
+import { HouseStory } from '../types/enums';
 
 interface PlayerPageProps {
   sessionId?: string;
@@ -25,6 +27,8 @@ export const PlayerPage: React.FC<PlayerPageProps> = ({ sessionId: propSessionId
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [mapData, setMapData] = useState<MapData | null>(null);
+  const [floor, setFloor] = useState<HouseStory | undefined>(undefined);
+  const [secretDoorsVisible, setSecretDoorsVisible] = useState(false);
   const canvasRef = useRef<MapCanvasRef>(null);
 
   // Player view state (controlled by DM)
@@ -156,15 +160,40 @@ export const PlayerPage: React.FC<PlayerPageProps> = ({ sessionId: propSessionId
         
         // Update map data if provided
         if (state.mapData) {
-          setMapData(state.mapData);
+          setMapData(GridAdapter.reviveMapData(state.mapData));
           console.log('[PlayerPage] Map data loaded');
         }
         
+        if (state.floor) {
+          setFloor(state.floor);
+        }
+        setSecretDoorsVisible(state.secretDoorsVisible ?? false);
+        
         setLighting(state.lighting);
         setVisibleObjects(state.objects.filter((o) => o.visibleToPlayers));
       }
     });
 
+    // Handle the DM moving the party to another floor
+    const unsubFloor = wsService.on(WSEventType.FLOOR_CHANGE, (event: WSEvent) => {
+      if (event.type === WSEventType.FLOOR_CHANGE) {
+        console.log('[PlayerPage] Floor changed:', event.payload.floor);
+        setFloor(event.payload.floor);
+      }
+    });
+
+    // Handle the DM revealing or hiding secret doors
+    const unsubSecretDoors = wsService.on(WSEventType.SECRET_DOORS_UPDATE, (event: WSEvent) => {
+      if (event.type === WSEventType.SECRET_DOORS_UPDATE) {
+        console.log('[PlayerPage] Secret doors visible:', event.payload.visible);
+        setSecretDoorsVisible(event.payload.visible);
+        // Hidden secret doors never reach players; the DM sends the map again with or without them
+        if (event.payload.mapData) {
+          setMapData(GridAdapter.reviveMapData(event.payload.mapData));
+        }
+      }
+    });
+
     // Handle map init
     const unsubMapInit = wsService.on(WSEventType.MAP_INIT, (event: WSEvent) => {
       if (event.type === WSEventType.MAP_INIT) {
@@ -179,6 +208,8 @@ export const PlayerPage: React.FC<PlayerPageProps> = ({ sessionId: propSessionId
       unsubUpdated();
       unsubRemoved();
       unsubSync();
+      unsubFloor();
+      unsubSecretDoors();
       unsubMapInit();
     };
   }, [connected]);
@@ -270,6 +301,8 @@ export const PlayerPage: React.FC<PlayerPageProps> = ({ sessionId: propSessionId
             showRooms={true}
             showCorridors={true}
             showTrees={true}
+            floor={floor}
+            showSecretDoors={secretDoorsVisible}
             showObjects={true}
             placedObjects={[]}
             spritesheets={[]}
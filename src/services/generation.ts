@@ -0,0 +1,116 @@
+// Generation service: runs map generators in a Web Worker with progress and cancellation
+
+import { GeneratorParameters, GenerationProgress, MapData, MetricRanges, TerrainType } from '../types/generator';
+import { MapAnalyzer } from '../utils/analyzer';
+import { MapTransfer, PackedMapData } from '../utils/mapTransfer';
+
+export interface GenerationRequest {
+  type: 'generate';
+  terrain: TerrainType;
+  parameters: GeneratorParameters;
+  ranges?: MetricRanges; // Regenerate with the following seeds until the map's metrics are in range
+}
+
+export type GenerationResponse =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'complete'; mapData: PackedMapData }
+  | { type: 'error'; message: string };
+
+export type ProgressListener = (progress: GenerationProgress) => void;
+
+/**
+ * A running generation; cancel() rejects the promise with GenerationCancelledError
+ */
+export interface GenerationTask {
+  promise: Promise<MapData>;
+  cancel: () => void;
+}
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+class GenerationService {
+  /**
+   * Generate a map off the main thread. Each task gets its own worker so
+   * cancelling can simply terminate it mid-generation. The map comes back with
+   * its MapAnalyzer report; with ranges, seeds are retried until it is in range.
+   */
+  generate(terrain: TerrainType, parameters: GeneratorParameters, onProgress?: ProgressListener, ranges?: MetricRanges): GenerationTask {
+    if (typeof Worker === 'undefined') {
+      return this.generateInline(terrain, parameters, onProgress, ranges);
+    }
+
+    const worker = new Worker(new URL('../workers/generation.worker.ts', import.meta.url));
+    let rejectTask: (error: Error) => void = () => {};
+
+    const promise = new Promise<MapData>((resolve, reject) => {
+      rejectTask = reject;
+
+      worker.onmessage = (event: MessageEvent<GenerationResponse>) => {
+        const response = event.data;
+        if (response.type === 'progress') {
+          onProgress?.(response.progress);
+          return;
+        }
+
+        worker.terminate();
+        if (response.type === 'complete') {
+          resolve(MapTransfer.unpack(response.mapData));
+        } else {
+          reject(new Error(response.message));
+        }
+      };
+
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Generation worker failed'));
+      };
+
+      const request: GenerationRequest = { type: 'generate', terrain, parameters, ranges };
+      worker.postMessage(request);
+    });
+
+    return {
+      promise,
+      cancel: () => {
+        console.log('[GenerationService] Cancelling generation');
+        worker.terminate();
+        rejectTask(new GenerationCancelledError());
+      }
+    };
+  }
+
+  // Fallback for environments without workers (tests, old browsers); can only cancel before it starts
+  private generateInline(terrain: TerrainType, parameters: GeneratorParameters, onProgress?: ProgressListener, ranges?: MetricRanges): GenerationTask {
+    let cancelled = false;
+    const promise = new Promise<MapData>((resolve, reject) => {
+      setTimeout(() => {
+        if (cancelled) {
+          reject(new GenerationCancelledError());
+          return;
+        }
+        try {
+          const mapData = MapAnalyzer.generate(terrain, parameters, ranges, undefined, onProgress);
+          onProgress?.({ phase: 'complete', progress: 1 });
+          resolve(mapData);
+        } catch (error) {
+          reject(error);
+        }
+      }, 0);
+    });
+
+    return {
+      promise,
+      cancel: () => {
+        cancelled = true;
+      }
+    };
+  }
+}
+
+// Export singleton instance
+export const generationService = new GenerationService();
@@ -142,6 +142,16 @@ export interface MapFeature {
   quantity?: number;
 }
 
+// A map requirement the constraint solver could not fit on any attempted seed
+export interface UnsatisfiedRequirement {
+  kind: 'feature' | 'entry' | 'exit' | 'hidden';
+  type: string;
+  description: string;
+  importance: MapFeature['importance'];
+  requested: number;
+  placed: number;
+}
+
 export type FeatureType = 
   | 'altar' 
   | 'trap' 
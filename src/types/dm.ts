@@ -1,5 +1,7 @@
 // DM/Player system type definitions
 
+import { HouseStory } from './enums';
+
 export interface LightSource {
   id: string;
   x: number;
@@ -43,6 +45,8 @@ export interface DMSessionState {
   workspaceId: string;
   mapId: string;
   mapData?: any; // MapData from generator types
+  floor?: HouseStory; // Floor the party is on (multi-story houses)
+  secretDoorsVisible?: boolean; // Whether players can see secret doors
   lighting: LightingState;
   objects: DMObject[];
   revealedAreas: RevealedArea[];
@@ -59,6 +63,8 @@ export enum WSEventType {
   OBJECT_UPDATED = 'OBJECT_UPDATED',
   AREA_REVEALED = 'AREA_REVEALED',
   AREA_HIDDEN = 'AREA_HIDDEN',
+  FLOOR_CHANGE = 'FLOOR_CHANGE',
+  SECRET_DOORS_UPDATE = 'SECRET_DOORS_UPDATE',
   SYNC_NOW = 'SYNC_NOW',
   SESSION_SAVE = 'SESSION_SAVE',
   SESSION_LOAD = 'SESSION_LOAD',
@@ -118,6 +124,21 @@ export interface WSAreaHiddenEvent {
   };
 }
 
+export interface WSFloorChangeEvent {
+  type: WSEventType.FLOOR_CHANGE;
+  payload: {
+    floor: HouseStory;
+  };
+}
+
+export interface WSSecretDoorsUpdateEvent {
+  type: WSEventType.SECRET_DOORS_UPDATE;
+  payload: {
+    visible: boolean;
+    mapData?: any; // The map as players may now see it; hidden secret doors are walled up
+  };
+}
+
 export interface WSSyncNowEvent {
   type: WSEventType.SYNC_NOW;
   payload: {
@@ -164,6 +185,8 @@ export type WSEvent =
   | WSObjectUpdatedEvent
   | WSAreaRevealedEvent
   | WSAreaHiddenEvent
+  | WSFloorChangeEvent
+  | WSSecretDoorsUpdateEvent
   | WSSyncNowEvent
   | WSSessionSaveEvent
   | WSSessionLoadEvent
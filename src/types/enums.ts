@@ -55,6 +55,22 @@ export enum DungeonSubtype {
   ANCIENT_RUINS = 'ancient_ruins'
 }
 
+// Built-in wave function collapse tilesets
+export enum WfcSubtype {
+  RUINS = 'ruins',
+  TOWN_BLOCKS = 'town_blocks',
+  SEWER_PIPES = 'sewer_pipes'
+}
+
+export enum OverworldSubtype {
+  CONTINENT = 'continent',
+  ARCHIPELAGO = 'archipelago',
+  HIGHLANDS = 'highlands',
+  WETLANDS = 'wetlands',
+  BADLANDS = 'badlands',
+  COASTLINE = 'coastline'
+}
+
 // Multi-story house system
 export enum HouseStory {
   BASEMENT = 'basement',
@@ -62,3 +78,10 @@ export enum HouseStory {
   STORY_2 = 'story_2',
   STORY_3 = 'story_3'
 }
+
+export const HOUSE_STORY_LABELS: Record<HouseStory, string> = {
+  [HouseStory.BASEMENT]: 'Basement',
+  [HouseStory.STORY_1]: 'Ground Floor',
+  [HouseStory.STORY_2]: 'Second Floor',
+  [HouseStory.STORY_3]: 'Third Floor'
+};
@@ -1,12 +1,25 @@
 // Type definitions for map generation
 
+import { HouseSubtype, ForestSubtype, CaveSubtype, TownSubtype, DungeonSubtype, WfcSubtype, OverworldSubtype, HouseStory } from './enums';
+import { HexOrientation } from './map';
+import { Grid } from '../utils/grid';
+import { Seed } from '../utils/random';
+import { DMObject } from './dm';
+import { PointOfInterest, POIType } from './campaign';
+
 export enum TerrainType {
   House = 'House',
   Forest = 'Forest',
   Cave = 'Cave',
-  Dungeon = 'Dungeon'
+  Dungeon = 'Dungeon',
+  Town = 'Town',
+  Tileset = 'Tileset',
+  Overworld = 'Overworld'
 }
 
+// Any of the per-terrain subtypes from enums.ts
+export type TerrainSubtype = HouseSubtype | ForestSubtype | CaveSubtype | TownSubtype | DungeonSubtype | WfcSubtype | OverworldSubtype;
+
 export interface Room {
   x: number;
   y: number;
@@ -40,26 +53,357 @@ export interface PathPoint {
   y: number;
 }
 
+// Position of a chunk in a chunked map, counted in chunks from the origin chunk
+export interface ChunkCoord {
+  cx: number;
+  cy: number;
+}
+
+// Grid cell codes used by the cave and dungeon generators
+export enum TerrainCell {
+  Floor = 0,
+  Wall = 1,
+  Water = 2, // Shallow water, wadeable
+  Lava = 3,
+  DeepWater = 4,
+  Chasm = 5,
+  Rubble = 6 // Difficult terrain, still walkable
+}
+
+// Cave and dungeon cells that can't be walked through (connectivity and pathing)
+export const IMPASSABLE_CELLS: ReadonlySet<number> = new Set([TerrainCell.Wall, TerrainCell.DeepWater, TerrainCell.Lava, TerrainCell.Chasm]);
+
+// Grid cell codes used by the forest generator
+export enum ForestCell {
+  Clearing = 0,
+  Tree = 1,
+  Path = 2,
+  Ruin = 3,
+  Shallows = 4, // River edges and fords, wadeable
+  DeepWater = 5,
+  Bank = 6, // Muddy river bank, walkable
+  Bridge = 7
+}
+
+// Forest cells that can't be walked through
+export const FOREST_IMPASSABLE_CELLS: ReadonlySet<number> = new Set([ForestCell.Tree, ForestCell.Ruin, ForestCell.DeepWater]);
+
+// Grid cell codes used by the town generator
+export enum TownCell {
+  Ground = 0,
+  Building = 1,
+  Street = 2,
+  Plaza = 3,
+  Wall = 4,
+  Water = 5,
+  Dock = 6
+}
+
+// Grid cell codes used by the overworld generator
+export enum OverworldCell {
+  Ocean = 0,
+  Shallows = 1, // Coastal sea
+  Lake = 2,
+  Beach = 3,
+  Grassland = 4,
+  Forest = 5,
+  Swamp = 6,
+  Desert = 7,
+  Hills = 8,
+  Mountain = 9,
+  Snow = 10, // Snow-capped peaks
+  River = 11,
+  Road = 12,
+  Bridge = 13
+}
+
+// Overworld cells that can't be travelled over on foot
+export const OVERWORLD_IMPASSABLE_CELLS: ReadonlySet<number> = new Set([OverworldCell.Ocean, OverworldCell.Shallows, OverworldCell.Lake, OverworldCell.Snow]);
+
+export interface Building extends Room {
+  kind?: 'house' | 'shop' | 'tavern' | 'temple' | 'warehouse' | 'keep'; // Optional role used for rendering
+}
+
+// How a room/corridor junction is closed off
+export enum DoorType {
+  Open = 'open', // Empty doorway or arch
+  Door = 'door',
+  Locked = 'locked',
+  Secret = 'secret' // Looks like wall until found
+}
+
+export interface Door {
+  x: number; // First cell of the opening
+  y: number;
+  width: number; // Cells spanned along the wall (matches corridor width)
+  orientation: 'horizontal' | 'vertical'; // Direction the opening runs along the room wall
+  type: DoorType;
+  room: number; // Index of the room the door opens into
+}
+
+// Stairs sit on the same cell of both floors they join
+export interface Staircase {
+  x: number;
+  y: number;
+  direction: 'up' | 'down';
+  to: HouseStory; // Floor reached by taking these stairs
+}
+
+// One level of a multi-story house
+export interface HouseFloor {
+  story: HouseStory;
+  footprint: Room; // Outer walls of this level (basements may extend past the house above)
+  rooms: Room[];
+  corridors: Corridor[];
+  stairs: Staircase[];
+  doors: Door[];
+  prefabs?: PlacedPrefab[];
+  grid: Grid;
+}
+
+// Where a forest path crosses a river
+export interface RiverCrossing {
+  type: 'bridge' | 'ford';
+  start: PathPoint; // Dry path points either side of the water
+  end: PathPoint;
+  width: number; // Cells across the deck or ford
+}
+
+// River meandering across a forest edge to edge, or running downhill across an overworld map
+export interface River {
+  points: PathPoint[]; // Centre line: one point per row (forests), source to mouth one cell at a time (overworld)
+  width: number; // Water width in cells, shallows included
+  crossings: RiverCrossing[];
+}
+
+// A POI marked on an overworld map
+export interface MapMarker {
+  poiId: string;
+  name: string;
+  type: POIType;
+  x: number;
+  y: number;
+  mapId?: string; // Map drawn for this POI (PointOfInterest.generatedMapId); clicking the marker opens it
+}
+
+// Road between two connected POIs on an overworld map
+export interface Road {
+  from: string; // POI ids
+  to: string;
+  points: PathPoint[]; // Marker to marker, one cell at a time
+}
+
+// Route from a map's entrance to its goal, for pacing and the DM overlay
+export interface MapProgression {
+  entrance: PathPoint; // Walkable cell nearest the chosen map edge
+  goal: PathPoint; // Where the route ends: centre of the goal room, else the farthest walkable cell
+  entranceRoom?: number; // Index into rooms of the first room reached
+  goalRoom?: number; // Index into rooms of the room farthest from the entrance by walking distance (boss room)
+  criticalPath: number[]; // Rooms passed on the shortest walk from entrance to goal, in order
+  deadEnds: number[]; // Rooms with a single way in, other than the entrance and goal rooms
+  loops: number[][]; // Independent cycles of the room graph
+  roomDistances: number[]; // Walking distance from the entrance to each room, -1 if unreachable
+}
+
+// Quality metrics of a finished map, measured by MapAnalyzer over its walkable cells
+export interface MapMetrics {
+  walkableCells: number;
+  floorRatio: number; // Walkable share of all cells, 0-1 (the rest is wall, water, trees...)
+  reachability: number; // Share of walkable cells reachable from the entrance (the largest region without one), 0-1
+  largestOpenArea: number; // Cells in the largest open square
+  roomSizes: { count: number; min: number; max: number; mean: number; median: number }; // Room areas in cells
+  unreachableRooms: number[]; // Indices into rooms with no reachable floor
+  corridorLength: number; // Reachable cells outside every room (0 on maps without rooms)
+  deadEnds: number; // Rooms with a single connection; passage ends on maps without rooms
+  loops: number; // Independent cycles: of the room graph, or walls that can be walked round on maps without rooms
+  isolatedRegions: { cells: number; x: number; y: number }[]; // Walkable regions cut off from the reachable one, largest first
+}
+
+export type MetricKey = 'reachability' | 'floorRatio' | 'largestOpenArea' | 'roomCount' | 'corridorLength' | 'deadEnds' | 'loops' | 'isolatedRegions';
+
+// Acceptable bounds for "regenerate until metrics in range"; either end may be left open
+export type MetricRanges = Partial<Record<MetricKey, { min?: number; max?: number }>>;
+
+export interface MapAnalysis {
+  metrics: MapMetrics;
+  attempts: number; // Seeds tried before the map was accepted
+  outOfRange: string[]; // Metrics still outside the requested ranges (empty when every range was met)
+}
+
+// What a room is used for, assigned by RoomTagger
+export enum RoomPurpose {
+  EntranceHall = 'entrance_hall',
+  GuardPost = 'guard_post',
+  Barracks = 'barracks',
+  Armory = 'armory',
+  Shrine = 'shrine',
+  Treasury = 'treasury',
+  BossLair = 'boss_lair',
+  Storeroom = 'storeroom',
+  Cells = 'cells',
+  Crypt = 'crypt',
+  Cistern = 'cistern',
+  Library = 'library',
+  Kitchen = 'kitchen',
+  Bedchamber = 'bedchamber',
+  GreatHall = 'great_hall'
+}
+
+// One numbered room of the dungeon key
+export interface RoomKeyEntry {
+  number: number; // Printed on the map; rooms are numbered outwards from the entrance
+  room: number; // Index into rooms
+  purpose: RoomPurpose;
+  title: string;
+  description: string;
+  encounter?: string;
+  treasure?: string;
+  secret?: string;
+}
+
+// Terrain resampled onto hex cells, one hex per square cell width (pointy) or height (flat)
+export interface HexGridData {
+  orientation: HexOrientation;
+  cells: Grid; // (col, row) in offset coordinates, same cell codes as grid
+}
+
+// Edges of a wave function collapse tile
+export type WfcDirection = 'north' | 'east' | 'south' | 'west';
+
+// What a legend character of a tileset pattern stands for
+export interface WfcLegendEntry {
+  cell: number; // Grid cell code written for this character
+  color: string; // Fill colour used when drawing the cell
+}
+
+export interface WfcTileDefinition {
+  id: string;
+  pattern: string[]; // tileSize rows of tileSize legend characters
+  weight?: number; // Relative frequency (default: 1); 0 = only placed as a fixed tile
+  rotate?: boolean; // Also use the tile turned by 90, 180 and 270 degrees
+  sprite?: string; // Sprite sheet sprite drawn for this tile
+  sockets?: Partial<Record<WfcDirection, string>>; // Edge labels; default is the pattern edge (read left to right / top to bottom)
+}
+
+// A tile pinned before the collapse starts; coordinates are in tiles, negative values count from the far edge
+export interface WfcFixedTile {
+  x: number | 'center';
+  y: number | 'center';
+  tile: string;
+}
+
+// Tileset JSON authored to match a sprite sheet
+export interface WfcTilesetDefinition {
+  id: string;
+  name: string;
+  tileSize: number; // Cells per tile side
+  legend: Record<string, WfcLegendEntry>;
+  tiles: WfcTileDefinition[];
+  border?: string; // Legend character the map edge is made of; tile edges on the map edge must be all border
+  fixed?: WfcFixedTile[]; // Tiles always pinned, such as entrances
+}
+
+// Tiles chosen by the wave function collapse generator
+export interface TileMap {
+  tileset: string; // Tileset id
+  tileSize: number;
+  cells: Grid; // (col, row) index into tiles
+  tiles: { id: string; sprite?: string; rotation: number }[]; // rotation in degrees clockwise
+  colors: Record<number, string>; // Cell code colours from the tileset legend
+}
+
+// What a prefab legend character stamps; 'keep' leaves the generated cell alone
+export type PrefabCell = 'floor' | 'wall' | 'water' | 'deep_water' | 'lava' | 'chasm' | 'rubble' | 'keep';
+
+// Object attached to a prefab cell, added to the map as a hidden DMObject
+export interface PrefabObject {
+  x: number;
+  y: number;
+  category: DMObject['category'];
+  name: string;
+  notes?: string;
+  spriteId?: string;
+}
+
+// Hand-made set-piece stamped into a BSP room (see PrefabStamper); shared as plain JSON
+export interface PrefabDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  cells: string[]; // Rows of legend characters, outer wall ring included
+  legend?: Record<string, PrefabCell>; // Added to the default legend (# wall, . floor, ~ water, W deep water, L lava, ^ chasm, , rubble, space keep)
+  anchors: PathPoint[]; // Door cells on the outer ring (not corners); the side is read from the position
+  objects?: PrefabObject[];
+  terrainTypes?: TerrainType[]; // Generators allowed to use it (default: dungeon and house)
+  weight?: number; // Relative frequency (default: 1)
+}
+
+// A prefab stamped into a generated map
+export interface PlacedPrefab {
+  id: string; // Prefab id
+  name: string;
+  x: number; // Top-left of the stamped cells, outer ring included
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees clockwise, applied after mirroring
+  mirrored: boolean; // Flipped left to right
+  room: number; // Index into rooms of the prefab's interior
+  anchors: PathPoint[]; // Anchor cells joined to the corridor network
+  objects: DMObject[]; // Attached objects in map coordinates
+}
+
+// A POI feature, entry/exit point or hidden area placed on a generated map (see MapConstraintSolver)
+export interface FeaturePlacement {
+  kind: 'feature' | 'entry' | 'exit' | 'hidden';
+  type: string; // Feature type (altar, well...), entry/exit type (door, path...) or 'hidden_area'
+  description: string;
+  x: number;
+  y: number;
+  room?: number; // Index into rooms when the placement landed in a room
+}
+
 export interface MapData {
   width: number;
   height: number;
   rooms?: Room[];
   corridors?: Corridor[];
+  doors?: Door[]; // Doors where corridors meet rooms (houses and dungeons)
   trees?: Tree[];
-  paths?: PathPoint[]; // Main walkable path through the map (entrance to exit)
+  paths?: PathPoint[]; // Main walkable path through the map (entrance to exit; the critical path elsewhere)
   branchPaths?: PathPoint[][]; // Optional branching paths (for exploration)
   entrance?: PathPoint; // Entrance point (e.g., left edge for forests)
-  exit?: PathPoint; // Exit point (e.g., right edge for forests)
-  grid?: number[][];
+  exit?: PathPoint; // Exit point (e.g., right edge for forests) or the goal of a dungeon, cave or house
+  buildings?: Building[]; // Building footprints (towns)
+  plazas?: Room[]; // Open squares and market places (towns)
+  streets?: Corridor[]; // Street centre-lines (towns)
+  docks?: Room[]; // Piers extending into water (harbor towns)
+  rivers?: River[]; // Rivers with their bridges and fords (forests and overworld maps)
+  roads?: Road[]; // Roads between connected POIs (overworld maps)
+  markers?: MapMarker[]; // POIs placed on an overworld map
+  progression?: MapProgression; // Entrance, goal room, critical path, dead ends and loops (dungeons, caves, houses)
+  roomKey?: RoomKeyEntry[]; // Numbered room purposes, encounters and treasure (dungeons and houses)
+  features?: FeaturePlacement[]; // POI map requirements placed after generation (maps generated from POIs)
+  dmObjects?: DMObject[]; // Auto-populated monsters, traps and treasure, hidden from players (see MapPopulator)
+  prefabs?: PlacedPrefab[]; // Set-pieces stamped into rooms (dungeons and the ground floor of houses)
+  analysis?: MapAnalysis; // Quality metrics, added when the map is generated through the generation service
+  chunk?: ChunkCoord; // Chunk of a chunked map (see ChunkedMap); the top-left chunk of a composed window
+  floors?: HouseFloor[]; // Multi-story houses, bottom to top; rooms/corridors/grid mirror the ground floor
+  grid?: Grid;
+  hexGrid?: HexGridData; // Hex-quantised terrain (forests and caves generated with hexOrientation)
+  tileMap?: TileMap; // Tile layout behind the grid (tileset maps)
   seed?: number;
   terrainType?: TerrainType;
+  subtype?: TerrainSubtype; // Subtype the map was generated with (drives theming)
   placedObjects?: any[]; // Array of PlacedObject instances (imported separately to avoid circular deps)
 }
 
 export interface GeneratorParameters {
   width: number;
   height: number;
-  seed?: number;
+  seed?: Seed; // Number or readable string (e.g. "goblin-cave-7"); strings are hashed, MapData.seed holds the number
+  subtype?: TerrainSubtype; // Terrain-specific flavour (e.g. prison, lava_tubes); ignored if it doesn't match the terrain
+  hexOrientation?: HexOrientation; // Forest/cave: also quantise the output to hex cells
   
   // Room/Building parameters
   minRoomSize?: number;
@@ -67,9 +411,21 @@ export interface GeneratorParameters {
   roomCount?: number;
   gridSize?: number; // Grid alignment spacing for rooms and corridors
   
+  stories?: number; // Floors above ground for houses (1-3, default: 1)
+  basement?: boolean; // Add a basement under the house (default: false)
+  
   // Corridor parameters
   corridorWidth?: number;
   
+  // Door parameters (houses and dungeons); junctions not claimed by these ratios get plain doors
+  doorwayRatio?: number; // Share of junctions left as open doorways (default: 0.3)
+  lockedDoorRatio?: number; // Share of junctions with locked doors (default: 0.1)
+  secretDoorRatio?: number; // Share of junctions with secret doors (default: 0.1)
+
+  // Prefab parameters (houses and dungeons)
+  prefabChance?: number; // Chance (0-1) that a BSP room large enough for a prefab gets one (default: 0)
+  prefabs?: PrefabDefinition[]; // Workspace prefabs used alongside the built-in ones
+  
   // Forest parameters
   treeDensity?: number;
   minTreeDistance?: number;
@@ -80,17 +436,49 @@ export interface GeneratorParameters {
   clearingSize?: number; // Minimum width of walkable clearings (default: 6)
   numClusters?: number; // Number of tree clusters to generate (default: auto-calculated)
   branchPathDensity?: number; // Controls density of branch paths: 0 = none, 0.5 = moderate, 1.0 = dense (default: 0.5)
+  riverCount?: number; // Rivers meandering across the map (default: 0); overworld rivers run downhill (default: subtype)
+  riverWidth?: number; // Water width of each river in cells (default: 5)
   
   // Cave parameters
   fillProbability?: number;
   smoothIterations?: number;
   wallThreshold?: number;
   caveRoughness?: number; // Multiplier for fillProbability (0.5-2.0). Higher = rougher caves
+  waterCoverage?: number; // Share of cave floor covered by pools; pool centres become deep water (default: subtype)
+  lavaCoverage?: number; // Share of cave floor covered by lava pools (default: subtype)
+  chasmCoverage?: number; // Share of cave floor opened into chasms (default: subtype)
+  rubbleCoverage?: number; // Share of cave floor strewn with rubble (default: subtype)
+  lowPointBias?: number; // How strongly pools and rubble gather in low ground, 0-1 (default: 0.6)
+  wallBias?: number; // How strongly they gather along the cave walls, 0-1 (default: 0.3)
   
   // Dungeon parameters
   organicFactor?: number;
   connectivityFactor?: number;
   walkSteps?: number; // Random walk bias (1-10). Higher = straighter corridors. Default 7
+
+  // Town parameters
+  streetWidth?: number; // Width of main streets in cells (default: 3)
+  blockSize?: number; // Minimum city block dimension before subdivision stops (default: 14)
+  buildingDensity?: number; // Chance (0-1) that a lot receives a building (default: 0.8)
+  plazaCount?: number; // Number of open plazas (default: 1)
+
+  // Overworld parameters
+  seaLevel?: number; // Share of the map under the sea, 0-0.8 (default: subtype)
+  moistureBias?: number; // Shifts every cell's moisture, -0.5 (arid) to 0.5 (lush) (default: subtype)
+  pois?: Partial<PointOfInterest>[]; // Campaign POIs to mark; roads follow their travel and quest connections
+
+  // Tileset (wave function collapse) parameters
+  tileset?: string; // Id of a registered tileset; overrides the subtype (default: subtype tileset)
+  fixedTiles?: WfcFixedTile[]; // Extra tiles pinned before the collapse
+  maxBacktracks?: number; // Backtracks allowed before the collapse restarts (default: 500)
+}
+
+// Generation phases reported while a generator runs
+export type GenerationPhase = 'split' | 'rooms' | 'corridors' | 'smoothing' | 'connectivity' | 'placement' | 'collapse' | 'complete';
+
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  progress: number; // Overall completion from 0 to 1
 }
 
 export interface Preset {
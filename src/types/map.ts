@@ -18,12 +18,16 @@ export interface Color {
   a?: number;
 }
 
+// Hex layouts: pointy-top hexes form rows, flat-top hexes form columns
+export type HexOrientation = 'pointy' | 'flat';
+
 export interface GridConfig {
   cellSize: number;
   showGrid: boolean;
   gridColor: Color;
   snapToGrid: boolean;
   gridType: 'square' | 'hexagonal';
+  hexOrientation?: HexOrientation; // Only used for hexagonal grids (default: pointy)
   displayScale?: number;
 }
 
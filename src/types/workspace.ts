@@ -1,5 +1,7 @@
 import { DnDMap } from './map';
 import { Palette, PlacedSprite } from './palette';
+import { UnsatisfiedRequirement } from './campaign';
+import { PrefabDefinition } from './generator';
 
 export interface WorkspaceMetadata {
   id: string;
@@ -44,6 +46,7 @@ export interface WorkspaceMap {
   lastModified: Date;
   mapData: DnDMap;
   placedSprites?: PlacedSprite[]; // Sprites placed on this map
+  unsatisfiedRequirements?: UnsatisfiedRequirement[]; // POI requirements the generator could not fit
   isArchived: boolean;
   category: 'dungeon' | 'overworld' | 'city' | 'building' | 'encounter' | 'other';
 }
@@ -54,6 +57,7 @@ export interface Workspace {
   folders: WorkspaceFolder[];
   settings: WorkspaceSettings;
   palette?: Palette; // Sprite palette for this workspace
+  prefabs?: PrefabDefinition[]; // Set-pieces the dungeon and house generators may stamp into this workspace's maps
 }
 
 export interface WorkspaceFolder {
@@ -0,0 +1,265 @@
+// Map validation and quality metrics
+// Runs on any MapData; the generation service attaches the report to every map it generates
+
+import { GeneratorParameters, GenerationProgress, MapData, MapAnalysis, MapMetrics, MetricKey, MetricRanges, Room, TerrainType } from '../types/generator';
+import { GeneratorRegistry } from '../generators';
+import { ConnectivityUtils } from './connectivity';
+import { SeededRandom } from './random';
+import { WALKABLE } from './constraints';
+import { Grid } from './grid';
+
+export const METRIC_LABELS: Record<MetricKey, string> = {
+  reachability: 'Reachability',
+  floorRatio: 'Floor ratio',
+  largestOpenArea: 'Largest open area',
+  roomCount: 'Rooms',
+  corridorLength: 'Corridor length',
+  deadEnds: 'Dead ends',
+  loops: 'Loops',
+  isolatedRegions: 'Isolated regions'
+};
+
+// Starting ranges offered by the "regenerate until metrics in range" option
+export const DEFAULT_METRIC_RANGES: MetricRanges = {
+  reachability: { min: 0.95 }
+};
+
+/**
+ * Measures how usable a generated map is.
+ *
+ * Algorithm:
+ * 1. Split the walkable cells (WALKABLE for the terrain) into connected regions;
+ *    the region holding the entrance (else the largest) is the reachable one and
+ *    the rest are isolated regions
+ * 2. Largest open area: the biggest square of walkable cells (dynamic programming
+ *    over the grid)
+ * 3. With rooms: sizes, rooms without reachable floor, corridor cells outside
+ *    rooms, and on the room graph dead ends (one connection) and loops
+ *    (edges - rooms + components)
+ * 4. Without rooms: dead ends are passage ends (cells open on one side) and loops
+ *    are walls that can be walked round (Euler: edges - cells + regions - open 2x2 blocks)
+ */
+export class MapAnalyzer {
+  static analyze(mapData: MapData): MapMetrics {
+    const rooms = mapData.rooms ?? [];
+    const roomSizes = this.roomSizes(rooms);
+    const grid = mapData.grid;
+    if (!grid) {
+      return {
+        walkableCells: 0,
+        floorRatio: 0,
+        reachability: 0,
+        largestOpenArea: 0,
+        roomSizes,
+        unreachableRooms: rooms.map((_, index) => index),
+        corridorLength: 0,
+        deadEnds: 0,
+        loops: 0,
+        isolatedRegions: []
+      };
+    }
+
+    const walkable = WALKABLE[mapData.terrainType ?? TerrainType.Dungeon];
+
+    // Step 1: Reachable and isolated regions
+    const regions = grid.regions(walkable);
+    const walkableCells = regions.reduce((total, region) => total + region.length, 0);
+    const entrance = mapData.progression?.entrance ?? mapData.entrance;
+    const entranceIndex = entrance && grid.inBounds(entrance.x, entrance.y) ? grid.index(entrance.x, entrance.y) : -1;
+    const mainIndex = Math.max(0, regions.findIndex(region => region.includes(entranceIndex)));
+    const reachable = new Uint8Array(grid.cells.length);
+    for (const index of regions[mainIndex] ?? []) {
+      reachable[index] = 1;
+    }
+    const isolatedRegions = regions
+      .filter((_, index) => index !== mainIndex)
+      .map(region => ({ cells: region.length, ...grid.point(region[0]) }));
+
+    // Step 3: Rooms, corridors and the room graph
+    let unreachableRooms: number[] = [];
+    let corridorLength = 0;
+    let deadEnds: number;
+    let loops: number;
+    if (rooms.length > 0) {
+      const roomAt = ConnectivityUtils.roomIndexGrid(grid, rooms);
+      const reachedRooms = new Set<number>();
+      for (let i = 0; i < grid.cells.length; i++) {
+        if (!reachable[i]) continue;
+        if (roomAt[i] === -1) {
+          corridorLength++;
+        } else {
+          reachedRooms.add(roomAt[i]);
+        }
+      }
+      unreachableRooms = rooms.map((_, index) => index).filter(index => !reachedRooms.has(index));
+
+      const edges = ConnectivityUtils.buildRoomGraph(grid, rooms, walkable);
+      const degree = rooms.map(() => 0);
+      for (const edge of edges) {
+        degree[edge.from]++;
+        degree[edge.to]++;
+      }
+      deadEnds = degree.filter(d => d === 1).length;
+      loops = edges.length - rooms.length + this.componentCount(rooms.length, edges);
+    } else {
+      // Step 4: Passage ends and walls to walk round
+      ({ deadEnds, loops } = this.cellGraph(grid, walkable, regions.length));
+    }
+
+    const metrics: MapMetrics = {
+      walkableCells,
+      floorRatio: walkableCells / grid.cells.length,
+      reachability: walkableCells > 0 ? (regions[mainIndex]?.length ?? 0) / walkableCells : 0,
+      largestOpenArea: this.largestOpenSquare(grid, walkable) ** 2,
+      roomSizes,
+      unreachableRooms,
+      corridorLength,
+      deadEnds,
+      loops,
+      isolatedRegions
+    };
+    console.log(`[MapAnalyzer] ${Math.round(metrics.reachability * 100)}% reachable, ${Math.round(metrics.floorRatio * 100)}% floor, ${deadEnds} dead ends, ${loops} loops, ${isolatedRegions.length} isolated regions`);
+    return metrics;
+  }
+
+  /**
+   * The metrics outside their ranges, described for the UI (empty when every range is met)
+   */
+  static check(metrics: MapMetrics, ranges: MetricRanges): string[] {
+    return (Object.keys(ranges) as MetricKey[]).reduce<string[]>((failures, key) => {
+      const { min, max } = ranges[key] ?? {};
+      const value = this.metricValue(metrics, key);
+      const shown = Number(value.toFixed(2));
+      if (min !== undefined && value < min) {
+        failures.push(`${METRIC_LABELS[key]} ${shown} is below ${min}`);
+      } else if (max !== undefined && value > max) {
+        failures.push(`${METRIC_LABELS[key]} ${shown} is above ${max}`);
+      }
+      return failures;
+    }, []);
+  }
+
+  static metricValue(metrics: MapMetrics, key: MetricKey): number {
+    switch (key) {
+      case 'roomCount':
+        return metrics.roomSizes.count;
+      case 'isolatedRegions':
+        return metrics.isolatedRegions.length;
+      default:
+        return metrics[key];
+    }
+  }
+
+  /**
+   * Generate a map and measure it, trying the following seeds until the metrics are in range.
+   * The first attempt uses the requested seed, so without ranges this is a single generation.
+   * Returns the first map in range, else the one with the fewest metrics out of range.
+   */
+  static generate(
+    terrainType: TerrainType,
+    parameters: GeneratorParameters,
+    ranges: MetricRanges = {},
+    maxAttempts: number = 10,
+    onProgress?: (progress: GenerationProgress) => void
+  ): MapData {
+    const firstSeed = SeededRandom.toNumber(parameters.seed ?? Date.now());
+
+    let best: MapData | undefined;
+    let attempts = 0;
+    while (attempts < maxAttempts && (!best || best.analysis!.outOfRange.length > 0)) {
+      const seeded = attempts === 0 ? { ...parameters, seed: parameters.seed ?? firstSeed } : { ...parameters, seed: firstSeed + attempts };
+      attempts++;
+      const generator = GeneratorRegistry.create(terrainType, seeded);
+      if (onProgress) generator.onProgress(onProgress);
+      const mapData = generator.generate();
+      const metrics = this.analyze(mapData);
+      const outOfRange = this.check(metrics, ranges);
+
+      if (!best || outOfRange.length < best.analysis!.outOfRange.length) {
+        best = { ...mapData, analysis: { metrics, attempts, outOfRange } };
+      }
+    }
+
+    const analysis: MapAnalysis = { ...best!.analysis!, attempts };
+    if (analysis.outOfRange.length > 0) {
+      console.warn(`[MapAnalyzer] No seed in range after ${attempts} attempt(s): ${analysis.outOfRange.join('; ')}`);
+    }
+    return { ...best!, analysis };
+  }
+
+  private static roomSizes(rooms: Room[]): MapMetrics['roomSizes'] {
+    const areas = rooms.map(room => room.width * room.height).sort((a, b) => a - b);
+    if (areas.length === 0) {
+      return { count: 0, min: 0, max: 0, mean: 0, median: 0 };
+    }
+    const middle = Math.floor(areas.length / 2);
+    return {
+      count: areas.length,
+      min: areas[0],
+      max: areas[areas.length - 1],
+      mean: areas.reduce((total, area) => total + area, 0) / areas.length,
+      median: areas.length % 2 === 1 ? areas[middle] : (areas[middle - 1] + areas[middle]) / 2
+    };
+  }
+
+  /**
+   * Connected components of the room graph
+   */
+  private static componentCount(roomCount: number, edges: { from: number; to: number }[]): number {
+    const parent = Array.from({ length: roomCount }, (_, index) => index);
+    const find = (room: number): number => (parent[room] === room ? room : (parent[room] = find(parent[room])));
+    let components = roomCount;
+    for (const edge of edges) {
+      const a = find(edge.from);
+      const b = find(edge.to);
+      if (a !== b) {
+        parent[a] = b;
+        components--;
+      }
+    }
+    return components;
+  }
+
+  /**
+   * Passage ends and enclosed walls of the 4-connected walkable cell graph
+   */
+  private static cellGraph(grid: Grid, walkable: (cell: number) => boolean, regionCount: number): { deadEnds: number; loops: number } {
+    const open = (x: number, y: number) => grid.inBounds(x, y) && walkable(grid.get(x, y));
+    let cells = 0;
+    let edges = 0;
+    let blocks = 0;
+    let deadEnds = 0;
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        if (!open(x, y)) continue;
+        cells++;
+        const right = open(x + 1, y);
+        const down = open(x, y + 1);
+        edges += (right ? 1 : 0) + (down ? 1 : 0);
+        if (right && down && open(x + 1, y + 1)) blocks++;
+        const neighbours = (right ? 1 : 0) + (down ? 1 : 0) + (open(x - 1, y) ? 1 : 0) + (open(x, y - 1) ? 1 : 0);
+        if (neighbours === 1) deadEnds++;
+      }
+    }
+    return { deadEnds, loops: Math.max(0, edges - cells + regionCount - blocks) };
+  }
+
+  /**
+   * Side of the largest square of walkable cells
+   */
+  private static largestOpenSquare(grid: Grid, walkable: (cell: number) => boolean): number {
+    const sizes = new Int32Array(grid.cells.length);
+    let largest = 0;
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        const index = grid.index(x, y);
+        if (!walkable(grid.cells[index])) continue;
+        sizes[index] = x === 0 || y === 0
+          ? 1
+          : 1 + Math.min(sizes[index - 1], sizes[index - grid.width], sizes[index - grid.width - 1]);
+        largest = Math.max(largest, sizes[index]);
+      }
+    }
+    return largest;
+  }
+}
@@ -43,6 +43,17 @@ const TERRAIN_KEYWORDS: Record<TerrainType, string[]> = {
   [TerrainType.House]: [
     'house', 'building', 'tavern', 'inn', 'shop', 'cottage', 'manor',
     'mansion', 'dwelling', 'residence', 'home', 'structure', 'temple', 'church'
+  ],
+  [TerrainType.Town]: [
+    'town', 'city', 'village', 'hamlet', 'settlement', 'market', 'harbor',
+    'port', 'street', 'square', 'district', 'crossroads'
+  ],
+  [TerrainType.Tileset]: [
+    'sewer', 'sewers', 'aqueduct', 'cistern', 'drain'
+  ],
+  [TerrainType.Overworld]: [
+    'overworld', 'world map', 'region', 'realm', 'kingdom', 'continent',
+    'mountain', 'swamp', 'marsh', 'desert', 'coast', 'island'
   ]
 };
 
@@ -0,0 +1,285 @@
+// Chunked maps: an unbounded map generated chunk by chunk from one world seed
+// Neighbouring chunks share the cells along their seam, so chunks tile without joins
+
+import { ChunkCoord, ForestCell, GeneratorParameters, MapData, TerrainCell, TerrainType, Tree } from '../types/generator';
+import { GeneratorRegistry } from '../generators';
+import { SeededRandom } from './random';
+import { WALKABLE } from './constraints';
+import { Grid } from './grid';
+
+// Cell codes a seam is drawn with; 'closed' terrains open passages through a wall, 'open' ones stand trees in a clearing
+interface SeamCells {
+  open: number;
+  closed: number;
+  background: 'open' | 'closed';
+  runs: [number, number]; // Runs of the other cell per 48 cells of seam (min, max)
+  runWidth: [number, number];
+}
+
+export const SEAM_CELLS: Partial<Record<TerrainType, SeamCells>> = {
+  [TerrainType.Cave]: { open: TerrainCell.Floor, closed: TerrainCell.Wall, background: 'closed', runs: [1, 2], runWidth: [2, 5] },
+  [TerrainType.Dungeon]: { open: TerrainCell.Floor, closed: TerrainCell.Wall, background: 'closed', runs: [1, 2], runWidth: [2, 3] },
+  [TerrainType.Forest]: { open: ForestCell.Clearing, closed: ForestCell.Tree, background: 'open', runs: [2, 4], runWidth: [3, 8] }
+};
+
+type Side = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * A map made of equal chunks, each generated on demand.
+ *
+ * Algorithm:
+ * 1. Chunk (cx, cy) is generated with the chunk parameters and a seed hashed from
+ *    the world seed and its coordinates, so any chunk can be rebuilt on its own
+ * 2. Every seam between two chunks gets a profile drawn from its own seed: a wall
+ *    with passages through it (caves, dungeons) or a clearing with stands of trees
+ *    (forests). Both chunks write the same profile along their touching edge
+ * 3. Passages are carved inward to the chunk's largest walkable region, so every
+ *    opening leads somewhere
+ * 4. compose() lays the loaded chunks of a window side by side as one MapData for
+ *    the renderer; chunks not generated yet show as solid background
+ */
+export class ChunkedMap {
+  readonly terrainType: TerrainType;
+  readonly parameters: GeneratorParameters; // width and height are the chunk size
+  readonly worldSeed: number;
+  private seamCells: SeamCells;
+  private chunks = new Map<string, MapData>();
+
+  constructor(terrainType: TerrainType, parameters: GeneratorParameters) {
+    const seamCells = SEAM_CELLS[terrainType];
+    if (!seamCells) {
+      throw new Error(`Chunked maps are not supported for terrain "${terrainType}"`);
+    }
+    this.terrainType = terrainType;
+    this.seamCells = seamCells;
+    this.worldSeed = SeededRandom.toNumber(parameters.seed ?? Date.now());
+    this.parameters = { ...parameters, seed: this.worldSeed, hexOrientation: undefined };
+  }
+
+  static supports(terrainType: TerrainType): boolean {
+    return SEAM_CELLS[terrainType] !== undefined;
+  }
+
+  static key({ cx, cy }: ChunkCoord): string {
+    return `${cx},${cy}`;
+  }
+
+  /**
+   * Generator parameters for one chunk
+   */
+  chunkParameters(coord: ChunkCoord): GeneratorParameters {
+    return { ...this.parameters, seed: SeededRandom.toNumber(`${this.worldSeed}:${ChunkedMap.key(coord)}`) };
+  }
+
+  get(coord: ChunkCoord): MapData | undefined {
+    return this.chunks.get(ChunkedMap.key(coord));
+  }
+
+  /**
+   * Generate, stitch and keep a chunk (or return the one already kept)
+   */
+  generate(coord: ChunkCoord): MapData {
+    return this.get(coord) ?? this.add(coord, GeneratorRegistry.create(this.terrainType, this.chunkParameters(coord)).generate());
+  }
+
+  /**
+   * Stitch and keep a chunk generated elsewhere (e.g. by the generation worker) from chunkParameters
+   */
+  add(coord: ChunkCoord, mapData: MapData): MapData {
+    const existing = this.get(coord);
+    if (existing) return existing;
+
+    const chunk = this.stitch(coord, mapData);
+    this.chunks.set(ChunkedMap.key(coord), chunk);
+    console.log(`[ChunkedMap] Chunk (${coord.cx}, ${coord.cy}) ready, ${this.chunks.size} loaded`);
+    return chunk;
+  }
+
+  /**
+   * Chunks overlapping a rectangle of world cells
+   */
+  chunksIn(x: number, y: number, width: number, height: number): ChunkCoord[] {
+    const { width: chunkWidth, height: chunkHeight } = this.parameters;
+    const coords: ChunkCoord[] = [];
+    for (let cy = Math.floor(y / chunkHeight); cy <= Math.floor((y + height - 1) / chunkHeight); cy++) {
+      for (let cx = Math.floor(x / chunkWidth); cx <= Math.floor((x + width - 1) / chunkWidth); cx++) {
+        coords.push({ cx, cy });
+      }
+    }
+    return coords;
+  }
+
+  /**
+   * One map covering the bounding box of the given chunks, with chunk.cx/cy the top-left chunk
+   */
+  compose(coords: ChunkCoord[]): MapData {
+    const { width: chunkWidth, height: chunkHeight } = this.parameters;
+    const minX = Math.min(...coords.map(c => c.cx));
+    const minY = Math.min(...coords.map(c => c.cy));
+    const columns = Math.max(...coords.map(c => c.cx)) - minX + 1;
+    const rows = Math.max(...coords.map(c => c.cy)) - minY + 1;
+
+    const grid = new Grid(columns * chunkWidth, rows * chunkHeight, this.seamCells.background === 'closed' ? this.seamCells.closed : this.seamCells.open);
+    const composed: MapData = {
+      width: grid.width,
+      height: grid.height,
+      grid,
+      seed: this.worldSeed,
+      terrainType: this.terrainType,
+      subtype: this.parameters.subtype,
+      chunk: { cx: minX, cy: minY }
+    };
+
+    for (let cy = minY; cy < minY + rows; cy++) {
+      for (let cx = minX; cx < minX + columns; cx++) {
+        const chunk = this.get({ cx, cy });
+        if (!chunk?.grid) continue;
+        const ox = (cx - minX) * chunkWidth;
+        const oy = (cy - minY) * chunkHeight;
+        for (let y = 0; y < chunkHeight; y++) {
+          grid.cells.set(chunk.grid.cells.subarray(y * chunkWidth, (y + 1) * chunkWidth), (oy + y) * grid.width + ox);
+        }
+        this.offsetInto(composed, chunk, ox, oy);
+      }
+    }
+    return composed;
+  }
+
+  /**
+   * Write the shared seams into a chunk's edges and lead every passage inward
+   */
+  private stitch(coord: ChunkCoord, mapData: MapData): MapData {
+    const grid = mapData.grid!.clone();
+    const { width, height } = grid;
+    const walkable = WALKABLE[this.terrainType];
+    const { open, closed, background } = this.seamCells;
+
+    // Step 3 needs the largest region as generated, before the edges change
+    const [main = []] = grid.regions(walkable);
+    const onBorder = (x: number, y: number) => x === 0 || y === 0 || x === width - 1 || y === height - 1;
+    const target = new Uint8Array(grid.cells.length);
+    for (const index of main) {
+      const { x, y } = grid.point(index);
+      if (!onBorder(x, y)) target[index] = 1;
+    }
+
+    const sides: Record<Side, { profile: Uint8Array; at: (i: number) => [number, number] }> = {
+      left: { profile: this.seam('v', coord.cx, coord.cy, height), at: i => [0, i] },
+      right: { profile: this.seam('v', coord.cx + 1, coord.cy, height), at: i => [width - 1, i] },
+      top: { profile: this.seam('h', coord.cx, coord.cy, width), at: i => [i, 0] },
+      bottom: { profile: this.seam('h', coord.cx, coord.cy + 1, width), at: i => [i, height - 1] }
+    };
+
+    const openings: [number, number][] = [];
+    for (const { profile, at } of Object.values(sides)) {
+      profile.forEach((cell, i) => {
+        const [x, y] = at(i);
+        grid.set(x, y, cell);
+        // The middle cell of each run of passage
+        if (background === 'closed' && cell === open && profile[i - 1] !== open) {
+          let end = i;
+          while (profile[end + 1] === open) end++;
+          openings.push(at(Math.floor((i + end) / 2)));
+        }
+      });
+    }
+
+    for (const [x, y] of openings) {
+      this.carve(grid, x, y, target, walkable, open);
+    }
+
+    const trees = mapData.trees && this.seamTrees(mapData.trees, sides, closed, width, height);
+    return { ...mapData, grid, ...(trees ? { trees } : {}), chunk: coord };
+  }
+
+  /**
+   * Cell profile of the seam starting at chunk corner (cx, cy), running down ('v') or across ('h')
+   */
+  private seam(direction: 'v' | 'h', cx: number, cy: number, length: number): Uint8Array {
+    const { open, closed, background, runs, runWidth } = this.seamCells;
+    const random = new SeededRandom(`${this.worldSeed}:${direction}${cx},${cy}`);
+    const [fill, run] = background === 'closed' ? [closed, open] : [open, closed];
+    const profile = new Uint8Array(length).fill(fill);
+
+    // One run per equal stretch of seam, clear of the corners (shared by four chunks)
+    const scale = Math.max(1, length / 48);
+    const count = random.nextInt(Math.round(runs[0] * scale), Math.round(runs[1] * scale));
+    const stretch = (length - 4) / Math.max(1, count);
+    for (let r = 0; r < count; r++) {
+      const start = 2 + Math.floor(r * stretch);
+      const runLength = Math.min(random.nextInt(runWidth[0], runWidth[1]), Math.floor(stretch) - 1);
+      if (runLength < 1) continue;
+      const offset = start + random.nextInt(0, Math.max(0, Math.floor(stretch) - runLength - 1));
+      profile.fill(run, offset, offset + runLength);
+    }
+    return profile;
+  }
+
+  /**
+   * Open the shortest way from a passage cell to the target region (through the interior only)
+   */
+  private carve(grid: Grid, x: number, y: number, target: Uint8Array, walkable: (cell: number) => boolean, open: number): void {
+    const previous = new Int32Array(grid.cells.length).fill(-1);
+    const start = grid.index(x, y);
+    previous[start] = start;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      if (target[current]) {
+        for (let cell = current; cell !== start; cell = previous[cell]) {
+          if (!walkable(grid.cells[cell])) grid.cells[cell] = open;
+        }
+        return;
+      }
+      const point = grid.point(current);
+      for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        const nx = point.x + dx;
+        const ny = point.y + dy;
+        if (nx < 1 || ny < 1 || nx > grid.width - 2 || ny > grid.height - 2) continue;
+        const next = grid.index(nx, ny);
+        if (previous[next] !== -1) continue;
+        previous[next] = current;
+        queue.push(next);
+      }
+    }
+  }
+
+  /**
+   * Trees for seams drawn as tree stands: clear the generated trees off the edges and plant the stands
+   */
+  private seamTrees(trees: Tree[], sides: Record<Side, { profile: Uint8Array; at: (i: number) => [number, number] }>, closed: number, width: number, height: number): Tree[] {
+    const kept = trees.filter(tree => tree.x >= 1.5 && tree.y >= 1.5 && tree.x <= width - 1.5 && tree.y <= height - 1.5);
+    for (const { profile, at } of Object.values(sides)) {
+      for (let i = 0; i < profile.length; i += 2) {
+        if (profile[i] !== closed) continue;
+        const [x, y] = at(i);
+        kept.push({ x: x + 0.5, y: y + 0.5, size: 1.5 });
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Copy a chunk's rooms, corridors, doors, trees and paths into a composed map
+   */
+  private offsetInto(composed: MapData, chunk: MapData, ox: number, oy: number): void {
+    const move = <T extends { x: number; y: number }>(item: T): T => ({ ...item, x: item.x + ox, y: item.y + oy });
+    if (chunk.rooms) composed.rooms = [...(composed.rooms ?? []), ...chunk.rooms.map(move)];
+    if (chunk.doors) composed.doors = [...(composed.doors ?? []), ...chunk.doors.map(move)];
+    if (chunk.trees) composed.trees = [...(composed.trees ?? []), ...chunk.trees.map(move)];
+    if (chunk.corridors) {
+      composed.corridors = [
+        ...(composed.corridors ?? []),
+        ...chunk.corridors.map(corridor => ({
+          start: [corridor.start[0] + ox, corridor.start[1] + oy] as [number, number],
+          end: [corridor.end[0] + ox, corridor.end[1] + oy] as [number, number]
+        }))
+      ];
+    }
+    // Each chunk's trails stay separate lines
+    const paths = [chunk.paths, ...(chunk.branchPaths ?? [])].filter((path): path is NonNullable<typeof path> => !!path && path.length > 0);
+    if (paths.length > 0) composed.branchPaths = [...(composed.branchPaths ?? []), ...paths.map(path => path.map(move))];
+    // Rivers only switch on the water colours; their crossings stay with the chunk
+    if (chunk.rivers) composed.rivers = [];
+  }
+}
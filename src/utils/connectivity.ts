@@ -1,6 +1,11 @@
 // Minimum Spanning Tree and connectivity utilities
 
 import { Room, Corridor, Point, Edge } from '../types/generator';
+import { Grid } from './grid';
+import { SeededRandom } from './random';
+
+// Offsets of the 4 orthogonal neighbours
+const ORTHOGONAL: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
 
 export class ConnectivityUtils {
   // Get center point of a room
@@ -86,7 +91,8 @@ export class ConnectivityUtils {
   static addExtraConnections(
     rooms: Room[], 
     baseCorridor: Corridor[], 
-    factor: number = 0.15
+    factor: number = 0.15,
+    random: SeededRandom = new SeededRandom()
   ): Corridor[] {
     const extraCount = Math.floor(rooms.length * factor);
     const centers = rooms.map(r => this.getRoomCenter(r));
@@ -104,8 +110,8 @@ export class ConnectivityUtils {
     const maxAttempts = rooms.length * 2;
 
     while (added < extraCount && attempts < maxAttempts) {
-      const i = Math.floor(Math.random() * rooms.length);
-      const j = Math.floor(Math.random() * rooms.length);
+      const i = random.nextInt(0, rooms.length - 1);
+      const j = random.nextInt(0, rooms.length - 1);
       
       if (i !== j) {
         const key = `${centers[i].x},${centers[i].y}-${centers[j].x},${centers[j].y}`;
@@ -145,4 +151,110 @@ export class ConnectivityUtils {
       point.y < room.y + room.height
     );
   }
+
+  /**
+   * Walking distance in cells from a start cell to every cell (4-connected), -1 where unreachable
+   * Also returns each reached cell's predecessor so shortest routes can be traced back
+   */
+  static walkingDistances(
+    grid: Grid,
+    start: Point,
+    isWalkable: (cell: number) => boolean
+  ): { distances: Int32Array; previous: Int32Array } {
+    const distances = new Int32Array(grid.cells.length).fill(-1);
+    const previous = new Int32Array(grid.cells.length).fill(-1);
+    if (!grid.inBounds(start.x, start.y) || !isWalkable(grid.get(start.x, start.y))) {
+      return { distances, previous };
+    }
+
+    const queue = [grid.index(start.x, start.y)];
+    distances[queue[0]] = 0;
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      const { x, y } = grid.point(current);
+      for (const [dx, dy] of ORTHOGONAL) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (!grid.inBounds(nx, ny)) continue;
+        const next = grid.index(nx, ny);
+        if (distances[next] === -1 && isWalkable(grid.cells[next])) {
+          distances[next] = distances[current] + 1;
+          previous[next] = current;
+          queue.push(next);
+        }
+      }
+    }
+
+    return { distances, previous };
+  }
+
+  /**
+   * Build the room graph of a finished grid
+   * Two rooms are joined when a walk between them doesn't pass through a third room;
+   * the edge weight is the walking distance from wall to wall (1 for rooms that touch)
+   */
+  static buildRoomGraph(grid: Grid, rooms: Room[], isWalkable: (cell: number) => boolean): Edge[] {
+    const roomAt = this.roomIndexGrid(grid, rooms);
+    const distances = new Int32Array(grid.cells.length);
+    const edges = new Map<string, Edge>();
+
+    rooms.forEach((room, from) => {
+      distances.fill(-1);
+      const queue: number[] = [];
+      for (let y = Math.max(0, room.y); y < Math.min(grid.height, room.y + room.height); y++) {
+        for (let x = Math.max(0, room.x); x < Math.min(grid.width, room.x + room.width); x++) {
+          const index = grid.index(x, y);
+          if (roomAt[index] === from && isWalkable(grid.cells[index])) {
+            distances[index] = 0;
+            queue.push(index);
+          }
+        }
+      }
+
+      // Flood out through corridors, stopping at the walls of the next room reached
+      for (let head = 0; head < queue.length; head++) {
+        const current = queue[head];
+        const { x, y } = grid.point(current);
+        for (const [dx, dy] of ORTHOGONAL) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (!grid.inBounds(nx, ny)) continue;
+          const next = grid.index(nx, ny);
+          if (distances[next] !== -1 || !isWalkable(grid.cells[next])) continue;
+          distances[next] = distances[current] + 1;
+
+          const to = roomAt[next];
+          if (to === -1) {
+            queue.push(next);
+          } else if (to !== from) {
+            const key = from < to ? `${from}-${to}` : `${to}-${from}`;
+            const existing = edges.get(key);
+            if (!existing || distances[next] < existing.weight) {
+              edges.set(key, { from: Math.min(from, to), to: Math.max(from, to), weight: distances[next] });
+            }
+          }
+        }
+      }
+    });
+
+    return Array.from(edges.values());
+  }
+
+  /**
+   * Index of the room covering each cell, -1 outside every room (earlier rooms win overlaps)
+   */
+  static roomIndexGrid(grid: Grid, rooms: Room[]): Int16Array {
+    const roomAt = new Int16Array(grid.cells.length).fill(-1);
+    rooms.forEach((room, index) => {
+      for (let y = Math.max(0, room.y); y < Math.min(grid.height, room.y + room.height); y++) {
+        for (let x = Math.max(0, room.x); x < Math.min(grid.width, room.x + room.width); x++) {
+          const cell = grid.index(x, y);
+          if (roomAt[cell] === -1) {
+            roomAt[cell] = index;
+          }
+        }
+      }
+    });
+    return roomAt;
+  }
 }
@@ -0,0 +1,274 @@
+// Map requirements constraint solver
+// Turns a POI's MapRequirements into generator parameters, then places the requested
+// features, entry/exit points and hidden areas on the generated map
+
+import {
+  DoorType,
+  FeaturePlacement,
+  FOREST_IMPASSABLE_CELLS,
+  GeneratorParameters,
+  IMPASSABLE_CELLS,
+  MapData,
+  OVERWORLD_IMPASSABLE_CELLS,
+  PathPoint,
+  Room,
+  TerrainType,
+  TownCell
+} from '../types/generator';
+import { EntryPoint, ExitPoint, MapFeature, MapRequirements, UnsatisfiedRequirement } from '../types/campaign';
+import { GeneratorRegistry } from '../generators';
+import { ConnectivityUtils } from './connectivity';
+import { SeededRandom } from './random';
+import { Grid } from './grid';
+
+// Cells each terrain's generator leaves walkable; features are only placed on these
+export const WALKABLE: Record<TerrainType, (cell: number) => boolean> = {
+  [TerrainType.Dungeon]: cell => !IMPASSABLE_CELLS.has(cell),
+  [TerrainType.Cave]: cell => !IMPASSABLE_CELLS.has(cell),
+  [TerrainType.House]: cell => cell === 1,
+  [TerrainType.Forest]: cell => !FOREST_IMPASSABLE_CELLS.has(cell),
+  [TerrainType.Town]: cell => cell !== TownCell.Building && cell !== TownCell.Wall && cell !== TownCell.Water,
+  [TerrainType.Tileset]: cell => !IMPASSABLE_CELLS.has(cell),
+  [TerrainType.Overworld]: cell => !OVERWORLD_IMPASSABLE_CELLS.has(cell)
+};
+
+const MIN_SPACING = 3; // Cells kept clear between placements (Chebyshev distance)
+const MAX_ROOMS = 20;
+
+export interface ConstraintSolution {
+  mapData: MapData;
+  parameters: GeneratorParameters;
+  attempts: number; // Seeds tried
+  unsatisfied: UnsatisfiedRequirement[]; // Everything that did not fit on the chosen attempt
+}
+
+/**
+ * Generates a map that satisfies a POI's MapRequirements.
+ *
+ * Algorithm:
+ * 1. Derive generator parameters: dimensions, a room per requested feature and
+ *    hidden area, more secret doors when they are asked for, rivers for bridges
+ * 2. Generate with the next seed and place, in this order:
+ *    - required features in walkable cells of the main region matching their
+ *      position hint (rooms preferred), kept MIN_SPACING apart
+ *    - entry and exit points at the walkable cell nearest their side
+ *    - hidden areas in dead-end rooms, else any unused room
+ *    - preferred, then optional features
+ *    Secret doors and bridges count the generator's own doors and crossings first
+ * 3. Stop at the first seed that fits every required feature; otherwise keep the
+ *    attempt with the fewest missing required features
+ */
+export class MapConstraintSolver {
+  static solve(
+    requirements: Partial<MapRequirements>,
+    terrainType: TerrainType,
+    base: GeneratorParameters,
+    maxAttempts: number = 8
+  ): ConstraintSolution {
+    const parameters = this.toParameters(requirements, terrainType, base);
+    const firstSeed = SeededRandom.toNumber(parameters.seed ?? Date.now());
+
+    let best: { mapData: MapData; parameters: GeneratorParameters; unsatisfied: UnsatisfiedRequirement[]; missing: number } | undefined;
+    let attempts = 0;
+    while (attempts < maxAttempts && (!best || best.missing > 0)) {
+      const seeded = { ...parameters, seed: firstSeed + attempts };
+      attempts++;
+      const mapData = GeneratorRegistry.create(terrainType, seeded).generate();
+      const { features, unsatisfied } = this.place(mapData, requirements, terrainType, new SeededRandom(seeded.seed));
+      const missing = unsatisfied.filter(u => u.importance === 'required').length;
+
+      if (!best || missing < best.missing) {
+        best = { mapData: { ...mapData, features }, parameters: seeded, unsatisfied, missing };
+      }
+    }
+
+    const { missing, ...rest } = best!;
+    const solution = { ...rest, attempts };
+    console.log(`[MapConstraintSolver] Seed ${solution.parameters.seed} after ${solution.attempts} attempt(s), ${missing} required and ${solution.unsatisfied.length - missing} other requirement(s) unmet`);
+    return solution;
+  }
+
+  /**
+   * Generator parameters implied by the requirements
+   */
+  static toParameters(
+    requirements: Partial<MapRequirements>,
+    terrainType: TerrainType,
+    base: GeneratorParameters
+  ): GeneratorParameters {
+    const features = (requirements.requiredFeatures ?? []).filter(f => f.importance !== 'optional');
+    const count = (types: MapFeature['type'][]) =>
+      features.filter(f => types.includes(f.type)).reduce((total, f) => total + (f.quantity ?? 1), 0);
+
+    const parameters: GeneratorParameters = {
+      ...base,
+      width: requirements.dimensions?.width || base.width,
+      height: requirements.dimensions?.height || base.height
+    };
+
+    if (terrainType === TerrainType.Dungeon || terrainType === TerrainType.House) {
+      // Room for each feature and hidden area, plus the entrance and goal rooms
+      const wanted = count(features.map(f => f.type)) + (requirements.hiddenAreas?.length ?? 0) + 2;
+      parameters.roomCount = Math.min(MAX_ROOMS, Math.max(base.roomCount ?? 5, wanted));
+    }
+    if (count(['secret_door']) > 0 || (requirements.hiddenAreas?.length ?? 0) > 0) {
+      parameters.secretDoorRatio = Math.max(base.secretDoorRatio ?? 0.1, 0.25);
+    }
+    if (terrainType === TerrainType.Forest && count(['bridge']) > 0) {
+      parameters.riverCount = Math.max(base.riverCount ?? 0, 1);
+    }
+    return parameters;
+  }
+
+  /**
+   * Place the requirements on a generated map, reporting what did not fit
+   */
+  static place(
+    mapData: MapData,
+    requirements: Partial<MapRequirements>,
+    terrainType: TerrainType,
+    random: SeededRandom
+  ): { features: FeaturePlacement[]; unsatisfied: UnsatisfiedRequirement[] } {
+    const features: FeaturePlacement[] = [];
+    const unsatisfied: UnsatisfiedRequirement[] = [];
+    const grid = mapData.grid;
+    const [region = []] = grid ? grid.regions(WALKABLE[terrainType]) : [];
+    const rooms = mapData.rooms ?? [];
+    const roomAt = grid ? ConnectivityUtils.roomIndexGrid(grid, rooms) : new Int16Array(0);
+
+    const spaced = (index: number) => {
+      const point = grid!.point(index);
+      return features.every(f => Math.max(Math.abs(f.x - point.x), Math.abs(f.y - point.y)) >= MIN_SPACING);
+    };
+    const put = (kind: FeaturePlacement['kind'], type: string, description: string, index: number) => {
+      const point = grid!.point(index);
+      const room = roomAt[index];
+      features.push({ kind, type, description, x: point.x, y: point.y, ...(room !== -1 ? { room } : {}) });
+    };
+    const report = (kind: UnsatisfiedRequirement['kind'], type: string, description: string, importance: MapFeature['importance'], requested: number, placed: number) => {
+      if (placed < requested) {
+        unsatisfied.push({ kind, type, description, importance, requested, placed });
+      }
+    };
+
+    const placeFeatures = (importance: MapFeature['importance']) => {
+      for (const feature of (requirements.requiredFeatures ?? []).filter(f => f.importance === importance)) {
+        const requested = feature.quantity ?? 1;
+        let placed = this.existingFeatures(mapData, feature);
+        if (grid) {
+          const zone = region.filter(index => this.inZone(grid, index, feature.position ?? 'anywhere'));
+          for (; placed < requested; placed++) {
+            const open = zone.filter(spaced);
+            const inRooms = open.filter(index => roomAt[index] !== -1);
+            const choices = inRooms.length > 0 ? inRooms : open;
+            if (choices.length === 0) break;
+            put('feature', feature.type, feature.description, random.choice(choices));
+          }
+        }
+        report('feature', feature.type, feature.description, feature.importance, requested, placed);
+      }
+    };
+
+    // Required features claim space before anything else
+    placeFeatures('required');
+
+    // Entry and exit points at the edge they name
+    const points: [FeaturePlacement['kind'], EntryPoint | ExitPoint][] = [
+      ...(requirements.entryPoints ?? []).map(point => ['entry', point] as [FeaturePlacement['kind'], EntryPoint]),
+      ...(requirements.exitPoints ?? []).map(point => ['exit', point] as [FeaturePlacement['kind'], ExitPoint])
+    ];
+    for (const [kind, point] of points) {
+      const open = grid ? region.filter(spaced) : [];
+      const target = grid ? this.sideTarget(grid, point.position) : { x: 0, y: 0 };
+      const nearest = this.nearest(grid, open, target);
+      if (nearest !== undefined) {
+        put(kind, point.type, point.description, nearest);
+      }
+      report(kind, point.type, point.description, 'required', 1, nearest !== undefined ? 1 : 0);
+    }
+
+    // Hidden areas tucked away in dead ends, then any room nothing else claimed
+    const claimed = new Set(features.map(f => f.room));
+    const deadEnds = [...(mapData.progression?.deadEnds ?? [])];
+    const spare = rooms.map((_, index) => index).filter(index => !claimed.has(index) && !deadEnds.includes(index));
+    for (const area of requirements.hiddenAreas ?? []) {
+      const candidates = [...deadEnds, ...random.shuffle(spare)].filter(room => !claimed.has(room));
+      const cell = candidates
+        .map(room => this.roomCell(grid, rooms[room], region.filter(index => roomAt[index] === room && spaced(index))))
+        .find(index => index !== undefined);
+      if (cell !== undefined) {
+        claimed.add(roomAt[cell]);
+        put('hidden', 'hidden_area', `${area.name}: ${area.contents}`, cell);
+      }
+      report('hidden', 'hidden_area', area.name, 'preferred', 1, cell !== undefined ? 1 : 0);
+    }
+
+    // Preferred then optional features fill the space that is left
+    placeFeatures('preferred');
+    placeFeatures('optional');
+
+    return { features, unsatisfied };
+  }
+
+  /**
+   * Features the generator already provides: secret doors and river bridges
+   */
+  private static existingFeatures(mapData: MapData, feature: MapFeature): number {
+    if (feature.type === 'secret_door' && mapData.doors) {
+      return mapData.doors.filter(door => door.type === DoorType.Secret).length;
+    }
+    if (feature.type === 'bridge' && mapData.rivers) {
+      return mapData.rivers.reduce((total, river) => total + river.crossings.filter(c => c.type === 'bridge').length, 0);
+    }
+    return 0;
+  }
+
+  private static inZone(grid: Grid, index: number, position: NonNullable<MapFeature['position']>): boolean {
+    const { x, y } = grid.point(index);
+    const span = Math.min(grid.width, grid.height);
+    const fromEdgeX = Math.min(x, grid.width - 1 - x);
+    const fromEdgeY = Math.min(y, grid.height - 1 - y);
+    switch (position) {
+      case 'center':
+        return Math.abs(x - grid.width / 2) <= span / 4 && Math.abs(y - grid.height / 2) <= span / 4;
+      case 'edge':
+        return Math.min(fromEdgeX, fromEdgeY) <= Math.max(3, span / 8);
+      case 'corner':
+        return fromEdgeX <= span / 4 && fromEdgeY <= span / 4;
+      default:
+        return true;
+    }
+  }
+
+  private static sideTarget(grid: Grid, position: EntryPoint['position']): PathPoint {
+    const middle = { x: Math.floor(grid.width / 2), y: Math.floor(grid.height / 2) };
+    switch (position) {
+      case 'north': return { x: middle.x, y: 0 };
+      case 'south': return { x: middle.x, y: grid.height - 1 };
+      case 'west': return { x: 0, y: middle.y };
+      case 'east': return { x: grid.width - 1, y: middle.y };
+      default: return middle;
+    }
+  }
+
+  private static nearest(grid: Grid | undefined, cells: number[], target: PathPoint): number | undefined {
+    let best: number | undefined;
+    let bestDistance = Infinity;
+    for (const index of cells) {
+      const distance = ConnectivityUtils.distance(grid!.point(index), target);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Cell of a room (from the given reachable cells) closest to its centre
+   */
+  private static roomCell(grid: Grid | undefined, room: Room | undefined, cells: number[]): number | undefined {
+    if (!grid || !room) return undefined;
+    return this.nearest(grid, cells, ConnectivityUtils.getRoomCenter(room));
+  }
+}
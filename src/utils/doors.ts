@@ -0,0 +1,135 @@
+// Door placement at room/corridor junctions
+// Shared by the house and dungeon generators, which use different floor codes
+
+import { Door, DoorType, MapData, Room, TerrainCell, TerrainType } from '../types/generator';
+import { ConnectivityUtils } from './connectivity';
+import { SeededRandom } from './random';
+import { Grid } from './grid';
+
+export interface DoorRatios {
+  doorway: number;
+  locked: number;
+  secret: number;
+}
+
+// Openings wider than this aren't chokepoints (e.g. a corridor running along a room wall)
+const MAX_DOOR_WIDTH = 3;
+
+// Wall codes of the terrains with doors; secret doors turn into these on the player copy
+const WALL_CELLS: Partial<Record<TerrainType, number>> = {
+  [TerrainType.Dungeon]: TerrainCell.Wall,
+  [TerrainType.House]: 0
+};
+
+/**
+ * Finds every place a corridor enters a room and puts a door there.
+ *
+ * Algorithm:
+ * 1. Walk the ring of cells just outside each room wall
+ * 2. Floor cells on that ring that aren't inside another room are corridor cells touching the room
+ * 3. Consecutive cells along one wall form a single opening; narrow openings become doors
+ * 4. Each door is classified as open doorway, door, locked door or secret door by the ratios
+ */
+export class DoorPlacer {
+  static placeDoors(
+    grid: Grid,
+    rooms: Room[],
+    isFloor: (cell: number) => boolean,
+    random: SeededRandom,
+    ratios: DoorRatios
+  ): Door[] {
+    const doors: Door[] = [];
+    const seen = new Set<string>();
+
+    const isJunction = (x: number, y: number): boolean =>
+      grid.inBounds(x, y) &&
+      isFloor(grid.get(x, y)) &&
+      !rooms.some(room => ConnectivityUtils.pointInRoom({ x, y }, room));
+
+    rooms.forEach((room, index) => {
+      // Top, right, bottom, left walls
+      const walls: { cells: [number, number][]; orientation: Door['orientation'] }[] = [
+        { cells: this.range(room.x, room.width).map(x => [x, room.y - 1]), orientation: 'horizontal' },
+        { cells: this.range(room.y, room.height).map(y => [room.x + room.width, y]), orientation: 'vertical' },
+        { cells: this.range(room.x, room.width).map(x => [x, room.y + room.height]), orientation: 'horizontal' },
+        { cells: this.range(room.y, room.height).map(y => [room.x - 1, y]), orientation: 'vertical' }
+      ];
+
+      for (const wall of walls) {
+        let run: [number, number][] = [];
+        // Trailing sentinel closes the last run
+        for (const cell of [...wall.cells, null]) {
+          if (cell && isJunction(cell[0], cell[1])) {
+            run.push(cell);
+            continue;
+          }
+          if (run.length > 0 && run.length <= MAX_DOOR_WIDTH) {
+            const [x, y] = run[0];
+            const key = `${x},${y},${wall.orientation}`;
+            if (!seen.has(key)) {
+              seen.add(key);
+              doors.push({
+                x,
+                y,
+                width: run.length,
+                orientation: wall.orientation,
+                type: this.pickType(random, ratios),
+                room: index
+              });
+            }
+          }
+          run = [];
+        }
+      }
+    });
+
+    return doors;
+  }
+
+  /**
+   * Weighted pick of a door type; whatever the ratios leave over becomes plain doors
+   */
+  private static pickType(random: SeededRandom, ratios: DoorRatios): DoorType {
+    const roll = random.next();
+    if (roll < ratios.secret) return DoorType.Secret;
+    if (roll < ratios.secret + ratios.locked) return DoorType.Locked;
+    if (roll < ratios.secret + ratios.locked + ratios.doorway) return DoorType.Open;
+    return DoorType.Door;
+  }
+
+  /**
+   * Copy of a map for the player view: secret doors are walled up in the grid and dropped
+   * from the door lists of every floor, so nothing sent to players gives them away
+   */
+  static hideSecretDoors(mapData: MapData): MapData {
+    const wall = WALL_CELLS[mapData.terrainType ?? TerrainType.Dungeon] ?? TerrainCell.Wall;
+    const copies = new Map<Grid, Grid>(); // The ground floor shares its grid with the map
+    const hide = (grid: Grid, doors: Door[]): { grid: Grid; doors: Door[] } => {
+      const secret = doors.filter(door => door.type === DoorType.Secret);
+      if (secret.length === 0) return { grid, doors };
+
+      const copy = copies.get(grid) ?? grid.clone();
+      copies.set(grid, copy);
+      for (const door of secret) {
+        for (const i of this.range(0, door.width)) {
+          if (door.orientation === 'horizontal') {
+            copy.set(door.x + i, door.y, wall);
+          } else {
+            copy.set(door.x, door.y + i, wall);
+          }
+        }
+      }
+      return { grid: copy, doors: doors.filter(door => door.type !== DoorType.Secret) };
+    };
+
+    return {
+      ...mapData,
+      ...(mapData.grid && mapData.doors ? hide(mapData.grid, mapData.doors) : {}),
+      floors: mapData.floors?.map(floor => ({ ...floor, ...hide(floor.grid, floor.doors) }))
+    };
+  }
+
+  private static range(start: number, length: number): number[] {
+    return Array.from({ length }, (_, i) => start + i);
+  }
+}
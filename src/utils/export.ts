@@ -1,6 +1,16 @@
 // Export utilities for PNG, SVG, and JSON
 
+import JSZip from 'jszip';
 import { MapData } from '../types/generator';
+import { PlacedObject, SpriteSheet } from '../types/objects';
+import { GridAdapter } from './grid';
+import { DungeonKey } from './roomKey';
+import { UniversalVTT, UniversalVttOptions } from './uvtt';
+import { FoundryExport, FoundryExportOptions } from './foundry';
+import { Tiled, TiledImport, TiledMap } from './tiled';
+import { PrintExport, PrintOptions, PrintPage } from './print';
+import { SvgExport, SvgExportOptions } from './svg';
+import { getSpriteById, spriteToDataURL } from './spritesheet';
 
 export class ExportUtils {
   static exportMapToPNG(canvas: HTMLCanvasElement, filename: string = 'map.png'): void {
@@ -13,79 +23,198 @@ export class ExportUtils {
 
   /**
    * Export map as SVG for scalable vector graphics (perfect for printing)
-   * Converts the grid-based map data into an SVG document
+   * Layered like the canvas (floor, walls, grid, trees, objects, labels), with the
+   * placed objects' sprites embedded
    */
-  static exportMapToSVG(mapData: MapData, cellSize: number, filename: string = 'map.svg'): void {
-    const width = mapData.width * cellSize;
-    const height = mapData.height * cellSize;
-    
-    // Create SVG document
-    let svg = `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
-  <title>${mapData.terrainType} Map - Seed: ${mapData.seed}</title>
-  <desc>Generated by DnD Map Builder</desc>
-  
-  <!-- Background -->
-  <rect width="${width}" height="${height}" fill="#f5f5dc"/>
-  
-  <!-- Grid -->
-  <g id="grid" opacity="0.3" stroke="#999" stroke-width="0.5">`;
-    
-    // Draw grid lines
-    for (let x = 0; x <= mapData.width; x++) {
-      svg += `\n    <line x1="${x * cellSize}" y1="0" x2="${x * cellSize}" y2="${height}"/>`;
-    }
-    for (let y = 0; y <= mapData.height; y++) {
-      svg += `\n    <line x1="0" y1="${y * cellSize}" x2="${width}" y2="${y * cellSize}"/>`;
+  static exportMapToSVG(
+    mapData: MapData,
+    cellSize: number,
+    options: SvgExportOptions = {},
+    spritesheets: SpriteSheet[] = [],
+    filename: string = 'map.svg'
+  ): void {
+    const spriteImages: Record<string, string> = {};
+    for (const object of options.placedObjects ?? []) {
+      if (spriteImages[object.spriteId]) continue;
+      const found = getSpriteById(object.spriteId, spritesheets);
+      const dataUrl = found && spriteToDataURL(found.sprite, found.sheet);
+      if (dataUrl) spriteImages[object.spriteId] = dataUrl;
     }
+
+    const svg = SvgExport.toSVG(mapData, cellSize, { ...options, spriteImages });
     
-    svg += `\n  </g>\n\n  <!-- Map Content -->\n  <g id="map">`;
-    
-    // Draw based on grid data
-    if (mapData.grid) {
-      for (let y = 0; y < mapData.height; y++) {
-        for (let x = 0; x < mapData.width; x++) {
-          const cell = mapData.grid[y][x];
-          const px = x * cellSize;
-          const py = y * cellSize;
-          
-          if (cell === 0) {
-            // Floor - light color
-            svg += `\n    <rect x="${px}" y="${py}" width="${cellSize}" height="${cellSize}" fill="#8b7355" stroke="none"/>`;
-          } else if (cell === 1) {
-            // Wall - dark color
-            svg += `\n    <rect x="${px}" y="${py}" width="${cellSize}" height="${cellSize}" fill="#333" stroke="none"/>`;
-          } else if (cell === 2) {
-            // Path - special color
-            svg += `\n    <rect x="${px}" y="${py}" width="${cellSize}" height="${cellSize}" fill="#9a8066" stroke="none"/>`;
-          }
-        }
-      }
+    // Download SVG
+    const blob = new Blob([svg], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Export the numbered room key as a printable HTML document
+   */
+  static exportDungeonKey(mapData: MapData, filename: string = 'dungeon-key.html', title?: string): void {
+    const blob = new Blob([DungeonKey.toHTML(mapData, title)], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Export the rendered map with its walls, doors and lights as a Universal VTT file
+   * The grid resolution is read off the canvas, so export the canvas the map was drawn on
+   */
+  static exportMapToUniversalVTT(
+    mapData: MapData,
+    canvas: HTMLCanvasElement,
+    filename: string = 'map.dd2vtt',
+    options: UniversalVttOptions = {}
+  ): void {
+    const pixelsPerGrid = canvas.width / mapData.width;
+    const uvtt = UniversalVTT.build(mapData, canvas.toDataURL('image/png'), pixelsPerGrid, options);
+    const blob = new Blob([JSON.stringify(uvtt)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Export a Foundry VTT scene package: the scene JSON zipped with the canvas image and
+   * the sprites of its tokens and tiles
+   */
+  static async exportFoundryScene(
+    mapData: MapData,
+    canvas: HTMLCanvasElement,
+    options: FoundryExportOptions,
+    spritesheets: SpriteSheet[] = [],
+    filename: string = 'foundry-scene.zip'
+  ): Promise<void> {
+    const spriteImages: Record<string, string> = {};
+    for (const object of [...(options.dmObjects ?? []), ...(options.placedObjects ?? [])]) {
+      const found = getSpriteById(object.spriteId, spritesheets);
+      const dataUrl = found && spriteToDataURL(found.sprite, found.sheet);
+      if (dataUrl) spriteImages[object.spriteId] = dataUrl;
     }
-    
-    // Draw rooms with borders
-    if (mapData.rooms) {
-      svg += `\n    <!-- Rooms -->`;
-      for (const room of mapData.rooms) {
-        svg += `\n    <rect x="${room.x * cellSize}" y="${room.y * cellSize}" width="${room.width * cellSize}" height="${room.height * cellSize}" fill="none" stroke="#6a5a45" stroke-width="2"/>`;
+
+    const pixelsPerGrid = canvas.width / mapData.width;
+    const zip = FoundryExport.package(mapData, canvas.toDataURL('image/png'), pixelsPerGrid, { ...options, spriteImages });
+    const blob = await zip.generateAsync({ type: 'blob' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Export a Tiled map (.tmj) zipped with its tileset images: a swatch per terrain cell
+   * code, cut from the rendered canvas, and the spritesheets of the placed objects
+   */
+  static async exportMapToTiled(
+    mapData: MapData,
+    canvas: HTMLCanvasElement,
+    placedObjects: PlacedObject[] = [],
+    spritesheets: SpriteSheet[] = [],
+    filename: string = 'map-tiled.zip'
+  ): Promise<void> {
+    const pixelsPerGrid = canvas.width / mapData.width;
+    const tileSize = Math.max(1, Math.round(pixelsPerGrid));
+    const usedSheets = spritesheets.filter(sheet => placedObjects.some(object => sheet.sprites.some(sprite => sprite.id === object.spriteId)));
+    const tiledMap = Tiled.toMap(mapData, placedObjects, usedSheets, tileSize);
+
+    const zip = new JSZip();
+    zip.file(filename.replace(/\.zip$/, '.tmj'), JSON.stringify(tiledMap, null, 2));
+
+    // Terrain swatches: the first cell drawn with each code
+    const codes = Tiled.cellCodes(mapData);
+    const swatches = document.createElement('canvas');
+    swatches.width = codes.length * tileSize;
+    swatches.height = tileSize;
+    const ctx = swatches.getContext('2d');
+    if (ctx && mapData.grid) {
+      for (const code of codes) {
+        const index = mapData.grid.cells.indexOf(code);
+        if (index === -1) continue;
+        const { x, y } = mapData.grid.point(index);
+        ctx.drawImage(canvas, x * pixelsPerGrid, y * pixelsPerGrid, pixelsPerGrid, pixelsPerGrid, code * tileSize, 0, tileSize, tileSize);
       }
     }
-    
-    // Draw trees as circles
-    if (mapData.trees) {
-      svg += `\n    <!-- Trees -->`;
-      for (const tree of mapData.trees) {
-        const cx = tree.x * cellSize;
-        const cy = tree.y * cellSize;
-        const r = (tree.size || 2.5) * cellSize;
-        svg += `\n    <circle cx="${cx}" cy="${cy}" r="${r}" fill="#2d5016" opacity="0.8"/>`;
-      }
+    zip.file(Tiled.terrainImage, swatches.toDataURL('image/png').split(',')[1], { base64: true });
+
+    for (const sheet of usedSheets) {
+      if (!sheet.imageData) continue;
+      const sheetCanvas = document.createElement('canvas');
+      sheetCanvas.width = sheet.gridWidth * sheet.spriteWidth;
+      sheetCanvas.height = sheet.gridHeight * sheet.spriteHeight;
+      sheetCanvas.getContext('2d')?.drawImage(sheet.imageData, 0, 0);
+      zip.file(Tiled.sheetImage(sheet), sheetCanvas.toDataURL('image/png').split(',')[1], { base64: true });
     }
-    
-    svg += `\n  </g>\n</svg>`;
-    
-    // Download SVG
-    const blob = new Blob([svg], { type: 'image/svg+xml' });
+
+    const blob = await zip.generateAsync({ type: 'blob' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Read a Tiled JSON map (.tmj / .json) back into MapData and placed objects
+   */
+  static importMapFromTiled(file: File): Promise<TiledImport> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+
+      reader.onload = (e) => {
+        try {
+          const result = e.target?.result;
+          if (typeof result === 'string') {
+            resolve(Tiled.fromMap(JSON.parse(result) as TiledMap));
+          } else {
+            reject(new Error('Invalid file content'));
+          }
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(file);
+    });
+  }
+
+  /**
+   * Export a print-ready PDF at one square per inch (or 25 mm), split across pages
+   * renderRegion redraws map cells at print resolution (MapCanvasRef.renderRegion)
+   */
+  static exportMapToPDF(
+    mapData: MapData,
+    renderRegion: (x: number, y: number, width: number, height: number, cellSize: number) => HTMLCanvasElement | null,
+    options: PrintOptions,
+    filename: string = 'map-print.pdf',
+    title?: string
+  ): void {
+    const renderPage = (page: PrintPage, pixelsPerCell: number) => {
+      const canvas = renderRegion(page.x, page.y, page.width, page.height, pixelsPerCell);
+      if (!canvas) return null;
+      const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+      const jpeg = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+      return { jpeg, width: canvas.width, height: canvas.height };
+    };
+    const pdf = PrintExport.toPDF(mapData.width, mapData.height, options, renderPage, title);
+
+    const blob = new Blob([pdf.toBytes()], { type: 'application/pdf' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.download = filename;
@@ -115,7 +244,8 @@ export class ExportUtils {
         try {
           const result = e.target?.result;
           if (typeof result === 'string') {
-            const mapData = JSON.parse(result) as MapData;
+            // Older files store grids as nested arrays; the adapter accepts both
+            const mapData = GridAdapter.reviveMapData(JSON.parse(result) as MapData);
             resolve(mapData);
           } else {
             reject(new Error('Invalid file content'));
@@ -0,0 +1,270 @@
+// Foundry VTT scene package
+// A zip holding the scene JSON with its map image and sprites, laid out to unzip into
+// Foundry's Data folder; the JSON is then loaded with "Import Data" on a new scene
+
+import JSZip from 'jszip';
+import { DoorType, MapData, TerrainType } from '../types/generator';
+import { HouseStory } from '../types/enums';
+import { DMObject, LightingState } from '../types/dm';
+import { PlacedObject } from '../types/objects';
+import { SIGHT_BLOCKING, WallTracer } from './walls';
+import { SeededRandom } from './random';
+
+// Foundry constants (CONST.WALL_SENSE_TYPES, WALL_DOOR_TYPES, WALL_DOOR_STATES, TOKEN_DISPOSITIONS)
+const WALL_NORMAL = 20;
+const DOOR = 1;
+const SECRET_DOOR = 2;
+const DOOR_CLOSED = 0;
+const DOOR_LOCKED = 2;
+const HOSTILE = -1;
+const NEUTRAL = 0;
+
+const MIN_GRID_SIZE = 50; // Smallest grid Foundry accepts; smaller maps are scaled up
+const ASSET_ROOT = 'dnd-map-builder';
+
+// Core Foundry icons for objects without a sprite image
+const CATEGORY_ICONS: Record<DMObject['category'], string> = {
+  monster: 'icons/svg/skull.svg',
+  npc: 'icons/svg/mystery-man.svg',
+  trap: 'icons/svg/trap.svg',
+  treasure: 'icons/svg/chest.svg',
+  environment: 'icons/svg/mystery-man.svg'
+};
+
+export interface FoundryWall {
+  c: [number, number, number, number]; // x1, y1, x2, y2 in scene pixels
+  move: number;
+  light: number;
+  sight: number;
+  sound: number;
+  door: number;
+  ds: number;
+}
+
+export interface FoundryLight {
+  x: number;
+  y: number;
+  rotation: number;
+  walls: boolean;
+  hidden: boolean;
+  config: {
+    dim: number; // Grid distance units (feet)
+    bright: number;
+    color: string;
+    alpha: number;
+    angle: number;
+  };
+}
+
+export interface FoundryToken {
+  name: string;
+  x: number;
+  y: number;
+  width: number; // Grid squares
+  height: number;
+  rotation: number;
+  hidden: boolean;
+  disposition: number;
+  actorLink: boolean;
+  texture: { src: string };
+  flags: Record<string, unknown>;
+}
+
+export interface FoundryTile {
+  x: number;
+  y: number;
+  width: number; // Scene pixels
+  height: number;
+  rotation: number;
+  z: number;
+  hidden: boolean;
+  texture: { src: string };
+}
+
+export interface FoundryScene {
+  name: string;
+  width: number;
+  height: number;
+  padding: number;
+  background: { src: string; offsetX: number; offsetY: number };
+  grid: { type: number; size: number; distance: number; units: string };
+  tokenVision: boolean;
+  fogExploration: boolean;
+  globalLight: boolean;
+  darkness: number;
+  walls: FoundryWall[];
+  lights: FoundryLight[];
+  tokens: FoundryToken[];
+  tiles: FoundryTile[];
+  flags: Record<string, unknown>;
+}
+
+export interface FoundryExportOptions {
+  name: string; // Scene name; also names the asset folder
+  lighting?: LightingState; // DM lights, positioned in image pixels like the DM canvas
+  floor?: HouseStory; // House floor the image shows; defaults to the ground floor
+  dmObjects?: DMObject[]; // Tokens; environment objects become tiles
+  placedObjects?: PlacedObject[]; // Tiles
+  spriteImages?: Record<string, string>; // PNG data URL per sprite id, packed beside the scene
+  gridDistance?: number; // Feet per square (default: 5)
+}
+
+/**
+ * Builds Foundry VTT scenes and packages them with their images.
+ *
+ * Everything is placed in grid units first, then scaled by the scene grid size, so a
+ * map drawn at a few pixels per cell still lands on Foundry's 50 px minimum grid.
+ * Walls come from WallTracer; doors become door walls (locked doors locked, secret
+ * doors secret) and open archways stay gaps. DMObjects become tokens (hidden ones
+ * hidden), environment DMObjects and PlacedObjects become tiles.
+ */
+export class FoundryExport {
+  static scene(mapData: MapData, pixelsPerGrid: number, options: FoundryExportOptions): FoundryScene {
+    const folder = this.folder(options.name);
+    const size = Math.max(MIN_GRID_SIZE, Math.round(pixelsPerGrid));
+    const distance = options.gridDistance ?? 5;
+    const level = mapData.floors?.find(f => f.story === options.floor) ?? mapData;
+    const texture = (spriteId: string, fallback: string) =>
+      options.spriteImages?.[spriteId] ? `${folder}/sprites/${this.fileName(spriteId)}.png` : fallback;
+
+    const walls: FoundryWall[] = (level.grid ? WallTracer.trace(level.grid, SIGHT_BLOCKING[mapData.terrainType ?? TerrainType.Dungeon]) : [])
+      .map(wall => this.wall(wall.from.x, wall.from.y, wall.to.x, wall.to.y, size));
+    for (const door of level.doors ?? []) {
+      if (door.type === DoorType.Open) continue;
+      const { from, to } = WallTracer.doorLine(door);
+      walls.push({
+        ...this.wall(from.x, from.y, to.x, to.y, size),
+        door: door.type === DoorType.Secret ? SECRET_DOOR : DOOR,
+        ds: door.type === DoorType.Locked ? DOOR_LOCKED : DOOR_CLOSED
+      });
+    }
+
+    // Light radius in image pixels -> squares -> feet; bright light reaches half as far, like Foundry's torch
+    const lights: FoundryLight[] = (options.lighting?.lightSources ?? []).map(light => {
+      const dim = (light.radius / pixelsPerGrid) * distance;
+      return {
+        x: (light.x / pixelsPerGrid) * size,
+        y: (light.y / pixelsPerGrid) * size,
+        rotation: 0,
+        walls: true,
+        hidden: false,
+        config: { dim, bright: dim / 2, color: light.color ?? '#ffffff', alpha: light.intensity / 2, angle: 360 }
+      };
+    });
+
+    const tokens: FoundryToken[] = [];
+    const tiles: FoundryTile[] = [];
+    for (const object of options.dmObjects ?? []) {
+      if (object.category === 'environment') {
+        if (!options.spriteImages?.[object.spriteId]) continue;
+        tiles.push(this.tile(object.x, object.y, object.scaleX, object.scaleY, object.rotation, object.zIndex, !object.visibleToPlayers, texture(object.spriteId, ''), size));
+        continue;
+      }
+      tokens.push({
+        name: object.name ?? object.category,
+        x: (object.x + 0.5 - object.scaleX / 2) * size,
+        y: (object.y + 0.5 - object.scaleY / 2) * size,
+        width: object.scaleX,
+        height: object.scaleY,
+        rotation: object.rotation,
+        hidden: !object.visibleToPlayers,
+        disposition: object.category === 'monster' ? HOSTILE : NEUTRAL,
+        actorLink: false,
+        texture: { src: texture(object.spriteId, CATEGORY_ICONS[object.category]) },
+        flags: { [ASSET_ROOT]: { category: object.category, notes: object.notes ?? '' } }
+      });
+    }
+    for (const object of options.placedObjects ?? []) {
+      if (!options.spriteImages?.[object.spriteId]) continue;
+      tiles.push(this.tile(object.gridX, object.gridY, object.scaleX, object.scaleY, object.rotation, object.zIndex, false, texture(object.spriteId, ''), size));
+    }
+
+    console.log(`[FoundryExport] ${walls.length} walls, ${lights.length} lights, ${tokens.length} tokens, ${tiles.length} tiles`);
+    return {
+      name: options.name,
+      width: mapData.width * size,
+      height: mapData.height * size,
+      padding: 0,
+      background: { src: `${folder}/map.png`, offsetX: 0, offsetY: 0 },
+      grid: { type: 1, size, distance, units: 'ft' },
+      tokenVision: true,
+      fogExploration: true,
+      globalLight: !options.lighting?.fogOfWarEnabled,
+      darkness: Math.min(1, Math.max(0, 1 - (options.lighting?.brightness ?? 1))),
+      walls,
+      lights,
+      tokens,
+      tiles,
+      flags: { [ASSET_ROOT]: { terrainType: mapData.terrainType, seed: mapData.seed } }
+    };
+  }
+
+  /**
+   * Zip with the scene JSON, the map image and every sprite image the scene uses,
+   * all under dnd-map-builder/<scene-name>/
+   */
+  static package(mapData: MapData, imageDataUrl: string, pixelsPerGrid: number, options: FoundryExportOptions): JSZip {
+    const folder = this.folder(options.name);
+    const scene = this.scene(mapData, pixelsPerGrid, options);
+    const zip = new JSZip();
+    zip.file(`${folder}/scene.json`, JSON.stringify(scene, null, 2));
+    zip.file(`${folder}/map.png`, this.base64(imageDataUrl), { base64: true });
+
+    const used = new Set([...(options.dmObjects ?? []).map(o => o.spriteId), ...(options.placedObjects ?? []).map(o => o.spriteId)]);
+    for (const [spriteId, dataUrl] of Object.entries(options.spriteImages ?? {})) {
+      if (!used.has(spriteId)) continue;
+      zip.file(`${folder}/sprites/${this.fileName(spriteId)}.png`, this.base64(dataUrl), { base64: true });
+    }
+    return zip;
+  }
+
+  private static wall(x1: number, y1: number, x2: number, y2: number, size: number): FoundryWall {
+    return {
+      c: [x1 * size, y1 * size, x2 * size, y2 * size],
+      move: WALL_NORMAL,
+      light: WALL_NORMAL,
+      sight: WALL_NORMAL,
+      sound: WALL_NORMAL,
+      door: 0,
+      ds: DOOR_CLOSED
+    };
+  }
+
+  /**
+   * Tile centred on its cell, scaled like the object layer draws it
+   */
+  private static tile(
+    x: number,
+    y: number,
+    scaleX: number,
+    scaleY: number,
+    rotation: number,
+    z: number,
+    hidden: boolean,
+    src: string,
+    size: number
+  ): FoundryTile {
+    return {
+      x: (x + 0.5 - scaleX / 2) * size,
+      y: (y + 0.5 - scaleY / 2) * size,
+      width: scaleX * size,
+      height: scaleY * size,
+      rotation,
+      z,
+      hidden,
+      texture: { src }
+    };
+  }
+
+  private static folder(name: string): string {
+    return `${ASSET_ROOT}/${SeededRandom.slug(name, 'scene')}`;
+  }
+
+  private static fileName(spriteId: string): string {
+    return spriteId.replace(/[^\w-]+/g, '_');
+  }
+
+  private static base64(dataUrl: string): string {
+    return dataUrl.replace(/^data:image\/\w+;base64,/, '');
+  }
+}
@@ -0,0 +1,270 @@
+// Compact map grid backed by a Uint8Array
+
+import { MapData } from '../types/generator';
+
+/**
+ * JSON form of a grid: cells are base64-encoded bytes, row by row
+ */
+export interface SerializedGrid {
+  width: number;
+  height: number;
+  cells: string;
+}
+
+/**
+ * Anything a grid can be restored from: a Grid, its JSON form, a structured
+ * clone (history state, postMessage) or the nested arrays of older map files
+ */
+export type GridSource =
+  | Grid
+  | SerializedGrid
+  | { width: number; height: number; cells: Uint8Array }
+  | number[][];
+
+// Offsets of the 4 orthogonal and 8 surrounding neighbours
+const ORTHOGONAL: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const SURROUNDING: [number, number][] = [...ORTHOGONAL, [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+/**
+ * Grid of cell codes stored row by row in one byte per cell.
+ *
+ * Cell codes are the terrain enums (TerrainCell, ForestCell, TownCell, ...),
+ * all of which fit in a byte. Accessors are bounds-checked, and flood fill and
+ * neighbour counting work on indices with typed-array bookkeeping instead of
+ * "x,y" string keys, so large maps stay fast and small.
+ *
+ * @template T - Cell code type (defaults to number)
+ */
+export class Grid<T extends number = number> {
+  readonly width: number;
+  readonly height: number;
+  readonly cells: Uint8Array;
+
+  // fillValue is a plain number so it doesn't narrow T to a literal type
+  constructor(width: number, height: number, fillValue: number = 0, cells?: Uint8Array) {
+    if (cells && cells.length !== width * height) {
+      throw new RangeError(`Grid cells length ${cells.length} does not match ${width}x${height}`);
+    }
+    this.width = width;
+    this.height = height;
+    this.cells = cells ?? new Uint8Array(width * height);
+    if (!cells && fillValue !== 0) {
+      this.cells.fill(fillValue);
+    }
+  }
+
+  /**
+   * Restore a grid from any supported source (see GridSource)
+   */
+  static from<T extends number = number>(source: GridSource): Grid<T> {
+    if (source instanceof Grid) {
+      return source as Grid<T>;
+    }
+    if (Array.isArray(source)) {
+      return this.fromArray<T>(source);
+    }
+    const cells = typeof source.cells === 'string' ? this.decode(source.cells) : source.cells;
+    return new Grid<T>(source.width, source.height, 0, cells);
+  }
+
+  /**
+   * Build a grid from nested [y][x] arrays
+   */
+  static fromArray<T extends number = number>(rows: number[][]): Grid<T> {
+    const height = rows.length;
+    const width = height > 0 ? rows[0].length : 0;
+    const grid = new Grid<T>(width, height);
+    for (let y = 0; y < height; y++) {
+      grid.cells.set(rows[y], y * width);
+    }
+    return grid;
+  }
+
+  inBounds(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
+  }
+
+  // Index of a cell in the backing array
+  index(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  // Cell coordinates for a backing array index
+  point(index: number): { x: number; y: number } {
+    return { x: index % this.width, y: Math.floor(index / this.width) };
+  }
+
+  get(x: number, y: number): T {
+    this.assertInBounds(x, y);
+    return this.cells[y * this.width + x] as T;
+  }
+
+  /**
+   * Read a cell, returning the given value for coordinates off the grid
+   */
+  getOr(x: number, y: number, outside: T): T {
+    return this.inBounds(x, y) ? this.cells[y * this.width + x] as T : outside;
+  }
+
+  set(x: number, y: number, value: T): void {
+    this.assertInBounds(x, y);
+    this.cells[y * this.width + x] = value;
+  }
+
+  fill(value: T): this {
+    this.cells.fill(value);
+    return this;
+  }
+
+  /**
+   * Fill a rectangle, clipped to the grid
+   */
+  fillRect(x: number, y: number, width: number, height: number, value: T): void {
+    const x0 = Math.max(0, x);
+    const x1 = Math.min(this.width, x + width);
+    if (x1 <= x0) return;
+    for (let row = Math.max(0, y); row < Math.min(this.height, y + height); row++) {
+      this.cells.fill(value, row * this.width + x0, row * this.width + x1);
+    }
+  }
+
+  clone(): Grid<T> {
+    return new Grid<T>(this.width, this.height, 0, this.cells.slice());
+  }
+
+  // Number of cells holding a value
+  count(value: T): number {
+    let total = 0;
+    for (let i = 0; i < this.cells.length; i++) {
+      if (this.cells[i] === value) total++;
+    }
+    return total;
+  }
+
+  /**
+   * Count the 8 surrounding cells holding a value; cells off the grid count when outsideMatches is set
+   */
+  countNeighbors(x: number, y: number, value: T, outsideMatches = true): number {
+    let total = 0;
+    for (const [dx, dy] of SURROUNDING) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (this.inBounds(nx, ny) ? this.cells[ny * this.width + nx] === value : outsideMatches) {
+        total++;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Indices of all cells connected to (x, y) whose value passes match.
+   * Uses 4-connectivity unless diagonal is set.
+   */
+  floodFill(x: number, y: number, match: (cell: T) => boolean, diagonal = false, visited?: Uint8Array): number[] {
+    if (!this.inBounds(x, y) || !match(this.cells[y * this.width + x] as T)) {
+      return [];
+    }
+
+    const seen = visited ?? new Uint8Array(this.cells.length);
+    const offsets = diagonal ? SURROUNDING : ORTHOGONAL;
+    const start = y * this.width + x;
+    if (seen[start]) return [];
+    seen[start] = 1;
+
+    // The region doubles as the BFS queue: cells are appended when first seen
+    const region: number[] = [start];
+    for (let head = 0; head < region.length; head++) {
+      const current = region[head];
+      const cx = current % this.width;
+      const cy = (current - cx) / this.width;
+
+      for (const [dx, dy] of offsets) {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (!this.inBounds(nx, ny)) continue;
+        const next = ny * this.width + nx;
+        if (!seen[next] && match(this.cells[next] as T)) {
+          seen[next] = 1;
+          region.push(next);
+        }
+      }
+    }
+
+    return region;
+  }
+
+  /**
+   * All connected regions of cells passing match, largest first
+   */
+  regions(match: (cell: T) => boolean, diagonal = false): number[][] {
+    const visited = new Uint8Array(this.cells.length);
+    const regions: number[][] = [];
+    for (let i = 0; i < this.cells.length; i++) {
+      if (!visited[i] && match(this.cells[i] as T)) {
+        regions.push(this.floodFill(i % this.width, Math.floor(i / this.width), match, diagonal, visited));
+      }
+    }
+    return regions.sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Nested [y][x] arrays, for code and file formats that need plain arrays
+   */
+  toArray(): number[][] {
+    const rows: number[][] = [];
+    for (let y = 0; y < this.height; y++) {
+      rows.push(Array.from(this.cells.subarray(y * this.width, (y + 1) * this.width)));
+    }
+    return rows;
+  }
+
+  toJSON(): SerializedGrid {
+    return { width: this.width, height: this.height, cells: Grid.encode(this.cells) };
+  }
+
+  private assertInBounds(x: number, y: number): void {
+    if (!this.inBounds(x, y)) {
+      throw new RangeError(`Cell (${x}, ${y}) is outside the ${this.width}x${this.height} grid`);
+    }
+  }
+
+  private static encode(bytes: Uint8Array): string {
+    // Chunked so large grids don't overflow the argument limit of fromCharCode
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return btoa(binary);
+  }
+
+  private static decode(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Compatibility adapter for map data that arrives as plain JSON or a
+ * structured clone: restores every grid in the map to a Grid instance
+ */
+export class GridAdapter {
+  static reviveMapData<TData extends MapData>(mapData: TData): TData {
+    const raw = mapData as unknown as {
+      grid?: GridSource;
+      floors?: { grid: GridSource }[];
+      hexGrid?: { cells: GridSource };
+      tileMap?: { cells: GridSource };
+    };
+    return {
+      ...mapData,
+      grid: raw.grid ? Grid.from(raw.grid) : undefined,
+      floors: raw.floors?.map(floor => ({ ...floor, grid: Grid.from(floor.grid) })),
+      hexGrid: raw.hexGrid ? { ...raw.hexGrid, cells: Grid.from(raw.hexGrid.cells) } : undefined,
+      tileMap: raw.tileMap ? { ...raw.tileMap, cells: Grid.from(raw.tileMap.cells) } : undefined
+    };
+  }
+}
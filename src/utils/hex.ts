@@ -0,0 +1,171 @@
+// Hexagonal grid math for pointy-top and flat-top layouts
+// Based on axial coordinates with "odd" offset rows/columns for storage
+
+import { Point } from '../types/generator';
+import { HexOrientation } from '../types/map';
+import { Grid } from './grid';
+
+// Offset coordinates: column/row in the stored grid (odd rows shifted for pointy, odd columns for flat)
+export interface HexCell {
+  col: number;
+  row: number;
+}
+
+interface Axial {
+  q: number;
+  r: number;
+}
+
+const SQRT3 = Math.sqrt(3);
+
+/**
+ * Hex grid helpers used by the canvas overlay, object snapping, the SVG exporter
+ * and the forest/cave hex quantiser.
+ *
+ * Sizing: a hex's `size` is its circumradius. For a given square `cellSize` we use
+ * size = cellSize / sqrt(3), so pointy-top hexes are exactly one cell wide and
+ * flat-top hexes exactly one cell tall.
+ *
+ * Layout: hex (0, 0) sits flush with the top-left corner of the map, so
+ * pixel (0, 0) is the top-left of its bounding box.
+ */
+export class HexUtils {
+  // Circumradius of the hex that replaces a square cell of the given size
+  static sizeForCell(cellSize: number): number {
+    return cellSize / SQRT3;
+  }
+
+  // Centre of a hex in pixels
+  static hexToPixel(cell: HexCell, size: number, orientation: HexOrientation): Point {
+    const { q, r } = this.offsetToAxial(cell, orientation);
+    if (orientation === 'pointy') {
+      return {
+        x: size * SQRT3 * (q + r / 2) + (size * SQRT3) / 2,
+        y: size * 1.5 * r + size
+      };
+    }
+    return {
+      x: size * 1.5 * q + size,
+      y: size * SQRT3 * (r + q / 2) + (size * SQRT3) / 2
+    };
+  }
+
+  // Hex containing a pixel position
+  static pixelToHex(point: Point, size: number, orientation: HexOrientation): HexCell {
+    let q: number;
+    let r: number;
+    if (orientation === 'pointy') {
+      const x = point.x - (size * SQRT3) / 2;
+      const y = point.y - size;
+      q = ((SQRT3 / 3) * x - y / 3) / size;
+      r = ((2 / 3) * y) / size;
+    } else {
+      const x = point.x - size;
+      const y = point.y - (size * SQRT3) / 2;
+      q = ((2 / 3) * x) / size;
+      r = (-x / 3 + (SQRT3 / 3) * y) / size;
+    }
+    return this.axialToOffset(this.roundAxial({ q, r }), orientation);
+  }
+
+  // Corner points of a hex, clockwise from the first corner
+  static hexCorners(center: Point, size: number, orientation: HexOrientation): Point[] {
+    const startAngle = orientation === 'pointy' ? -90 : 0;
+    return Array.from({ length: 6 }, (_, i) => {
+      const angle = ((startAngle + 60 * i) * Math.PI) / 180;
+      return { x: center.x + size * Math.cos(angle), y: center.y + size * Math.sin(angle) };
+    });
+  }
+
+  // Number of hex columns and rows needed to cover a pixel area
+  static gridDimensions(width: number, height: number, size: number, orientation: HexOrientation): { cols: number; rows: number } {
+    if (orientation === 'pointy') {
+      return {
+        cols: Math.max(1, Math.ceil(width / (size * SQRT3))),
+        rows: Math.max(1, Math.ceil((height - size / 2) / (size * 1.5)))
+      };
+    }
+    return {
+      cols: Math.max(1, Math.ceil((width - size / 2) / (size * 1.5))),
+      rows: Math.max(1, Math.ceil(height / (size * SQRT3)))
+    };
+  }
+
+  /**
+   * Resample a square grid onto hex cells (one hex per square cell width/height)
+   * Each hex takes the most common value among the square cells whose centres fall
+   * inside it, falling back to the cell under its centre
+   */
+  static quantizeGrid(grid: Grid, orientation: HexOrientation): Grid {
+    const { width, height } = grid;
+    const size = this.sizeForCell(1);
+    const { cols, rows } = this.gridDimensions(width, height, size, orientation);
+
+    const tallies: Map<number, number>[] = Array.from({ length: rows * cols }, () => new Map<number, number>());
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const { col, row } = this.pixelToHex({ x: x + 0.5, y: y + 0.5 }, size, orientation);
+        if (row < 0 || row >= rows || col < 0 || col >= cols) continue;
+        const tally = tallies[row * cols + col];
+        const cell = grid.get(x, y);
+        tally.set(cell, (tally.get(cell) ?? 0) + 1);
+      }
+    }
+
+    const cells = new Grid(cols, rows);
+    tallies.forEach((tally, index) => {
+      const col = index % cols;
+      const row = (index - col) / cols;
+      let best = -1;
+      let bestCount = 0;
+      tally.forEach((count, value) => {
+        if (count > bestCount || (count === bestCount && value < best)) {
+          best = value;
+          bestCount = count;
+        }
+      });
+      if (bestCount > 0) {
+        cells.set(col, row, best);
+        return;
+      }
+
+      const center = this.hexToPixel({ col, row }, size, orientation);
+      const x = Math.min(width - 1, Math.floor(center.x));
+      const y = Math.min(height - 1, Math.floor(center.y));
+      cells.set(col, row, grid.get(x, y));
+    });
+    return cells;
+  }
+
+  private static offsetToAxial(cell: HexCell, orientation: HexOrientation): Axial {
+    if (orientation === 'pointy') {
+      return { q: cell.col - (cell.row - (cell.row & 1)) / 2, r: cell.row };
+    }
+    return { q: cell.col, r: cell.row - (cell.col - (cell.col & 1)) / 2 };
+  }
+
+  private static axialToOffset(axial: Axial, orientation: HexOrientation): HexCell {
+    if (orientation === 'pointy') {
+      return { col: axial.q + (axial.r - (axial.r & 1)) / 2, row: axial.r };
+    }
+    return { col: axial.q, row: axial.r + (axial.q - (axial.q & 1)) / 2 };
+  }
+
+  // Round fractional axial coordinates to the nearest hex (via cube coordinates)
+  private static roundAxial(axial: Axial): Axial {
+    const s = -axial.q - axial.r;
+    let q = Math.round(axial.q);
+    let r = Math.round(axial.r);
+    const rs = Math.round(s);
+
+    const dq = Math.abs(q - axial.q);
+    const dr = Math.abs(r - axial.r);
+    const ds = Math.abs(rs - s);
+    if (dq > dr && dq > ds) {
+      q = -r - rs;
+    } else if (dr > ds) {
+      r = -q - rs;
+    }
+    return { q: q + 0, r: r + 0 }; // + 0 drops negative zero
+  }
+}
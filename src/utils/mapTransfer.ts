@@ -0,0 +1,55 @@
+// Packing of MapData grids into transferable buffers for posting between threads
+
+import { MapData, HouseFloor, HexGridData, TileMap } from '../types/generator';
+import { Grid, GridAdapter } from './grid';
+
+/**
+ * A grid reduced to its size and byte buffer so it survives structured cloning
+ */
+export interface PackedGrid {
+  width: number;
+  height: number;
+  cells: Uint8Array;
+}
+
+export interface PackedMapData extends Omit<MapData, 'grid' | 'floors' | 'hexGrid' | 'tileMap'> {
+  grid?: PackedGrid;
+  floors?: (Omit<HouseFloor, 'grid'> & { grid: PackedGrid })[];
+  hexGrid?: Omit<HexGridData, 'cells'> & { cells: PackedGrid };
+  tileMap?: Omit<TileMap, 'cells'> & { cells: PackedGrid };
+}
+
+/**
+ * Strips the Grid instances of a map down to their Uint8Array buffers so
+ * postMessage can transfer them instead of copying, and rebuilds them on arrival
+ */
+export class MapTransfer {
+  /**
+   * Pack a map and list the buffers to pass as postMessage transferables
+   */
+  static pack(mapData: MapData): { packed: PackedMapData; transfer: ArrayBuffer[] } {
+    // The ground floor grid is shared with the top-level grid; each buffer may only be listed once
+    const transfer = new Set<ArrayBuffer>();
+    const packGrid = (grid: Grid): PackedGrid => {
+      transfer.add(grid.cells.buffer as ArrayBuffer);
+      return { width: grid.width, height: grid.height, cells: grid.cells };
+    };
+
+    const { grid, floors, hexGrid, tileMap, ...rest } = mapData;
+    const packed: PackedMapData = {
+      ...rest,
+      grid: grid ? packGrid(grid) : undefined,
+      floors: floors?.map(floor => ({ ...floor, grid: packGrid(floor.grid) })),
+      hexGrid: hexGrid ? { ...hexGrid, cells: packGrid(hexGrid.cells) } : undefined,
+      tileMap: tileMap ? { ...tileMap, cells: packGrid(tileMap.cells) } : undefined
+    };
+    return { packed, transfer: Array.from(transfer) };
+  }
+
+  /**
+   * Rebuild the Grid instances of a packed map
+   */
+  static unpack(packed: PackedMapData): MapData {
+    return GridAdapter.reviveMapData(packed as unknown as MapData);
+  }
+}
@@ -0,0 +1,120 @@
+// Colours shared by the canvas renderer and the vector (SVG) export
+
+// Terrain color palette - distinct colors for each element type
+export const TERRAIN_COLORS = {
+  // Rooms/Buildings - warm brown tones
+  room: '#8b7355',
+  roomStroke: '#6a5a45',
+  roomNumber: '#f5f0e1',
+  
+  // Corridors - neutral gray
+  corridor: '#6a6a6a',
+  corridorStroke: '#5a5a5a',
+  
+  // Trees - dark forest green
+  tree: '#2d5016',
+  treeStroke: '#1f3810',
+  
+  // Cave walls - very dark blue-black
+  wall: '#1a1a2a',
+  wallEdge: '#2a2a3a',
+  
+  // Cave floors - medium light gray
+  floor: '#6a6a7a',
+  floorVariation: 'rgba(110, 110, 130, 0.4)',
+  
+  // Town - cobbles, roofs and harbor water
+  street: '#a89f91',
+  plaza: '#c9bfa8',
+  townWall: '#5a5048',
+  water: '#4a7fa8',
+  deepWater: '#23527a',
+  lava: '#e2531c',
+  chasm: '#07070c',
+  chasmEdge: '#3a3a4a',
+  rubble: '#7a7268',
+  rubbleStone: '#4e4840',
+  ruin: '#8a8a80',
+  criticalPath: '#ffc107',
+  goal: '#e53935',
+  entrance: '#43a047',
+  deadEnd: '#64b5f6',
+  feature: '#8e44ad',
+  dmObject: {
+    monster: '#c62828',
+    trap: '#ef6c00',
+    treasure: '#f9a825',
+    npc: '#1565c0',
+    environment: '#2e7d32'
+  },
+  hiddenArea: '#607d8b',
+  bank: '#6e5c44',
+  dock: '#8a6a42',
+  roof: {
+    house: '#a0522d',
+    shop: '#b5763a',
+    tavern: '#8b3a2a',
+    temple: '#c8c0b0',
+    warehouse: '#6e5a44',
+    keep: '#5f5f6a'
+  } as Record<string, string>,
+  roofStroke: '#3e2a1c',
+
+  // Doors
+  door: '#6b4423',
+  doorStroke: '#3a2412',
+  doorLock: '#d4af37',
+  secretDoor: '#c04040',
+
+  // House stairs
+  stairs: '#d8c8a8',
+  stairsStroke: '#4a3a2a',
+  
+  // Background colors by terrain type
+  background: {
+    forest: '#e8f5e9',
+    cave: '#1a1a1a',
+    dungeon: '#2a2a2a',
+    house: '#f5f5dc',
+    town: '#b8c99a'
+  }
+};
+
+// Per-subtype overrides of the terrain palette (keyed by subtype value)
+export interface SubtypeTheme {
+  background?: string;
+  floor?: string; // Cave floor, dungeon/house room floor
+  corridor?: string;
+  wall?: string;
+  wallEdge?: string;
+  treeHue?: number; // Base hue for forest canopies
+}
+
+export const SUBTYPE_THEMES: Record<string, SubtypeTheme> = {
+  // House
+  cottage: { floor: '#a0825f' },
+  manor: { floor: '#9c6b50', corridor: '#c9b48a' },
+  inn: { floor: '#8f6a45' },
+  castle: { floor: '#8c8c8c', wall: '#5a5a5a', wallEdge: '#6a6a6a', background: '#d8d8d0' },
+  wizard_tower: { floor: '#6f5f8f', wall: '#3e3550', background: '#e6e0f0' },
+  // Forest
+  dense_forest: { treeHue: 100, background: '#d7e8d0' },
+  enchanted_grove: { treeHue: 150, background: '#e3f2f0' },
+  woodland_trail: { treeHue: 80 },
+  sacred_grove: { treeHue: 65, background: '#f3f0d8' },
+  overgrown_ruins: { treeHue: 95, background: '#e0e6d2' },
+  // Cave
+  crystal_cave: { floor: '#6a6a8e', wall: '#2a1f4a', wallEdge: '#7b5fc0' },
+  lava_tubes: { floor: '#5a4a48', wall: '#1f1010', wallEdge: '#5a2a1a' },
+  underground_lake: { floor: '#5e6a78' },
+  mine: { floor: '#7a6650', wall: '#2a2018', wallEdge: '#4a3a2a' },
+  // Dungeon
+  crypts: { floor: '#6e6a66', corridor: '#5a5652', wall: '#1e1c1a' },
+  prison: { floor: '#6a6a6a', wall: '#262626' },
+  temple: { floor: '#9a9080', corridor: '#847a6c', wall: '#2e2a24' },
+  sewer: { floor: '#5f6650', corridor: '#56604a', wall: '#1f231a' },
+  ancient_ruins: { floor: '#857a66', wall: '#2f2a22', wallEdge: '#4a4232' },
+  // Town
+  market_district: { background: '#c8c0a0' },
+  walled_city: { background: '#c0bfa8' }
+};
@@ -0,0 +1,133 @@
+// Minimal PDF writer: pages of JPEG images, lines and Helvetica text
+// Enough for printable map exports without a PDF library or a server
+
+export interface PdfImage {
+  name: string; // Resource name used by the page content (e.g. "Map")
+  jpeg: Uint8Array; // Baseline JPEG bytes, embedded as-is (DCTDecode)
+  width: number; // Pixels
+  height: number;
+}
+
+interface PdfPage {
+  width: number; // Points (1/72 inch)
+  height: number;
+  content: string; // Content stream operators
+  images: PdfImage[];
+}
+
+/**
+ * Builds a PDF 1.4 document in memory.
+ *
+ * Page content is written with PDF operators, origin at the bottom-left corner and
+ * units in points; the helpers below cover what the exports draw. Text uses the
+ * built-in Helvetica font, so only Latin-1 characters print.
+ */
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+
+  addPage(width: number, height: number, content: string, images: PdfImage[] = []): void {
+    this.pages.push({ width, height, content, images });
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Draw an image resource into the box (x, y) - (x + width, y + height)
+   */
+  static image(name: string, x: number, y: number, width: number, height: number): string {
+    return `q ${this.num(width)} 0 0 ${this.num(height)} ${this.num(x)} ${this.num(y)} cm /${name} Do Q\n`;
+  }
+
+  static line(x1: number, y1: number, x2: number, y2: number): string {
+    return `${this.num(x1)} ${this.num(y1)} m ${this.num(x2)} ${this.num(y2)} l S\n`;
+  }
+
+  static text(x: number, y: number, size: number, text: string): string {
+    const escaped = text.replace(/[\\()]/g, match => `\\${match}`).replace(/[^\x20-\xff]/g, '?');
+    return `BT /F1 ${this.num(size)} Tf ${this.num(x)} ${this.num(y)} Td (${escaped}) Tj ET\n`;
+  }
+
+  /**
+   * Stroke settings: width in points, grey level (0 black - 1 white) and an optional dash
+   */
+  static stroke(width: number, grey: number = 0, dash: number[] = []): string {
+    return `${this.num(width)} w ${this.num(grey)} G [${dash.map(d => this.num(d)).join(' ')}] 0 d\n`;
+  }
+
+  toBytes(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? PdfDocument.latin1(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, ...parts: (string | Uint8Array)[]) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+      parts.forEach(write);
+      write('\nendobj\n');
+    };
+
+    // Objects: 1 catalog, 2 page tree, 3 font, then page, content and images per page
+    const pageIds: number[] = [];
+    let nextId = 4;
+    const layout = this.pages.map(page => {
+      const ids = { page: nextId++, content: nextId++, images: page.images.map(() => nextId++) };
+      pageIds.push(ids.page);
+      return ids;
+    });
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+    this.pages.forEach((page, index) => {
+      const ids = layout[index];
+      const xObjects = page.images.map((image, i) => `/${image.name} ${ids.images[i]} 0 R`).join(' ');
+      object(
+        ids.page,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PdfDocument.num(page.width)} ${PdfDocument.num(page.height)}] ` +
+          `/Resources << /Font << /F1 3 0 R >> /XObject << ${xObjects} >> >> /Contents ${ids.content} 0 R >>`
+      );
+      object(ids.content, `<< /Length ${page.content.length} >>\nstream\n`, page.content, '\nendstream');
+      page.images.forEach((image, i) => {
+        object(
+          ids.images[i],
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+            `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`,
+          image.jpeg,
+          '\nendstream'
+        );
+      });
+    });
+
+    const xref = length;
+    const count = nextId;
+    write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  }
+
+  private static latin1(text: string): Uint8Array {
+    return Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+  }
+
+  private static num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+}
@@ -0,0 +1,100 @@
+// Permalinks: terrain, preset, parameters and seed encoded in the URL query string
+// Opening a permalink reproduces the exact map it was made from
+
+import { GeneratorParameters, TerrainType } from '../types/generator';
+import { GeneratorRegistry, MAP_SIZE_PARAMETERS } from '../generators';
+import { getPresetByName } from './presets';
+import { SeededRandom } from './random';
+
+export interface PermalinkState {
+  terrain: TerrainType;
+  preset?: string; // Preset the parameters started from; decoding layers the link over it
+  endless?: boolean; // A chunked map grown from chunk (0, 0), not one bounded map
+  parameters: GeneratorParameters;
+}
+
+// Keys written first, in this order; the remaining parameters follow alphabetically
+const LEADING_KEYS = ['terrain', 'preset', 'endless', 'seed', 'width', 'height'];
+
+/**
+ * Encodes generation settings as a query string (?terrain=Cave&seed=goblin-cave-7&...)
+ * and decodes them back.
+ *
+ * Only scalar parameters are encoded; lists such as workspace prefabs or overworld POIs
+ * come from the workspace, not the link. Values read back as booleans ("true"/"false"),
+ * numbers or strings, and the seed keeps its readable form. Numbers are clamped to the
+ * generator's parameter ranges, so a hand-edited link can't ask for a map too big to build.
+ * Endless maps carry endless=true; opening one rebuilds the chunked map from chunk (0, 0).
+ */
+export class Permalink {
+  static encode(state: PermalinkState): string {
+    const params = new URLSearchParams();
+    params.set('terrain', state.terrain);
+    if (state.preset) {
+      params.set('preset', state.preset);
+    }
+    if (state.endless) {
+      params.set('endless', 'true');
+    }
+
+    const scalars = Object.entries(state.parameters)
+      .filter(([, value]) => value !== undefined && value !== null && typeof value !== 'object')
+      .sort(([a], [b]) => this.order(a) - this.order(b) || a.localeCompare(b));
+    for (const [key, value] of scalars) {
+      params.set(key, String(value));
+    }
+    return `?${params.toString()}`;
+  }
+
+  /**
+   * Settings from a query string, or undefined when it holds no (registered) terrain
+   */
+  static decode(search: string): PermalinkState | undefined {
+    const params = new URLSearchParams(search);
+    const terrain = params.get('terrain') as TerrainType | null;
+    const definition = terrain ? GeneratorRegistry.get(terrain) : undefined;
+    if (!terrain || !definition) return undefined;
+
+    const presetName = params.get('preset') ?? undefined;
+    const preset = presetName ? getPresetByName(presetName) : undefined;
+    const parameters: Record<string, unknown> = {
+      ...(preset?.terrainType === terrain ? preset.parameters : {})
+    };
+    params.forEach((value, key) => {
+      if (key === 'terrain' || key === 'preset' || key === 'endless') return;
+      parameters[key] = key === 'seed' ? SeededRandom.parse(value) : this.parseValue(value);
+    });
+
+    // Values that aren't finite numbers fall back to the defaults; a size that isn't rejects the link
+    for (const param of [...MAP_SIZE_PARAMETERS, ...definition.parameters]) {
+      const value = parameters[param.key];
+      if (param.type !== 'number' || value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        delete parameters[param.key];
+      } else {
+        parameters[param.key] = Math.min(param.max ?? value, Math.max(param.min ?? value, value));
+      }
+    }
+
+    const width = Number(parameters.width);
+    const height = Number(parameters.height);
+    if (!(width > 0) || !(height > 0)) return undefined;
+
+    return {
+      terrain,
+      preset: preset?.terrainType === terrain ? presetName : undefined,
+      endless: params.get('endless') === 'true' || undefined,
+      parameters: { ...parameters, width, height } as GeneratorParameters
+    };
+  }
+
+  private static parseValue(value: string): boolean | number | string {
+    if (value === 'true' || value === 'false') return value === 'true';
+    return value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : value;
+  }
+
+  private static order(key: string): number {
+    const index = LEADING_KEYS.indexOf(key);
+    return index === -1 ? LEADING_KEYS.length : index;
+  }
+}
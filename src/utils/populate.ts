@@ -0,0 +1,243 @@
+// Auto-populate: monsters, traps and treasure scattered across a generated map
+// Objects are DM-only until revealed; everything is drawn from the map's seed
+
+import { MapData, PathPoint, TerrainType } from '../types/generator';
+import { DMObject } from '../types/dm';
+import { EncounterInfo } from '../types/campaign';
+import { ConnectivityUtils } from './connectivity';
+import { PoissonDiskSampling } from './poisson';
+import { SeededRandom } from './random';
+import { WALKABLE } from './constraints';
+import { Grid } from './grid';
+
+type Difficulty = EncounterInfo['difficulty'];
+
+const DIFFICULTIES: Difficulty[] = ['trivial', 'easy', 'medium', 'hard', 'deadly'];
+const GROUP_SIZE: Record<Difficulty, number> = { trivial: 1, easy: 2, medium: 3, hard: 4, deadly: 5 };
+const TRAPS = ['Tripwire', 'Pit trap', 'Poison darts', 'Collapsing ceiling', 'Glyph of warding'];
+const TREASURES = ['Scattered coins', 'Locked chest', 'Hidden cache', 'Strongbox', 'Treasure hoard'];
+const SAFE_DISTANCE = 6; // Steps from the entrance kept clear of monsters and traps
+
+export interface PopulateOptions {
+  difficultyRating?: number; // PointOfInterest.difficultyRating, 1-10 (default: 5)
+  encounters?: EncounterInfo[]; // POI encounters placed before generated ones
+  spacing?: number; // Minimum distance between monster groups (default: 6)
+  seed?: number; // Defaults to the map's seed
+}
+
+/**
+ * Scatters monster, trap and treasure DMObjects across a map.
+ *
+ * Algorithm:
+ * 1. Measure walking distances from the entrance over the main walkable region
+ * 2. Budget groups, traps and treasure from the room count (or floor area) and
+ *    the difficulty rating; POI encounters fill the first slots
+ * 3. Monster groups anchor on Poisson disk samples, one per room where there
+ *    are rooms; harder groups get the anchors farthest from the entrance and
+ *    group size follows difficulty
+ * 4. Traps go on corridor chokepoints and doorways (cells walkable only on two
+ *    opposite sides), kept the same spacing apart
+ * 5. Treasure goes in dead-end rooms, then the rooms farthest from the entrance;
+ *    without rooms, in dead-end cells and far samples
+ *
+ * Objects attached to stamped prefabs come first and keep their cells.
+ */
+export class MapPopulator {
+  static populate(mapData: MapData, options: PopulateOptions = {}): DMObject[] {
+    const grid = mapData.grid;
+    if (!grid) return [];
+
+    const seed = options.seed ?? mapData.seed ?? 0;
+    const random = new SeededRandom(seed);
+    const rating = Math.min(10, Math.max(1, options.difficultyRating ?? 5));
+    const walkable = WALKABLE[mapData.terrainType ?? TerrainType.Dungeon];
+    const rooms = mapData.rooms ?? [];
+    const roomAt = ConnectivityUtils.roomIndexGrid(grid, rooms);
+
+    // Step 1: Distances from the entrance
+    const [region = []] = grid.regions(walkable);
+    if (region.length === 0) return [];
+    const entrance = mapData.progression?.entrance ?? mapData.entrance ?? grid.point(region[0]);
+    const { distances } = ConnectivityUtils.walkingDistances(grid, entrance, walkable);
+    let farthest = 1;
+    for (let i = 0; i < distances.length; i++) {
+      farthest = Math.max(farthest, distances[i]);
+    }
+    const entranceRoom = mapData.progression?.entranceRoom;
+
+    // Step 2: Budget
+    const scale = 0.5 + rating / 10;
+    const sites = rooms.length > 0 ? rooms.length : Math.max(3, Math.round(region.length / 250));
+    const encounters = options.encounters ?? [];
+    const combat = encounters.filter(encounter => encounter.type === 'combat');
+    const traps = encounters.filter(encounter => encounter.type === 'trap');
+    const groupCount = Math.max(combat.length, Math.max(1, Math.round(sites * 0.4 * scale)));
+    const trapCount = Math.max(traps.length, Math.round(sites * 0.25 * scale));
+    const treasureCount = Math.max(1, Math.round(sites * 0.3));
+
+    const objects: DMObject[] = (mapData.prefabs ?? []).reduce<DMObject[]>((all, prefab) => all.concat(prefab.objects), []);
+    const occupied = new Set(objects.map(o => grid.index(o.x, o.y)));
+    const add = (category: DMObject['category'], index: number, name: string, notes: string) => {
+      const { x, y } = grid.point(index);
+      occupied.add(index);
+      objects.push({
+        id: `auto-${category}-${objects.filter(o => o.category === category && o.id.startsWith('auto-')).length + 1}`,
+        spriteId: `auto:${category}`,
+        x,
+        y,
+        category,
+        visibleToPlayers: false,
+        name,
+        notes,
+        scaleX: 1,
+        scaleY: 1,
+        rotation: 0,
+        zIndex: 10
+      });
+    };
+    const clearOf = (index: number, category: DMObject['category'], gap: number) => {
+      const { x, y } = grid.point(index);
+      return objects.every(o => o.category !== category || Math.max(Math.abs(o.x - x), Math.abs(o.y - y)) >= gap);
+    };
+
+    // Step 3: Monster groups on Poisson samples, one per room, hardest farthest in
+    const spacing = options.spacing ?? 6;
+    const samples = new PoissonDiskSampling(grid.width, grid.height, spacing, seed).generate()
+      .map(point => grid.index(Math.floor(point.x), Math.floor(point.y)))
+      .filter(index => distances[index] >= SAFE_DISTANCE && roomAt[index] !== entranceRoom);
+    const anchors: number[] = [];
+    const usedRooms = new Set<number>();
+    for (const index of random.shuffle(samples)) {
+      if (rooms.length > 0) {
+        if (roomAt[index] === -1 || usedRooms.has(roomAt[index])) continue;
+        usedRooms.add(roomAt[index]);
+      }
+      anchors.push(index);
+      if (anchors.length === groupCount) break;
+    }
+    anchors.sort((a, b) => distances[a] - distances[b]);
+
+    const groups = Array.from({ length: anchors.length }, (_, i) => {
+      const encounter = combat[i];
+      const depth = distances[anchors[i]] / farthest;
+      const difficulty = encounter?.difficulty ?? this.difficultyFor(rating, depth);
+      return { encounter, difficulty };
+    }).sort((a, b) => DIFFICULTIES.indexOf(a.difficulty) - DIFFICULTIES.indexOf(b.difficulty));
+
+    groups.forEach(({ encounter, difficulty }, i) => {
+      const name = encounter ? encounter.description : `${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)} encounter`;
+      const members = this.cellsAround(grid, anchors[i], GROUP_SIZE[difficulty], index =>
+        distances[index] > 0 && !occupied.has(index) && (rooms.length === 0 || roomAt[index] === roomAt[anchors[i]])
+      );
+      members.forEach((index, member) => {
+        add('monster', index, name, `${difficulty} (${member + 1}/${members.length})${encounter?.triggerCondition ? `; ${encounter.triggerCondition}` : ''}`);
+      });
+    });
+
+    // Step 4: Traps on chokepoints
+    const chokepoints = region.filter(index =>
+      distances[index] >= SAFE_DISTANCE && !occupied.has(index) && this.isChokepoint(grid, index, walkable)
+    );
+    for (let i = 0; i < trapCount; i++) {
+      const open = chokepoints.filter(index => !occupied.has(index) && clearOf(index, 'trap', spacing));
+      if (open.length === 0) break;
+      const trap = traps[i];
+      const difficulty = trap?.difficulty ?? this.difficultyFor(rating, random.next());
+      const index = random.choice(open);
+      add('trap', index, trap ? trap.description : TRAPS[DIFFICULTIES.indexOf(difficulty)], difficulty);
+    }
+
+    // Step 5: Treasure in dead ends and far rooms
+    const treasureSites = this.treasureSites(grid, mapData, roomAt, distances, region, walkable);
+    for (const index of treasureSites) {
+      if (objects.filter(o => o.category === 'treasure').length >= treasureCount) break;
+      if (occupied.has(index) || !clearOf(index, 'treasure', spacing)) continue;
+      const depth = distances[index] / farthest;
+      add('treasure', index, TREASURES[Math.min(TREASURES.length - 1, Math.floor(depth * TREASURES.length))], `${Math.round(depth * 100)}% of the way in`);
+    }
+
+    console.log(`[MapPopulator] Placed ${objects.length} objects (difficulty ${rating}): ${groups.length} groups, ${objects.filter(o => o.category === 'trap').length} traps, ${objects.filter(o => o.category === 'treasure').length} treasures`);
+    return objects;
+  }
+
+  /**
+   * Encounter difficulty from the POI rating, harder deeper in
+   */
+  private static difficultyFor(rating: number, depth: number): Difficulty {
+    const base = Math.round(((rating - 1) / 9) * 3);
+    return DIFFICULTIES[Math.min(DIFFICULTIES.length - 1, base + Math.floor(depth * 1.99))];
+  }
+
+  /**
+   * Up to count cells nearest the anchor (the anchor first) that pass the filter
+   */
+  private static cellsAround(grid: Grid, anchor: number, count: number, accept: (index: number) => boolean): number[] {
+    const centre = grid.point(anchor);
+    const cells: { index: number; distance: number }[] = [];
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        const x = centre.x + dx;
+        const y = centre.y + dy;
+        if (!grid.inBounds(x, y)) continue;
+        const index = grid.index(x, y);
+        if (accept(index)) cells.push({ index, distance: dx * dx + dy * dy });
+      }
+    }
+    return cells.sort((a, b) => a.distance - b.distance || a.index - b.index).slice(0, count).map(cell => cell.index);
+  }
+
+  /**
+   * Walkable on exactly two opposite sides: corridors, doorways and narrow passages
+   */
+  private static isChokepoint(grid: Grid, index: number, walkable: (cell: number) => boolean): boolean {
+    const { x, y } = grid.point(index);
+    const open = (px: number, py: number) => grid.inBounds(px, py) && walkable(grid.get(px, py));
+    const horizontal = open(x - 1, y) && open(x + 1, y);
+    const vertical = open(x, y - 1) && open(x, y + 1);
+    return (horizontal && !open(x, y - 1) && !open(x, y + 1)) || (vertical && !open(x - 1, y) && !open(x + 1, y));
+  }
+
+  /**
+   * Treasure cells in order of preference
+   */
+  private static treasureSites(
+    grid: Grid,
+    mapData: MapData,
+    roomAt: Int16Array,
+    distances: Int32Array,
+    region: number[],
+    walkable: (cell: number) => boolean
+  ): number[] {
+    const rooms = mapData.rooms ?? [];
+    const byDistance = (a: number, b: number) => distances[b] - distances[a];
+
+    if (rooms.length > 0) {
+      const deadEnds = mapData.progression?.deadEnds ?? [];
+      const reached = rooms.map((_, room) => room).filter(room => room !== mapData.progression?.entranceRoom);
+      const roomDepth = (room: number) => Math.max(-1, ...region.filter(index => roomAt[index] === room).map(index => distances[index]));
+      const ordered = [
+        ...deadEnds,
+        ...reached.filter(room => !deadEnds.includes(room)).sort((a, b) => roomDepth(b) - roomDepth(a))
+      ];
+      return ordered
+        .map(room => {
+          const cells = region.filter(index => roomAt[index] === room);
+          const centre = ConnectivityUtils.getRoomCenter(rooms[room]);
+          return cells.sort((a, b) => this.gap(grid.point(a), centre) - this.gap(grid.point(b), centre));
+        })
+        .reduce<number[]>((all, cells) => all.concat(cells.slice(0, 3)), []);
+    }
+
+    // Cells open on one side only: the end of a passage
+    const ends = region.filter(index => {
+      const { x, y } = grid.point(index);
+      const open = [[1, 0], [-1, 0], [0, 1], [0, -1]].filter(([dx, dy]) => walkable(grid.getOr(x + dx, y + dy, -1)));
+      return open.length === 1;
+    });
+    return [...ends.sort(byDistance), ...region.filter(index => distances[index] > 0).sort(byDistance)];
+  }
+
+  private static gap(a: PathPoint, b: PathPoint): number {
+    return Math.abs(a.x + 0.5 - b.x) + Math.abs(a.y + 0.5 - b.y);
+  }
+}
@@ -0,0 +1,471 @@
+// Prefab set-pieces: JSON validation, rotation and mirroring, stamping and corridor routing
+// Shared by the dungeon and house generators, which use different floor codes
+
+import { Corridor, PathPoint, PlacedPrefab, PrefabCell, PrefabDefinition, PrefabObject, Room, TerrainCell, TerrainType } from '../types/generator';
+import { DMObject } from '../types/dm';
+import { ConnectivityUtils } from './connectivity';
+import { SeededRandom } from './random';
+import { Grid } from './grid';
+
+// Characters every prefab may use without declaring a legend
+export const DEFAULT_PREFAB_LEGEND: Record<string, PrefabCell> = {
+  '#': 'wall',
+  '.': 'floor',
+  '~': 'water',
+  'W': 'deep_water',
+  'L': 'lava',
+  '^': 'chasm',
+  ',': 'rubble',
+  ' ': 'keep'
+};
+
+type StampedCell = Exclude<PrefabCell, 'keep'>;
+
+// Grid codes written for each prefab cell; houses only know floor and wall
+export const PREFAB_CELL_CODES: Partial<Record<TerrainType, Record<StampedCell, number>>> = {
+  [TerrainType.Dungeon]: {
+    floor: TerrainCell.Floor,
+    wall: TerrainCell.Wall,
+    water: TerrainCell.Water,
+    deep_water: TerrainCell.DeepWater,
+    lava: TerrainCell.Lava,
+    chasm: TerrainCell.Chasm,
+    rubble: TerrainCell.Rubble
+  },
+  [TerrainType.House]: { floor: 1, wall: 0, water: 1, deep_water: 1, lava: 1, chasm: 1, rubble: 1 }
+};
+
+const PREFAB_CELLS: PrefabCell[] = ['floor', 'wall', 'water', 'deep_water', 'lava', 'chasm', 'rubble', 'keep'];
+const OBJECT_CATEGORIES: DMObject['category'][] = ['monster', 'trap', 'npc', 'treasure', 'environment'];
+const PREFAB_TERRAINS: TerrainType[] = [TerrainType.Dungeon, TerrainType.House];
+const MIN_PREFAB_SIZE = 3; // A wall ring around at least one interior cell
+
+/**
+ * A prefab turned and/or flipped; positions are relative to its top-left cell
+ */
+export interface PrefabVariant {
+  rows: string[]; // Legend characters, outer ring included
+  width: number;
+  height: number;
+  anchors: PathPoint[];
+  objects: PrefabObject[];
+  rotation: number; // Degrees clockwise, applied after mirroring
+  mirrored: boolean;
+}
+
+/**
+ * A prefab variant assigned to a room while a map is being generated
+ */
+export interface PrefabPlacement {
+  prefab: PrefabDefinition;
+  variant: PrefabVariant;
+  x: number;
+  y: number;
+  room: Room; // Interior inside the wall ring; replaces the BSP room
+}
+
+/**
+ * Validates prefab JSON so shared set-pieces fail with a clear message instead of a broken map
+ */
+export class PrefabLoader {
+  /**
+   * Parse and validate a prefab from a JSON string or an already parsed object
+   */
+  static parse(source: string | unknown): PrefabDefinition {
+    const data = typeof source === 'string' ? JSON.parse(source) : source;
+    const fail = (message: string): never => {
+      const id = data && typeof data.id === 'string' ? ` "${data.id}"` : '';
+      throw new Error(`Invalid prefab${id}: ${message}`);
+    };
+
+    if (!data || typeof data !== 'object') fail('expected an object');
+    if (typeof data.id !== 'string' || !data.id) fail('missing id');
+    if (typeof data.name !== 'string' || !data.name) fail('missing name');
+    if (!Array.isArray(data.cells) || data.cells.length < MIN_PREFAB_SIZE) fail(`cells needs at least ${MIN_PREFAB_SIZE} rows`);
+
+    const width = typeof data.cells[0] === 'string' ? data.cells[0].length : 0;
+    const height = data.cells.length;
+    if (width < MIN_PREFAB_SIZE) fail(`cells rows need at least ${MIN_PREFAB_SIZE} characters`);
+
+    if (data.legend !== undefined) {
+      if (!data.legend || typeof data.legend !== 'object') fail('legend must be an object');
+      for (const [char, cell] of Object.entries<any>(data.legend)) {
+        if (char.length !== 1) fail(`legend key "${char}" must be a single character`);
+        if (!PREFAB_CELLS.includes(cell)) fail(`legend "${char}" must be one of ${PREFAB_CELLS.join(', ')}`);
+      }
+    }
+    const legend = { ...DEFAULT_PREFAB_LEGEND, ...data.legend };
+    for (const row of data.cells) {
+      if (typeof row !== 'string' || row.length !== width) fail(`cells rows must all be ${width} characters`);
+      for (const char of row) {
+        if (!(char in legend)) fail(`cells use "${char}", which is not in the legend`);
+      }
+    }
+
+    const inside = (point: any) =>
+      point && Number.isInteger(point.x) && Number.isInteger(point.y) && point.x >= 0 && point.y >= 0 && point.x < width && point.y < height;
+
+    if (!Array.isArray(data.anchors) || data.anchors.length === 0) fail('needs at least one anchor');
+    for (const anchor of data.anchors) {
+      if (!inside(anchor)) fail('anchors must lie inside the cells');
+      const onRing = anchor.x === 0 || anchor.y === 0 || anchor.x === width - 1 || anchor.y === height - 1;
+      const corner = (anchor.x === 0 || anchor.x === width - 1) && (anchor.y === 0 || anchor.y === height - 1);
+      if (!onRing || corner) fail(`anchor (${anchor.x}, ${anchor.y}) must be on the outer ring and not a corner`);
+    }
+
+    for (const object of data.objects ?? []) {
+      if (!inside(object)) fail('objects must lie inside the cells');
+      if (!OBJECT_CATEGORIES.includes(object.category)) fail(`object category must be one of ${OBJECT_CATEGORIES.join(', ')}`);
+      if (typeof object.name !== 'string' || !object.name) fail('every object needs a name');
+    }
+
+    if (data.terrainTypes !== undefined) {
+      if (!Array.isArray(data.terrainTypes) || data.terrainTypes.some((terrain: any) => !PREFAB_TERRAINS.includes(terrain))) {
+        fail(`terrainTypes may only list ${PREFAB_TERRAINS.join(', ')}`);
+      }
+    }
+    if (data.weight !== undefined && !(typeof data.weight === 'number' && data.weight >= 0)) {
+      fail('weight must be zero or more');
+    }
+
+    return data as PrefabDefinition;
+  }
+}
+
+/**
+ * Stamps prefabs into BSP rooms and joins their anchors to the corridor network.
+ *
+ * Algorithm:
+ * 1. Each room rolls against the prefab chance; the prefabs with a variant (any of
+ *    four turns, mirrored or not) that fits the room's BSP leaf, one cell in from
+ *    its edge, are candidates, preferring prefabs not used yet; the pick is
+ *    weighted and the room becomes the prefab's interior
+ * 2. The generator stamps the cells in place of drawing the room, anchors walled up
+ * 3. Corridors that start or end in a prefab leave from the anchor facing the
+ *    other end; those and any corridor whose box would cross a prefab are routed
+ *    around every prefab by breadth-first search
+ * 4. Anchors still unconnected get a route to the nearest walkable cell
+ * 5. After dressing the prefab is stamped again and anchors with a walkable
+ *    doorstep are opened, so nothing but the anchors breaks into it
+ */
+export class PrefabStamper {
+  /**
+   * Every distinct rotation and mirror image of a prefab
+   */
+  static variants(prefab: PrefabDefinition): PrefabVariant[] {
+    const variants: PrefabVariant[] = [];
+    const seen = new Set<string>();
+    for (const mirrored of [false, true]) {
+      for (let rotation = 0; rotation < 360; rotation += 90) {
+        const variant = this.transform(prefab, rotation, mirrored);
+        const key = [
+          variant.rows.join('/'),
+          variant.anchors.map(a => `${a.x},${a.y}`).sort().join(' '),
+          variant.objects.map(o => `${o.x},${o.y},${o.name}`).sort().join(' ')
+        ].join('|');
+        if (!seen.has(key)) {
+          seen.add(key);
+          variants.push(variant);
+        }
+      }
+    }
+    return variants;
+  }
+
+  /**
+   * Mirror (left to right) and then turn a prefab clockwise
+   */
+  static transform(prefab: PrefabDefinition, rotation: number, mirrored: boolean): PrefabVariant {
+    const height = prefab.cells.length;
+    const width = prefab.cells[0].length;
+    const turns = ((Math.round(rotation / 90) % 4) + 4) % 4;
+    const odd = turns % 2 === 1;
+
+    const map = (point: PathPoint): PathPoint => {
+      let x = mirrored ? width - 1 - point.x : point.x;
+      let y = point.y;
+      let [w, h] = [width, height];
+      for (let turn = 0; turn < turns; turn++) {
+        [x, y] = [h - 1 - y, x];
+        [w, h] = [h, w];
+      }
+      return { x, y };
+    };
+
+    const out = { width: odd ? height : width, height: odd ? width : height };
+    const rows: string[][] = Array.from({ length: out.height }, () => new Array<string>(out.width));
+    prefab.cells.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        const point = map({ x, y });
+        rows[point.y][point.x] = row.charAt(x);
+      }
+    });
+
+    return {
+      rows: rows.map(row => row.join('')),
+      ...out,
+      anchors: prefab.anchors.map(map),
+      objects: (prefab.objects ?? []).map(object => ({ ...object, ...map(object) })),
+      rotation: turns * 90,
+      mirrored
+    };
+  }
+
+  /**
+   * Give rooms prefabs where the roll and the leaf allow, replacing each chosen room
+   * with the prefab interior (rooms is updated in place); leaves are clipped to the map
+   */
+  static place(
+    rooms: Room[],
+    leafFor: (room: Room) => Room | undefined,
+    prefabs: PrefabDefinition[],
+    chance: number,
+    random: SeededRandom,
+    bounds: { width: number; height: number }
+  ): PrefabPlacement[] {
+    const placements: PrefabPlacement[] = [];
+    if (chance <= 0 || prefabs.length === 0) return placements;
+
+    const variants = new Map(prefabs.map(prefab => [prefab.id, this.variants(prefab)]));
+    rooms.forEach((room, index) => {
+      const leaf = leafFor(room);
+      if (!leaf || random.next() >= chance) return;
+
+      // One cell in from the leaf, like the room padding, so prefabs never touch (or leave the map)
+      const left = Math.max(0, leaf.x);
+      const top = Math.max(0, leaf.y);
+      const right = Math.min(bounds.width, leaf.x + leaf.width);
+      const bottom = Math.min(bounds.height, leaf.y + leaf.height);
+      const area = { x: left + 1, y: top + 1, width: right - left - 2, height: bottom - top - 2 };
+      const fitting = (prefab: PrefabDefinition) =>
+        variants.get(prefab.id)!.filter(v => v.width <= area.width && v.height <= area.height);
+      const candidates = prefabs.filter(prefab => (prefab.weight ?? 1) > 0 && fitting(prefab).length > 0);
+      const unused = candidates.filter(prefab => !placements.some(p => p.prefab.id === prefab.id));
+      const prefab = this.weightedChoice(unused.length > 0 ? unused : candidates, random);
+      if (!prefab) return;
+
+      const variant = random.choice(fitting(prefab));
+      const x = area.x + random.nextInt(0, area.width - variant.width);
+      const y = area.y + random.nextInt(0, area.height - variant.height);
+      const interior = { x: x + 1, y: y + 1, width: variant.width - 2, height: variant.height - 2 };
+      rooms[index] = interior;
+      placements.push({ prefab, variant, x, y, room: interior });
+    });
+
+    if (placements.length > 0) {
+      console.log(`[PrefabStamper] Placed ${placements.map(p => `${p.prefab.id}@${p.variant.rotation}${p.variant.mirrored ? 'm' : ''}`).join(', ')}`);
+    }
+    return placements;
+  }
+
+  /**
+   * Write a placement's cells; anchors open only when isOpen accepts the cell outside them
+   */
+  static stamp(
+    grid: Grid,
+    placement: PrefabPlacement,
+    codes: Record<StampedCell, number>,
+    isOpen?: (cell: number) => boolean
+  ): void {
+    const legend = { ...DEFAULT_PREFAB_LEGEND, ...placement.prefab.legend };
+    placement.variant.rows.forEach((row, dy) => {
+      for (let dx = 0; dx < row.length; dx++) {
+        const cell = legend[row.charAt(dx)];
+        if (cell !== 'keep' && grid.inBounds(placement.x + dx, placement.y + dy)) {
+          grid.set(placement.x + dx, placement.y + dy, codes[cell]);
+        }
+      }
+    });
+
+    for (const anchor of this.anchors(placement)) {
+      if (!grid.inBounds(anchor.x, anchor.y)) continue;
+      const step = this.doorstep(placement, anchor);
+      const open = isOpen !== undefined && grid.inBounds(step.x, step.y) && isOpen(grid.get(step.x, step.y));
+      grid.set(anchor.x, anchor.y, open ? codes.floor : codes.wall);
+    }
+  }
+
+  /**
+   * Route for a corridor that starts or ends in a prefab or would cross one.
+   * Returns undefined when the corridor can be drawn as usual and an empty
+   * route when no way around was found.
+   */
+  static routeCorridor(
+    grid: Grid,
+    corridor: Corridor,
+    placements: PrefabPlacement[],
+    margin: number
+  ): PathPoint[] | undefined {
+    if (placements.length === 0) return undefined;
+
+    const a = { x: corridor.start[0], y: corridor.start[1] };
+    const b = { x: corridor.end[0], y: corridor.end[1] };
+    const from = placements.find(p => ConnectivityUtils.pointInRoom(a, p.room));
+    const to = placements.find(p => ConnectivityUtils.pointInRoom(b, p.room));
+    const box = {
+      x: Math.min(a.x, b.x) - margin,
+      y: Math.min(a.y, b.y) - margin,
+      width: Math.abs(a.x - b.x) + margin * 2 + 1,
+      height: Math.abs(a.y - b.y) + margin * 2 + 1
+    };
+    const crossing = placements.some(p => ConnectivityUtils.roomsOverlap(box, this.bounds(p), 0));
+    if (!from && !to && !crossing) return undefined;
+
+    const start = from ? this.nearestDoorstep(from, b) : a;
+    const end = to ? this.nearestDoorstep(to, start) : b;
+    return this.route(grid, start, (x, y) => x === end.x && y === end.y, placements) ?? [];
+  }
+
+  /**
+   * Routes from every anchor whose doorstep isn't walkable yet to the nearest walkable cell
+   */
+  static linkAnchors(
+    grid: Grid,
+    placements: PrefabPlacement[],
+    isWalkable: (cell: number) => boolean
+  ): PathPoint[][] {
+    const routes: PathPoint[][] = [];
+    const outside = (x: number, y: number) => !placements.some(p => ConnectivityUtils.pointInRoom({ x, y }, this.bounds(p)));
+    for (const placement of placements) {
+      for (const anchor of this.anchors(placement)) {
+        const step = this.doorstep(placement, anchor);
+        // Anchors on the map edge face outside; there is nothing to link them to
+        if (!grid.inBounds(step.x, step.y) || isWalkable(grid.get(step.x, step.y))) continue;
+        const route = this.route(grid, step, (x, y) => isWalkable(grid.get(x, y)) && outside(x, y), placements);
+        if (route) routes.push(route);
+      }
+    }
+    return routes;
+  }
+
+  /**
+   * Map records of the placements: open anchors, and objects as hidden DMObjects
+   */
+  static describe(
+    grid: Grid,
+    placements: PrefabPlacement[],
+    rooms: Room[],
+    isWalkable: (cell: number) => boolean
+  ): PlacedPrefab[] {
+    return placements.map(({ prefab, variant, x, y, room }, number) => ({
+      id: prefab.id,
+      name: prefab.name,
+      x,
+      y,
+      width: variant.width,
+      height: variant.height,
+      rotation: variant.rotation,
+      mirrored: variant.mirrored,
+      room: rooms.indexOf(room),
+      anchors: this.anchors(placements[number]).filter(anchor => isWalkable(grid.get(anchor.x, anchor.y))),
+      objects: variant.objects.map((object, index) => ({
+        id: `prefab-${number + 1}-${index + 1}`,
+        spriteId: object.spriteId ?? `auto:${object.category}`,
+        x: x + object.x,
+        y: y + object.y,
+        category: object.category,
+        visibleToPlayers: false,
+        name: object.name,
+        notes: object.notes ?? prefab.name,
+        scaleX: 1,
+        scaleY: 1,
+        rotation: 0,
+        zIndex: 10
+      }))
+    }));
+  }
+
+  /**
+   * Cells covered by a placement, outer ring included
+   */
+  static bounds(placement: PrefabPlacement): Room {
+    return { x: placement.x, y: placement.y, width: placement.variant.width, height: placement.variant.height };
+  }
+
+  /**
+   * Anchor cells in map coordinates
+   */
+  static anchors(placement: PrefabPlacement): PathPoint[] {
+    return placement.variant.anchors.map(anchor => ({ x: placement.x + anchor.x, y: placement.y + anchor.y }));
+  }
+
+  /**
+   * The cell just outside an anchor, on the side of the ring it sits on
+   */
+  static doorstep(placement: PrefabPlacement, anchor: PathPoint): PathPoint {
+    const { x, y, variant } = placement;
+    if (anchor.x === x) return { x: anchor.x - 1, y: anchor.y };
+    if (anchor.x === x + variant.width - 1) return { x: anchor.x + 1, y: anchor.y };
+    if (anchor.y === y) return { x: anchor.x, y: anchor.y - 1 };
+    return { x: anchor.x, y: anchor.y + 1 };
+  }
+
+  private static nearestDoorstep(placement: PrefabPlacement, toward: PathPoint): PathPoint {
+    const steps = this.anchors(placement).map(anchor => this.doorstep(placement, anchor));
+    return steps.reduce((best, step) =>
+      ConnectivityUtils.distance(step, toward) < ConnectivityUtils.distance(best, toward) ? step : best
+    );
+  }
+
+  /**
+   * Shortest 4-way path from a cell to the first goal cell, staying inside the map
+   * border and out of every prefab
+   */
+  private static route(
+    grid: Grid,
+    from: PathPoint,
+    isGoal: (x: number, y: number) => boolean,
+    placements: PrefabPlacement[]
+  ): PathPoint[] | undefined {
+    const blocked = new Uint8Array(grid.cells.length);
+    for (const placement of placements) {
+      const { x, y, width, height } = this.bounds(placement);
+      for (let py = Math.max(0, y); py < Math.min(grid.height, y + height); py++) {
+        for (let px = Math.max(0, x); px < Math.min(grid.width, x + width); px++) {
+          blocked[grid.index(px, py)] = 1;
+        }
+      }
+    }
+
+    const open = (x: number, y: number) => x > 0 && y > 0 && x < grid.width - 1 && y < grid.height - 1;
+    if (!open(from.x, from.y)) return undefined;
+
+    const previous = new Int32Array(grid.cells.length).fill(-1);
+    const start = grid.index(from.x, from.y);
+    blocked[start] = 1;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      const index = queue[head];
+      const { x, y } = grid.point(index);
+      if (isGoal(x, y)) {
+        const path: PathPoint[] = [];
+        for (let cell = index; cell !== -1; cell = previous[cell]) {
+          path.push(grid.point(cell));
+        }
+        return path.reverse();
+      }
+      for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (!open(nx, ny)) continue;
+        const next = grid.index(nx, ny);
+        if (blocked[next]) continue;
+        blocked[next] = 1;
+        previous[next] = index;
+        queue.push(next);
+      }
+    }
+    return undefined;
+  }
+
+  private static weightedChoice(prefabs: PrefabDefinition[], random: SeededRandom): PrefabDefinition | undefined {
+    const total = prefabs.reduce((sum, prefab) => sum + (prefab.weight ?? 1), 0);
+    if (total <= 0) return undefined;
+    let roll = random.next() * total;
+    for (const prefab of prefabs) {
+      roll -= prefab.weight ?? 1;
+      if (roll < 0) return prefab;
+    }
+    return prefabs[prefabs.length - 1];
+  }
+}
@@ -0,0 +1,166 @@
+// Print-ready battle maps: one grid square per inch (or 25 mm), tiled across A4 or Letter
+// pages with overlap, alignment marks and page coordinates
+
+import { PdfDocument, PdfImage } from './pdf';
+
+export type PaperSize = 'a4' | 'letter';
+export type SquareSize = 'inch' | '25mm';
+
+export interface PrintOptions {
+  paper: PaperSize;
+  square: SquareSize;
+  dpi: number; // Render resolution
+  overlap: number; // Squares repeated on the next page, for trimming and taping
+}
+
+export interface PrintPage {
+  row: number;
+  column: number;
+  x: number; // First map cell on the page
+  y: number;
+  width: number; // Cells on the page
+  height: number;
+}
+
+export interface PrintLayoutResult {
+  pageWidth: number; // Points
+  pageHeight: number;
+  landscape: boolean;
+  squarePoints: number;
+  rows: number;
+  columns: number;
+  pages: PrintPage[];
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = { paper: 'letter', square: 'inch', dpi: 150, overlap: 1 };
+
+// Portrait page sizes in points
+const PAPER: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+};
+const SQUARE_POINTS: Record<SquareSize, number> = { inch: 72, '25mm': (25 / 25.4) * 72 };
+const SQUARE_LABELS: Record<SquareSize, string> = { inch: '1 square = 1 inch', '25mm': '1 square = 25 mm' };
+
+const MARGIN = 36; // Half an inch kept clear; most printers can't print to the edge
+const FOOTER = 16; // Space under the map for the page coordinates
+const MARK = 10; // Length of the corner alignment marks
+
+/**
+ * Splits a map across printer pages.
+ *
+ * Algorithm:
+ * 1. Fit as many whole squares as the printable area holds, in portrait and landscape,
+ *    and keep the orientation that needs fewer pages
+ * 2. Step across the map by the squares per page minus the overlap, so neighbouring
+ *    pages repeat the overlap squares along their shared edge
+ * 3. Each page gets its part of the map rendered at the chosen DPI, corner marks just
+ *    outside the map, dashed lines where the next page's overlap starts and a footer
+ *    with the page's row, column and cell range
+ */
+export class PrintLayout {
+  static layout(mapWidth: number, mapHeight: number, options: PrintOptions): PrintLayoutResult {
+    const paper = PAPER[options.paper];
+    const squarePoints = SQUARE_POINTS[options.square];
+
+    const fit = (pageWidth: number, pageHeight: number) => {
+      const across = Math.max(1, Math.floor((pageWidth - 2 * MARGIN) / squarePoints));
+      const down = Math.max(1, Math.floor((pageHeight - 2 * MARGIN - FOOTER) / squarePoints));
+      const overlapX = Math.min(options.overlap, across - 1);
+      const overlapY = Math.min(options.overlap, down - 1);
+      const columns = mapWidth <= across ? 1 : 1 + Math.ceil((mapWidth - across) / (across - overlapX));
+      const rows = mapHeight <= down ? 1 : 1 + Math.ceil((mapHeight - down) / (down - overlapY));
+      return { pageWidth, pageHeight, across, down, stepX: across - overlapX, stepY: down - overlapY, columns, rows };
+    };
+    const portrait = fit(paper.width, paper.height);
+    const landscape = fit(paper.height, paper.width);
+    const chosen = landscape.columns * landscape.rows < portrait.columns * portrait.rows ? landscape : portrait;
+
+    const pages: PrintPage[] = [];
+    for (let row = 0; row < chosen.rows; row++) {
+      for (let column = 0; column < chosen.columns; column++) {
+        const x = column * chosen.stepX;
+        const y = row * chosen.stepY;
+        pages.push({ row, column, x, y, width: Math.min(chosen.across, mapWidth - x), height: Math.min(chosen.down, mapHeight - y) });
+      }
+    }
+
+    return {
+      pageWidth: chosen.pageWidth,
+      pageHeight: chosen.pageHeight,
+      landscape: chosen === landscape,
+      squarePoints,
+      rows: chosen.rows,
+      columns: chosen.columns,
+      pages
+    };
+  }
+}
+
+export class PrintExport {
+  /**
+   * Multi-page PDF of the map. renderPage draws the page's cells at the given pixels per
+   * cell and returns them as JPEG bytes (see MapCanvasRef.renderRegion)
+   */
+  static toPDF(
+    mapWidth: number,
+    mapHeight: number,
+    options: PrintOptions,
+    renderPage: (page: PrintPage, pixelsPerCell: number) => Omit<PdfImage, 'name'> | null,
+    title: string = ''
+  ): PdfDocument {
+    const layout = PrintLayout.layout(mapWidth, mapHeight, options);
+    const { pageWidth, pageHeight, squarePoints } = layout;
+    const pixelsPerCell = Math.round((options.dpi * squarePoints) / 72);
+    const pdf = new PdfDocument();
+
+    layout.pages.forEach((page, index) => {
+      const width = page.width * squarePoints;
+      const height = page.height * squarePoints;
+      const left = MARGIN;
+      const top = pageHeight - MARGIN;
+      const bottom = top - height;
+      let content = '';
+
+      const rendered = renderPage(page, pixelsPerCell);
+      const images: PdfImage[] = rendered ? [{ name: 'Map', ...rendered }] : [];
+      if (rendered) {
+        content += PdfDocument.image('Map', left, bottom, width, height);
+      }
+
+      // Corner alignment marks, just outside the map
+      content += PdfDocument.stroke(0.5);
+      for (const [x, y, dx, dy] of [[left, top, -1, 1], [left + width, top, 1, 1], [left, bottom, -1, -1], [left + width, bottom, 1, -1]]) {
+        content += PdfDocument.line(x + dx * 2, y, x + dx * (2 + MARK), y);
+        content += PdfDocument.line(x, y + dy * 2, x, y + dy * (2 + MARK));
+      }
+
+      // Where the next page's overlap starts: trim or line up along these
+      const overlapX = page.column < layout.columns - 1 ? page.width - (layout.pages[index + 1].x - page.x) : 0;
+      const overlapY = page.row < layout.rows - 1 ? page.height - (layout.pages[index + layout.columns].y - page.y) : 0;
+      content += PdfDocument.stroke(0.75, 0.3, [4, 3]);
+      if (overlapX > 0) {
+        const x = left + (page.width - overlapX) * squarePoints;
+        content += PdfDocument.line(x, bottom - MARK, x, top + MARK);
+      }
+      if (overlapY > 0) {
+        const y = top - (page.height - overlapY) * squarePoints;
+        content += PdfDocument.line(left - MARK, y, left + width + MARK, y);
+      }
+
+      const label = `${String.fromCharCode(65 + (page.row % 26))}${page.column + 1}`;
+      const footer = [
+        title,
+        `Page ${label} (${index + 1} of ${layout.pages.length})`,
+        `row ${page.row + 1} of ${layout.rows}, column ${page.column + 1} of ${layout.columns}`,
+        `cells x ${page.x}-${page.x + page.width - 1}, y ${page.y}-${page.y + page.height - 1}`,
+        SQUARE_LABELS[options.square]
+      ].filter(Boolean).join('  |  ');
+      content += PdfDocument.text(left + 4, bottom - FOOTER, 8, footer);
+      pdf.addPage(pageWidth, pageHeight, content, images);
+    });
+
+    console.log(`[PrintExport] ${layout.pages.length} page(s), ${layout.columns} x ${layout.rows}${layout.landscape ? ' landscape' : ''}, ${pixelsPerCell}px per square`);
+    return pdf;
+  }
+}
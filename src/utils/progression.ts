@@ -0,0 +1,212 @@
+// Entrance, goal and critical path analysis
+// Shared by the dungeon, cave and house generators, which use different floor codes
+
+import { Edge, MapProgression, PathPoint, Room } from '../types/generator';
+import { ConnectivityUtils } from './connectivity';
+import { SeededRandom } from './random';
+import { Grid } from './grid';
+
+// Map edges in the order the entrance side is drawn from
+const SIDES = ['top', 'right', 'bottom', 'left'] as const;
+
+/**
+ * Works out how a party moves through a finished map.
+ *
+ * Algorithm:
+ * 1. Pick a random map edge; the entrance is the cell of the largest walkable
+ *    region nearest that edge (closest to its middle on ties)
+ * 2. Measure walking distances from the entrance (BFS over walkable cells)
+ * 3. The goal room is the room farthest from the entrance; without rooms the
+ *    goal is the farthest walkable cell
+ * 4. The critical path is the shortest walk from entrance to goal; the rooms it
+ *    passes through, in order, are the critical rooms
+ * 5. On the room graph (ConnectivityUtils.buildRoomGraph), rooms with one
+ *    connection are dead ends and each edge outside a spanning tree closes a loop
+ */
+export class ProgressionAnalyzer {
+  static analyze(
+    grid: Grid,
+    rooms: Room[],
+    isWalkable: (cell: number) => boolean,
+    random: SeededRandom
+  ): { progression: MapProgression; path: PathPoint[] } | undefined {
+    const entrance = this.pickEntrance(grid, isWalkable, random);
+    if (!entrance) return undefined;
+
+    const { distances, previous } = ConnectivityUtils.walkingDistances(grid, entrance, isWalkable);
+    const roomAt = ConnectivityUtils.roomIndexGrid(grid, rooms);
+
+    // Nearest reached cell of each room
+    const roomDistances = rooms.map(() => -1);
+    for (let i = 0; i < distances.length; i++) {
+      const room = roomAt[i];
+      if (room !== -1 && distances[i] !== -1 && (roomDistances[room] === -1 || distances[i] < roomDistances[room])) {
+        roomDistances[room] = distances[i];
+      }
+    }
+
+    const reached = roomDistances.map((distance, index) => ({ distance, index })).filter(r => r.distance !== -1);
+    const entranceRoom = reached.length > 0 ? reached.reduce((a, b) => (b.distance < a.distance ? b : a)).index : undefined;
+    const goalRoom = reached.length > 0 ? reached.reduce((a, b) => (b.distance > a.distance ? b : a)).index : undefined;
+
+    const goalIndex = goalRoom !== undefined
+      ? this.roomGoalCell(grid, rooms[goalRoom], goalRoom, roomAt, distances)
+      : this.farthestCell(distances);
+    const path = this.tracePath(grid, previous, goalIndex);
+
+    // Rooms along the critical path in the order they are entered
+    const criticalPath: number[] = [];
+    for (const point of path) {
+      const room = roomAt[grid.index(point.x, point.y)];
+      if (room !== -1 && !criticalPath.includes(room)) {
+        criticalPath.push(room);
+      }
+    }
+
+    const edges = ConnectivityUtils.buildRoomGraph(grid, rooms, isWalkable);
+    const degree = rooms.map(() => 0);
+    for (const edge of edges) {
+      degree[edge.from]++;
+      degree[edge.to]++;
+    }
+    const deadEnds = rooms
+      .map((_, index) => index)
+      .filter(index => degree[index] === 1 && index !== entranceRoom && index !== goalRoom);
+
+    console.log(`[ProgressionAnalyzer] Entrance (${entrance.x}, ${entrance.y}), goal room ${goalRoom ?? 'none'}, ${criticalPath.length} critical rooms, ${deadEnds.length} dead ends`);
+
+    return {
+      progression: {
+        entrance,
+        goal: grid.point(goalIndex),
+        entranceRoom,
+        goalRoom,
+        criticalPath,
+        deadEnds,
+        loops: this.findLoops(rooms.length, edges, entranceRoom ?? 0),
+        roomDistances
+      },
+      path
+    };
+  }
+
+  /**
+   * Walkable cell of the largest region nearest a randomly chosen map edge
+   */
+  private static pickEntrance(
+    grid: Grid,
+    isWalkable: (cell: number) => boolean,
+    random: SeededRandom
+  ): PathPoint | undefined {
+    const [main] = grid.regions(isWalkable);
+    if (!main) return undefined;
+
+    const side = SIDES[random.nextInt(0, SIDES.length - 1)];
+    const depth = ({ x, y }: PathPoint) =>
+      side === 'top' ? y : side === 'right' ? grid.width - 1 - x : side === 'bottom' ? grid.height - 1 - y : x;
+    const offCentre = ({ x, y }: PathPoint) =>
+      side === 'top' || side === 'bottom' ? Math.abs(x - grid.width / 2) : Math.abs(y - grid.height / 2);
+
+    let best = grid.point(main[0]);
+    for (const index of main) {
+      const point = grid.point(index);
+      if (depth(point) < depth(best) || (depth(point) === depth(best) && offCentre(point) < offCentre(best))) {
+        best = point;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Reached cell of the goal room closest to its centre, so the marker sits in the middle
+   */
+  private static roomGoalCell(grid: Grid, room: Room, index: number, roomAt: Int16Array, distances: Int32Array): number {
+    const center = ConnectivityUtils.getRoomCenter(room);
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let y = Math.max(0, room.y); y < Math.min(grid.height, room.y + room.height); y++) {
+      for (let x = Math.max(0, room.x); x < Math.min(grid.width, room.x + room.width); x++) {
+        const cell = grid.index(x, y);
+        if (roomAt[cell] !== index || distances[cell] === -1) continue;
+        const distance = ConnectivityUtils.distance({ x: x + 0.5, y: y + 0.5 }, center);
+        if (distance < bestDistance) {
+          best = cell;
+          bestDistance = distance;
+        }
+      }
+    }
+    return best;
+  }
+
+  private static farthestCell(distances: Int32Array): number {
+    let best = 0;
+    for (let i = 1; i < distances.length; i++) {
+      if (distances[i] > distances[best]) best = i;
+    }
+    return best;
+  }
+
+  /**
+   * Follow predecessors back from the goal to the entrance
+   */
+  private static tracePath(grid: Grid, previous: Int32Array, goal: number): PathPoint[] {
+    const path: PathPoint[] = [];
+    for (let cell = goal; cell !== -1; cell = previous[cell]) {
+      path.push(grid.point(cell));
+    }
+    return path.reverse();
+  }
+
+  /**
+   * Fundamental cycles of the room graph: each edge left out of a BFS spanning
+   * tree closes one loop through the tree
+   */
+  private static findLoops(roomCount: number, edges: Edge[], root: number): number[][] {
+    const neighbours: number[][] = Array.from({ length: roomCount }, () => []);
+    for (const edge of edges) {
+      neighbours[edge.from].push(edge.to);
+      neighbours[edge.to].push(edge.from);
+    }
+
+    const parent = new Array<number>(roomCount).fill(-1);
+    const depth = new Array<number>(roomCount).fill(-1);
+    const treeEdges = new Set<string>();
+    // Rooms cut off from the root still get their own tree
+    for (const start of [root, ...Array.from({ length: roomCount }, (_, i) => i)]) {
+      if (start >= roomCount || depth[start] !== -1) continue;
+      depth[start] = 0;
+      const queue = [start];
+      for (let head = 0; head < queue.length; head++) {
+        const room = queue[head];
+        for (const next of neighbours[room]) {
+          if (depth[next] !== -1) continue;
+          depth[next] = depth[room] + 1;
+          parent[next] = room;
+          treeEdges.add(`${Math.min(room, next)}-${Math.max(room, next)}`);
+          queue.push(next);
+        }
+      }
+    }
+
+    const loops: number[][] = [];
+    for (const edge of edges) {
+      if (treeEdges.has(`${edge.from}-${edge.to}`)) continue;
+      // Climb from both ends to the common ancestor
+      let a = edge.from;
+      let b = edge.to;
+      const left: number[] = [];
+      const right: number[] = [];
+      while (a !== b) {
+        if (depth[a] >= depth[b]) {
+          left.push(a);
+          a = parent[a];
+        } else {
+          right.push(b);
+          b = parent[b];
+        }
+      }
+      loops.push([...left, a, ...right.reverse()]);
+    }
+    return loops;
+  }
+}
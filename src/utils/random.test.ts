@@ -299,4 +299,22 @@ describe('SeededRandom', () => {
       expect(rng1.choice(array)).toBe(rng2.choice(array));
     });
   });
+
+  describe('String Seeds', () => {
+    test('seed strings hash deterministically and digit strings read as numbers', () => {
+      expect(SeededRandom.toNumber('goblin-cave-7')).toBe(SeededRandom.toNumber('goblin-cave-7'));
+      expect(SeededRandom.toNumber('goblin-cave-7')).not.toBe(SeededRandom.toNumber('goblin-cave-8'));
+      expect(SeededRandom.toNumber('42')).toBe(42);
+      expect(SeededRandom.toNumber(42.9)).toBe(42);
+      expect(SeededRandom.parse(' 42 ')).toBe(42);
+      expect(SeededRandom.parse('goblin-cave-7')).toBe('goblin-cave-7');
+
+      const rng1 = new SeededRandom('goblin-cave-7');
+      const rng2 = new SeededRandom('goblin-cave-7');
+      for (let i = 0; i < 20; i++) {
+        expect(rng1.next()).toBe(rng2.next());
+      }
+      expect(new SeededRandom('42').next()).toBe(new SeededRandom(42).next());
+    });
+  });
 });
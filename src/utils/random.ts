@@ -1,10 +1,56 @@
 // Random number utilities with seeded random
 
+// A generation seed: a number, or a readable string such as "goblin-cave-7"
+export type Seed = number | string;
+
 export class SeededRandom {
   private seed: number;
 
-  constructor(seed: number = Date.now()) {
-    this.seed = seed;
+  constructor(seed: Seed = Date.now()) {
+    this.seed = SeededRandom.toNumber(seed);
+  }
+
+  /**
+   * The numeric seed behind a Seed. Strings of digits read as numbers, other strings
+   * are hashed (32-bit FNV-1a) and fractions are dropped, so every seed is an integer.
+   */
+  static toNumber(seed: Seed): number {
+    if (typeof seed === 'number') {
+      return Number.isFinite(seed) ? Math.trunc(seed) : 0;
+    }
+    const text = seed.trim();
+    if (/^-?\d+$/.test(text)) {
+      return Number(text);
+    }
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Read a seed typed by the user: digits stay a number, anything else is a seed string
+   */
+  static parse(text: string): Seed {
+    const trimmed = text.trim();
+    return /^-?\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+  }
+
+  /**
+   * A fresh readable seed for a name, e.g. "goblin-cave-7"
+   */
+  static named(name: string): string {
+    return `${this.slug(name)}-${Math.floor(Math.random() * 1000)}`;
+  }
+
+  /**
+   * A name in lowercase with dashes, e.g. "Goblin Cave!" becomes "goblin-cave"; used for
+   * readable seeds and file names
+   */
+  static slug(name: string, fallback = 'map'): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
   }
 
   // Linear congruential generator
@@ -0,0 +1,325 @@
+// Room purposes and the printable dungeon key
+// Shared by the dungeon and house generators and by maps generated for campaign POIs
+
+import { MapData, RoomKeyEntry, RoomPurpose, TerrainSubtype, TerrainType } from '../types/generator';
+import { DungeonSubtype, HouseSubtype } from '../types/enums';
+import { EncounterInfo, PointOfInterest, TreasureInfo } from '../types/campaign';
+import { SeededRandom } from './random';
+
+interface PurposeDetails {
+  title: string;
+  descriptions: string[];
+  encounters: string[];
+  treasures: string[];
+  encounterChance: number; // Chance a room gets a generated encounter when no POI encounter lands there
+  treasureChance: number;
+}
+
+const PURPOSES: Record<RoomPurpose, PurposeDetails> = {
+  [RoomPurpose.EntranceHall]: {
+    title: 'Entrance',
+    descriptions: ['Worn steps lead in past a broken portcullis.', 'Scuffed flagstones and old torch brackets mark the way in.'],
+    encounters: ['A lookout who runs to raise the alarm'],
+    treasures: ['A few coins dropped by earlier visitors'],
+    encounterChance: 0.3,
+    treasureChance: 0.1
+  },
+  [RoomPurpose.GuardPost]: {
+    title: 'Guard Post',
+    descriptions: ['An overturned table and a rack of spears face the doorway.', 'Arrow slits overlook the approach; a gong hangs by the door.'],
+    encounters: ['Guards playing dice, quick to sound the alarm', 'A pair of sentries on watch'],
+    treasures: ["A guard captain's pouch of silver"],
+    encounterChance: 1,
+    treasureChance: 0.2
+  },
+  [RoomPurpose.Barracks]: {
+    title: 'Barracks',
+    descriptions: ['Rows of straw pallets around a cold cooking fire.', 'Bunks line the walls beneath hanging cloaks and shields.'],
+    encounters: ['Off-duty soldiers, half armoured', 'A sergeant drilling recruits'],
+    treasures: ['Wages hidden in a footlocker'],
+    encounterChance: 1,
+    treasureChance: 0.3
+  },
+  [RoomPurpose.Armory]: {
+    title: 'Armory',
+    descriptions: ['Weapon racks, most of them empty, and a grinding wheel.', 'Dented shields and rusted blades piled by an anvil.'],
+    encounters: ['An animated suit of armour'],
+    treasures: ['One well-kept weapon among the rust'],
+    encounterChance: 0.4,
+    treasureChance: 0.4
+  },
+  [RoomPurpose.Shrine]: {
+    title: 'Shrine',
+    descriptions: ['A chipped altar stands beneath a faded mural.', 'Candle stubs ring a statue with its face chiselled away.'],
+    encounters: ['A zealot tending the altar', 'Restless spirits drawn to the altar'],
+    treasures: ['Offerings of gold and incense on the altar'],
+    encounterChance: 0.4,
+    treasureChance: 0.3
+  },
+  [RoomPurpose.Treasury]: {
+    title: 'Treasury',
+    descriptions: ['Iron-bound chests sit behind a heavy door.', 'Shelves of strongboxes, some already forced open.'],
+    encounters: ['A trapped chest', 'A mimic among the chests'],
+    treasures: ['Chests of coin and a pouch of gems', 'A hoard of coin, plate and jewellery'],
+    encounterChance: 0.6,
+    treasureChance: 1
+  },
+  [RoomPurpose.BossLair]: {
+    title: 'Boss Lair',
+    descriptions: ['A vaulted chamber dominated by a crude throne.', 'Bones and trophies surround a raised dais.'],
+    encounters: ['The master of this place and their bodyguards'],
+    treasures: ["The master's hoard and a signature magic item"],
+    encounterChance: 1,
+    treasureChance: 1
+  },
+  [RoomPurpose.Storeroom]: {
+    title: 'Storeroom',
+    descriptions: ['Barrels and crates, many gnawed open by rats.', 'Sacks of grain and spoiled provisions.'],
+    encounters: ['A swarm of rats', 'Giant centipedes nesting in the crates'],
+    treasures: ['A crate of usable supplies'],
+    encounterChance: 0.4,
+    treasureChance: 0.3
+  },
+  [RoomPurpose.Cells]: {
+    title: 'Cells',
+    descriptions: ['Barred cells line a narrow aisle; chains hang from the walls.'],
+    encounters: ['A prisoner begging for release', 'A jailer with the keys'],
+    treasures: ['Confiscated belongings in a locked box'],
+    encounterChance: 0.5,
+    treasureChance: 0.3
+  },
+  [RoomPurpose.Crypt]: {
+    title: 'Crypt',
+    descriptions: ['Burial niches hold shrouded remains.', 'Stone sarcophagi, their lids carved with effigies.'],
+    encounters: ['Skeletons rising from the niches', 'A ghoul feeding in the dark'],
+    treasures: ['Grave goods buried with the dead'],
+    encounterChance: 0.5,
+    treasureChance: 0.4
+  },
+  [RoomPurpose.Cistern]: {
+    title: 'Cistern',
+    descriptions: ['Dark water laps at a narrow ledge.', 'Channels of slow, foul water meet in a deep basin.'],
+    encounters: ['Something large moving under the water', 'Oozes clinging to the walls'],
+    treasures: ['A lost purse glinting under the water'],
+    encounterChance: 0.5,
+    treasureChance: 0.2
+  },
+  [RoomPurpose.Library]: {
+    title: 'Library',
+    descriptions: ['Mouldering shelves of books and scroll cases.', 'A reading desk buried in notes and half-burnt candles.'],
+    encounters: ['A scholar who does not want to be disturbed', 'A guardian construct dusting the shelves'],
+    treasures: ['A spell scroll tucked into a ledger'],
+    encounterChance: 0.3,
+    treasureChance: 0.4
+  },
+  [RoomPurpose.Kitchen]: {
+    title: 'Kitchen',
+    descriptions: ["A great hearth, hanging pots and a long butcher's block."],
+    encounters: ['A cook with a cleaver'],
+    treasures: ['A set of silver cutlery'],
+    encounterChance: 0.3,
+    treasureChance: 0.2
+  },
+  [RoomPurpose.Bedchamber]: {
+    title: 'Bedchamber',
+    descriptions: ['A curtained bed, a wardrobe and a washstand.', 'Narrow beds and travel chests.'],
+    encounters: ['A sleeping occupant'],
+    treasures: ['Jewellery hidden in a drawer'],
+    encounterChance: 0.3,
+    treasureChance: 0.4
+  },
+  [RoomPurpose.GreatHall]: {
+    title: 'Great Hall',
+    descriptions: ['A long table under banners, with a gallery above.'],
+    encounters: ['A feast in progress', 'Household staff and guards'],
+    treasures: ['Silver plate on the high table'],
+    encounterChance: 0.6,
+    treasureChance: 0.3
+  }
+};
+
+// Purposes for rooms with no special place in the layout, by terrain then by subtype
+const TERRAIN_POOLS: Partial<Record<TerrainType, RoomPurpose[]>> = {
+  [TerrainType.Dungeon]: [RoomPurpose.Storeroom, RoomPurpose.Armory, RoomPurpose.Barracks, RoomPurpose.Shrine, RoomPurpose.Cells],
+  [TerrainType.House]: [RoomPurpose.Bedchamber, RoomPurpose.Kitchen, RoomPurpose.Storeroom, RoomPurpose.Library]
+};
+const SUBTYPE_POOLS: Partial<Record<TerrainSubtype, RoomPurpose[]>> = {
+  [DungeonSubtype.CRYPTS]: [RoomPurpose.Crypt, RoomPurpose.Crypt, RoomPurpose.Shrine, RoomPurpose.Storeroom],
+  [DungeonSubtype.PRISON]: [RoomPurpose.Cells, RoomPurpose.Cells, RoomPurpose.GuardPost, RoomPurpose.Storeroom],
+  [DungeonSubtype.TEMPLE]: [RoomPurpose.Shrine, RoomPurpose.Shrine, RoomPurpose.Library, RoomPurpose.Storeroom],
+  [DungeonSubtype.SEWER]: [RoomPurpose.Cistern, RoomPurpose.Cistern, RoomPurpose.Storeroom],
+  [DungeonSubtype.ANCIENT_RUINS]: [RoomPurpose.Crypt, RoomPurpose.Storeroom, RoomPurpose.Shrine, RoomPurpose.Library],
+  [HouseSubtype.COTTAGE]: [RoomPurpose.Bedchamber, RoomPurpose.Kitchen, RoomPurpose.Storeroom],
+  [HouseSubtype.MANOR]: [RoomPurpose.Bedchamber, RoomPurpose.Library, RoomPurpose.Kitchen, RoomPurpose.GreatHall],
+  [HouseSubtype.INN]: [RoomPurpose.Bedchamber, RoomPurpose.Bedchamber, RoomPurpose.Kitchen, RoomPurpose.Storeroom],
+  [HouseSubtype.CASTLE]: [RoomPurpose.Barracks, RoomPurpose.Armory, RoomPurpose.GreatHall, RoomPurpose.Bedchamber],
+  [HouseSubtype.WIZARD_TOWER]: [RoomPurpose.Library, RoomPurpose.Shrine, RoomPurpose.Storeroom, RoomPurpose.Bedchamber]
+};
+
+const DIFFICULTY_ORDER: EncounterInfo['difficulty'][] = ['deadly', 'hard', 'medium', 'easy', 'trivial'];
+const VALUE_ORDER: TreasureInfo['value'][] = ['legendary', 'major', 'moderate', 'minor', 'trivial'];
+
+/**
+ * Assigns each room a purpose and numbers the rooms for the dungeon key.
+ *
+ * Algorithm:
+ * 1. Number rooms by walking distance from the entrance (MapData.progression)
+ * 2. Purposes from graph position: entrance room, boss lair in the goal room,
+ *    guard posts next to both on the critical path, the farthest dead end is
+ *    the treasury and the largest remaining room a barracks or great hall
+ * 3. Everything else draws from the terrain/subtype pool
+ * 4. POI encounters (hardest first), treasures (most valuable first) and secrets
+ *    are dealt to the rooms that suit them; remaining rooms roll on their
+ *    purpose's tables
+ */
+export class RoomTagger {
+  static tag(
+    mapData: Pick<MapData, 'rooms' | 'progression' | 'terrainType' | 'subtype'>,
+    random: SeededRandom,
+    poi?: Partial<PointOfInterest>
+  ): RoomKeyEntry[] {
+    const rooms = mapData.rooms ?? [];
+    if (rooms.length === 0) return [];
+
+    const progression = mapData.progression;
+    const distances = rooms.map((_, index) => {
+      const distance = progression?.roomDistances[index] ?? index;
+      return distance === -1 ? Infinity : distance;
+    });
+    const order = rooms.map((_, index) => index).sort((a, b) => distances[a] - distances[b] || a - b);
+
+    // Step 2: Purposes from the room's place in the layout
+    const purposes = new Map<number, RoomPurpose>();
+    const assign = (room: number | undefined, purpose: RoomPurpose) => {
+      if (room !== undefined && !purposes.has(room)) purposes.set(room, purpose);
+    };
+    const critical = progression?.criticalPath ?? [];
+    assign(progression?.goalRoom, RoomPurpose.BossLair);
+    assign(progression?.entranceRoom, RoomPurpose.EntranceHall);
+    if (critical.length > 3) {
+      assign(critical[1], RoomPurpose.GuardPost);
+      assign(critical[critical.length - 2], RoomPurpose.GuardPost);
+    }
+    const deadEnds = [...(progression?.deadEnds ?? [])].sort((a, b) => distances[b] - distances[a]);
+    assign(deadEnds[0], RoomPurpose.Treasury);
+
+    const area = (index: number) => rooms[index].width * rooms[index].height;
+    const areas = rooms.map((_, index) => area(index)).sort((a, b) => a - b);
+    const median = areas[Math.floor(areas.length / 2)];
+    const largest = order.filter(index => !purposes.has(index)).sort((a, b) => area(b) - area(a))[0];
+    if (largest !== undefined && area(largest) >= median * 1.5) {
+      assign(largest, mapData.terrainType === TerrainType.House ? RoomPurpose.GreatHall : RoomPurpose.Barracks);
+    }
+
+    // Step 3: The rest from the subtype (or terrain) pool
+    const pool = (mapData.subtype && SUBTYPE_POOLS[mapData.subtype]) ||
+      TERRAIN_POOLS[mapData.terrainType ?? TerrainType.Dungeon] ||
+      TERRAIN_POOLS[TerrainType.Dungeon]!;
+    for (const index of order) {
+      assign(index, random.choice(pool));
+    }
+
+    const entries: RoomKeyEntry[] = order.map((room, position) => {
+      const purpose = purposes.get(room)!;
+      return {
+        number: position + 1,
+        room,
+        purpose,
+        title: PURPOSES[purpose].title,
+        description: random.choice(PURPOSES[purpose].descriptions)
+      };
+    });
+
+    // Step 4: POI content first, then the purpose tables
+    if (poi) {
+      this.dealPOIContent(entries, poi);
+    }
+    for (const entry of entries) {
+      const details = PURPOSES[entry.purpose];
+      if (!entry.encounter && random.next() < details.encounterChance) {
+        entry.encounter = random.choice(details.encounters);
+      }
+      if (!entry.treasure && random.next() < details.treasureChance) {
+        entry.treasure = random.choice(details.treasures);
+      }
+    }
+
+    console.log(`[RoomTagger] Keyed ${entries.length} rooms${poi?.name ? ` for "${poi.name}"` : ''}`);
+    return entries;
+  }
+
+  /**
+   * Deal a POI's encounters, treasures and secrets to the rooms that suit them
+   */
+  private static dealPOIContent(entries: RoomKeyEntry[], poi: Partial<PointOfInterest>): void {
+    const rank = (purposes: RoomPurpose[]) => [
+      ...purposes.flatMap(purpose => entries.filter(entry => entry.purpose === purpose)),
+      ...entries.filter(entry => !purposes.includes(entry.purpose) && entry.purpose !== RoomPurpose.EntranceHall),
+      ...entries.filter(entry => entry.purpose === RoomPurpose.EntranceHall)
+    ];
+    const deal = <T>(items: T[], targets: RoomKeyEntry[], field: 'encounter' | 'treasure' | 'secret', describe: (item: T) => string) => {
+      items.forEach((item, i) => {
+        const entry = targets[i % targets.length];
+        entry[field] = entry[field] ? `${entry[field]}; ${describe(item)}` : describe(item);
+      });
+    };
+
+    const encounters = [...(poi.encounters ?? [])].sort((a, b) =>
+      DIFFICULTY_ORDER.indexOf(a.difficulty) - DIFFICULTY_ORDER.indexOf(b.difficulty)
+    );
+    const traps = encounters.filter(encounter => encounter.type === 'trap');
+    deal(
+      encounters.filter(encounter => encounter.type !== 'trap'),
+      rank([RoomPurpose.BossLair, RoomPurpose.GuardPost, RoomPurpose.Barracks]),
+      'encounter',
+      encounter => `${encounter.description} (${encounter.difficulty})`
+    );
+    deal(traps, rank([RoomPurpose.Treasury, RoomPurpose.Storeroom, RoomPurpose.Crypt]), 'encounter', trap => `Trap: ${trap.description} (${trap.difficulty})`);
+
+    const treasures = [...(poi.treasures ?? [])].sort((a, b) => VALUE_ORDER.indexOf(a.value) - VALUE_ORDER.indexOf(b.value));
+    deal(treasures, rank([RoomPurpose.Treasury, RoomPurpose.BossLair]), 'treasure', treasure =>
+      treasure.hiddenMethod ? `${treasure.description} (hidden: ${treasure.hiddenMethod.replace(/_/g, ' ')})` : treasure.description
+    );
+
+    deal(poi.secrets ?? [], rank([RoomPurpose.Library, RoomPurpose.Shrine, RoomPurpose.Crypt]), 'secret', secret =>
+      `${secret.description}: ${secret.revealedInformation}`
+    );
+  }
+}
+
+/**
+ * Printable dungeon key: one section per numbered room
+ */
+export class DungeonKey {
+  static toHTML(mapData: MapData, title: string = `${mapData.terrainType ?? 'Map'} Key`): string {
+    const escape = (text: string) =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const line = (label: string, text?: string) => (text ? `\n    <p><strong>${label}:</strong> ${escape(text)}</p>` : '');
+
+    const sections = (mapData.roomKey ?? []).map(entry => `
+  <section>
+    <h2>${entry.number}. ${escape(entry.title)}</h2>
+    <p>${escape(entry.description)}</p>${line('Encounter', entry.encounter)}${line('Treasure', entry.treasure)}${line('Secret', entry.secret)}
+  </section>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escape(title)}</title>
+  <style>
+    body { font-family: Georgia, serif; max-width: 48em; margin: 2em auto; color: #222; }
+    h1 { border-bottom: 2px solid #6a5a45; }
+    h2 { font-size: 1.1em; margin-bottom: 0.2em; }
+    section { break-inside: avoid; margin-bottom: 1em; }
+    .meta { color: #666; }
+  </style>
+</head>
+<body>
+  <h1>${escape(title)}</h1>
+  <p class="meta">${escape([mapData.terrainType, mapData.subtype?.replace(/_/g, ' '), mapData.seed !== undefined ? `seed ${mapData.seed}` : undefined].filter(Boolean).join(' · '))}</p>${sections}
+</body>
+</html>
+`;
+  }
+}
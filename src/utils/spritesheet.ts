@@ -153,6 +153,22 @@ export function renderSprite(
   ctx.restore();
 }
 
+/**
+ * Cut one sprite out of its sheet as a PNG data URL (null when the sheet image isn't loaded)
+ */
+export function spriteToDataURL(sprite: Sprite, sheet: SpriteSheet): string | null {
+  if (!sheet.imageData) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sprite.width;
+  canvas.height = sprite.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(sheet.imageData, sprite.x, sprite.y, sprite.width, sprite.height, 0, 0, sprite.width, sprite.height);
+  return canvas.toDataURL('image/png');
+}
+
 /**
  * Get sprite by ID from a collection of spritesheets
  */
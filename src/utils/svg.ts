@@ -0,0 +1,645 @@
+// Vector export: the map drawn the way MapCanvas draws it, as named SVG layers
+// Same-coloured cells are merged into traced outlines, so files stay small on big maps
+
+import { Door, DoorType, ForestCell, MapData, PathPoint, Staircase, TerrainCell, TerrainType, TownCell } from '../types/generator';
+import { HouseStory } from '../types/enums';
+import { HexOrientation } from '../types/map';
+import { DMObject } from '../types/dm';
+import { PlacedObject } from '../types/objects';
+import { GeneratorRegistry } from '../generators/GeneratorRegistry';
+import { Grid } from './grid';
+import { HexUtils } from './hex';
+import { PerlinNoise } from './noise';
+import { SUBTYPE_THEMES, TERRAIN_COLORS } from './palette';
+import { WallTracer } from './walls';
+
+export type SvgLayer = 'floor' | 'walls' | 'grid' | 'trees' | 'objects' | 'labels';
+
+export interface SvgExportOptions {
+  showGrid?: boolean;
+  showRooms?: boolean; // Also town buildings, like the canvas
+  showCorridors?: boolean;
+  showTrees?: boolean;
+  floor?: HouseStory; // Floor of a multi-story house (default: ground floor)
+  showSecretDoors?: boolean; // When false secret doors are drawn as wall (player copy)
+  dmObjects?: DMObject[];
+  hexLayout?: HexOrientation; // Hex grid overlay and object positions
+  placedObjects?: PlacedObject[];
+  spriteImages?: Record<string, string>; // PNG data URL per sprite id, embedded once as a <symbol>
+}
+
+// Bottom to top; each becomes an Inkscape layer
+const LAYERS: { id: SvgLayer; label: string }[] = [
+  { id: 'floor', label: 'Floor' },
+  { id: 'walls', label: 'Walls' },
+  { id: 'grid', label: 'Grid' },
+  { id: 'trees', label: 'Trees' },
+  { id: 'objects', label: 'Objects' },
+  { id: 'labels', label: 'Labels' }
+];
+
+const GRID_STROKE = 'stroke="#646464" stroke-opacity="0.2" stroke-width="1"';
+const NOISE_SEED = 12345; // MapCanvas seed, so the wall roughening lands on the same cells
+
+/**
+ * Builds an SVG document of the map.
+ *
+ * Follows the MapCanvas renderers step by step, with two differences: runs of
+ * same-coloured cells become one traced outline path per colour instead of a shape per
+ * cell, and the random floor speckle is left out so an export is repeatable. Terrains
+ * with their own canvas renderer (overworld, tileset) are embedded as an image in the
+ * floor layer. Sprites are embedded once each and placed with <use>.
+ */
+export class SvgExport {
+  static toSVG(mapData: MapData, cellSize: number, options: SvgExportOptions = {}): string {
+    const {
+      showGrid = true,
+      showRooms = true,
+      showCorridors = true,
+      showTrees = true,
+      showSecretDoors = true,
+      floor
+    } = options;
+    const width = mapData.width * cellSize;
+    const height = mapData.height * cellSize;
+    const groundFloor = (floor ?? HouseStory.STORY_1) === HouseStory.STORY_1;
+    const noise = new PerlinNoise(NOISE_SEED);
+    const layers: Record<SvgLayer, string[]> = { floor: [], walls: [], grid: [], trees: [], objects: [], labels: [] };
+
+    layers.floor.push(`<rect width="${width}" height="${height}" fill="${this.backgroundColor(mapData)}"/>`);
+
+    const renderTerrain = mapData.terrainType && GeneratorRegistry.get(mapData.terrainType)?.render;
+    if (renderTerrain) {
+      const image = this.rasterize(mapData, cellSize, renderTerrain);
+      if (image) layers.floor.push(`<image width="${width}" height="${height}" xlink:href="${image}"/>`);
+    } else if (mapData.hexGrid && (mapData.terrainType === TerrainType.Forest || mapData.terrainType === TerrainType.Cave)) {
+      this.hexTerrain(layers, mapData, cellSize);
+    } else if (mapData.terrainType === TerrainType.Forest) {
+      this.forest(layers, mapData, cellSize, showTrees, noise);
+    } else if (mapData.terrainType === TerrainType.Cave) {
+      this.cave(layers, mapData, cellSize, noise);
+    } else if (mapData.terrainType === TerrainType.House || mapData.terrainType === TerrainType.Dungeon) {
+      const level = mapData.floors?.find(f => f.story === (floor ?? HouseStory.STORY_1));
+      const view = level ? { ...mapData, grid: level.grid, rooms: level.rooms, corridors: level.corridors, doors: level.doors } : mapData;
+      this.dungeon(layers, view, cellSize, showRooms, showCorridors, showSecretDoors, noise);
+      this.stairs(layers, level?.stairs ?? [], cellSize);
+    } else if (mapData.terrainType === TerrainType.Town) {
+      this.town(layers, mapData, cellSize, showRooms);
+    }
+
+    if (showRooms && mapData.roomKey && groundFloor) {
+      this.roomNumbers(layers, mapData, cellSize);
+    }
+    if (mapData.features && groundFloor) {
+      this.features(layers, mapData, cellSize, showSecretDoors);
+    }
+
+    const hexLayout = mapData.hexGrid?.orientation ?? options.hexLayout;
+    if (showGrid) {
+      layers.grid.push(this.path(hexLayout ? this.hexGridPath(width, height, cellSize, hexLayout) : this.squareGridPath(mapData.width, mapData.height, cellSize), `fill="none" ${GRID_STROKE}`));
+    }
+
+    if (options.dmObjects?.length) {
+      this.dmObjects(layers, options.dmObjects, cellSize);
+    }
+    const defs = this.placedObjects(layers, options.placedObjects ?? [], options.spriteImages ?? {}, cellSize, hexLayout);
+
+    const svg = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `  <title>${this.escape(`${mapData.terrainType} Map - Seed: ${mapData.seed}`)}</title>`,
+      '  <desc>Generated by DnD Map Builder</desc>',
+      ...(defs.length ? ['  <defs>', ...defs.map(d => `    ${d}`), '  </defs>'] : []),
+      ...LAYERS.flatMap(({ id, label }) => [
+        `  <g id="${id}" inkscape:groupmode="layer" inkscape:label="${label}">`,
+        ...layers[id].filter(Boolean).map(element => `    ${element}`),
+        '  </g>'
+      ]),
+      '</svg>'
+    ].join('\n');
+
+    console.log(`[SvgExport] ${mapData.width}x${mapData.height} map, ${LAYERS.map(({ id }) => `${layers[id].length} ${id}`).join(', ')}, ${defs.length} sprites, ${svg.length} bytes`);
+    return svg;
+  }
+
+  private static backgroundColor(mapData: MapData): string {
+    const colors: Record<string, string> = {
+      [TerrainType.House]: TERRAIN_COLORS.background.house,
+      [TerrainType.Forest]: TERRAIN_COLORS.background.forest,
+      [TerrainType.Cave]: TERRAIN_COLORS.background.cave,
+      [TerrainType.Dungeon]: TERRAIN_COLORS.background.dungeon,
+      [TerrainType.Town]: TERRAIN_COLORS.background.town
+    };
+    const themed = mapData.subtype ? SUBTYPE_THEMES[mapData.subtype]?.background : undefined;
+    return themed || colors[mapData.terrainType || TerrainType.Dungeon] || TERRAIN_COLORS.background.dungeon;
+  }
+
+  private static dungeon(
+    layers: Record<SvgLayer, string[]>,
+    mapData: MapData,
+    cellSize: number,
+    showRooms: boolean,
+    showCorridors: boolean,
+    showSecretDoors: boolean,
+    noise: PerlinNoise
+  ): void {
+    if (!mapData.grid) return;
+    const grid = mapData.grid;
+    const isHouse = mapData.terrainType === TerrainType.House;
+    const theme = (mapData.subtype && SUBTYPE_THEMES[mapData.subtype]) || {};
+    const wallColor = theme.wall || (isHouse ? TERRAIN_COLORS.roomStroke : TERRAIN_COLORS.wall);
+    const roomFloor = theme.floor || (isHouse ? TERRAIN_COLORS.room : '#7a7a7a');
+    const corridorFloor = theme.corridor || (isHouse ? '#c4b498' : TERRAIN_COLORS.corridor);
+    const liquid = (cell: number) => !isHouse && (cell === TerrainCell.Water || cell === TerrainCell.Lava);
+    const inRoom = (x: number, y: number) =>
+      (mapData.rooms ?? []).some(room => x >= room.x && x < room.x + room.width && y >= room.y && y < room.y + room.height);
+
+    layers.floor.push(...this.cellFills(grid, cellSize, (cell, x, y) => {
+      if (cell === 0) return showRooms || showCorridors ? (inRoom(x, y) ? roomFloor : corridorFloor) : undefined;
+      if (liquid(cell)) return cell === TerrainCell.Water ? TERRAIN_COLORS.water : TERRAIN_COLORS.lava;
+      return undefined;
+    }));
+
+    // Walls as one outline, then the lighter roughened rim where they meet the floor
+    const isWall = (x: number, y: number) => grid.get(x, y) !== 0 && !liquid(grid.get(x, y));
+    layers.walls.push(this.path(this.regionPath(grid.width, grid.height, isWall, cellSize), `fill="${wallColor}"`));
+    let rim = '';
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        if (!isWall(x, y) || !this.hasFloorNeighbor(grid, x, y)) continue;
+        const offset = Math.abs(noise.octaveNoise(x * 0.2, y * 0.2, 2, 0.5)) * cellSize * 0.25;
+        rim += this.rectPath(x * cellSize + offset, y * cellSize + offset, cellSize - offset * 2, cellSize - offset * 2);
+      }
+    }
+    layers.walls.push(this.path(rim, `fill="${theme.wallEdge || (isHouse ? '#6d5a45' : TERRAIN_COLORS.wallEdge)}"`));
+
+    if (showRooms && mapData.rooms) {
+      const stroke = isHouse ? `stroke="${TERRAIN_COLORS.roomStroke}"` : 'stroke="#ffffff" stroke-opacity="0.2"';
+      for (const room of mapData.rooms) {
+        const lineWidth = 2 * (1 + noise.octaveNoise(room.x * 0.1, room.y * 0.1, 1, 0.5) * 0.2);
+        layers.walls.push(`<rect x="${room.x * cellSize}" y="${room.y * cellSize}" width="${room.width * cellSize}" height="${room.height * cellSize}" fill="none" ${stroke} stroke-width="${this.num(lineWidth)}"/>`);
+      }
+    }
+
+    if (showCorridors && mapData.corridors) {
+      const centre = (value: number) => this.num(value * cellSize + cellSize / 2);
+      const d = mapData.corridors
+        .map(c => `M${centre(c.start[0])} ${centre(c.start[1])}L${centre(c.end[0])} ${centre(c.end[1])}`)
+        .join('');
+      const stroke = isHouse ? 'stroke="#a08c78" stroke-opacity="0.4"' : `stroke="${TERRAIN_COLORS.corridorStroke}"`;
+      layers.floor.push(this.path(d, `fill="none" ${stroke} stroke-width="${this.num(Math.max(1, cellSize / 3))}" stroke-linecap="round" stroke-linejoin="round"`));
+    }
+
+    if (mapData.doors) {
+      this.doors(layers, mapData.doors, cellSize, showSecretDoors, wallColor);
+    }
+  }
+
+  private static doors(layers: Record<SvgLayer, string[]>, doors: Door[], cellSize: number, showSecretDoors: boolean, wallColor: string): void {
+    const lineWidth = this.num(Math.max(1, cellSize / 10));
+
+    for (const door of doors) {
+      const horizontal = door.orientation === 'horizontal';
+      const px = door.x * cellSize;
+      const py = door.y * cellSize;
+      const w = horizontal ? door.width * cellSize : cellSize;
+      const h = horizontal ? cellSize : door.width * cellSize;
+
+      if (door.type === DoorType.Secret && !showSecretDoors) {
+        layers.walls.push(this.path(this.rectPath(px, py, w, h), `fill="${wallColor}"`));
+        continue;
+      }
+
+      const thickness = cellSize * 0.35;
+      const leaf = horizontal
+        ? { x: px, y: py + (cellSize - thickness) / 2, w, h: thickness }
+        : { x: px + (cellSize - thickness) / 2, y: py, w: thickness, h };
+
+      if (door.type === DoorType.Open) {
+        const jamb = Math.max(1, cellSize / 6);
+        const d = horizontal
+          ? this.rectPath(px, leaf.y, jamb, thickness) + this.rectPath(px + w - jamb, leaf.y, jamb, thickness)
+          : this.rectPath(leaf.x, py, thickness, jamb) + this.rectPath(leaf.x, py + h - jamb, thickness, jamb);
+        layers.walls.push(this.path(d, `fill="${TERRAIN_COLORS.doorStroke}" class="door-open"`));
+      } else if (door.type === DoorType.Secret) {
+        const dash = this.num(Math.max(1, cellSize / 5));
+        layers.walls.push(this.path(this.rectPath(leaf.x, leaf.y, leaf.w, leaf.h), `fill="none" stroke="${TERRAIN_COLORS.secretDoor}" stroke-width="${lineWidth}" stroke-dasharray="${dash},${dash}" class="door-secret"`));
+        layers.labels.push(this.text(px + w / 2, py + h / 2, 'S', Math.max(6, cellSize * 0.7), 'sans-serif', TERRAIN_COLORS.secretDoor));
+      } else {
+        layers.walls.push(this.path(this.rectPath(leaf.x, leaf.y, leaf.w, leaf.h), `fill="${TERRAIN_COLORS.door}" stroke="${TERRAIN_COLORS.doorStroke}" stroke-width="${lineWidth}" class="door-${door.type}"`));
+        if (door.type === DoorType.Locked) {
+          const lock = Math.max(2, cellSize * 0.3);
+          layers.walls.push(this.path(this.rectPath(px + w / 2 - lock / 2, py + h / 2 - lock / 2, lock, lock), `fill="${TERRAIN_COLORS.doorLock}"`));
+        }
+      }
+    }
+  }
+
+  private static stairs(layers: Record<SvgLayer, string[]>, stairs: Staircase[], cellSize: number): void {
+    for (const stair of stairs) {
+      const px = stair.x * cellSize;
+      const py = stair.y * cellSize;
+      const treads = [1, 2, 3].map(i => `M${this.num(px)} ${this.num(py + (cellSize * i) / 4)}h${this.num(cellSize)}`).join('');
+      const tip = stair.direction === 'up' ? py + cellSize * 0.15 : py + cellSize * 0.85;
+      const base = stair.direction === 'up' ? py + cellSize * 0.55 : py + cellSize * 0.45;
+
+      layers.floor.push(
+        this.path(this.rectPath(px, py, cellSize, cellSize), `fill="${TERRAIN_COLORS.stairs}"`),
+        this.path(treads, `fill="none" stroke="${TERRAIN_COLORS.stairsStroke}" stroke-width="${this.num(Math.max(1, cellSize / 12))}"`),
+        this.path(this.polygonPath([{ x: px + cellSize / 2, y: tip }, { x: px + cellSize * 0.2, y: base }, { x: px + cellSize * 0.8, y: base }]), `fill="${TERRAIN_COLORS.stairsStroke}"`)
+      );
+    }
+  }
+
+  private static cave(layers: Record<SvgLayer, string[]>, mapData: MapData, cellSize: number, noise: PerlinNoise): void {
+    if (!mapData.grid) return;
+    const grid = mapData.grid;
+    const theme = (mapData.subtype && SUBTYPE_THEMES[mapData.subtype]) || {};
+    const floorColors: Record<number, string> = {
+      [TerrainCell.Floor]: theme.floor || TERRAIN_COLORS.floor,
+      [TerrainCell.Water]: TERRAIN_COLORS.water,
+      [TerrainCell.DeepWater]: TERRAIN_COLORS.deepWater,
+      [TerrainCell.Lava]: TERRAIN_COLORS.lava,
+      [TerrainCell.Chasm]: TERRAIN_COLORS.chasm,
+      [TerrainCell.Rubble]: TERRAIN_COLORS.rubble
+    };
+    layers.floor.push(...this.cellFills(grid, cellSize, cell => floorColors[cell]));
+
+    // Chasm lips and rubble stones, placed per cell like the canvas
+    let lips = '';
+    let stones = '';
+    const stone = Math.max(1, cellSize / 4);
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        const cell = grid.get(x, y);
+        const px = x * cellSize;
+        const py = y * cellSize;
+        if (cell === TerrainCell.Chasm && this.hasFloorNeighbor(grid, x, y)) {
+          lips += this.rectPath(px, py, cellSize, cellSize);
+        } else if (cell === TerrainCell.Rubble) {
+          const jitter = (noise.noise(x * 1.7, y * 1.7) + 1) / 2;
+          stones += this.rectPath(px + jitter * (cellSize - stone), py + (1 - jitter) * (cellSize - stone), stone, stone);
+          stones += this.rectPath(px + ((1 - jitter) * (cellSize - stone)) / 2, py + cellSize / 2, stone * 0.75, stone * 0.75);
+        }
+      }
+    }
+    layers.floor.push(
+      this.path(lips, `fill="none" stroke="${TERRAIN_COLORS.chasmEdge}" stroke-width="${this.num(Math.max(1, cellSize / 8))}"`),
+      this.path(stones, `fill="${TERRAIN_COLORS.rubbleStone}"`)
+    );
+
+    const isWall = (x: number, y: number) => floorColors[grid.get(x, y)] === undefined;
+    layers.walls.push(this.path(this.regionPath(grid.width, grid.height, isWall, cellSize), `fill="${theme.wall || TERRAIN_COLORS.wall}"`));
+    let rim = '';
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        if (!isWall(x, y) || !this.hasFloorNeighbor(grid, x, y)) continue;
+        const offset = Math.abs(noise.octaveNoise(x * 0.3, y * 0.3, 2, 0.5)) * cellSize * 0.4;
+        rim += this.rectPath(x * cellSize, y * cellSize, cellSize - offset, cellSize - offset);
+      }
+    }
+    layers.walls.push(this.path(rim, `fill="${theme.wallEdge || TERRAIN_COLORS.wallEdge}"`));
+  }
+
+  private static forest(layers: Record<SvgLayer, string[]>, mapData: MapData, cellSize: number, showTrees: boolean, noise: PerlinNoise): void {
+    const riverColors: Partial<Record<number, string>> = {
+      [ForestCell.Bank]: TERRAIN_COLORS.bank,
+      [ForestCell.Shallows]: TERRAIN_COLORS.water,
+      [ForestCell.DeepWater]: TERRAIN_COLORS.deepWater,
+      [ForestCell.Bridge]: TERRAIN_COLORS.water // Water shows between the planks
+    };
+    if (mapData.rivers && mapData.grid) {
+      layers.floor.push(...this.cellFills(mapData.grid, cellSize, cell => riverColors[cell]));
+    }
+
+    // Trails: a wide brown stroke with a lighter centre; branches a shade darker
+    const trail = (points: PathPoint[] | undefined, isDark: boolean) => {
+      if (!points || points.length === 0) return;
+      const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${this.num(p.x * cellSize)} ${this.num(p.y * cellSize)}`).join('');
+      const line = 'fill="none" stroke-linecap="round" stroke-linejoin="round"';
+      layers.floor.push(
+        this.path(d, `${line} stroke="${isDark ? '#7a6549' : '#8b7355'}" stroke-width="${this.num(cellSize * 4)}"`),
+        this.path(d, `${line} stroke="${isDark ? '#9a8066' : '#a59076'}" stroke-width="${this.num(cellSize * 2)}"`)
+      );
+    };
+    trail(mapData.paths, false);
+    for (const branch of mapData.branchPaths ?? []) {
+      trail(branch, true);
+    }
+
+    // Trails are strokes, so the water they cross is painted again and the bridges laid on top
+    if (mapData.rivers && mapData.grid) {
+      layers.floor.push(...this.cellFills(mapData.grid, cellSize, cell =>
+        cell === ForestCell.Shallows || cell === ForestCell.DeepWater ? riverColors[cell] : undefined));
+
+      for (const river of mapData.rivers) {
+        for (const crossing of river.crossings) {
+          if (crossing.type !== 'bridge') continue;
+          const x1 = (crossing.start.x + 0.5) * cellSize;
+          const y1 = (crossing.start.y + 0.5) * cellSize;
+          const x2 = (crossing.end.x + 0.5) * cellSize;
+          const y2 = (crossing.end.y + 0.5) * cellSize;
+          layers.floor.push(this.path(`M${this.num(x1)} ${this.num(y1)}L${this.num(x2)} ${this.num(y2)}`, `fill="none" stroke="${TERRAIN_COLORS.dock}" stroke-width="${this.num(crossing.width * cellSize)}"`));
+
+          const length = Math.hypot(x2 - x1, y2 - y1);
+          const nx = -(y2 - y1) / (length || 1);
+          const ny = (x2 - x1) / (length || 1);
+          const halfDeck = (crossing.width * cellSize) / 2;
+          let seams = '';
+          for (let d = cellSize; d < length; d += cellSize) {
+            const px = x1 + ((x2 - x1) / length) * d;
+            const py = y1 + ((y2 - y1) / length) * d;
+            seams += `M${this.num(px - nx * halfDeck)} ${this.num(py - ny * halfDeck)}L${this.num(px + nx * halfDeck)} ${this.num(py + ny * halfDeck)}`;
+          }
+          layers.floor.push(this.path(seams, `fill="none" stroke="${TERRAIN_COLORS.treeStroke}" stroke-width="1"`));
+        }
+      }
+    }
+
+    // Ruined walls sit under the canopy
+    if (mapData.grid) {
+      const grid = mapData.grid;
+      layers.walls.push(this.path(this.regionPath(grid.width, grid.height, (x, y) => grid.get(x, y) === ForestCell.Ruin, cellSize), `fill="${TERRAIN_COLORS.ruin}"`));
+    }
+
+    const baseHue = (mapData.subtype && SUBTYPE_THEMES[mapData.subtype]?.treeHue) ?? 90;
+    if (showTrees && mapData.trees) {
+      for (const tree of mapData.trees) {
+        const cx = tree.x * cellSize;
+        const cy = tree.y * cellSize;
+        const radius = (tree.size || 1.5) * cellSize * (1 + noise.octaveNoise(tree.x * 0.1, tree.y * 0.1, 2, 0.5) * 0.15);
+        const hue = baseHue + ((tree.clusterId ?? 0) * 15) % 45;
+
+        // The outline is stroked with the base circle; the inner circles never reach the edge
+        layers.trees.push(
+          `<circle cx="${this.num(cx)}" cy="${this.num(cy)}" r="${this.num(radius)}" fill="hsl(${hue}, 55%, 20%)" stroke="${TERRAIN_COLORS.treeStroke}" stroke-width="1"/>`,
+          `<circle cx="${this.num(cx)}" cy="${this.num(cy)}" r="${this.num(radius * 0.75)}" fill="hsl(${hue}, 55%, 28%)"/>`,
+          `<circle cx="${this.num(cx - radius * 0.25)}" cy="${this.num(cy - radius * 0.25)}" r="${this.num(radius * 0.4)}" fill="hsl(${hue}, 60%, 36%)"/>`
+        );
+      }
+    }
+
+    const marker = (point: PathPoint, fill: string, stroke: string, label: string, fontSize: number) => {
+      layers.labels.push(
+        `<circle cx="${this.num(point.x * cellSize)}" cy="${this.num(point.y * cellSize)}" r="${this.num(cellSize * 3)}" fill="${fill}" stroke="${stroke}" stroke-width="2"/>`,
+        this.text(point.x * cellSize, point.y * cellSize, label, fontSize, 'Arial', '#ffffff')
+      );
+    };
+    if (mapData.entrance) marker(mapData.entrance, '#4caf50', '#2e7d32', 'IN', cellSize * 2);
+    if (mapData.exit) marker(mapData.exit, '#f44336', '#c62828', 'OUT', cellSize * 1.8);
+  }
+
+  private static town(layers: Record<SvgLayer, string[]>, mapData: MapData, cellSize: number, showBuildings: boolean): void {
+    if (!mapData.grid) return;
+    const grid = mapData.grid;
+    const groundColors: Partial<Record<number, string>> = {
+      [TownCell.Street]: TERRAIN_COLORS.street,
+      [TownCell.Plaza]: TERRAIN_COLORS.plaza,
+      [TownCell.Water]: TERRAIN_COLORS.water,
+      [TownCell.Dock]: TERRAIN_COLORS.dock
+    };
+    layers.floor.push(...this.cellFills(grid, cellSize, cell => groundColors[cell]));
+    layers.walls.push(this.path(this.regionPath(grid.width, grid.height, (x, y) => grid.get(x, y) === TownCell.Wall, cellSize), `fill="${TERRAIN_COLORS.townWall}"`));
+
+    if (!showBuildings || !mapData.buildings) return;
+
+    const stroke = `stroke="${TERRAIN_COLORS.roofStroke}" stroke-width="${this.num(Math.max(1, cellSize / 4))}"`;
+    for (const building of mapData.buildings) {
+      const px = building.x * cellSize;
+      const py = building.y * cellSize;
+      const w = building.width * cellSize;
+      const h = building.height * cellSize;
+      const roof = TERRAIN_COLORS.roof[building.kind || 'house'] || TERRAIN_COLORS.roof.house;
+      const ridge = w >= h ? `M${this.num(px)} ${this.num(py + h / 2)}h${this.num(w)}` : `M${this.num(px + w / 2)} ${this.num(py)}v${this.num(h)}`;
+      layers.walls.push(
+        this.path(this.rectPath(px, py, w, h), `fill="${roof}" ${stroke}`),
+        this.path(ridge, `fill="none" ${stroke}`)
+      );
+    }
+  }
+
+  // Hex-quantised forests and caves: one path of hexes per colour
+  private static hexTerrain(layers: Record<SvgLayer, string[]>, mapData: MapData, cellSize: number): void {
+    if (!mapData.hexGrid) return;
+    const { orientation, cells } = mapData.hexGrid;
+    const size = HexUtils.sizeForCell(cellSize);
+    const theme = (mapData.subtype && SUBTYPE_THEMES[mapData.subtype]) || {};
+    const isForest = mapData.terrainType === TerrainType.Forest;
+    const solid = isForest ? ForestCell.Tree : TerrainCell.Wall;
+
+    const cellColors: Record<number, string | undefined> = isForest
+      ? {
+          [ForestCell.Tree]: TERRAIN_COLORS.tree,
+          [ForestCell.Path]: '#a59076',
+          [ForestCell.Ruin]: TERRAIN_COLORS.ruin,
+          [ForestCell.Shallows]: TERRAIN_COLORS.water,
+          [ForestCell.DeepWater]: TERRAIN_COLORS.deepWater,
+          [ForestCell.Bank]: TERRAIN_COLORS.bank,
+          [ForestCell.Bridge]: TERRAIN_COLORS.dock
+        }
+      : {
+          [TerrainCell.Floor]: theme.floor || TERRAIN_COLORS.floor,
+          [TerrainCell.Wall]: theme.wall || TERRAIN_COLORS.wall,
+          [TerrainCell.Water]: TERRAIN_COLORS.water,
+          [TerrainCell.Lava]: TERRAIN_COLORS.lava,
+          [TerrainCell.DeepWater]: TERRAIN_COLORS.deepWater,
+          [TerrainCell.Chasm]: TERRAIN_COLORS.chasm,
+          [TerrainCell.Rubble]: TERRAIN_COLORS.rubble
+        };
+
+    const paths = new Map<number, string>();
+    for (let row = 0; row < cells.height; row++) {
+      for (let col = 0; col < cells.width; col++) {
+        const cell = cells.get(col, row);
+        if (!cellColors[cell]) continue; // Clearings show the background
+        const corners = HexUtils.hexCorners(HexUtils.hexToPixel({ col, row }, size, orientation), size, orientation);
+        paths.set(cell, (paths.get(cell) ?? '') + this.polygonPath(corners));
+      }
+    }
+
+    // Stroked in the fill colour to hide anti-aliasing seams, as on the canvas
+    paths.forEach((d, cell) => {
+      const layer = cell !== solid ? layers.floor : isForest ? layers.trees : layers.walls;
+      layer.push(this.path(d, `fill="${cellColors[cell]}" stroke="${cellColors[cell]}" stroke-width="1"`));
+    });
+  }
+
+  // Numbered badge in the middle of each keyed room
+  private static roomNumbers(layers: Record<SvgLayer, string[]>, mapData: MapData, cellSize: number): void {
+    const rooms = mapData.rooms ?? [];
+    const radius = Math.max(7, cellSize * 1.2);
+
+    for (const entry of mapData.roomKey ?? []) {
+      const room = rooms[entry.room];
+      if (!room) continue;
+      const cx = (room.x + room.width / 2) * cellSize;
+      const cy = (room.y + room.height / 2) * cellSize;
+      layers.labels.push(
+        `<circle cx="${this.num(cx)}" cy="${this.num(cy)}" r="${this.num(radius)}" fill="${TERRAIN_COLORS.roomNumber}" stroke="${TERRAIN_COLORS.roomStroke}" stroke-width="1.5"/>`,
+        this.text(cx, cy + 1, String(entry.number), Math.round(radius * 1.1), 'Georgia, serif', TERRAIN_COLORS.roomStroke)
+      );
+    }
+  }
+
+  // Diamond marker with the feature's initial
+  private static features(layers: Record<SvgLayer, string[]>, mapData: MapData, cellSize: number, showHidden: boolean): void {
+    const size = Math.max(5, cellSize * 0.9);
+    const colors = {
+      feature: TERRAIN_COLORS.feature,
+      entry: TERRAIN_COLORS.entrance,
+      exit: TERRAIN_COLORS.goal,
+      hidden: TERRAIN_COLORS.hiddenArea
+    };
+
+    for (const feature of mapData.features ?? []) {
+      if (feature.kind === 'hidden' && !showHidden) continue;
+      const cx = (feature.x + 0.5) * cellSize;
+      const cy = (feature.y + 0.5) * cellSize;
+      layers.labels.push(
+        this.path(this.polygonPath([{ x: cx, y: cy - size }, { x: cx + size, y: cy }, { x: cx, y: cy + size }, { x: cx - size, y: cy }]), `fill="${colors[feature.kind]}"`),
+        this.text(cx, cy + 1, feature.kind === 'hidden' ? '?' : feature.type.charAt(0).toUpperCase(), Math.round(size), 'sans-serif', '#ffffff')
+      );
+    }
+  }
+
+  // Circles for monsters and NPCs, triangles for traps, squares for the rest; hidden ones dashed
+  private static dmObjects(layers: Record<SvgLayer, string[]>, objects: DMObject[], cellSize: number): void {
+    const size = Math.max(4, cellSize * 0.4);
+    const lineWidth = this.num(Math.max(1, cellSize / 10));
+
+    for (const obj of objects) {
+      const cx = (obj.x + 0.5) * cellSize;
+      const cy = (obj.y + 0.5) * cellSize;
+      const style = `fill="${TERRAIN_COLORS.dmObject[obj.category]}" stroke="#ffffff" stroke-width="${lineWidth}"` +
+        (obj.visibleToPlayers ? '' : ` opacity="0.7" stroke-dasharray="${this.num(size / 2)},${this.num(size / 3)}"`);
+      const shape = obj.category === 'monster' || obj.category === 'npc'
+        ? `<circle cx="${this.num(cx)}" cy="${this.num(cy)}" r="${this.num(size)}" ${style}`
+        : obj.category === 'trap'
+          ? `<path d="${this.polygonPath([{ x: cx, y: cy - size }, { x: cx + size, y: cy + size }, { x: cx - size, y: cy + size }])}" ${style}`
+          : `<path d="${this.rectPath(cx - size, cy - size, size * 2, size * 2)}" ${style}`;
+      layers.objects.push(`${shape} class="dm-${obj.category}"/>`);
+    }
+  }
+
+  /**
+   * Placed sprites, lowest zIndex first. Each sprite image goes into <defs> once as a
+   * unit-square symbol; returns those definitions
+   */
+  private static placedObjects(
+    layers: Record<SvgLayer, string[]>,
+    objects: PlacedObject[],
+    spriteImages: Record<string, string>,
+    cellSize: number,
+    hexLayout?: HexOrientation
+  ): string[] {
+    const symbols = new Map<string, string>();
+
+    for (const obj of [...objects].sort((a, b) => a.zIndex - b.zIndex)) {
+      const image = spriteImages[obj.spriteId];
+      if (!image) continue;
+
+      const id = `sprite-${obj.spriteId.replace(/[^\w-]+/g, '_')}`;
+      if (!symbols.has(id)) {
+        symbols.set(id, `<symbol id="${id}" viewBox="0 0 1 1" preserveAspectRatio="none"><image width="1" height="1" preserveAspectRatio="none" xlink:href="${image}"/></symbol>`);
+      }
+
+      const { x, y } = hexLayout
+        ? HexUtils.hexToPixel({ col: obj.gridX, row: obj.gridY }, HexUtils.sizeForCell(cellSize), hexLayout)
+        : { x: (obj.gridX + 0.5) * cellSize, y: (obj.gridY + 0.5) * cellSize };
+      const w = cellSize * obj.scaleX;
+      const h = cellSize * obj.scaleY;
+      const transform = `translate(${this.num(x)} ${this.num(y)})${obj.rotation ? ` rotate(${this.num(obj.rotation)})` : ''}`;
+      layers.objects.push(`<use xlink:href="#${id}" x="${this.num(-w / 2)}" y="${this.num(-h / 2)}" width="${this.num(w)}" height="${this.num(h)}" transform="${transform}"/>`);
+    }
+
+    return Array.from(symbols.values());
+  }
+
+  private static squareGridPath(gridWidth: number, gridHeight: number, cellSize: number): string {
+    let d = '';
+    for (let x = 0; x <= gridWidth; x++) d += `M${x * cellSize} 0V${gridHeight * cellSize}`;
+    for (let y = 0; y <= gridHeight; y++) d += `M0 ${y * cellSize}H${gridWidth * cellSize}`;
+    return d;
+  }
+
+  private static hexGridPath(width: number, height: number, cellSize: number, orientation: HexOrientation): string {
+    const size = HexUtils.sizeForCell(cellSize);
+    const { cols, rows } = HexUtils.gridDimensions(width, height, size, orientation);
+    let d = '';
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        d += this.polygonPath(HexUtils.hexCorners(HexUtils.hexToPixel({ col, row }, size, orientation), size, orientation));
+      }
+    }
+    return d;
+  }
+
+  /**
+   * One traced path per colour; cells coloured undefined are left out
+   */
+  private static cellFills(grid: Grid, cellSize: number, colorOf: (cell: number, x: number, y: number) => string | undefined): string[] {
+    const colors: (string | undefined)[] = new Array(grid.width * grid.height);
+    const distinct = new Set<string>();
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        const color = colorOf(grid.get(x, y), x, y);
+        colors[y * grid.width + x] = color;
+        if (color) distinct.add(color);
+      }
+    }
+
+    return Array.from(distinct, color =>
+      this.path(this.regionPath(grid.width, grid.height, (x, y) => colors[y * grid.width + x] === color, cellSize), `fill="${color}"`));
+  }
+
+  private static regionPath(width: number, height: number, inside: (x: number, y: number) => boolean, cellSize: number): string {
+    return WallTracer.outlines(width, height, inside)
+      .map(loop => loop.map((p, i) => {
+        if (i === 0) return `M${this.num(p.x * cellSize)} ${this.num(p.y * cellSize)}`;
+        // Outlines only turn at right angles: each run is a horizontal or vertical line
+        return p.y === loop[i - 1].y ? `H${this.num(p.x * cellSize)}` : `V${this.num(p.y * cellSize)}`;
+      }).join('') + 'Z')
+      .join('');
+  }
+
+  /**
+   * A terrain drawn by its generator's canvas renderer, as a PNG data URL
+   */
+  private static rasterize(mapData: MapData, cellSize: number, render: (ctx: CanvasRenderingContext2D, mapData: MapData, cellSize: number) => void): string | null {
+    const canvas = document.createElement('canvas');
+    canvas.width = mapData.width * cellSize;
+    canvas.height = mapData.height * cellSize;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    render(ctx, mapData, cellSize);
+    return canvas.toDataURL('image/png');
+  }
+
+  private static hasFloorNeighbor(grid: Grid, x: number, y: number): boolean {
+    return [[-1, 0], [1, 0], [0, -1], [0, 1]].some(([dx, dy]) => grid.getOr(x + dx, y + dy, -1) === 0);
+  }
+
+  private static path(d: string, attributes: string): string {
+    return d ? `<path d="${d}" ${attributes}/>` : '';
+  }
+
+  private static rectPath(x: number, y: number, w: number, h: number): string {
+    return `M${this.num(x)} ${this.num(y)}h${this.num(w)}v${this.num(h)}h${this.num(-w)}z`;
+  }
+
+  private static polygonPath(points: PathPoint[]): string {
+    return points.map((p, i) => `${i === 0 ? 'M' : 'L'}${this.num(p.x)} ${this.num(p.y)}`).join('') + 'Z';
+  }
+
+  private static text(x: number, y: number, text: string, fontSize: number, fontFamily: string, fill: string): string {
+    return `<text x="${this.num(x)}" y="${this.num(y)}" font-family="${fontFamily}" font-weight="bold" font-size="${this.num(fontSize)}" text-anchor="middle" dominant-baseline="central" fill="${fill}">${this.escape(text)}</text>`;
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private static num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+}
@@ -0,0 +1,406 @@
+// Tiled map editor (JSON / .tmj) export and import
+// The grid becomes a tile layer, rooms and doors rectangle layers and placed objects
+// tile objects, so a generated map can be finished by hand in Tiled and loaded back
+
+import { Door, DoorType, ForestCell, MapData, OverworldCell, Room, TerrainCell, TerrainType, TownCell } from '../types/generator';
+import { PlacedObject, SpriteSheet } from '../types/objects';
+import { Grid } from './grid';
+
+export interface TiledProperty {
+  name: string;
+  type: 'string' | 'int' | 'float' | 'bool';
+  value: string | number | boolean;
+}
+
+export interface TiledTileset {
+  firstgid: number;
+  name: string;
+  image: string; // Relative to the map file
+  imagewidth: number;
+  imageheight: number;
+  tilewidth: number;
+  tileheight: number;
+  columns: number;
+  tilecount: number;
+  margin: number;
+  spacing: number;
+  tiles?: { id: number; properties?: TiledProperty[] }[];
+  properties?: TiledProperty[];
+}
+
+export interface TiledObject {
+  id: number;
+  name: string;
+  type: string;
+  x: number; // Pixels; the bottom-left corner for tile objects, else the top-left
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees clockwise around (x, y)
+  visible: boolean;
+  gid?: number;
+  properties?: TiledProperty[];
+}
+
+export interface TiledLayer {
+  id: number;
+  name: string;
+  type: 'tilelayer' | 'objectgroup';
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  data?: number[] | string; // Global tile ids, row by row; a string when encoded
+  encoding?: 'csv' | 'base64';
+  compression?: string;
+  objects?: TiledObject[];
+  draworder?: 'topdown' | 'index';
+  opacity: number;
+  visible: boolean;
+}
+
+export interface TiledMap {
+  type: 'map';
+  version: string;
+  tiledversion: string;
+  orientation: 'orthogonal';
+  renderorder: 'right-down';
+  infinite: boolean;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  nextlayerid: number;
+  nextobjectid: number;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+}
+
+export interface TiledImport {
+  mapData: MapData;
+  placedObjects: PlacedObject[];
+}
+
+// Tile names of each terrain's cell codes (the terrain tileset has one tile per code)
+const CELL_NAMES: Record<TerrainType, Record<number, string>> = {
+  [TerrainType.Dungeon]: TerrainCell,
+  [TerrainType.Cave]: TerrainCell,
+  [TerrainType.House]: { 0: 'Wall', 1: 'Floor' },
+  [TerrainType.Forest]: ForestCell,
+  [TerrainType.Town]: TownCell,
+  [TerrainType.Tileset]: TerrainCell,
+  [TerrainType.Overworld]: OverworldCell
+};
+
+// Cell used where a tile was erased in Tiled
+const EMPTY_CELL: Record<TerrainType, number> = {
+  [TerrainType.Dungeon]: TerrainCell.Wall,
+  [TerrainType.Cave]: TerrainCell.Wall,
+  [TerrainType.House]: 0,
+  [TerrainType.Forest]: ForestCell.Tree,
+  [TerrainType.Town]: TownCell.Ground,
+  [TerrainType.Tileset]: TerrainCell.Wall,
+  [TerrainType.Overworld]: OverworldCell.Ocean
+};
+
+const TERRAIN_TILESET = 'terrain';
+const GID_MASK = 0x0fffffff; // Strips Tiled's flip and rotation flags
+
+/**
+ * Converts maps to and from Tiled's JSON map format.
+ *
+ * Export writes layers "Terrain" (a tile per cell, gid = cell code + 1), "Rooms",
+ * "Doors" and "Objects", a terrain tileset with a swatch per cell code and a tileset
+ * per spritesheet. Every tile and object carries its cell code or sprite id as a
+ * property, so import works off the properties and only falls back to tile positions
+ * for tiles painted from a sheet in Tiled. Unknown layers are ignored on import.
+ */
+export class Tiled {
+  static readonly terrainImage = 'terrain.png';
+
+  static sheetImage(sheet: SpriteSheet): string {
+    return `sheets/${sheet.id.replace(/[^\w-]+/g, '_')}.png`;
+  }
+
+  /**
+   * Cell codes the terrain tileset holds (a tile each, in code order)
+   */
+  static cellCodes(mapData: MapData): number[] {
+    const names = CELL_NAMES[mapData.terrainType ?? TerrainType.Dungeon];
+    const known = Object.keys(names).map(Number).filter(code => Number.isInteger(code));
+    const highest = Math.max(...known, ...(mapData.grid ? Array.from(mapData.grid.cells) : []));
+    return Array.from({ length: highest + 1 }, (_, code) => code);
+  }
+
+  static toMap(mapData: MapData, placedObjects: PlacedObject[], spritesheets: SpriteSheet[], tileSize: number): TiledMap {
+    const terrainType = mapData.terrainType ?? TerrainType.Dungeon;
+    const names = CELL_NAMES[terrainType];
+    const codes = this.cellCodes(mapData);
+    let nextObjectId = 1;
+
+    // Tilesets: terrain swatches first, then one per spritesheet
+    const tilesets: TiledTileset[] = [{
+      firstgid: 1,
+      name: TERRAIN_TILESET,
+      image: this.terrainImage,
+      imagewidth: codes.length * tileSize,
+      imageheight: tileSize,
+      tilewidth: tileSize,
+      tileheight: tileSize,
+      columns: codes.length,
+      tilecount: codes.length,
+      margin: 0,
+      spacing: 0,
+      tiles: codes.map(code => ({ id: code, properties: [
+        { name: 'cell', type: 'int', value: code },
+        { name: 'name', type: 'string', value: names[code] ?? `Cell ${code}` }
+      ] }))
+    }];
+    let firstgid = 1 + codes.length;
+    const spriteGids = new Map<string, number>();
+    for (const sheet of spritesheets) {
+      const tilecount = sheet.gridWidth * sheet.gridHeight;
+      const sheetFirstgid = firstgid;
+      tilesets.push({
+        firstgid: sheetFirstgid,
+        name: sheet.name,
+        image: this.sheetImage(sheet),
+        imagewidth: sheet.gridWidth * sheet.spriteWidth,
+        imageheight: sheet.gridHeight * sheet.spriteHeight,
+        tilewidth: sheet.spriteWidth,
+        tileheight: sheet.spriteHeight,
+        columns: sheet.gridWidth,
+        tilecount,
+        margin: 0,
+        spacing: 0,
+        tiles: sheet.sprites.map(sprite => {
+          const id = Math.floor(sprite.y / sheet.spriteHeight) * sheet.gridWidth + Math.floor(sprite.x / sheet.spriteWidth);
+          spriteGids.set(sprite.id, sheetFirstgid + id);
+          return { id, properties: [{ name: 'spriteId', type: 'string' as const, value: sprite.id }] };
+        }),
+        properties: [{ name: 'sheetId', type: 'string', value: sheet.id }]
+      });
+      firstgid += tilecount;
+    }
+
+    const rect = (room: Room) => ({ x: room.x * tileSize, y: room.y * tileSize, width: room.width * tileSize, height: room.height * tileSize });
+    const rooms: TiledObject[] = (mapData.rooms ?? []).map((room, index) => ({
+      id: nextObjectId++,
+      name: `Room ${index + 1}`,
+      type: 'room',
+      ...rect(room),
+      rotation: 0,
+      visible: true
+    }));
+    const doors: TiledObject[] = (mapData.doors ?? []).map(door => ({
+      id: nextObjectId++,
+      name: '',
+      type: 'door',
+      ...rect({
+        x: door.x,
+        y: door.y,
+        width: door.orientation === 'horizontal' ? door.width : 1,
+        height: door.orientation === 'horizontal' ? 1 : door.width
+      }),
+      rotation: 0,
+      visible: true,
+      properties: [
+        { name: 'doorType', type: 'string', value: door.type },
+        { name: 'orientation', type: 'string', value: door.orientation },
+        { name: 'room', type: 'int', value: door.room }
+      ]
+    }));
+
+    // Sprites centred on their cell, scaled from one cell like the object layer draws them;
+    // Tiled anchors tile objects at the bottom-left corner and rectangles at the top-left
+    const objects: TiledObject[] = placedObjects.map(object => {
+      const width = object.scaleX * tileSize;
+      const height = object.scaleY * tileSize;
+      const gid = spriteGids.get(object.spriteId);
+      const corner = this.rotate(-width / 2, gid ? height / 2 : -height / 2, object.rotation);
+      return {
+        id: nextObjectId++,
+        name: '',
+        type: 'object',
+        x: (object.gridX + 0.5) * tileSize + corner.x,
+        y: (object.gridY + 0.5) * tileSize + corner.y,
+        width,
+        height,
+        rotation: object.rotation,
+        visible: true,
+        ...(gid ? { gid } : {}),
+        properties: [
+          { name: 'spriteId', type: 'string', value: object.spriteId },
+          { name: 'zIndex', type: 'int', value: object.zIndex }
+        ]
+      };
+    });
+
+    const objectLayer = (id: number, name: string, layerObjects: TiledObject[]): TiledLayer => ({
+      id, name, type: 'objectgroup', x: 0, y: 0, objects: layerObjects, draworder: 'topdown', opacity: 1, visible: true
+    });
+    return {
+      type: 'map',
+      version: '1.10',
+      tiledversion: '1.10.2',
+      orientation: 'orthogonal',
+      renderorder: 'right-down',
+      infinite: false,
+      width: mapData.width,
+      height: mapData.height,
+      tilewidth: tileSize,
+      tileheight: tileSize,
+      nextlayerid: 5,
+      nextobjectid: nextObjectId,
+      layers: [
+        {
+          id: 1,
+          name: 'Terrain',
+          type: 'tilelayer',
+          x: 0,
+          y: 0,
+          width: mapData.width,
+          height: mapData.height,
+          data: mapData.grid ? Array.from(mapData.grid.cells, cell => cell + 1) : new Array(mapData.width * mapData.height).fill(0),
+          opacity: 1,
+          visible: true
+        },
+        objectLayer(2, 'Rooms', rooms),
+        objectLayer(3, 'Doors', doors),
+        objectLayer(4, 'Objects', objects)
+      ],
+      tilesets,
+      properties: [
+        { name: 'terrainType', type: 'string', value: terrainType },
+        ...(mapData.seed !== undefined ? [{ name: 'seed', type: 'int' as const, value: mapData.seed }] : [])
+      ]
+    };
+  }
+
+  /**
+   * MapData and placed objects from a Tiled map; throws when the map can't be read
+   */
+  static fromMap(map: TiledMap): TiledImport {
+    if (map.orientation !== 'orthogonal' || map.infinite) {
+      throw new Error('Only fixed-size orthogonal Tiled maps can be imported');
+    }
+    const property = (properties: TiledProperty[] | undefined, name: string) => properties?.find(p => p.name === name)?.value;
+    const terrainType = (property(map.properties, 'terrainType') as TerrainType | undefined) ?? TerrainType.Dungeon;
+    if (!CELL_NAMES[terrainType]) {
+      throw new Error(`Unknown terrain type "${terrainType}"`);
+    }
+    const seed = property(map.properties, 'seed');
+    const tileWidth = map.tilewidth;
+    const tileHeight = map.tileheight;
+
+    // Sorted by firstgid so the owning tileset of a gid is the last one at or below it
+    const tilesets = [...map.tilesets].sort((a, b) => a.firstgid - b.firstgid);
+    const tileAt = (gid: number) => {
+      const tileset = [...tilesets].reverse().find(t => t.firstgid <= gid);
+      if (!tileset) return undefined;
+      const id = gid - tileset.firstgid;
+      return { tileset, id, properties: tileset.tiles?.find(t => t.id === id)?.properties };
+    };
+
+    // Terrain tile layer
+    const terrainLayer = map.layers.find(l => l.type === 'tilelayer' && l.name === 'Terrain') ?? map.layers.find(l => l.type === 'tilelayer');
+    const grid = new Grid(map.width, map.height, EMPTY_CELL[terrainType]);
+    if (terrainLayer) {
+      const data = this.tileData(terrainLayer);
+      data.forEach((raw, index) => {
+        const gid = raw & GID_MASK;
+        const tile = gid > 0 ? tileAt(gid) : undefined;
+        if (!tile) return;
+        const cell = property(tile.properties, 'cell');
+        grid.cells[index] = typeof cell === 'number' ? cell : tile.id;
+      });
+    }
+
+    const layerObjects = (name: string) => map.layers.filter(l => l.type === 'objectgroup' && l.name === name).flatMap(l => l.objects ?? []);
+    const toCells = (object: TiledObject): Room => ({
+      x: Math.round(object.x / tileWidth),
+      y: Math.round(object.y / tileHeight),
+      width: Math.max(1, Math.round(object.width / tileWidth)),
+      height: Math.max(1, Math.round(object.height / tileHeight))
+    });
+    const rooms = layerObjects('Rooms').map(toCells);
+    const doors: Door[] = layerObjects('Doors').map(object => {
+      const cells = toCells(object);
+      const orientation = (property(object.properties, 'orientation') as Door['orientation'] | undefined)
+        ?? (cells.width >= cells.height ? 'horizontal' : 'vertical');
+      return {
+        x: cells.x,
+        y: cells.y,
+        width: orientation === 'horizontal' ? cells.width : cells.height,
+        orientation,
+        type: (property(object.properties, 'doorType') as DoorType | undefined) ?? DoorType.Door,
+        room: Number(property(object.properties, 'room') ?? 0)
+      };
+    });
+
+    // Every other object layer holds sprites; tiles painted in Tiled resolve through their tileset
+    const placedObjects: PlacedObject[] = [];
+    for (const layer of map.layers) {
+      if (layer.type !== 'objectgroup' || layer.name === 'Rooms' || layer.name === 'Doors') continue;
+      for (const object of layer.objects ?? []) {
+        const gid = (object.gid ?? 0) & GID_MASK;
+        const tile = gid > 0 ? tileAt(gid) : undefined;
+        const sheetId = tile && property(tile.tileset.properties, 'sheetId');
+        const spriteId = (tile && property(tile.properties, 'spriteId'))
+          ?? (sheetId ? `${sheetId}_${Math.floor(tile!.id / tile!.tileset.columns)}_${tile!.id % tile!.tileset.columns}` : undefined)
+          ?? property(object.properties, 'spriteId');
+        if (typeof spriteId !== 'string') continue;
+
+        const corner = this.rotate(-object.width / 2, gid ? object.height / 2 : -object.height / 2, object.rotation);
+        placedObjects.push({
+          id: `tiled-${object.id}`,
+          spriteId,
+          gridX: Math.round((object.x - corner.x) / tileWidth - 0.5),
+          gridY: Math.round((object.y - corner.y) / tileHeight - 0.5),
+          scaleX: object.width / tileWidth,
+          scaleY: object.height / tileHeight,
+          rotation: object.rotation,
+          zIndex: Number(property(object.properties, 'zIndex') ?? placedObjects.length)
+        });
+      }
+    }
+
+    console.log(`[Tiled] Imported ${map.width}x${map.height} ${terrainType} map, ${rooms.length} rooms, ${doors.length} doors, ${placedObjects.length} objects`);
+    return {
+      mapData: {
+        width: map.width,
+        height: map.height,
+        grid,
+        terrainType,
+        ...(typeof seed === 'number' ? { seed } : {}),
+        ...(rooms.length > 0 ? { rooms } : {}),
+        ...(doors.length > 0 ? { doors } : {})
+      },
+      placedObjects
+    };
+  }
+
+  /**
+   * Global tile ids of a tile layer, decoding base64 data (uncompressed only)
+   */
+  private static tileData(layer: TiledLayer): number[] {
+    if (Array.isArray(layer.data)) return layer.data;
+    if (layer.compression) {
+      throw new Error(`Layer "${layer.name}" uses ${layer.compression} compression; save the map with CSV or uncompressed Base64 tile data`);
+    }
+    const bytes = Uint8Array.from(atob(layer.data ?? ''), c => c.charCodeAt(0));
+    const view = new DataView(bytes.buffer);
+    return Array.from({ length: bytes.length / 4 }, (_, i) => view.getUint32(i * 4, true));
+  }
+
+  /**
+   * Offset (dx, dy) turned clockwise by the given degrees
+   */
+  private static rotate(dx: number, dy: number, degrees: number): { x: number; y: number } {
+    const radians = (degrees * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return { x: dx * cos - dy * sin, y: dx * sin + dy * cos };
+  }
+}
@@ -4,7 +4,31 @@ import { ConnectivityUtils } from '../utils/connectivity';
 import { SeededRandom } from '../utils/random';
 import { PerlinNoise } from '../utils/noise';
 import { PoissonDiskSampling } from '../utils/poisson';
-import { Room } from '../types/generator';
+import { DoorPlacer } from '../utils/doors';
+import { HexUtils } from '../utils/hex';
+import { MapTransfer } from '../utils/mapTransfer';
+import { Grid, GridAdapter } from '../utils/grid';
+import { ProgressionAnalyzer } from '../utils/progression';
+import { DungeonKey, RoomTagger } from '../utils/roomKey';
+import { MapConstraintSolver } from '../utils/constraints';
+import { PrefabLoader, PrefabStamper } from '../utils/prefabs';
+import { WorkspaceManager } from '../utils/workspaceManager';
+import { CampaignParser } from '../utils/campaignParser';
+import { Permalink } from '../utils/permalink';
+import { getPresetByName } from '../utils/presets';
+import { MapAnalyzer } from '../utils/analyzer';
+import { ChunkedMap } from '../utils/chunks';
+import { WALKABLE } from '../utils/constraints';
+import { UniversalVTT } from '../utils/uvtt';
+import { FoundryExport } from '../utils/foundry';
+import { Tiled } from '../utils/tiled';
+import { PrintExport, PrintLayout } from '../utils/print';
+import { SvgExport } from '../utils/svg';
+import { WallTracer } from '../utils/walls';
+import { GeneratorRegistry } from '../generators';
+import { DoorType, IMPASSABLE_CELLS, MapData, PrefabDefinition, Room, RoomPurpose, TerrainCell, TerrainType } from '../types/generator';
+import { MapRequirements, PointOfInterest } from '../types/campaign';
+import { ObjectCategory } from '../types/objects';
 
 describe('ConnectivityUtils', () => {
   it('should build MST for rooms', () => {
@@ -80,6 +104,13 @@ describe('SeededRandom', () => {
       expect(Number.isInteger(value)).toBe(true);
     }
   });
+
+  it('should slug names for readable seeds and file names', () => {
+    expect(SeededRandom.slug('  Goblin Cave #7! ')).toBe('goblin-cave-7');
+    expect(SeededRandom.slug('???')).toBe('map');
+    expect(SeededRandom.slug('', 'scene')).toBe('scene');
+    expect(SeededRandom.named('Goblin Cave')).toMatch(/^goblin-cave-\d+$/);
+  });
 });
 
 describe('PerlinNoise', () => {
@@ -139,3 +170,877 @@ describe('PoissonDiskSampling', () => {
     }
   });
 });
+
+describe('DoorPlacer', () => {
+  // Two rooms joined by a one-cell corridor, plus a corridor hugging the first room's top wall
+  const rooms: Room[] = [
+    { x: 2, y: 3, width: 4, height: 4 },
+    { x: 12, y: 3, width: 4, height: 4 }
+  ];
+  const makeGrid = (): Grid => {
+    const grid = Array.from({ length: 10 }, () => Array(20).fill(0));
+    for (const room of rooms) {
+      for (let y = room.y; y < room.y + room.height; y++) {
+        for (let x = room.x; x < room.x + room.width; x++) grid[y][x] = 1;
+      }
+    }
+    for (let x = 6; x < 12; x++) grid[4][x] = 1; // Corridor between the rooms
+    for (let x = 1; x < 8; x++) grid[2][x] = 1; // Corridor along the top wall
+    return Grid.fromArray(grid);
+  };
+  const noExtras = { doorway: 0, locked: 0, secret: 0 };
+
+  it('should put a door on each end of a corridor but not along a wall', () => {
+    const doors = DoorPlacer.placeDoors(makeGrid(), rooms, cell => cell === 1, new SeededRandom(1), noExtras);
+
+    expect(doors).toHaveLength(2);
+    expect(doors.map(d => [d.x, d.y, d.room])).toEqual([[6, 4, 0], [11, 4, 1]]);
+    expect(doors.every(d => d.orientation === 'vertical' && d.width === 1)).toBe(true);
+    expect(doors.every(d => d.type === DoorType.Door)).toBe(true);
+  });
+
+  it('should classify doors by the configured ratios', () => {
+    const grid = makeGrid();
+    const secret = DoorPlacer.placeDoors(grid, rooms, cell => cell === 1, new SeededRandom(1), { ...noExtras, secret: 1 });
+    const open = DoorPlacer.placeDoors(grid, rooms, cell => cell === 1, new SeededRandom(1), { ...noExtras, doorway: 1 });
+
+    expect(secret.every(d => d.type === DoorType.Secret)).toBe(true);
+    expect(open.every(d => d.type === DoorType.Open)).toBe(true);
+  });
+
+  it('should wall up secret doors on the player copy of a map', () => {
+    const mapData = GeneratorRegistry.create(TerrainType.Dungeon, { width: 80, height: 80, seed: 3, secretDoorRatio: 1 }).generate();
+    const secret = mapData.doors!.filter(d => d.type === DoorType.Secret);
+    expect(secret.length).toBeGreaterThan(0);
+
+    const player = DoorPlacer.hideSecretDoors(mapData);
+    expect(player.doors!.some(d => d.type === DoorType.Secret)).toBe(false);
+    expect(secret.every(d => player.grid!.get(d.x, d.y) === TerrainCell.Wall)).toBe(true);
+    expect(secret.every(d => mapData.grid!.get(d.x, d.y) !== TerrainCell.Wall)).toBe(true);
+
+    // Every floor of a house, with the ground floor still sharing the map's grid
+    const house = GeneratorRegistry.create(TerrainType.House, { width: 60, height: 60, seed: 3, stories: 2, secretDoorRatio: 1 }).generate();
+    const hidden = DoorPlacer.hideSecretDoors(house);
+    expect(house.floors!.flatMap(f => f.doors).some(d => d.type === DoorType.Secret)).toBe(true);
+    expect(hidden.floors!.flatMap(f => f.doors).some(d => d.type === DoorType.Secret)).toBe(false);
+    expect(hidden.floors![0].grid).toBe(hidden.grid);
+    expect(hidden.grid).not.toBe(house.grid);
+  });
+});
+
+describe('HexUtils', () => {
+  it('should round-trip hex centres through pixel coordinates', () => {
+    for (const orientation of ['pointy', 'flat'] as const) {
+      for (let row = 0; row < 6; row++) {
+        for (let col = 0; col < 6; col++) {
+          const center = HexUtils.hexToPixel({ col, row }, 10, orientation);
+          expect(HexUtils.pixelToHex(center, 10, orientation)).toEqual({ col, row });
+        }
+      }
+    }
+  });
+
+  it('should snap points near a corner to the closest hex', () => {
+    const center = HexUtils.hexToPixel({ col: 2, row: 3 }, 10, 'pointy');
+    const corner = HexUtils.hexCorners(center, 10, 'pointy')[1];
+    const inside = { x: center.x + (corner.x - center.x) * 0.9, y: center.y + (corner.y - center.y) * 0.9 };
+
+    expect(HexUtils.pixelToHex(inside, 10, 'pointy')).toEqual({ col: 2, row: 3 });
+  });
+
+  it('should size hexes to the square cell they replace', () => {
+    const size = HexUtils.sizeForCell(20);
+    const pointy = HexUtils.hexCorners({ x: 0, y: 0 }, size, 'pointy');
+    const flat = HexUtils.hexCorners({ x: 0, y: 0 }, size, 'flat');
+
+    expect(Math.max(...pointy.map(p => p.x)) - Math.min(...pointy.map(p => p.x))).toBeCloseTo(20);
+    expect(Math.max(...flat.map(p => p.y)) - Math.min(...flat.map(p => p.y))).toBeCloseTo(20);
+  });
+
+  it('should quantise a square grid onto hex cells', () => {
+    // Left half walls, right half floor
+    const grid = Grid.fromArray(Array.from({ length: 20 }, () => Array.from({ length: 20 }, (_, x) => (x < 10 ? 1 : 0))));
+    const hexes = HexUtils.quantizeGrid(grid, 'pointy');
+    const { cols, rows } = HexUtils.gridDimensions(20, 20, HexUtils.sizeForCell(1), 'pointy');
+
+    expect(hexes.height).toBe(rows);
+    expect(hexes.width).toBe(cols);
+    expect(hexes.get(1, 5)).toBe(1);
+    expect(hexes.get(cols - 2, 5)).toBe(0);
+  });
+});
+
+describe('MapTransfer', () => {
+  it('should round-trip grids through transferable buffers', () => {
+    const grid = Grid.fromArray([[0, 1, 2], [3, 1, 0]]);
+    const mapData: MapData = {
+      width: 3,
+      height: 2,
+      seed: 5,
+      terrainType: TerrainType.Cave,
+      grid,
+      hexGrid: { orientation: 'pointy', cells: grid }
+    };
+
+    const { packed, transfer } = MapTransfer.pack(mapData);
+    expect(packed.grid!.cells).toBeInstanceOf(Uint8Array);
+    expect(transfer).toHaveLength(1); // grid and hexGrid share one buffer
+
+    const unpacked = MapTransfer.unpack(packed);
+    expect(unpacked.grid).toBeInstanceOf(Grid);
+    expect(unpacked.grid!.toArray()).toEqual([[0, 1, 2], [3, 1, 0]]);
+    expect(unpacked.hexGrid!.cells.get(2, 0)).toBe(2);
+    expect(unpacked.seed).toBe(5);
+  });
+});
+
+describe('Grid', () => {
+  it('should bounds-check cell access', () => {
+    const grid = new Grid(4, 3, 1);
+
+    grid.set(3, 2, 0);
+    expect(grid.get(3, 2)).toBe(0);
+    expect(grid.count(1)).toBe(11);
+    expect(grid.getOr(-1, 0, 9)).toBe(9);
+    expect(() => grid.get(4, 0)).toThrow(RangeError);
+    expect(() => grid.set(0, 3, 1)).toThrow(RangeError);
+  });
+
+  it('should count neighbours with off-grid cells as matches', () => {
+    const grid = new Grid(3, 3, 0);
+    grid.set(1, 0, 1);
+
+    expect(grid.countNeighbors(0, 0, 1)).toBe(6);
+    expect(grid.countNeighbors(0, 0, 1, false)).toBe(1);
+    expect(grid.countNeighbors(1, 1, 1)).toBe(1);
+  });
+
+  it('should flood fill and find regions largest first', () => {
+    // Two open areas split by a wall column
+    const grid = Grid.fromArray([
+      [0, 0, 1, 0],
+      [0, 0, 1, 0],
+      [1, 1, 1, 1]
+    ]);
+
+    expect(grid.floodFill(0, 0, cell => cell === 0)).toHaveLength(4);
+    expect(grid.floodFill(2, 0, cell => cell === 0)).toHaveLength(0);
+    expect(grid.regions(cell => cell === 0).map(region => region.length)).toEqual([4, 2]);
+  });
+
+  it('should restore grids from JSON and from nested arrays in older files', () => {
+    const grid = Grid.fromArray([[0, 1, 2], [3, 4, 5]]);
+    const json = JSON.parse(JSON.stringify({ width: 3, height: 2, grid }));
+
+    expect(typeof json.grid.cells).toBe('string');
+    expect(GridAdapter.reviveMapData(json).grid!.toArray()).toEqual(grid.toArray());
+
+    const legacy = { width: 3, height: 2, grid: [[0, 1, 2], [3, 4, 5]] } as unknown as MapData;
+    const revived = GridAdapter.reviveMapData(legacy);
+    expect(revived.grid).toBeInstanceOf(Grid);
+    expect(revived.grid!.get(2, 1)).toBe(5);
+  });
+});
+
+describe('ProgressionAnalyzer', () => {
+  // Rooms 0-1-2 form a loop; room 3 hangs off room 1 and room 4 off room 2
+  const rooms: Room[] = [
+    { x: 1, y: 1, width: 4, height: 4 },
+    { x: 12, y: 1, width: 4, height: 4 },
+    { x: 12, y: 7, width: 4, height: 4 },
+    { x: 24, y: 1, width: 4, height: 4 },
+    { x: 24, y: 7, width: 4, height: 4 }
+  ];
+  const makeGrid = (): Grid => {
+    const grid = new Grid(30, 12);
+    for (const room of rooms) grid.fillRect(room.x, room.y, room.width, room.height, 1);
+    grid.fillRect(5, 2, 7, 1, 1); // 0 - 1
+    grid.fillRect(2, 5, 1, 4, 1); // 0 - 2, down then across
+    grid.fillRect(2, 8, 10, 1, 1);
+    grid.fillRect(13, 5, 1, 2, 1); // 1 - 2
+    grid.fillRect(16, 2, 8, 1, 1); // 1 - 3
+    grid.fillRect(16, 9, 8, 1, 1); // 2 - 4
+    return grid;
+  };
+
+  it('should join rooms that a corridor runs between, weighted by walking distance', () => {
+    const edges = ConnectivityUtils.buildRoomGraph(makeGrid(), rooms, cell => cell === 1);
+
+    expect(edges.map(e => [e.from, e.to]).sort()).toEqual([[0, 1], [0, 2], [1, 2], [1, 3], [2, 4]]);
+    expect(edges.find(e => e.from === 1 && e.to === 2)!.weight).toBe(3);
+  });
+
+  it('should find the goal room, critical path, dead ends and loops', () => {
+    // Seed 14 enters from the left edge
+    const { progression, path } = ProgressionAnalyzer.analyze(makeGrid(), rooms, cell => cell === 1, new SeededRandom(14))!;
+
+    expect(progression.entrance).toEqual({ x: 1, y: 4 });
+    expect(progression.entranceRoom).toBe(0);
+    expect(progression.goalRoom).toBe(4);
+    expect(progression.criticalPath).toEqual([0, 2, 4]);
+    expect(progression.deadEnds).toEqual([3]);
+    expect(progression.loops.map(loop => [...loop].sort())).toEqual([[0, 1, 2]]);
+    expect(Math.max(...progression.roomDistances)).toBe(progression.roomDistances[4]);
+
+    // The path walks cell by cell from the entrance to the goal
+    expect(path[0]).toEqual(progression.entrance);
+    expect(path[path.length - 1]).toEqual(progression.goal);
+    const steps = path.slice(1).map((p, i) => Math.abs(p.x - path[i].x) + Math.abs(p.y - path[i].y));
+    expect(steps.every(step => step === 1)).toBe(true);
+  });
+});
+
+describe('RoomTagger', () => {
+  const rooms: Room[] = [
+    { x: 1, y: 1, width: 4, height: 4 },
+    { x: 12, y: 1, width: 4, height: 4 },
+    { x: 12, y: 7, width: 4, height: 4 },
+    { x: 24, y: 1, width: 4, height: 4 },
+    { x: 24, y: 7, width: 4, height: 4 }
+  ];
+  const mapData: Pick<MapData, 'rooms' | 'progression' | 'terrainType' | 'subtype'> = {
+    rooms,
+    terrainType: TerrainType.Dungeon,
+    progression: {
+      entrance: { x: 1, y: 4 },
+      goal: { x: 25, y: 8 },
+      entranceRoom: 0,
+      goalRoom: 4,
+      criticalPath: [0, 2, 4],
+      deadEnds: [3],
+      loops: [[0, 1, 2]],
+      roomDistances: [0, 10, 8, 20, 24]
+    }
+  };
+  const poi: Partial<PointOfInterest> = {
+    name: 'The Sunken Vault',
+    encounters: [
+      { id: 'e1', type: 'combat', difficulty: 'easy', description: 'Goblin scouts' },
+      { id: 'e2', type: 'combat', difficulty: 'deadly', description: 'The lich <Vexor>' },
+      { id: 'e3', type: 'trap', difficulty: 'hard', description: 'Poison needle lock' }
+    ],
+    treasures: [
+      { id: 't1', type: 'gold', description: 'A sack of copper', value: 'minor' },
+      { id: 't2', type: 'magic_item', description: 'The Crown of Ash', value: 'legendary', hiddenMethod: 'search' }
+    ],
+    secrets: [
+      { id: 's1', description: 'A loose flagstone', discoveryMethod: 'investigation', importance: 'useful', revealedInformation: 'It hides a tunnel out' }
+    ]
+  };
+
+  it('should number rooms by distance and give the goal and entrance their purposes', () => {
+    const key = RoomTagger.tag(mapData, new SeededRandom(3));
+
+    expect(key.map(entry => entry.number)).toEqual([1, 2, 3, 4, 5]);
+    expect(key.map(entry => entry.room)).toEqual([0, 2, 1, 3, 4]);
+    expect(key[0].purpose).toBe(RoomPurpose.EntranceHall);
+    expect(key[4].purpose).toBe(RoomPurpose.BossLair);
+    expect(key.find(entry => entry.room === 3)!.purpose).toBe(RoomPurpose.Treasury);
+    expect(key[4].encounter).toBeDefined();
+  });
+
+  it('should deal POI encounters, treasures and secrets to the rooms that suit them', () => {
+    const key = RoomTagger.tag(mapData, new SeededRandom(3), poi);
+    const byPurpose = (purpose: RoomPurpose) => key.find(entry => entry.purpose === purpose)!;
+
+    expect(byPurpose(RoomPurpose.BossLair).encounter).toContain('The lich <Vexor> (deadly)');
+    expect(byPurpose(RoomPurpose.Treasury).encounter).toContain('Trap: Poison needle lock');
+    expect(byPurpose(RoomPurpose.Treasury).treasure).toContain('The Crown of Ash (hidden: search)');
+    expect(byPurpose(RoomPurpose.BossLair).treasure).toContain('A sack of copper');
+    expect(key.filter(entry => entry.secret)).toHaveLength(1);
+  });
+
+  it('should print the key with numbered, escaped entries', () => {
+    const key = RoomTagger.tag(mapData, new SeededRandom(3), poi);
+    const html = DungeonKey.toHTML({ width: 30, height: 12, rooms, roomKey: key }, 'Vault & Crypt');
+
+    expect(html).toContain('<title>Vault &amp; Crypt</title>');
+    expect(html).toContain('5. Boss Lair');
+    expect(html).toContain('The lich &lt;Vexor&gt;');
+    expect(html).not.toContain('<Vexor>');
+  });
+});
+
+describe('MapConstraintSolver', () => {
+  const requirements: Partial<MapRequirements> = {
+    dimensions: { width: 60, height: 60 },
+    requiredFeatures: [
+      { type: 'altar', description: 'Blood-stained altar', importance: 'required', position: 'center' },
+      { type: 'throne', description: 'Bone throne', importance: 'required' },
+      { type: 'well', description: 'Dry well', importance: 'preferred', quantity: 2 },
+      { type: 'pillar', description: 'Crumbling pillars', importance: 'optional', quantity: 400 }
+    ],
+    entryPoints: [{ id: 'in', type: 'door', position: 'north', description: 'Front gate' }],
+    exitPoints: [{ id: 'out', type: 'stairs', position: 'south', description: 'Stairs down', isHidden: false }],
+    hiddenAreas: [{ name: 'Vault', description: 'A sealed vault', discoveryMethod: 'search', contents: 'Old coins' }]
+  };
+  const base = { width: 100, height: 100, seed: 3, roomCount: 5 };
+
+  it('should derive generator parameters from the requirements', () => {
+    const dungeon = MapConstraintSolver.toParameters(requirements, TerrainType.Dungeon, base);
+    expect(dungeon.width).toBe(60);
+    expect(dungeon.roomCount).toBe(7); // altar, throne, two wells, the vault, entrance and goal
+    expect(dungeon.secretDoorRatio).toBe(0.25);
+
+    const forest = MapConstraintSolver.toParameters(
+      { requiredFeatures: [{ type: 'bridge', description: 'Old bridge', importance: 'required' }] },
+      TerrainType.Forest,
+      base
+    );
+    expect(forest.riverCount).toBe(1);
+  });
+
+  it('should place every required feature and report the ones that did not fit', () => {
+    const { mapData, unsatisfied, attempts } = MapConstraintSolver.solve(requirements, TerrainType.Dungeon, base);
+    const features = mapData.features!;
+    const altar = features.find(f => f.type === 'altar')!;
+
+    expect(attempts).toBe(1);
+    expect(Math.abs(altar.x - 30)).toBeLessThanOrEqual(15);
+    expect(Math.abs(altar.y - 30)).toBeLessThanOrEqual(15);
+    expect(features.filter(f => f.type === 'throne')).toHaveLength(1);
+    expect(features.filter(f => f.kind === 'hidden')).toHaveLength(1);
+    expect(features.find(f => f.kind === 'entry')!.y).toBeLessThan(features.find(f => f.kind === 'exit')!.y);
+    expect(features.every(f => !IMPASSABLE_CELLS.has(mapData.grid!.get(f.x, f.y)))).toBe(true);
+    expect(unsatisfied.map(u => [u.type, u.importance])).toEqual([['pillar', 'optional']]);
+  });
+
+  it('should retry seeds and keep reporting required features that never fit', () => {
+    const impossible: Partial<MapRequirements> = {
+      requiredFeatures: [{ type: 'statue', description: 'A forest of statues', importance: 'required', quantity: 500 }]
+    };
+    const { unsatisfied, attempts } = MapConstraintSolver.solve(impossible, TerrainType.Cave, { width: 40, height: 40, seed: 3 }, 3);
+
+    expect(attempts).toBe(3);
+    expect(unsatisfied).toHaveLength(1);
+    expect(unsatisfied[0].placed).toBeLessThan(500);
+  });
+});
+
+describe('Prefabs', () => {
+  const hallway: PrefabDefinition = {
+    id: 'hallway',
+    name: 'Hallway',
+    cells: ['#######', '#..^..#', '#######'],
+    anchors: [{ x: 0, y: 1 }, { x: 6, y: 1 }],
+    objects: [{ x: 1, y: 1, category: 'trap', name: 'Tripwire' }]
+  };
+
+  it('should reject prefabs with a clear message', () => {
+    expect(() => PrefabLoader.parse(JSON.stringify(hallway))).not.toThrow();
+    expect(() => PrefabLoader.parse({ ...hallway, cells: ['#######', '#..?..#', '#######'] }))
+      .toThrow('Invalid prefab "hallway": cells use "?", which is not in the legend');
+    expect(() => PrefabLoader.parse({ ...hallway, anchors: [{ x: 0, y: 0 }] }))
+      .toThrow('Invalid prefab "hallway": anchor (0, 0) must be on the outer ring and not a corner');
+    expect(() => PrefabLoader.parse({ ...hallway, objects: [{ x: 1, y: 1, category: 'dragon', name: 'Smaug' }] }))
+      .toThrow(/object category/);
+    expect(() => PrefabLoader.parse({ ...hallway, legend: { '?': 'magma' } })).toThrow(/legend "\?"/);
+  });
+
+  it('should rotate and mirror cells, anchors and objects together', () => {
+    const turned = PrefabStamper.transform(hallway, 90, false);
+    expect(turned.rows).toEqual(['###', '#.#', '#.#', '#^#', '#.#', '#.#', '###']);
+    expect(turned.anchors).toEqual([{ x: 1, y: 0 }, { x: 1, y: 6 }]);
+    expect(turned.objects[0]).toMatchObject({ x: 1, y: 1 });
+
+    const flipped = PrefabStamper.transform(hallway, 0, true);
+    expect(flipped.objects[0]).toMatchObject({ x: 5, y: 1 });
+    // Mirror images of a straight hallway are turns of it; without the trap two turns are the same
+    expect(PrefabStamper.variants(hallway)).toHaveLength(4);
+    expect(PrefabStamper.variants({ ...hallway, objects: [] })).toHaveLength(2);
+  });
+
+  it('should turn a prefab to fit a tall leaf and stamp it with walled-up anchors', () => {
+    const rooms: Room[] = [{ x: 3, y: 3, width: 3, height: 5 }];
+    const leaf: Room = { x: 1, y: 1, width: 5, height: 11 };
+    const [placement] = PrefabStamper.place(rooms, () => leaf, [hallway], 1, new SeededRandom(1), { width: 12, height: 14 });
+
+    expect(placement.variant).toMatchObject({ width: 3, height: 7 });
+    expect(rooms[0]).toBe(placement.room);
+    expect(rooms[0]).toEqual({ x: placement.x + 1, y: placement.y + 1, width: 1, height: 5 });
+
+    const grid = new Grid(12, 14, 1);
+    PrefabStamper.stamp(grid, placement, { floor: 0, wall: 1, water: 2, deep_water: 4, lava: 3, chasm: 5, rubble: 6 });
+    expect(grid.get(placement.room.x, placement.room.y + 2)).toBe(5);
+    expect(PrefabStamper.anchors(placement).every(anchor => grid.get(anchor.x, anchor.y) === 1)).toBe(true);
+    expect(PrefabStamper.place(rooms, () => ({ x: 0, y: 0, width: 4, height: 4 }), [hallway], 1, new SeededRandom(1), { width: 12, height: 14 })).toEqual([]);
+  });
+
+  it('should keep prefabs inside the map and leave anchors on the map border unlinked', () => {
+    // The leaf runs past the map on every side; clipped to the map it no longer holds the hallway
+    const rooms: Room[] = [{ x: 1, y: 1, width: 5, height: 1 }];
+    expect(PrefabStamper.place(rooms, () => ({ x: -1, y: -1, width: 9, height: 5 }), [hallway], 1, new SeededRandom(1), { width: 7, height: 5 })).toEqual([]);
+    const [inside] = PrefabStamper.place(rooms, () => ({ x: -1, y: -1, width: 12, height: 7 }), [hallway], 1, new SeededRandom(1), { width: 9, height: 5 });
+    expect([inside.x, inside.y, inside.variant.width]).toEqual([1, 1, 7]);
+
+    // A placement flush with the edge: both anchors sit on the left and right borders, their doorsteps off the map
+    const variant = PrefabStamper.transform(hallway, 0, false);
+    const placement = { prefab: hallway, variant, x: 0, y: 0, room: { x: 1, y: 1, width: 5, height: 1 } };
+    const grid = new Grid(7, 5, 1);
+    const codes = { floor: 0, wall: 1, water: 2, deep_water: 4, lava: 3, chasm: 5, rubble: 6 };
+    PrefabStamper.stamp(grid, placement, codes, cell => cell === 0);
+    expect(() => PrefabStamper.linkAnchors(grid, [placement], cell => cell === 0)).not.toThrow();
+    expect(PrefabStamper.linkAnchors(grid, [placement], cell => cell === 0)).toEqual([]);
+
+    // Shifted half off the map, stamping skips the anchor that no longer exists
+    expect(() => PrefabStamper.stamp(grid, { ...placement, x: -3 }, codes, cell => cell === 0)).not.toThrow();
+  });
+
+  it('should share prefabs through workspace JSON', () => {
+    const imported = WorkspaceManager.importPrefabsFromJSON(WorkspaceManager.exportPrefabsToJSON([hallway]));
+    expect(imported).toEqual([hallway]);
+    expect(WorkspaceManager.importPrefabsFromJSON(JSON.stringify(hallway))).toEqual([hallway]);
+    expect(() => WorkspaceManager.importPrefabsFromJSON(JSON.stringify([{ ...hallway, anchors: [] }]))).toThrow(/needs at least one anchor/);
+  });
+});
+
+describe('WorkspaceManager', () => {
+  it('should add a campaign overworld whose markers link to each POI map', () => {
+    const poi = (id: string, type: PointOfInterest['type'], connections: PointOfInterest['connections'] = []): Partial<PointOfInterest> =>
+      ({ id, name: id, type, category: 'exploration', order: 0, connections });
+    const workspace = WorkspaceManager.createWorkspaceFromCampaign({
+      title: 'Shattered Coast',
+      description: '',
+      pois: [
+        poi('harbour', 'town', [{ targetPOIId: 'cliffs', connectionType: 'travel', description: 'Coast road' }]),
+        poi('cliffs', 'mountain'),
+        poi('fen', 'swamp')
+      ],
+      npcs: [],
+      mapDescriptions: [],
+      plotPoints: [],
+      terrainKeywords: [],
+      notes: []
+    }, 'shattered-coast');
+
+    const [overworld, ...maps] = workspace.maps;
+    const world: MapData = overworld.mapData as any;
+    expect(workspace.metadata.mapCount).toBe(4);
+    expect(overworld.category).toBe('overworld');
+    expect(world.terrainType).toBe(TerrainType.Overworld);
+    expect(world.markers!.map(m => [m.poiId, m.mapId])).toEqual([['harbour', 'harbour'], ['cliffs', 'cliffs'], ['fen', 'fen']]);
+    expect(world.roads!.map(r => [r.from, r.to])).toEqual([['harbour', 'cliffs']]);
+    // Mountain and swamp POIs get regional overworld maps of their own
+    expect(maps.map(m => (m.mapData as any).terrainType)).toEqual([TerrainType.Town, TerrainType.Overworld, TerrainType.Overworld]);
+  });
+
+  it('should rebuild the same maps when the same campaign text is parsed again', () => {
+    const text = 'The heroes travel to Blackwood Forest. Deep inside they arrive at Stonehelm Keep, where the lich waits.';
+    const build = () => {
+      const parsed = CampaignParser.parse(text);
+      const workspace = WorkspaceManager.createWorkspaceFromCampaign(parsed, 'blackwood-1');
+      return { ids: parsed.pois.map(poi => poi.id), maps: workspace.maps };
+    };
+    const first = build();
+    const second = build();
+
+    expect(first.ids.length).toBeGreaterThan(1);
+    expect(second.ids).not.toEqual(first.ids); // Parser ids are random; the maps must not depend on them
+    expect(second.maps.map(m => (m.mapData as any).seed)).toEqual(first.maps.map(m => (m.mapData as any).seed));
+    second.maps.forEach((map, index) => {
+      const grid = (m: typeof map) => Array.from((m.mapData as any as MapData).grid!.cells);
+      expect(grid(map)).toEqual(grid(first.maps[index]));
+    });
+  });
+});
+
+describe('Permalink', () => {
+  it('should round-trip terrain, preset, parameters and a readable seed into the same map', () => {
+    const parameters = { width: 60, height: 50, seed: 'goblin-cave-7', fillProbability: 0.45, smoothIterations: 4, wallThreshold: 4, caveRoughness: 1, hexOrientation: 'flat' as const, prefabs: [] };
+    const search = Permalink.encode({ terrain: TerrainType.Cave, preset: 'Small Cave', parameters });
+    expect(search.startsWith('?terrain=Cave&preset=Small+Cave&seed=goblin-cave-7&width=60&height=50&')).toBe(true);
+    expect(search).not.toContain('prefabs');
+
+    const decoded = Permalink.decode(search)!;
+    expect(decoded.terrain).toBe(TerrainType.Cave);
+    expect(decoded.parameters).toMatchObject({ width: 60, height: 50, seed: 'goblin-cave-7', fillProbability: 0.45, hexOrientation: 'flat' });
+    const original = GeneratorRegistry.create(TerrainType.Cave, parameters).generate();
+    const reproduced = GeneratorRegistry.create(decoded.terrain, decoded.parameters).generate();
+    expect(reproduced.seed).toBe(original.seed);
+    expect(Array.from(reproduced.grid!.cells)).toEqual(Array.from(original.grid!.cells));
+
+    expect(Permalink.decode('?seed=1')).toBeUndefined();
+    expect(Permalink.decode('?terrain=Nowhere&width=10&height=10')).toBeUndefined();
+  });
+
+  it('should clamp parameters to the generator ranges and drop values that are not finite numbers', () => {
+    const decoded = Permalink.decode('?terrain=Dungeon&width=20000&height=5&roomCount=1e9&gridSize=Infinity&secretDoorRatio=-2&seed=7')!;
+    expect(decoded.parameters).toMatchObject({ width: 200, height: 30, roomCount: 20, secretDoorRatio: 0, seed: 7 });
+    expect(decoded.parameters.gridSize).toBeUndefined();
+
+    expect(Permalink.decode('?terrain=Dungeon&width=Infinity&height=80')).toBeUndefined();
+    expect(Permalink.decode('?terrain=Dungeon&width=NaN&height=80')).toBeUndefined();
+  });
+
+  it('should mark endless maps so the link rebuilds the same chunks', () => {
+    const parameters = { width: 48, height: 40, seed: 'deep-warrens' };
+    const search = Permalink.encode({ terrain: TerrainType.Cave, endless: true, parameters });
+    expect(search.startsWith('?terrain=Cave&endless=true&seed=deep-warrens&')).toBe(true);
+
+    const decoded = Permalink.decode(search)!;
+    expect(decoded.endless).toBe(true);
+    expect(decoded.parameters).not.toHaveProperty('endless');
+    const original = new ChunkedMap(TerrainType.Cave, parameters).generate({ cx: 0, cy: 0 });
+    const reproduced = new ChunkedMap(decoded.terrain, decoded.parameters).generate({ cx: 0, cy: 0 });
+    expect(Array.from(reproduced.grid!.cells)).toEqual(Array.from(original.grid!.cells));
+
+    expect(Permalink.decode(Permalink.encode({ terrain: TerrainType.Cave, parameters }))!.endless).toBeUndefined();
+  });
+});
+
+describe('MapAnalyzer', () => {
+  it('should measure reachability, open area, loops and isolated regions', () => {
+    const rows = [
+      '########',
+      '#.....#.',
+      '#.#.#.##',
+      '#.....#.',
+      '########'
+    ];
+    const grid = new Grid(8, 5, 1);
+    rows.forEach((row, y) => row.split('').forEach((c, x) => grid.set(x, y, c === '.' ? 0 : 1)));
+
+    const metrics = MapAnalyzer.analyze({ width: 8, height: 5, grid, terrainType: TerrainType.Dungeon });
+    expect(metrics.walkableCells).toBe(15);
+    expect(metrics.floorRatio).toBeCloseTo(15 / 40);
+    expect(metrics.reachability).toBeCloseTo(13 / 15);
+    expect(metrics.largestOpenArea).toBe(1);
+    expect(metrics.loops).toBe(2); // Walked round each pillar
+    expect(metrics.deadEnds).toBe(0);
+    expect(metrics.isolatedRegions).toEqual([{ cells: 1, x: 7, y: 1 }, { cells: 1, x: 7, y: 3 }]);
+    expect(MapAnalyzer.check(metrics, { reachability: { min: 0.9 }, loops: { min: 1, max: 4 } })).toEqual(['Reachability 0.87 is below 0.9']);
+  });
+
+  it('should retry seeds until the metrics are in range', () => {
+    const parameters = { ...getPresetByName('Dense Forest')!.parameters, seed: 1 };
+    const mapData = MapAnalyzer.generate(TerrainType.Forest, parameters, { reachability: { min: 0.9 } });
+    expect(mapData.analysis!.attempts).toBe(2);
+    expect(mapData.analysis!.outOfRange).toEqual([]);
+    expect(mapData.seed).toBe(2);
+    expect(mapData.analysis!.metrics).toEqual(MapAnalyzer.analyze(GeneratorRegistry.create(TerrainType.Forest, { ...parameters, seed: 2 }).generate()));
+
+    // Out of reach: the closest attempt comes back with what is still out of range
+    const stubborn = MapAnalyzer.generate(TerrainType.Forest, parameters, { floorRatio: { min: 2 } }, 2);
+    expect(stubborn.analysis!.attempts).toBe(2);
+    expect(stubborn.analysis!.outOfRange).toHaveLength(1);
+    expect(stubborn.seed).toBe(1);
+  });
+});
+
+describe('ChunkedMap', () => {
+  const column = (grid: Grid, x: number) => Array.from({ length: grid.height }, (_, y) => grid.get(x, y));
+  const row = (grid: Grid, y: number) => Array.from({ length: grid.width }, (_, x) => grid.get(x, y));
+
+  it('should derive chunks from the world seed and match cells along every seam', () => {
+    const world = new ChunkedMap(TerrainType.Cave, { width: 48, height: 40, seed: 'deep-warrens' });
+    const origin = world.generate({ cx: 0, cy: 0 }).grid!;
+    const east = world.generate({ cx: 1, cy: 0 }).grid!;
+    const south = world.generate({ cx: 0, cy: 1 }).grid!;
+    const west = world.generate({ cx: -1, cy: 0 }).grid!;
+
+    expect(column(origin, 47)).toEqual(column(east, 0));
+    expect(row(origin, 39)).toEqual(row(south, 0));
+    expect(column(west, 47)).toEqual(column(origin, 0));
+    expect(column(origin, 47)).toContain(TerrainCell.Floor);
+
+    // Rebuilt from the same seed, in any order
+    const again = new ChunkedMap(TerrainType.Cave, { width: 48, height: 40, seed: 'deep-warrens' });
+    expect(Array.from(again.generate({ cx: 1, cy: 0 }).grid!.cells)).toEqual(Array.from(east.cells));
+    expect(world.chunkParameters({ cx: 1, cy: 0 }).seed).not.toBe(world.chunkParameters({ cx: 0, cy: 1 }).seed);
+    expect(() => new ChunkedMap(TerrainType.Town, { width: 48, height: 40 })).toThrow(/not supported/);
+  });
+
+  it('should lead every seam passage into the chunk and compose loaded chunks into one map', () => {
+    const world = new ChunkedMap(TerrainType.Dungeon, { width: 48, height: 40, seed: 7, roomCount: 5 });
+    const chunk = world.generate({ cx: 0, cy: 0 });
+    const grid = chunk.grid!;
+    const [main] = grid.regions(WALKABLE[TerrainType.Dungeon]);
+    const edgeFloor = [
+      ...column(grid, 0).map((cell, y) => [0, y, cell]),
+      ...column(grid, 47).map((cell, y) => [47, y, cell]),
+      ...row(grid, 0).map((cell, x) => [x, 0, cell]),
+      ...row(grid, 39).map((cell, x) => [x, 39, cell])
+    ].filter(([, , cell]) => cell === TerrainCell.Floor);
+    expect(edgeFloor.length).toBeGreaterThan(0);
+    expect(edgeFloor.every(([x, y]) => main.includes(grid.index(x, y)))).toBe(true);
+
+    world.generate({ cx: 1, cy: 0 });
+    const composed = world.compose(world.chunksIn(0, 0, 96, 80));
+    expect(composed.chunk).toEqual({ cx: 0, cy: 0 });
+    expect([composed.width, composed.height]).toEqual([96, 80]);
+    expect(row(composed.grid!, 10).slice(48)).toEqual(row(world.get({ cx: 1, cy: 0 })!.grid!, 10));
+    expect(row(composed.grid!, 50).every(cell => cell === TerrainCell.Wall)).toBe(true); // Not generated yet
+    expect(composed.rooms!.length).toBe(chunk.rooms!.length + world.get({ cx: 1, cy: 0 })!.rooms!.length);
+  });
+});
+
+describe('UniversalVTT', () => {
+  it('should trace walls, turn doors into portals and convert lights to grid units', () => {
+    const rows = [
+      '##.##',
+      '#...#',
+      '#...#',
+      '#####'
+    ];
+    const grid = new Grid(5, 4, 1);
+    rows.forEach((row, y) => row.split('').forEach((c, x) => grid.set(x, y, c === '.' ? 0 : 1)));
+    const mapData: MapData = {
+      width: 5,
+      height: 4,
+      grid,
+      terrainType: TerrainType.Dungeon,
+      doors: [
+        { x: 2, y: 0, width: 1, orientation: 'horizontal', type: DoorType.Door, room: 0 },
+        { x: 3, y: 2, width: 1, orientation: 'vertical', type: DoorType.Secret, room: 0 },
+        { x: 1, y: 3, width: 1, orientation: 'horizontal', type: DoorType.Open, room: 0 }
+      ]
+    };
+    const lighting = {
+      brightness: 1,
+      contrast: 1,
+      fogOfWarEnabled: true,
+      lightSources: [{ id: 'torch', x: 50, y: 30, radius: 100, intensity: 0.8, color: '#FFA500', type: 'torch' as const }]
+    };
+
+    const uvtt = UniversalVTT.build(mapData, 'data:image/png;base64,iVBORw0KGgo=', 20, { lighting });
+    expect(uvtt.resolution).toEqual({ map_origin: { x: 0, y: 0 }, map_size: { x: 5, y: 4 }, pixels_per_grid: 20 });
+    expect(uvtt.image).toBe('iVBORw0KGgo=');
+    expect(uvtt.line_of_sight).toHaveLength(8); // 7 traced walls and the secret door
+    expect(uvtt.line_of_sight).toContainEqual([{ x: 1, y: 3 }, { x: 4, y: 3 }]);
+    expect(uvtt.line_of_sight).toContainEqual([{ x: 2, y: 0 }, { x: 2, y: 1 }]);
+    expect(uvtt.line_of_sight).toContainEqual([{ x: 3.5, y: 2 }, { x: 3.5, y: 3 }]);
+    expect(uvtt.portals).toEqual([
+      { position: { x: 2.5, y: 0.5 }, bounds: [{ x: 2, y: 0.5 }, { x: 3, y: 0.5 }], rotation: 0, closed: true, freestanding: false }
+    ]);
+    expect(uvtt.lights).toEqual([{ position: { x: 2.5, y: 1.5 }, range: 5, intensity: 0.8, color: 'ffffa500', shadows: true }]);
+  });
+});
+
+describe('FoundryExport', () => {
+  it('should package a scene with door walls, lights, hidden tokens and sprite tiles', async () => {
+    const rows = [
+      '##.##',
+      '#...#',
+      '#...#',
+      '#####'
+    ];
+    const grid = new Grid(5, 4, 1);
+    rows.forEach((row, y) => row.split('').forEach((c, x) => grid.set(x, y, c === '.' ? 0 : 1)));
+    const mapData: MapData = {
+      width: 5,
+      height: 4,
+      grid,
+      seed: 42,
+      terrainType: TerrainType.Dungeon,
+      doors: [
+        { x: 2, y: 0, width: 1, orientation: 'horizontal', type: DoorType.Locked, room: 0 },
+        { x: 3, y: 2, width: 1, orientation: 'vertical', type: DoorType.Secret, room: 0 }
+      ]
+    };
+    const options = {
+      name: 'Crypt of Bones',
+      lighting: {
+        brightness: 0.5,
+        contrast: 1,
+        fogOfWarEnabled: true,
+        lightSources: [{ id: 'torch', x: 50, y: 30, radius: 100, intensity: 0.8, color: '#FFA500', type: 'torch' as const }]
+      },
+      dmObjects: [
+        { id: 'm1', spriteId: 'auto:monster', x: 1, y: 2, category: 'monster' as const, visibleToPlayers: false, name: 'Ghoul', scaleX: 1, scaleY: 1, rotation: 0, zIndex: 0 },
+        { id: 'e1', spriteId: 'missing', x: 3, y: 1, category: 'environment' as const, visibleToPlayers: true, scaleX: 1, scaleY: 1, rotation: 0, zIndex: 0 }
+      ],
+      placedObjects: [{ id: 'p1', spriteId: 'sheet_0_0', gridX: 1, gridY: 1, scaleX: 1, scaleY: 1, rotation: 90, zIndex: 3 }],
+      spriteImages: { sheet_0_0: 'data:image/png;base64,iVBORw0KGgo=' }
+    };
+
+    // 20 px cells scale up to Foundry's 50 px minimum grid
+    const zip = FoundryExport.package(mapData, 'data:image/png;base64,iVBORw0KGgo=', 20, options);
+    expect(Object.keys(zip.files).filter(path => !zip.files[path].dir).sort()).toEqual([
+      'dnd-map-builder/crypt-of-bones/map.png',
+      'dnd-map-builder/crypt-of-bones/scene.json',
+      'dnd-map-builder/crypt-of-bones/sprites/sheet_0_0.png'
+    ]);
+    const scene = JSON.parse(await zip.file('dnd-map-builder/crypt-of-bones/scene.json')!.async('string'));
+    expect(scene).toEqual(FoundryExport.scene(mapData, 20, options));
+
+    expect([scene.width, scene.height, scene.grid.size]).toEqual([250, 200, 50]);
+    expect(scene.background.src).toBe('dnd-map-builder/crypt-of-bones/map.png');
+    expect(scene.walls).toHaveLength(9); // 7 traced walls and both doors
+    expect(scene.walls).toContainEqual(expect.objectContaining({ c: [100, 25, 150, 25], door: 1, ds: 2 }));
+    expect(scene.walls).toContainEqual(expect.objectContaining({ c: [175, 100, 175, 150], door: 2, ds: 0 }));
+    expect(scene.lights[0]).toEqual(expect.objectContaining({ x: 125, y: 75 }));
+    expect(scene.lights[0].config).toEqual({ dim: 25, bright: 12.5, color: '#FFA500', alpha: 0.4, angle: 360 });
+    expect([scene.globalLight, scene.darkness]).toEqual([false, 0.5]);
+    expect(scene.tokens).toEqual([
+      expect.objectContaining({ name: 'Ghoul', x: 50, y: 100, hidden: true, disposition: -1, texture: { src: 'icons/svg/skull.svg' } })
+    ]);
+    expect(scene.tiles).toEqual([
+      { x: 50, y: 50, width: 50, height: 50, rotation: 90, z: 3, hidden: false, texture: { src: 'dnd-map-builder/crypt-of-bones/sprites/sheet_0_0.png' } }
+    ]);
+  });
+});
+
+describe('Tiled', () => {
+  it('should round-trip the grid, rooms, doors and placed objects through a Tiled map', () => {
+    const rows = [
+      '##.##',
+      '#...#',
+      '#.~.#',
+      '#####'
+    ];
+    const grid = new Grid(5, 4, 1);
+    rows.forEach((row, y) => row.split('').forEach((c, x) => grid.set(x, y, c === '.' ? 0 : c === '~' ? TerrainCell.Water : 1)));
+    const mapData: MapData = {
+      width: 5,
+      height: 4,
+      grid,
+      seed: 42,
+      terrainType: TerrainType.Dungeon,
+      rooms: [{ x: 1, y: 1, width: 3, height: 2 }],
+      doors: [{ x: 2, y: 0, width: 1, orientation: 'horizontal', type: DoorType.Locked, room: 0 }]
+    };
+    const sheet = {
+      id: 'sheet',
+      name: 'Furniture',
+      imagePath: 'furniture.png',
+      gridWidth: 2,
+      gridHeight: 1,
+      spriteWidth: 32,
+      spriteHeight: 32,
+      sprites: ['sheet_0_0', 'sheet_0_1'].map((id, col) => ({
+        id, name: id, sheetId: 'sheet', x: col * 32, y: 0, width: 32, height: 32,
+        category: ObjectCategory.DungeonFurniture, terrainType: TerrainType.Dungeon
+      }))
+    };
+    const placedObjects = [
+      { id: 'bed', spriteId: 'sheet_0_1', gridX: 2, gridY: 1, scaleX: 2, scaleY: 1, rotation: 90, zIndex: 0 },
+      { id: 'trap', spriteId: 'auto:trap', gridX: 1, gridY: 2, scaleX: 1, scaleY: 1, rotation: 0, zIndex: 1 }
+    ];
+
+    const tiledMap = Tiled.toMap(mapData, placedObjects, [sheet], 20);
+    expect(tiledMap.layers.map(layer => layer.name)).toEqual(['Terrain', 'Rooms', 'Doors', 'Objects']);
+    expect((tiledMap.layers[0].data as number[]).slice(10, 15)).toEqual([2, 1, 3, 1, 2]);
+    expect(tiledMap.tilesets.map(t => [t.name, t.firstgid])).toEqual([['terrain', 1], ['Furniture', 8]]);
+    expect(tiledMap.layers[3].objects![0].gid).toBe(9);
+    expect(tiledMap.layers[3].objects![1].gid).toBeUndefined();
+
+    const imported = Tiled.fromMap(JSON.parse(JSON.stringify(tiledMap)));
+    expect(Array.from(imported.mapData.grid!.cells)).toEqual(Array.from(grid.cells));
+    expect(imported.mapData.rooms).toEqual(mapData.rooms);
+    expect(imported.mapData.doors).toEqual(mapData.doors);
+    expect([imported.mapData.terrainType, imported.mapData.seed]).toEqual([TerrainType.Dungeon, 42]);
+    expect(imported.placedObjects.map(({ id, ...object }) => object)).toEqual(placedObjects.map(({ id, ...object }) => object));
+
+    // Hand edits: a tile painted from the sheet without properties, and base64 tile data
+    const edited = JSON.parse(JSON.stringify(tiledMap));
+    edited.layers[3].objects.push({ id: 99, name: '', type: '', x: 60, y: 40, width: 20, height: 20, rotation: 0, visible: true, gid: 8 });
+    const ids = new Uint8Array(new Uint32Array((edited.layers[0].data as number[]).map((gid, index) => (index === 0 ? 4 : gid))).buffer);
+    edited.layers[0].data = btoa(String.fromCharCode(...Array.from(ids)));
+    edited.layers[0].encoding = 'base64';
+    const reimported = Tiled.fromMap(edited);
+    expect(reimported.mapData.grid!.get(0, 0)).toBe(TerrainCell.Lava);
+    expect(reimported.placedObjects[2]).toEqual(expect.objectContaining({ spriteId: 'sheet_0_0', gridX: 3, gridY: 1 }));
+    expect(() => Tiled.fromMap({ ...edited, infinite: true })).toThrow(/orthogonal/);
+  });
+});
+
+describe('PrintExport', () => {
+  it('should tile a map across pages with overlap and write a PDF page per tile', () => {
+    const options = { paper: 'letter' as const, square: 'inch' as const, dpi: 100, overlap: 1 };
+    const layout = PrintLayout.layout(20, 12, options);
+    expect(layout.landscape).toBe(true); // 10 x 7 squares a page beats 7 x 9 portrait
+    expect([layout.columns, layout.rows]).toEqual([3, 2]);
+    expect(layout.pages.map(page => [page.x, page.y, page.width, page.height])).toEqual([
+      [0, 0, 10, 7], [9, 0, 10, 7], [18, 0, 2, 7],
+      [0, 6, 10, 6], [9, 6, 10, 6], [18, 6, 2, 6]
+    ]);
+    expect(PrintLayout.layout(20, 12, { ...options, paper: 'a4', square: '25mm' }).pages.length).toBe(6);
+
+    const rendered: number[][] = [];
+    const pdf = PrintExport.toPDF(20, 12, options, (page, pixelsPerCell) => {
+      rendered.push([page.x, page.y, pixelsPerCell]);
+      return { jpeg: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), width: page.width * pixelsPerCell, height: page.height * pixelsPerCell };
+    }, 'Crypt');
+    expect(rendered[1]).toEqual([9, 0, 100]);
+
+    const text = String.fromCharCode(...Array.from(pdf.toBytes()));
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/Count 6');
+    expect(text).toContain('/MediaBox [0 0 792 612]');
+    expect(text).toContain('(Crypt  |  Page B3 \\(6 of 6\\)');
+    expect(text).toContain('cells x 18-19, y 6-11');
+
+    // Every cross-reference entry points at its object
+    const xref = Number(text.match(/startxref\n(\d+)/)![1]);
+    const offsets = text.slice(xref).split('\n').slice(3).filter(line => / n $/.test(line)).map(line => Number(line.slice(0, 10)));
+    expect(offsets.length).toBe(3 + 6 * 3);
+    offsets.forEach((offset, index) => expect(text.startsWith(`${index + 1} 0 obj`, offset)).toBe(true));
+  });
+});
+
+describe('SvgExport', () => {
+  it('should trace outlines with holes wound the other way', () => {
+    // Walled 5 x 5 room with a pillar in the middle
+    const wall = (x: number, y: number) => x === 0 || y === 0 || x === 4 || y === 4 || (x === 2 && y === 2);
+    const loops = WallTracer.outlines(5, 5, wall);
+    const area = (loop: { x: number; y: number }[]) =>
+      loop.reduce((sum, p, i) => sum + p.x * loop[(i + 1) % loop.length].y - loop[(i + 1) % loop.length].x * p.y, 0) / 2;
+    expect(loops.map(loop => loop.length)).toEqual([4, 4, 4]);
+    expect(loops.map(area).sort((a, b) => a - b)).toEqual([-9, 1, 25]);
+  });
+
+  it('should draw layered vector maps with merged walls and embedded sprites', () => {
+    const grid = new Grid(8, 6, 1);
+    for (let y = 1; y < 5; y++) {
+      for (let x = 1; x < 7; x++) grid.set(x, y, 0);
+    }
+    const mapData: MapData = {
+      width: 8,
+      height: 6,
+      grid,
+      terrainType: TerrainType.Dungeon,
+      seed: 7,
+      rooms: [{ x: 1, y: 1, width: 6, height: 4 }],
+      doors: [{ x: 7, y: 2, width: 1, orientation: 'vertical', type: DoorType.Secret, room: 0 }],
+      roomKey: [{ number: 1, room: 0, purpose: RoomPurpose.EntranceHall, title: 'Gate', description: '' }]
+    };
+    const placedObjects = [
+      { id: 'a', spriteId: 'sheet_0_0', gridX: 2, gridY: 2, scaleX: 1, scaleY: 1, rotation: 0, zIndex: 1 },
+      { id: 'b', spriteId: 'sheet_0_0', gridX: 4, gridY: 3, scaleX: 2, scaleY: 1, rotation: 90, zIndex: 0 }
+    ];
+
+    const svg = SvgExport.toSVG(mapData, 10, { placedObjects, spriteImages: { sheet_0_0: 'data:image/png;base64,AAAA' } });
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    expect(doc.getElementsByTagName('parsererror').length).toBe(0);
+    expect(Array.from(doc.documentElement.children).filter(el => el.tagName === 'g').map(el => el.id))
+      .toEqual(['floor', 'walls', 'grid', 'trees', 'objects', 'labels']);
+
+    // The wall ring is a single path: the outer edge and the room-shaped hole
+    const walls = doc.getElementById('walls')!;
+    expect(walls.children[0].getAttribute('d')).toBe('M0 0H80V60H0ZM10 10V50H70V10Z');
+    expect(walls.querySelector('.door-secret')).not.toBeNull();
+    expect(Array.from(doc.getElementById('labels')!.getElementsByTagName('text')).map(text => text.textContent)).toEqual(['S', '1']);
+
+    // One symbol per sprite, placed lowest zIndex first
+    expect(doc.getElementsByTagName('symbol').length).toBe(1);
+    const uses = doc.getElementById('objects')!.getElementsByTagName('use');
+    expect(Array.from(uses).map(use => use.getAttribute('transform'))).toEqual(['translate(45 35) rotate(90)', 'translate(25 25)']);
+    expect(uses[0].getAttribute('width')).toBe('20');
+
+    // Player copy: the secret door is drawn as wall
+    const playerSvg = SvgExport.toSVG(mapData, 10, { showSecretDoors: false, showGrid: false });
+    expect(playerSvg).not.toContain('door-secret');
+    expect(playerSvg).not.toContain('>S</text>');
+
+    // Big maps stay small: a walled 150 x 150 hall is a handful of paths, not a shape per cell
+    const hall = new Grid(150, 150, 0);
+    for (let i = 0; i < 150; i++) {
+      hall.set(i, 0, 1);
+      hall.set(0, i, 1);
+      hall.set(i, 149, 1);
+      hall.set(149, i, 1);
+    }
+    const hallSvg = SvgExport.toSVG({ width: 150, height: 150, grid: hall, terrainType: TerrainType.Dungeon, seed: 1 }, 10, { showGrid: false });
+    expect(hallSvg.length).toBeLessThan(20000);
+  });
+});
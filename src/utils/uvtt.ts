@@ -0,0 +1,122 @@
+// Universal VTT export (.dd2vtt / .uvtt)
+// One JSON file with the map image, grid, walls, doors and lights that Foundry (via the
+// Universal Battlemap Importer), Arkenforge, Fantasy Grounds and others import
+
+import { DoorType, MapData, PathPoint, TerrainType } from '../types/generator';
+import { HouseStory } from '../types/enums';
+import { LightingState } from '../types/dm';
+import { SIGHT_BLOCKING, WallTracer } from './walls';
+
+export interface UniversalVttPortal {
+  position: PathPoint; // Centre of the opening
+  bounds: PathPoint[]; // Ends of the line across it
+  rotation: number; // Radians
+  closed: boolean;
+  freestanding: boolean;
+}
+
+export interface UniversalVttLight {
+  position: PathPoint;
+  range: number; // Grid squares
+  intensity: number;
+  color: string; // AARRGGBB hex
+  shadows: boolean;
+}
+
+// Every position is in grid units from the top-left corner of the map
+export interface UniversalVttFile {
+  format: number;
+  resolution: {
+    map_origin: PathPoint;
+    map_size: PathPoint; // Width and height in squares
+    pixels_per_grid: number;
+  };
+  line_of_sight: PathPoint[][];
+  objects_line_of_sight: PathPoint[][];
+  portals: UniversalVttPortal[];
+  environment: {
+    baked_lighting: boolean;
+    ambient_light: string;
+  };
+  lights: UniversalVttLight[];
+  image: string; // Base64 PNG, no data URL prefix
+}
+
+export interface UniversalVttOptions {
+  lighting?: LightingState; // DM lights, positioned in image pixels like the DM canvas
+  floor?: HouseStory; // House floor the image shows; defaults to the ground floor
+}
+
+const FORMAT_VERSION = 0.3;
+
+/**
+ * Builds Universal VTT files.
+ *
+ * Walls come from WallTracer over the terrain's sight-blocking cells. Doors become closed
+ * portals, open archways are left as gaps and secret doors are exported as plain walls so
+ * the importing table doesn't give them away. Lights are converted from image pixels to
+ * grid squares.
+ */
+export class UniversalVTT {
+  static build(mapData: MapData, imageDataUrl: string, pixelsPerGrid: number, options: UniversalVttOptions = {}): UniversalVttFile {
+    const level = mapData.floors?.find(f => f.story === options.floor) ?? mapData;
+    const blocksSight = SIGHT_BLOCKING[mapData.terrainType ?? TerrainType.Dungeon];
+
+    const walls = level.grid ? WallTracer.trace(level.grid, blocksSight) : [];
+    const lineOfSight = walls.map(wall => [wall.from, wall.to]);
+    const portals: UniversalVttPortal[] = [];
+    for (const door of level.doors ?? []) {
+      if (door.type === DoorType.Open) continue;
+      const line = WallTracer.doorLine(door);
+      if (door.type === DoorType.Secret) {
+        lineOfSight.push([line.from, line.to]);
+        continue;
+      }
+      portals.push({
+        position: { x: (line.from.x + line.to.x) / 2, y: (line.from.y + line.to.y) / 2 },
+        bounds: [line.from, line.to],
+        rotation: door.orientation === 'horizontal' ? 0 : Math.PI / 2,
+        closed: true,
+        freestanding: false
+      });
+    }
+
+    const lights = (options.lighting?.lightSources ?? []).map(light => ({
+      position: { x: light.x / pixelsPerGrid, y: light.y / pixelsPerGrid },
+      range: light.radius / pixelsPerGrid,
+      intensity: light.intensity,
+      color: this.color(light.color),
+      shadows: true
+    }));
+
+    console.log(`[UniversalVTT] ${lineOfSight.length} walls, ${portals.length} doors, ${lights.length} lights`);
+    return {
+      format: FORMAT_VERSION,
+      resolution: {
+        map_origin: { x: 0, y: 0 },
+        map_size: { x: mapData.width, y: mapData.height },
+        pixels_per_grid: pixelsPerGrid
+      },
+      line_of_sight: lineOfSight,
+      objects_line_of_sight: [],
+      portals,
+      environment: {
+        baked_lighting: false,
+        ambient_light: 'ffffffff'
+      },
+      lights,
+      image: imageDataUrl.replace(/^data:image\/\w+;base64,/, '')
+    };
+  }
+
+  /**
+   * CSS hex colour (#rgb or #rrggbb) as opaque AARRGGBB; white when missing
+   */
+  private static color(css?: string): string {
+    const hex = (css ?? '').replace('#', '').toLowerCase();
+    if (/^[0-9a-f]{3}$/.test(hex)) {
+      return `ff${hex.split('').map(digit => digit + digit).join('')}`;
+    }
+    return /^[0-9a-f]{6}$/.test(hex) ? `ff${hex}` : 'ffffffff';
+  }
+}
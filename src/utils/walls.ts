@@ -0,0 +1,133 @@
+// Wall tracing for virtual tabletop and vector exports
+// Turns the cell grid into line segments along the edges of sight-blocking cells
+
+import { Door, ForestCell, PathPoint, TerrainCell, TerrainType, TownCell } from '../types/generator';
+import { Grid } from './grid';
+
+// Cells each terrain draws as solid; water, lava and chasms block movement but not sight
+export const SIGHT_BLOCKING: Record<TerrainType, (cell: number) => boolean> = {
+  [TerrainType.Dungeon]: cell => cell === TerrainCell.Wall,
+  [TerrainType.Cave]: cell => cell === TerrainCell.Wall,
+  [TerrainType.House]: cell => cell !== 1,
+  [TerrainType.Forest]: cell => cell === ForestCell.Tree,
+  [TerrainType.Town]: cell => cell === TownCell.Building || cell === TownCell.Wall,
+  [TerrainType.Tileset]: cell => cell === TerrainCell.Wall,
+  [TerrainType.Overworld]: () => false
+};
+
+// A straight wall in grid units; (0, 0) is the top-left corner of the map
+export interface WallSegment {
+  from: PathPoint;
+  to: PathPoint;
+}
+
+/**
+ * Traces the walls between sight-blocking and open cells.
+ *
+ * Algorithm:
+ * 1. Walk every horizontal grid line and mark the cell edges with a blocking
+ *    cell on one side and an open cell on the other
+ * 2. Merge consecutive marked edges into one segment per straight run
+ * 3. Repeat for the vertical grid lines
+ * The map border is left open; the image ends there anyway.
+ */
+export class WallTracer {
+  static trace(grid: Grid, blocksSight: (cell: number) => boolean): WallSegment[] {
+    const blocked = (x: number, y: number) => blocksSight(grid.get(x, y));
+    const walls: WallSegment[] = [];
+
+    // Steps 1-2: Horizontal lines between row y - 1 and row y
+    for (let y = 1; y < grid.height; y++) {
+      let start = -1;
+      for (let x = 0; x <= grid.width; x++) {
+        const edge = x < grid.width && blocked(x, y - 1) !== blocked(x, y);
+        if (edge && start === -1) {
+          start = x;
+        } else if (!edge && start !== -1) {
+          walls.push({ from: { x: start, y }, to: { x, y } });
+          start = -1;
+        }
+      }
+    }
+
+    // Step 3: Vertical lines between column x - 1 and column x
+    for (let x = 1; x < grid.width; x++) {
+      let start = -1;
+      for (let y = 0; y <= grid.height; y++) {
+        const edge = y < grid.height && blocked(x - 1, y) !== blocked(x, y);
+        if (edge && start === -1) {
+          start = y;
+        } else if (!edge && start !== -1) {
+          walls.push({ from: { x, y: start }, to: { x, y } });
+          start = -1;
+        }
+      }
+    }
+
+    return walls;
+  }
+
+  /**
+   * Closed outlines of the cells matching `inside`, as loops of corner points in grid units.
+   *
+   * Algorithm:
+   * 1. Every side of an inside cell that faces an outside cell (or the map border) becomes
+   *    a directed edge, wound clockwise around the inside cells
+   * 2. Chain the edges head to tail into loops; holes come out wound the other way, so the
+   *    loops fill correctly with the default nonzero rule
+   * 3. Drop the corners in the middle of straight runs
+   */
+  static outlines(width: number, height: number, inside: (x: number, y: number) => boolean): PathPoint[][] {
+    const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && inside(x, y);
+    const key = (x: number, y: number) => y * (width + 1) + x;
+    const outgoing = new Map<number, number[]>();
+    const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+      const from = key(x1, y1);
+      if (!outgoing.has(from)) outgoing.set(from, []);
+      outgoing.get(from)!.push(key(x2, y2));
+    };
+
+    // Step 1: Boundary edges
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!filled(x, y)) continue;
+        if (!filled(x, y - 1)) addEdge(x, y, x + 1, y);
+        if (!filled(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+        if (!filled(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+        if (!filled(x - 1, y)) addEdge(x, y + 1, x, y);
+      }
+    }
+
+    // Step 2: Follow the edges until each loop closes
+    const loops: PathPoint[][] = [];
+    outgoing.forEach((_, start) => {
+      while (outgoing.get(start)?.length) {
+        const corners: number[] = [start];
+        let current = outgoing.get(start)!.pop()!;
+        while (current !== start) {
+          corners.push(current);
+          current = outgoing.get(current)!.pop()!;
+        }
+
+        // Step 3: Keep only the corners where the direction turns
+        const points = corners.map(k => ({ x: k % (width + 1), y: Math.floor(k / (width + 1)) }));
+        loops.push(points.filter((point, i) => {
+          const prev = points[(i + points.length - 1) % points.length];
+          const next = points[(i + 1) % points.length];
+          return !((prev.x === point.x && point.x === next.x) || (prev.y === point.y && point.y === next.y));
+        }));
+      }
+    });
+
+    return loops;
+  }
+
+  /**
+   * The line across a door opening, through the middle of its cells
+   */
+  static doorLine(door: Door): WallSegment {
+    return door.orientation === 'horizontal'
+      ? { from: { x: door.x, y: door.y + 0.5 }, to: { x: door.x + door.width, y: door.y + 0.5 } }
+      : { from: { x: door.x + 0.5, y: door.y }, to: { x: door.x + 0.5, y: door.y + door.width } };
+  }
+}
@@ -0,0 +1,501 @@
+// Wave function collapse: tileset loading, adjacency rules and a backtracking solver
+
+import { WfcDirection, WfcFixedTile, WfcTilesetDefinition } from '../types/generator';
+import { Grid } from './grid';
+import { SeededRandom } from './random';
+
+const DIRECTIONS: WfcDirection[] = ['north', 'east', 'south', 'west'];
+const OFFSETS: Record<WfcDirection, [number, number]> = { north: [0, -1], east: [1, 0], south: [0, 1], west: [-1, 0] };
+const OPPOSITE: Record<WfcDirection, WfcDirection> = { north: 'south', east: 'west', south: 'north', west: 'east' };
+
+// Each tile index is stored in one grid byte
+const MAX_TILES = 256;
+
+/**
+ * A tileset tile after rotation, with its pattern resolved to cell codes
+ */
+export interface WfcTile {
+  id: string; // Definition id, with @90/@180/@270 for rotated copies
+  baseId: string;
+  rotation: number;
+  pattern: number[][]; // [y][x] cell codes
+  edges: Record<WfcDirection, string>; // Pattern edge characters, read left to right / top to bottom
+  sockets: Record<WfcDirection, string>;
+  weight: number;
+  sprite?: string;
+}
+
+/**
+ * Validates tileset JSON so artists get a clear message instead of a broken map
+ */
+export class WfcTilesetLoader {
+  /**
+   * Parse and validate a tileset from a JSON string or an already parsed object
+   */
+  static parse(source: string | unknown): WfcTilesetDefinition {
+    const data = typeof source === 'string' ? JSON.parse(source) : source;
+    const fail = (message: string): never => {
+      const id = data && typeof data.id === 'string' ? ` "${data.id}"` : '';
+      throw new Error(`Invalid tileset${id}: ${message}`);
+    };
+
+    if (!data || typeof data !== 'object') fail('expected an object');
+    if (typeof data.id !== 'string' || !data.id) fail('missing id');
+    if (typeof data.name !== 'string' || !data.name) fail('missing name');
+    if (!Number.isInteger(data.tileSize) || data.tileSize < 1) fail('tileSize must be a positive integer');
+    if (!data.legend || typeof data.legend !== 'object' || Object.keys(data.legend).length === 0) fail('missing legend');
+    if (!Array.isArray(data.tiles) || data.tiles.length === 0) fail('no tiles');
+
+    for (const [char, entry] of Object.entries<any>(data.legend)) {
+      if (char.length !== 1) fail(`legend key "${char}" must be a single character`);
+      if (!entry || !Number.isInteger(entry.cell) || entry.cell < 0 || entry.cell > 255) fail(`legend "${char}" needs a cell code from 0 to 255`);
+      if (typeof entry.color !== 'string') fail(`legend "${char}" needs a color`);
+    }
+
+    const ids = new Set<string>();
+    for (const tile of data.tiles) {
+      if (!tile || typeof tile.id !== 'string' || !tile.id) fail('every tile needs an id');
+      if (ids.has(tile.id)) fail(`duplicate tile "${tile.id}"`);
+      ids.add(tile.id);
+
+      if (!Array.isArray(tile.pattern) || tile.pattern.length !== data.tileSize) {
+        fail(`tile "${tile.id}" needs ${data.tileSize} pattern rows`);
+      }
+      for (const row of tile.pattern) {
+        if (typeof row !== 'string' || row.length !== data.tileSize) fail(`tile "${tile.id}" rows must be ${data.tileSize} characters`);
+        for (const char of row) {
+          if (!(char in data.legend)) fail(`tile "${tile.id}" uses "${char}", which is not in the legend`);
+        }
+      }
+      if (tile.weight !== undefined && !(typeof tile.weight === 'number' && tile.weight >= 0)) {
+        fail(`tile "${tile.id}" weight must be zero or more`);
+      }
+      if (tile.sockets !== undefined) {
+        for (const [direction, socket] of Object.entries(tile.sockets)) {
+          if (!DIRECTIONS.includes(direction as WfcDirection) || typeof socket !== 'string') fail(`tile "${tile.id}" has an invalid socket "${direction}"`);
+        }
+      }
+    }
+
+    if (data.border !== undefined && !(typeof data.border === 'string' && data.border in data.legend)) {
+      fail('border must be a legend character');
+    }
+    for (const fixed of data.fixed ?? []) {
+      if (!ids.has(fixed?.tile)) fail(`fixed tile "${fixed?.tile}" is not in the tileset`);
+    }
+
+    return data as WfcTilesetDefinition;
+  }
+}
+
+/**
+ * Compiled adjacency rules: which tiles may sit next to each other in each direction
+ */
+export class WfcRuleset {
+  readonly tileset: WfcTilesetDefinition;
+  readonly tiles: WfcTile[];
+  // compatible[direction][a * count + b] is 1 when b may sit on that side of a
+  private readonly compatible: Record<WfcDirection, Uint8Array>;
+
+  private constructor(tileset: WfcTilesetDefinition, tiles: WfcTile[]) {
+    this.tileset = tileset;
+    this.tiles = tiles;
+
+    const count = tiles.length;
+    this.compatible = { north: new Uint8Array(count * count), east: new Uint8Array(count * count), south: new Uint8Array(count * count), west: new Uint8Array(count * count) };
+    for (const direction of DIRECTIONS) {
+      for (let a = 0; a < count; a++) {
+        for (let b = 0; b < count; b++) {
+          if (tiles[a].sockets[direction] === tiles[b].sockets[OPPOSITE[direction]]) {
+            this.compatible[direction][a * count + b] = 1;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Expand rotations, resolve patterns to cell codes and build the adjacency table
+   */
+  static compile(tileset: WfcTilesetDefinition): WfcRuleset {
+    const tiles: WfcTile[] = [];
+
+    for (const definition of tileset.tiles) {
+      let pattern = definition.pattern.map(row => row.split(''));
+      let sockets = definition.sockets;
+      const seen = new Set<string>();
+      const turns = definition.rotate ? 4 : 1;
+
+      for (let turn = 0; turn < turns; turn++) {
+        // Rotations with the same pattern and sockets add nothing but bias
+        const edges = this.readEdges(pattern);
+        const resolved: Record<WfcDirection, string> = {
+          north: sockets?.north ?? edges.north,
+          east: sockets?.east ?? edges.east,
+          south: sockets?.south ?? edges.south,
+          west: sockets?.west ?? edges.west
+        };
+        const key = pattern.map(row => row.join('')).join('/') + '|' + DIRECTIONS.map(direction => resolved[direction]).join('|');
+
+        if (!seen.has(key)) {
+          seen.add(key);
+          tiles.push({
+            id: turn === 0 ? definition.id : `${definition.id}@${turn * 90}`,
+            baseId: definition.id,
+            rotation: turn * 90,
+            pattern: pattern.map(row => row.map(char => tileset.legend[char].cell)),
+            edges,
+            sockets: resolved,
+            weight: definition.weight ?? 1,
+            sprite: definition.sprite
+          });
+        }
+
+        pattern = this.rotatePattern(pattern);
+        if (sockets) {
+          sockets = { north: sockets.west, east: sockets.north, south: sockets.east, west: sockets.south };
+        }
+      }
+    }
+
+    if (tiles.length > MAX_TILES) {
+      throw new Error(`Tileset "${tileset.id}" has ${tiles.length} tiles after rotation; at most ${MAX_TILES} are supported`);
+    }
+    return new WfcRuleset(tileset, tiles);
+  }
+
+  // True when tile b may sit on the given side of tile a
+  allows(a: number, direction: WfcDirection, b: number): boolean {
+    return this.compatible[direction][a * this.tiles.length + b] === 1;
+  }
+
+  // Adjacency row for tile a: flags for every tile allowed on the given side
+  row(a: number, direction: WfcDirection): Uint8Array {
+    const count = this.tiles.length;
+    return this.compatible[direction].subarray(a * count, (a + 1) * count);
+  }
+
+  private static readEdges(pattern: string[][]): Record<WfcDirection, string> {
+    const last = pattern.length - 1;
+    return {
+      north: pattern[0].join(''),
+      east: pattern.map(row => row[last]).join(''),
+      south: pattern[last].join(''),
+      west: pattern.map(row => row[0]).join('')
+    };
+  }
+
+  // Turn a square pattern 90 degrees clockwise
+  private static rotatePattern(pattern: string[][]): string[][] {
+    const size = pattern.length;
+    return pattern.map((_, y) => pattern.map((__, x) => pattern[size - 1 - x][y]));
+  }
+}
+
+interface Decision {
+  cell: number;
+  tile: number;
+  mark: number; // Trail length before the decision was made
+}
+
+/**
+ * Collapses a grid of tiles so every pair of neighbours obeys the ruleset.
+ *
+ * Picks the lowest-entropy cell, chooses a weighted tile and propagates the
+ * constraint to its neighbours. Every removal is recorded on a trail, so a
+ * contradiction undoes the last decision, bans that tile and carries on
+ * (backtracking). After maxBacktracks the whole collapse restarts.
+ */
+export class WfcSolver {
+  private readonly ruleset: WfcRuleset;
+  private readonly cols: number;
+  private readonly rows: number;
+  private readonly random: SeededRandom;
+  private readonly count: number;
+  private possible: Uint8Array; // cells * count flags
+  private remaining: Uint16Array; // Options left per cell
+  private collapsed = 0; // Cells down to a single option
+  private entropy: Float64Array; // Cached per cell, recomputed when stale
+  private stale: Uint8Array;
+  private noise: Float64Array; // Tie breakers, drawn once per attempt
+  private backtrackCount = 0;
+  private trail: number[] = []; // Removed (cell * count + tile) entries, in order
+  private queue: number[] = [];
+  private queued: Uint8Array;
+
+  constructor(ruleset: WfcRuleset, cols: number, rows: number, random: SeededRandom) {
+    this.ruleset = ruleset;
+    this.cols = cols;
+    this.rows = rows;
+    this.random = random;
+    this.count = ruleset.tiles.length;
+    this.possible = new Uint8Array(cols * rows * this.count);
+    this.remaining = new Uint16Array(cols * rows);
+    this.queued = new Uint8Array(cols * rows);
+    this.entropy = new Float64Array(cols * rows);
+    this.stale = new Uint8Array(cols * rows);
+    this.noise = new Float64Array(cols * rows);
+  }
+
+  // Contradictions undone during the last solve, across all attempts
+  get backtracks(): number {
+    return this.backtrackCount;
+  }
+
+  /**
+   * Solve the grid, returning a tile index per cell.
+   * Throws if the fixed tiles contradict the rules or no layout is found.
+   */
+  solve(
+    fixed: WfcFixedTile[] = [],
+    options: { maxBacktracks?: number; maxAttempts?: number; onProgress?: (fraction: number) => void } = {}
+  ): Grid {
+    const maxBacktracks = options.maxBacktracks ?? 500;
+    const maxAttempts = options.maxAttempts ?? 5;
+    this.backtrackCount = 0;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.reset();
+      this.applyBorder();
+      this.applyFixed(fixed);
+
+      if (this.run(maxBacktracks, options.onProgress)) {
+        const result = new Grid(this.cols, this.rows);
+        for (let cell = 0; cell < result.cells.length; cell++) {
+          result.cells[cell] = this.firstPossible(cell);
+        }
+        return result;
+      }
+      console.log(`[WfcSolver] Attempt ${attempt} ran out of backtracks, restarting`);
+    }
+
+    throw new Error(`Tileset "${this.ruleset.tileset.id}" could not be collapsed after ${maxAttempts} attempts`);
+  }
+
+  private reset(): void {
+    this.possible.fill(1);
+    this.remaining.fill(this.count);
+    this.collapsed = this.count === 1 ? this.remaining.length : 0;
+    this.trail = [];
+    this.queue = [];
+    this.queued.fill(0);
+    this.stale.fill(1);
+    for (let cell = 0; cell < this.noise.length; cell++) {
+      this.noise[cell] = this.random.next() * 1e-6;
+    }
+  }
+
+  /**
+   * Tiles on the map edge must show the border on that side
+   */
+  private applyBorder(): void {
+    const border = this.ruleset.tileset.border;
+    if (border === undefined) return;
+
+    const solid = border.repeat(this.ruleset.tileset.tileSize);
+    for (let y = 0; y < this.rows; y++) {
+      for (let x = 0; x < this.cols; x++) {
+        for (const direction of DIRECTIONS) {
+          const [dx, dy] = OFFSETS[direction];
+          if (this.inBounds(x + dx, y + dy)) continue;
+          const cell = y * this.cols + x;
+          for (let tile = 0; tile < this.count; tile++) {
+            if (this.possible[cell * this.count + tile] && this.ruleset.tiles[tile].edges[direction] !== solid) {
+              this.ban(cell, tile);
+            }
+          }
+        }
+      }
+    }
+    if (!this.propagate()) {
+      throw new Error(`Tileset "${this.ruleset.tileset.id}" has no tiles that fit its border`);
+    }
+  }
+
+  private applyFixed(fixed: WfcFixedTile[]): void {
+    for (const pin of fixed) {
+      const x = this.resolve(pin.x, this.cols);
+      const y = this.resolve(pin.y, this.rows);
+      const tile = this.ruleset.tiles.findIndex(candidate => candidate.id === pin.tile);
+      if (tile < 0) {
+        throw new Error(`Fixed tile "${pin.tile}" is not in tileset "${this.ruleset.tileset.id}"`);
+      }
+      if (!this.inBounds(x, y)) {
+        throw new Error(`Fixed tile "${pin.tile}" at (${pin.x}, ${pin.y}) is outside the ${this.cols}x${this.rows} tile grid`);
+      }
+      if (!this.collapse(y * this.cols + x, tile) || !this.propagate()) {
+        throw new Error(`Fixed tile "${pin.tile}" at (${x}, ${y}) conflicts with the tileset rules`);
+      }
+    }
+  }
+
+  /**
+   * Main observe/propagate loop; returns false when out of backtracks
+   */
+  private run(maxBacktracks: number, onProgress?: (fraction: number) => void): boolean {
+    const decisions: Decision[] = [];
+    let backtracks = 0;
+
+    for (;;) {
+      const cell = this.lowestEntropyCell();
+      if (cell < 0) return true;
+
+      const tile = this.chooseTile(cell);
+      decisions.push({ cell, tile, mark: this.trail.length });
+      onProgress?.(this.collapsed / this.remaining.length);
+
+      let consistent = this.collapse(cell, tile) && this.propagate();
+      while (!consistent) {
+        // Undo the latest decision and rule out the tile it picked
+        const decision = decisions.pop();
+        if (!decision || ++backtracks > maxBacktracks) return false;
+        this.backtrackCount++;
+        this.undo(decision.mark);
+        consistent = this.ban(decision.cell, decision.tile) && this.propagate();
+      }
+    }
+  }
+
+  private lowestEntropyCell(): number {
+    let best = -1;
+    let bestEntropy = Infinity;
+    const tiles = this.ruleset.tiles;
+
+    for (let cell = 0; cell < this.remaining.length; cell++) {
+      if (this.remaining[cell] <= 1) continue;
+
+      if (this.stale[cell]) {
+        let total = 0;
+        let weighted = 0;
+        for (let tile = 0; tile < this.count; tile++) {
+          if (!this.possible[cell * this.count + tile]) continue;
+          const weight = tiles[tile].weight;
+          total += weight;
+          if (weight > 0) weighted += weight * Math.log(weight);
+        }
+        // Shannon entropy of the weighted options, with noise to break ties
+        this.entropy[cell] = (total > 0 ? Math.log(total) - weighted / total : 0) + this.noise[cell];
+        this.stale[cell] = 0;
+      }
+      if (this.entropy[cell] < bestEntropy) {
+        bestEntropy = this.entropy[cell];
+        best = cell;
+      }
+    }
+
+    return best;
+  }
+
+  // Weighted pick among the cell's options; zero-weight tiles only when nothing else is left
+  private chooseTile(cell: number): number {
+    const options: number[] = [];
+    let total = 0;
+    for (let tile = 0; tile < this.count; tile++) {
+      if (this.possible[cell * this.count + tile]) {
+        options.push(tile);
+        total += this.ruleset.tiles[tile].weight;
+      }
+    }
+    if (total <= 0) return this.random.choice(options);
+
+    let roll = this.random.next() * total;
+    for (const tile of options) {
+      roll -= this.ruleset.tiles[tile].weight;
+      if (roll < 0) return tile;
+    }
+    return options[options.length - 1];
+  }
+
+  private collapse(cell: number, tile: number): boolean {
+    if (!this.possible[cell * this.count + tile]) return false;
+    for (let other = 0; other < this.count; other++) {
+      if (other !== tile && this.possible[cell * this.count + other] && !this.ban(cell, other)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Remove a tile from a cell; false when the cell has no options left
+  private ban(cell: number, tile: number): boolean {
+    this.possible[cell * this.count + tile] = 0;
+    if (--this.remaining[cell] === 1) this.collapsed++;
+    this.stale[cell] = 1;
+    this.trail.push(cell * this.count + tile);
+    if (!this.queued[cell]) {
+      this.queued[cell] = 1;
+      this.queue.push(cell);
+    }
+    return this.remaining[cell] > 0;
+  }
+
+  private undo(mark: number): void {
+    while (this.trail.length > mark) {
+      const entry = this.trail.pop()!;
+      const cell = Math.floor(entry / this.count);
+      this.possible[entry] = 1;
+      if (++this.remaining[cell] === 2) this.collapsed--;
+      this.stale[cell] = 1;
+    }
+    this.clearQueue();
+  }
+
+  /**
+   * Remove neighbour options no longer supported by any option of a changed cell
+   */
+  private propagate(): boolean {
+    const supported = new Uint8Array(this.count);
+
+    while (this.queue.length > 0) {
+      const cell = this.queue.pop()!;
+      this.queued[cell] = 0;
+      const x = cell % this.cols;
+      const y = (cell - x) / this.cols;
+
+      for (const direction of DIRECTIONS) {
+        const [dx, dy] = OFFSETS[direction];
+        if (!this.inBounds(x + dx, y + dy)) continue;
+        const neighbor = cell + dy * this.cols + dx;
+
+        supported.fill(0);
+        for (let tile = 0; tile < this.count; tile++) {
+          if (!this.possible[cell * this.count + tile]) continue;
+          const row = this.ruleset.row(tile, direction);
+          for (let other = 0; other < this.count; other++) {
+            supported[other] |= row[other];
+          }
+        }
+
+        for (let other = 0; other < this.count; other++) {
+          if (this.possible[neighbor * this.count + other] && !supported[other] && !this.ban(neighbor, other)) {
+            this.clearQueue();
+            return false;
+          }
+        }
+      }
+    }
+
+    return true;
+  }
+
+  private clearQueue(): void {
+    for (const cell of this.queue) this.queued[cell] = 0;
+    this.queue = [];
+  }
+
+  private firstPossible(cell: number): number {
+    for (let tile = 0; tile < this.count; tile++) {
+      if (this.possible[cell * this.count + tile]) return tile;
+    }
+    return 0;
+  }
+
+  private resolve(coordinate: number | 'center', size: number): number {
+    if (coordinate === 'center') return Math.floor(size / 2);
+    return coordinate < 0 ? size + coordinate : coordinate;
+  }
+
+  private inBounds(x: number, y: number): boolean {
+    return x >= 0 && x < this.cols && y >= 0 && y < this.rows;
+  }
+}
@@ -1,20 +1,54 @@
 import { Workspace, WorkspaceMetadata, WorkspaceMap, WorkspaceSettings, WorkspaceFolder } from '../types/workspace';
 import { ParsedCampaignData } from './campaignParser';
-import { TerrainType } from '../types/generator';
-import { DungeonGenerator } from '../generators/DungeonGenerator';
-import { CaveGenerator } from '../generators/CaveGenerator';
-import { ForestGenerator } from '../generators/ForestGenerator';
-import { HouseGenerator } from '../generators/HouseGenerator';
+import { PointOfInterest, UnsatisfiedRequirement } from '../types/campaign';
+import { TerrainType, TerrainSubtype, PrefabDefinition } from '../types/generator';
+import { GeneratorRegistry } from '../generators';
+import { GridAdapter } from './grid';
+import { RoomTagger } from './roomKey';
+import { MapConstraintSolver } from './constraints';
+import { MapPopulator } from './populate';
+import { PrefabLoader } from './prefabs';
+import { SeededRandom, Seed } from './random';
+import { HouseSubtype, ForestSubtype, TownSubtype, DungeonSubtype, OverworldSubtype } from '../types/enums';
 
 export class WorkspaceManager {
   
   /**
-   * Create a new workspace from parsed campaign data
+   * Create a new workspace from parsed campaign data.
+   * With a generation seed (CampaignSettings.generationSeed) every map is seeded
+   * "<generationSeed>-<position>-<poi-name>", so the same campaign text rebuilds the same
+   * maps (the parser's POI ids are random, so they stay out of the seed).
    */
-  static createWorkspaceFromCampaign(parsedData: ParsedCampaignData): Workspace {
+  static createWorkspaceFromCampaign(parsedData: ParsedCampaignData, generationSeed?: string): Workspace {
     const workspaceId = `workspace_${Date.now()}`;
     const now = new Date();
 
+    // Generate maps from POIs
+    const maps: WorkspaceMap[] = parsedData.pois.map((poi, index) => {
+      const terrainType = this.mapPOITypeToTerrainType(poi.type || 'dungeon');
+      const seed = this.mapSeed(`${index + 1}-${SeededRandom.slug(poi.name || '')}`, poi.name, generationSeed);
+      const { mapData, unsatisfied } = this.generateMapFromPOI(poi, terrainType, seed);
+
+      return {
+        id: poi.id || `map_${index}`,
+        name: poi.name || `Map ${index + 1}`,
+        description: poi.description || '',
+        filePath: `maps/${poi.id || `map_${index}`}.json`,
+        tags: [poi.type || '', poi.category || ''],
+        createdAt: now,
+        lastModified: now,
+        mapData,
+        isArchived: false,
+        category: this.mapPOICategoryToMapCategory(poi.category || 'exploration'),
+        ...(unsatisfied.length > 0 ? { unsatisfiedRequirements: unsatisfied } : {})
+      };
+    });
+
+    // One overworld map for the whole campaign, its markers linking to the maps above
+    if (maps.length > 0) {
+      maps.unshift(this.generateOverworldMap(parsedData, maps, now, this.mapSeed('overworld', `${parsedData.title || 'campaign'} overworld`, generationSeed)));
+    }
+
     const metadata: WorkspaceMetadata = {
       id: workspaceId,
       name: parsedData.title || 'Untitled Campaign',
@@ -33,28 +67,9 @@ export class WorkspaceManager {
         sessionNotes: []
       },
       tags: [],
-      mapCount: parsedData.pois.length
+      mapCount: maps.length
     };
 
-    // Generate maps from POIs
-    const maps: WorkspaceMap[] = parsedData.pois.map((poi, index) => {
-      const terrainType = this.mapPOITypeToTerrainType(poi.type || 'dungeon');
-      const mapData = this.generateMapFromPOI(poi, terrainType);
-
-      return {
-        id: poi.id || `map_${index}`,
-        name: poi.name || `Map ${index + 1}`,
-        description: poi.description || '',
-        filePath: `maps/${poi.id || `map_${index}`}.json`,
-        tags: [poi.type || '', poi.category || ''],
-        createdAt: now,
-        lastModified: now,
-        mapData,
-        isArchived: false,
-        category: this.mapPOICategoryToMapCategory(poi.category || 'exploration')
-      };
-    });
-
     const settings: WorkspaceSettings = {
       defaultGridSize: 32,
       defaultMapDimensions: { width: 100, height: 100 },
@@ -93,12 +108,40 @@ export class WorkspaceManager {
       'tower': TerrainType.House,
       'castle': TerrainType.Dungeon,
       'fortress': TerrainType.Dungeon,
-      'ruins': TerrainType.Dungeon
+      'ruins': TerrainType.Dungeon,
+      'town': TerrainType.Town,
+      'city': TerrainType.Town,
+      'village': TerrainType.Town,
+      'coast': TerrainType.Overworld,
+      'mountain': TerrainType.Overworld,
+      'swamp': TerrainType.Overworld,
+      'desert': TerrainType.Overworld,
+      'wilderness': TerrainType.Overworld
     };
 
     return mapping[poiType.toLowerCase()] || TerrainType.Dungeon;
   }
 
+  /**
+   * Map POI type to a terrain subtype, when the type implies one
+   */
+  private static mapPOITypeToSubtype(poiType: string): TerrainSubtype | undefined {
+    const mapping: Record<string, TerrainSubtype> = {
+      'village': TownSubtype.VILLAGE,
+      'town': TownSubtype.MARKET_DISTRICT,
+      'city': TownSubtype.WALLED_CITY,
+      'coast': OverworldSubtype.COASTLINE,
+      'mountain': OverworldSubtype.HIGHLANDS,
+      'swamp': OverworldSubtype.WETLANDS,
+      'desert': OverworldSubtype.BADLANDS,
+      'ruins': DungeonSubtype.ANCIENT_RUINS,
+      'tower': HouseSubtype.WIZARD_TOWER,
+      'jungle': ForestSubtype.DENSE_FOREST
+    };
+
+    return mapping[poiType.toLowerCase()];
+  }
+
   /**
    * Map POI category to workspace map category
    */
@@ -125,38 +168,74 @@ export class WorkspaceManager {
   }
 
   /**
-   * Generate a map from POI data
+   * Seed string for one map: derived from the campaign's generation seed, or a fresh readable one
+   */
+  private static mapSeed(key: string, name: string | undefined, generationSeed?: string): string {
+    return generationSeed ? `${generationSeed}-${key}` : SeededRandom.named(name || key);
+  }
+
+  /**
+   * Generate a map from POI data, fitted to its map requirements
    */
-  private static generateMapFromPOI(poi: any, terrainType: TerrainType): any {
-    // Use the existing map generator
-    const parameters = {
-      width: poi.mapRequirements?.dimensions?.width || 100,
-      height: poi.mapRequirements?.dimensions?.height || 100,
-      seed: Date.now() + Math.random(),
+  private static generateMapFromPOI(
+    poi: Partial<PointOfInterest>,
+    terrainType: TerrainType,
+    seed: Seed
+  ): { mapData: any; unsatisfied: UnsatisfiedRequirement[] } {
+    const base = {
+      width: 100,
+      height: 100,
+      seed,
       roomCount: 5,
       minRoomSize: 3,
       maxRoomSize: 8,
-      corridorWidth: 1
+      corridorWidth: 1,
+      subtype: this.mapPOITypeToSubtype(poi.type || '')
     };
 
-    let generator;
-    switch (terrainType) {
-      case TerrainType.House:
-        generator = new HouseGenerator(parameters);
-        break;
-      case TerrainType.Forest:
-        generator = new ForestGenerator(parameters);
-        break;
-      case TerrainType.Cave:
-        generator = new CaveGenerator(parameters);
-        break;
-      case TerrainType.Dungeon:
-      default:
-        generator = new DungeonGenerator(parameters);
-        break;
+    // Fall back to a dungeon for terrains without a registered generator
+    const registered = GeneratorRegistry.get(terrainType) ? terrainType : TerrainType.Dungeon;
+    const { mapData, parameters, unsatisfied } = MapConstraintSolver.solve(poi.mapRequirements ?? {}, registered, base);
+
+    // Re-key the rooms with the POI's own encounters, treasures and secrets
+    if (mapData.roomKey) {
+      mapData.roomKey = RoomTagger.tag(mapData, new SeededRandom(parameters.seed), poi);
     }
+    mapData.dmObjects = MapPopulator.populate(mapData, {
+      difficultyRating: poi.difficultyRating,
+      encounters: poi.encounters
+    });
+    return { mapData, unsatisfied };
+  }
 
-    return generator.generate();
+  /**
+   * Generate the campaign's overworld: every POI marked, linked to its own map and joined by roads
+   */
+  private static generateOverworldMap(parsedData: ParsedCampaignData, maps: WorkspaceMap[], now: Date, seed: Seed): WorkspaceMap {
+    const pois = parsedData.pois.map((poi, index) => ({
+      ...poi,
+      id: poi.id || maps[index].id,
+      generatedMapId: maps[index].id
+    }));
+    const mapData = GeneratorRegistry.create(TerrainType.Overworld, {
+      width: 120,
+      height: 90,
+      seed,
+      pois
+    }).generate();
+
+    return {
+      id: 'overworld',
+      name: `${parsedData.title || 'Campaign'} Overworld`,
+      description: 'Region map of every location in the campaign; click a marker to open its map',
+      filePath: 'maps/overworld.json',
+      tags: ['overworld'],
+      createdAt: now,
+      lastModified: now,
+      mapData: mapData as any,
+      isArchived: false,
+      category: 'overworld'
+    };
   }
 
   /**
@@ -201,7 +280,12 @@ export class WorkspaceManager {
       workspace.maps.forEach((map: WorkspaceMap) => {
         map.createdAt = new Date(map.createdAt);
         map.lastModified = new Date(map.lastModified);
+        // Generated maps store their grids as JSON (or nested arrays in older files)
+        map.mapData = GridAdapter.reviveMapData(map.mapData as any);
       });
+      if (workspace.prefabs) {
+        workspace.prefabs = workspace.prefabs.map((prefab: unknown) => PrefabLoader.parse(prefab));
+      }
 
       return workspace;
     } catch (error) {
@@ -333,4 +417,87 @@ export class WorkspaceManager {
       }
     };
   }
+
+  /**
+   * Add prefabs to workspace, replacing any with the same id
+   */
+  static addPrefabsToWorkspace(workspace: Workspace, prefabs: PrefabDefinition[]): Workspace {
+    const ids = new Set(prefabs.map(p => p.id));
+    return {
+      ...workspace,
+      prefabs: [...(workspace.prefabs ?? []).filter(p => !ids.has(p.id)), ...prefabs],
+      metadata: {
+        ...workspace.metadata,
+        lastModified: new Date()
+      }
+    };
+  }
+
+  /**
+   * Remove a prefab from workspace
+   */
+  static removePrefabFromWorkspace(workspace: Workspace, prefabId: string): Workspace {
+    return {
+      ...workspace,
+      prefabs: (workspace.prefabs ?? []).filter(p => p.id !== prefabId),
+      metadata: {
+        ...workspace.metadata,
+        lastModified: new Date()
+      }
+    };
+  }
+
+  /**
+   * Export prefabs as a JSON array others can import
+   */
+  static exportPrefabsToJSON(prefabs: PrefabDefinition[]): string {
+    return JSON.stringify(prefabs, null, 2);
+  }
+
+  /**
+   * Export and download prefabs as JSON file
+   */
+  static downloadPrefabs(prefabs: PrefabDefinition[], filename: string = 'prefabs.json'): void {
+    const json = this.exportPrefabsToJSON(prefabs);
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Import prefabs from JSON: a single prefab or an array of them, each validated
+   */
+  static importPrefabsFromJSON(json: string): PrefabDefinition[] {
+    const data = JSON.parse(json);
+    return (Array.isArray(data) ? data : [data]).map(prefab => PrefabLoader.parse(prefab));
+  }
+
+  /**
+   * Import prefabs from file
+   */
+  static async importPrefabsFromFile(file: File): Promise<PrefabDefinition[]> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+
+      reader.onload = (event) => {
+        try {
+          resolve(this.importPrefabsFromJSON(event.target?.result as string));
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      reader.onerror = () => {
+        reject(new Error('Failed to read file'));
+      };
+
+      reader.readAsText(file);
+    });
+  }
 }
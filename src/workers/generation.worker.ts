@@ -0,0 +1,25 @@
+// Web Worker that runs a registered generator and streams its progress back
+
+/* eslint-disable no-restricted-globals */
+import { MapAnalyzer } from '../utils/analyzer';
+import { MapTransfer } from '../utils/mapTransfer';
+import type { GenerationRequest, GenerationResponse } from '../services/generation';
+
+const post = (response: GenerationResponse, transfer: Transferable[] = []) => {
+  (self as unknown as Worker).postMessage(response, transfer);
+};
+
+self.onmessage = (event: MessageEvent<GenerationRequest>) => {
+  const { terrain, parameters, ranges } = event.data;
+  try {
+    const mapData = MapAnalyzer.generate(terrain, parameters, ranges, undefined, progress => post({ type: 'progress', progress }));
+
+    post({ type: 'progress', progress: { phase: 'complete', progress: 1 } });
+    const { packed, transfer } = MapTransfer.pack(mapData);
+    post({ type: 'complete', mapData: packed }, transfer);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+export {};